@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "public"."messages" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "remote_jid" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "from_me" BOOLEAN NOT NULL DEFAULT false,
+    "sender" TEXT,
+    "participant" TEXT,
+    "is_group" BOOLEAN NOT NULL DEFAULT false,
+    "type" TEXT NOT NULL,
+    "content" TEXT,
+    "caption" TEXT,
+    "media_url" TEXT,
+    "quoted_message" JSONB,
+    "metadata" JSONB,
+    "raw" JSONB,
+    "status" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "edited_at" TIMESTAMP(3),
+    "deleted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "messages_user_id_idx" ON "public"."messages"("user_id");
+
+-- CreateIndex
+CREATE INDEX "messages_connection_id_timestamp_idx" ON "public"."messages"("connection_id", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "messages_remote_jid_idx" ON "public"."messages"("remote_jid");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "messages_connection_id_remote_jid_message_id_key" ON "public"."messages"("connection_id", "remote_jid", "message_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."connections" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT,
+    "pairing_method" TEXT NOT NULL DEFAULT 'qr',
+    "phone_number" TEXT,
+    "number" TEXT,
+    "profile_picture" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'connecting',
+    "should_be_connected" BOOLEAN NOT NULL DEFAULT true,
+    "last_disconnect_reason" INTEGER,
+    "last_disconnect_at" TIMESTAMP(3),
+    "last_connected_at" TIMESTAMP(3),
+    "last_seen_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "connections_user_id_idx" ON "public"."connections"("user_id");
+
+-- CreateIndex
+CREATE INDEX "connections_should_be_connected_idx" ON "public"."connections"("should_be_connected");
+
+-- AddForeignKey
+ALTER TABLE "public"."connections" ADD CONSTRAINT "connections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
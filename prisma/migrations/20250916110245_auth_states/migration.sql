@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."auth_states" (
+    "id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "key_id" TEXT NOT NULL DEFAULT '',
+    "value" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auth_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auth_states_connection_id_idx" ON "public"."auth_states"("connection_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auth_states_connection_id_type_key_id_key" ON "public"."auth_states"("connection_id", "type", "key_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."auth_states" ADD CONSTRAINT "auth_states_connection_id_fkey" FOREIGN KEY ("connection_id") REFERENCES "public"."connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "public"."connections" ADD COLUMN     "daily_limit" INTEGER,
+ADD COLUMN     "jitter_max_ms" INTEGER NOT NULL DEFAULT 5000,
+ADD COLUMN     "jitter_min_ms" INTEGER NOT NULL DEFAULT 1000,
+ADD COLUMN     "messages_per_minute" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN     "quiet_hours_end" TEXT,
+ADD COLUMN     "quiet_hours_start" TEXT,
+ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- CreateTable
+CREATE TABLE "public"."message_jobs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "wa_jid" TEXT,
+    "wa_message_id" TEXT,
+    "scheduled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_jobs_user_id_idx" ON "public"."message_jobs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "message_jobs_connection_id_status_scheduled_at_idx" ON "public"."message_jobs"("connection_id", "status", "scheduled_at");
+
+-- CreateIndex
+CREATE INDEX "message_jobs_connection_id_sent_at_idx" ON "public"."message_jobs"("connection_id", "sent_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_jobs" ADD CONSTRAINT "message_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_jobs" ADD CONSTRAINT "message_jobs_connection_id_fkey" FOREIGN KEY ("connection_id") REFERENCES "public"."connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "public"."campaigns" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "connection_ids" TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "pause_reason" TEXT,
+    "cost_per_message" DECIMAL(10,2) NOT NULL,
+    "total_recipients" INTEGER NOT NULL DEFAULT 0,
+    "scheduled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."campaign_recipients" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "contact_id" TEXT,
+    "phone_number" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "connection_id" TEXT,
+    "job_id" TEXT,
+    "wa_message_id" TEXT,
+    "error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaign_recipients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "campaigns_user_id_idx" ON "public"."campaigns"("user_id");
+
+-- CreateIndex
+CREATE INDEX "campaigns_status_scheduled_at_idx" ON "public"."campaigns"("status", "scheduled_at");
+
+-- CreateIndex
+CREATE INDEX "campaign_recipients_campaign_id_status_idx" ON "public"."campaign_recipients"("campaign_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_recipients_campaign_id_phone_number_key" ON "public"."campaign_recipients"("campaign_id", "phone_number");
+
+-- AddForeignKey
+ALTER TABLE "public"."campaigns" ADD CONSTRAINT "campaigns_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."campaign_recipients" ADD CONSTRAINT "campaign_recipients_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."campaign_recipients" ADD CONSTRAINT "campaign_recipients_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
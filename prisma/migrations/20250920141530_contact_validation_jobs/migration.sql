@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."contact_validation_jobs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "exists_count" INTEGER NOT NULL DEFAULT 0,
+    "not_exists_count" INTEGER NOT NULL DEFAULT 0,
+    "business_count" INTEGER NOT NULL DEFAULT 0,
+    "failed_count" INTEGER NOT NULL DEFAULT 0,
+    "cost" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "last_contact_id" TEXT,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_validation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contact_validation_jobs_user_id_idx" ON "public"."contact_validation_jobs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "contact_validation_jobs_status_created_at_idx" ON "public"."contact_validation_jobs"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_validation_jobs" ADD CONSTRAINT "contact_validation_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_validation_jobs" ADD CONSTRAINT "contact_validation_jobs_connection_id_fkey" FOREIGN KEY ("connection_id") REFERENCES "public"."connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "media_auto_download" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "media_max_size_mb" INTEGER NOT NULL DEFAULT 16,
+ADD COLUMN     "media_allowed_types" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "media_storage_key" TEXT,
+ADD COLUMN     "media_size" INTEGER;
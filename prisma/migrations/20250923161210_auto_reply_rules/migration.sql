@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "public"."auto_reply_rules" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "conditions" JSONB NOT NULL,
+    "action_type" TEXT NOT NULL,
+    "action_config" JSONB NOT NULL,
+    "cooldown_seconds" INTEGER NOT NULL DEFAULT 300,
+    "stop_processing" BOOLEAN NOT NULL DEFAULT true,
+    "trigger_count" INTEGER NOT NULL DEFAULT 0,
+    "last_triggered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auto_reply_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."auto_reply_executions" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "remote_jid" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "error" TEXT,
+    "executed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auto_reply_executions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auto_reply_rules_user_id_idx" ON "public"."auto_reply_rules"("user_id");
+
+-- CreateIndex
+CREATE INDEX "auto_reply_rules_connection_id_active_priority_idx" ON "public"."auto_reply_rules"("connection_id", "active", "priority");
+
+-- CreateIndex
+CREATE INDEX "auto_reply_executions_rule_id_remote_jid_executed_at_idx" ON "public"."auto_reply_executions"("rule_id", "remote_jid", "executed_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_reply_rules" ADD CONSTRAINT "auto_reply_rules_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_reply_rules" ADD CONSTRAINT "auto_reply_rules_connection_id_fkey" FOREIGN KEY ("connection_id") REFERENCES "public"."connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_reply_executions" ADD CONSTRAINT "auto_reply_executions_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "public"."auto_reply_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,212 @@
+-- CreateTable
+CREATE TABLE "public"."organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "balance" DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "media_auto_download" BOOLEAN NOT NULL DEFAULT false,
+    "media_max_size_mb" INTEGER NOT NULL DEFAULT 16,
+    "media_allowed_types" TEXT[] DEFAULT ARRAY[]::TEXT[],
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."organization_members" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'operator',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."organization_invites" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "invited_by_id" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "organization_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- MigrateData: cada usuário ganha uma organização pessoal com o mesmo id, saldo e limites de mídia
+INSERT INTO "public"."organizations" ("id", "name", "balance", "created_at", "updated_at", "media_auto_download", "media_max_size_mb", "media_allowed_types")
+SELECT "id", "name", "balance", "createdAt", CURRENT_TIMESTAMP, "media_auto_download", "media_max_size_mb", "media_allowed_types"
+FROM "public"."users";
+
+-- MigrateData: o usuário administra a própria organização, salvo quando tinha um papel restrito
+INSERT INTO "public"."organization_members" ("id", "organization_id", "user_id", "role", "updated_at")
+SELECT gen_random_uuid()::TEXT, "id", "id",
+    CASE WHEN "role" IN ('operator', 'billing', 'read-only') THEN "role" ELSE 'admin' END,
+    CURRENT_TIMESTAMP
+FROM "public"."users";
+
+-- MigrateData: o papel do usuário passa a ser o papel na plataforma
+UPDATE "public"."users" SET "role" = 'user' WHERE "role" <> 'admin';
+
+-- AlterTable
+ALTER TABLE "public"."users" DROP COLUMN "balance",
+DROP COLUMN "media_auto_download",
+DROP COLUMN "media_max_size_mb",
+DROP COLUMN "media_allowed_types";
+
+-- DropForeignKey
+ALTER TABLE "public"."transactions" DROP CONSTRAINT "transactions_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."transactions" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."transactions_user_id_idx" RENAME TO "transactions_organization_id_idx";
+
+-- DropForeignKey
+ALTER TABLE "public"."contacts" DROP CONSTRAINT "contacts_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."contacts" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."contacts_user_id_idx" RENAME TO "contacts_organization_id_idx";
+
+-- RenameIndex
+ALTER INDEX "public"."contacts_user_id_phone_number_key" RENAME TO "contacts_organization_id_phone_number_key";
+
+-- DropForeignKey
+ALTER TABLE "public"."messages" DROP CONSTRAINT "messages_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."messages" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."messages_user_id_idx" RENAME TO "messages_organization_id_idx";
+
+-- DropForeignKey
+ALTER TABLE "public"."webhooks" DROP CONSTRAINT "webhooks_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."webhooks" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."webhooks_user_id_idx" RENAME TO "webhooks_organization_id_idx";
+
+-- DropForeignKey
+ALTER TABLE "public"."connections" DROP CONSTRAINT "connections_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."connections" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."connections_user_id_idx" RENAME TO "connections_organization_id_idx";
+
+-- DropForeignKey
+ALTER TABLE "public"."message_jobs" DROP CONSTRAINT "message_jobs_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."message_jobs" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."message_jobs_user_id_idx" RENAME TO "message_jobs_organization_id_idx";
+
+-- DropForeignKey
+ALTER TABLE "public"."campaigns" DROP CONSTRAINT "campaigns_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."campaigns" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."campaigns_user_id_idx" RENAME TO "campaigns_organization_id_idx";
+
+-- DropForeignKey
+ALTER TABLE "public"."contact_validation_jobs" DROP CONSTRAINT "contact_validation_jobs_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."contact_validation_jobs" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."contact_validation_jobs_user_id_idx" RENAME TO "contact_validation_jobs_organization_id_idx";
+
+-- DropForeignKey
+ALTER TABLE "public"."auto_reply_rules" DROP CONSTRAINT "auto_reply_rules_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."auto_reply_rules" RENAME COLUMN "user_id" TO "organization_id";
+
+-- RenameIndex
+ALTER INDEX "public"."auto_reply_rules_user_id_idx" RENAME TO "auto_reply_rules_organization_id_idx";
+
+-- AlterTable
+ALTER TABLE "public"."api_keys" ADD COLUMN     "organization_id" TEXT;
+
+UPDATE "public"."api_keys" SET "organization_id" = "user_id";
+
+ALTER TABLE "public"."api_keys" ALTER COLUMN "organization_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_members_organization_id_user_id_key" ON "public"."organization_members"("organization_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "organization_members_user_id_idx" ON "public"."organization_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_invites_token_hash_key" ON "public"."organization_invites"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "organization_invites_organization_id_idx" ON "public"."organization_invites"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "organization_invites_email_idx" ON "public"."organization_invites"("email");
+
+-- CreateIndex
+CREATE INDEX "api_keys_organization_id_idx" ON "public"."api_keys"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."organization_members" ADD CONSTRAINT "organization_members_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."organization_members" ADD CONSTRAINT "organization_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."organization_invites" ADD CONSTRAINT "organization_invites_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."organization_invites" ADD CONSTRAINT "organization_invites_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."api_keys" ADD CONSTRAINT "api_keys_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contacts" ADD CONSTRAINT "contacts_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."webhooks" ADD CONSTRAINT "webhooks_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."connections" ADD CONSTRAINT "connections_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_jobs" ADD CONSTRAINT "message_jobs_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."campaigns" ADD CONSTRAINT "campaigns_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_validation_jobs" ADD CONSTRAINT "contact_validation_jobs_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_reply_rules" ADD CONSTRAINT "auto_reply_rules_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
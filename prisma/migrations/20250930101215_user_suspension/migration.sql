@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "suspended_at" TIMESTAMP(3),
+ADD COLUMN     "suspended_reason" TEXT;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "public"."prices" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "organization_id" TEXT,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_by_id" TEXT,
+    "valid_from" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "valid_until" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prices_pkey" PRIMARY KEY ("id")
+);
+
+-- Preços padrão (valores que antes estavam fixos no código)
+INSERT INTO "public"."prices" ("id", "action", "amount")
+VALUES
+    (gen_random_uuid()::text, 'connection', 2.00),
+    (gen_random_uuid()::text, 'validation', 0.10),
+    (gen_random_uuid()::text, 'text_message', 0.00),
+    (gen_random_uuid()::text, 'media_message', 0.00),
+    (gen_random_uuid()::text, 'campaign_recipient', 0.05),
+    (gen_random_uuid()::text, 'enrichment', 0.00);
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN "price_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."campaigns" ADD COLUMN "price_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."message_jobs" ADD COLUMN "cost" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "prices_action_organization_id_valid_until_idx" ON "public"."prices"("action", "organization_id", "valid_until");
+
+-- AddForeignKey
+ALTER TABLE "public"."prices" ADD CONSTRAINT "prices_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_price_id_fkey" FOREIGN KEY ("price_id") REFERENCES "public"."prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."campaigns" ADD CONSTRAINT "campaigns_price_id_fkey" FOREIGN KEY ("price_id") REFERENCES "public"."prices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "public"."plans" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "monthly_price" DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+    "connections_quota" INTEGER NOT NULL DEFAULT 0,
+    "validations_quota" INTEGER NOT NULL DEFAULT 0,
+    "messages_quota" INTEGER NOT NULL DEFAULT 0,
+    "max_connections" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."plan_periods" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "plan_id" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "connections_quota" INTEGER NOT NULL,
+    "validations_quota" INTEGER NOT NULL,
+    "messages_quota" INTEGER NOT NULL,
+    "connections_used" INTEGER NOT NULL DEFAULT 0,
+    "validations_used" INTEGER NOT NULL DEFAULT 0,
+    "messages_used" INTEGER NOT NULL DEFAULT 0,
+    "transaction_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "plan_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."organizations" ADD COLUMN "plan_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."prices" ADD COLUMN "plan_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."message_jobs" ADD COLUMN "plan_period_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plans_name_key" ON "public"."plans"("name");
+
+-- CreateIndex
+CREATE INDEX "plan_periods_organization_id_ends_at_idx" ON "public"."plan_periods"("organization_id", "ends_at");
+
+-- CreateIndex
+CREATE INDEX "prices_action_plan_id_valid_until_idx" ON "public"."prices"("action", "plan_id", "valid_until");
+
+-- AddForeignKey
+ALTER TABLE "public"."organizations" ADD CONSTRAINT "organizations_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prices" ADD CONSTRAINT "prices_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."plan_periods" ADD CONSTRAINT "plan_periods_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."plan_periods" ADD CONSTRAINT "plan_periods_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
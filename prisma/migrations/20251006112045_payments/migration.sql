@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "public"."payments" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "package_id" TEXT NOT NULL,
+    "method" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_payment_id" TEXT,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "credits" DECIMAL(10,2) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "pix_code" TEXT,
+    "pix_qr_code" TEXT,
+    "checkout_url" TEXT,
+    "failure_reason" TEXT,
+    "transaction_id" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "paid_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_transaction_id_key" ON "public"."payments"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "payments_organization_id_created_at_idx" ON "public"."payments"("organization_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_provider_provider_payment_id_key" ON "public"."payments"("provider", "provider_payment_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
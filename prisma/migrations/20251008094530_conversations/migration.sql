@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "public"."conversations" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "remote_jid" TEXT NOT NULL,
+    "is_group" BOOLEAN NOT NULL DEFAULT false,
+    "name" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "assigned_to_id" TEXT,
+    "unread_count" INTEGER NOT NULL DEFAULT 0,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "last_message_at" TIMESTAMP(3),
+    "last_message_preview" TEXT,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."conversation_notes" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "author_id" TEXT,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversation_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversations_connection_id_remote_jid_key" ON "public"."conversations"("connection_id", "remote_jid");
+
+-- CreateIndex
+CREATE INDEX "conversations_organization_id_status_last_message_at_idx" ON "public"."conversations"("organization_id", "status", "last_message_at");
+
+-- CreateIndex
+CREATE INDEX "conversations_assigned_to_id_idx" ON "public"."conversations"("assigned_to_id");
+
+-- CreateIndex
+CREATE INDEX "conversation_notes_conversation_id_created_at_idx" ON "public"."conversation_notes"("conversation_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."conversations" ADD CONSTRAINT "conversations_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversations" ADD CONSTRAINT "conversations_assigned_to_id_fkey" FOREIGN KEY ("assigned_to_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversation_notes" ADD CONSTRAINT "conversation_notes_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversation_notes" ADD CONSTRAINT "conversation_notes_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
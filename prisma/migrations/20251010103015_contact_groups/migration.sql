@@ -0,0 +1,123 @@
+-- CreateTable
+CREATE TABLE "public"."contact_tags" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."contact_tag_assignments" (
+    "id" TEXT NOT NULL,
+    "contact_id" TEXT NOT NULL,
+    "tag_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_tag_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."contact_lists" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."contact_list_members" (
+    "id" TEXT NOT NULL,
+    "list_id" TEXT NOT NULL,
+    "contact_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_list_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."contact_segments" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "filters" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_tags_organization_id_name_key" ON "public"."contact_tags"("organization_id", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_tag_assignments_contact_id_tag_id_key" ON "public"."contact_tag_assignments"("contact_id", "tag_id");
+
+-- CreateIndex
+CREATE INDEX "contact_tag_assignments_tag_id_idx" ON "public"."contact_tag_assignments"("tag_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_lists_organization_id_name_key" ON "public"."contact_lists"("organization_id", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_list_members_list_id_contact_id_key" ON "public"."contact_list_members"("list_id", "contact_id");
+
+-- CreateIndex
+CREATE INDEX "contact_list_members_contact_id_idx" ON "public"."contact_list_members"("contact_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_segments_organization_id_name_key" ON "public"."contact_segments"("organization_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_tags" ADD CONSTRAINT "contact_tags_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_tag_assignments" ADD CONSTRAINT "contact_tag_assignments_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_tag_assignments" ADD CONSTRAINT "contact_tag_assignments_tag_id_fkey" FOREIGN KEY ("tag_id") REFERENCES "public"."contact_tags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_lists" ADD CONSTRAINT "contact_lists_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_list_members" ADD CONSTRAINT "contact_list_members_list_id_fkey" FOREIGN KEY ("list_id") REFERENCES "public"."contact_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_list_members" ADD CONSTRAINT "contact_list_members_contact_id_fkey" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contact_segments" ADD CONSTRAINT "contact_segments_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData: as tags livres de metadata.tags viram tags da organização
+INSERT INTO "public"."contact_tags" ("id", "organization_id", "name", "updated_at")
+SELECT gen_random_uuid()::TEXT, "organization_id", "name", CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT c."organization_id", lower(btrim(t."value")) AS "name"
+    FROM "public"."contacts" c
+    CROSS JOIN LATERAL jsonb_array_elements_text(c."metadata"->'tags') AS t("value")
+    WHERE jsonb_typeof(c."metadata"->'tags') = 'array'
+) AS "tags"
+WHERE "name" <> '';
+
+-- MigrateData: cada contato recebe as tags que tinha em metadata.tags
+INSERT INTO "public"."contact_tag_assignments" ("id", "contact_id", "tag_id")
+SELECT gen_random_uuid()::TEXT, "contact_id", "tag_id"
+FROM (
+    SELECT DISTINCT c."id" AS "contact_id", ct."id" AS "tag_id"
+    FROM "public"."contacts" c
+    CROSS JOIN LATERAL jsonb_array_elements_text(c."metadata"->'tags') AS t("value")
+    JOIN "public"."contact_tags" ct ON ct."organization_id" = c."organization_id" AND ct."name" = lower(btrim(t."value"))
+    WHERE jsonb_typeof(c."metadata"->'tags') = 'array'
+) AS "assignments";
+
+-- MigrateData: metadata.tags deixa de ser usado
+UPDATE "public"."contacts" SET "metadata" = "metadata" - 'tags' WHERE jsonb_typeof("metadata"->'tags') = 'array';
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "default_country" TEXT NOT NULL DEFAULT 'BR';
+
+-- AlterTable
+ALTER TABLE "public"."contacts" ADD COLUMN     "country" TEXT;
+
+-- MigrateData: números já gravados com DDI 55 e tamanho de telefone brasileiro
+UPDATE "public"."contacts"
+SET "country" = 'BR'
+WHERE "phone_number" ~ '^55[0-9]{10,11}$';
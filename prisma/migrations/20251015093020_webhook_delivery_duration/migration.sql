@@ -0,0 +1,3 @@
+-- AlterTable: o corpo da resposta deixa de ser guardado; fica o tempo de resposta
+ALTER TABLE "public"."webhook_deliveries" DROP COLUMN "response_body",
+ADD COLUMN     "duration_ms" INTEGER;
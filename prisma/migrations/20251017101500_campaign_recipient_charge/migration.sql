@@ -0,0 +1,3 @@
+-- AlterTable: cobrança de cada destinatário, para estornar créditos e devolver a franquia
+ALTER TABLE "public"."campaign_recipients" ADD COLUMN     "cost" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "plan_period_id" TEXT;
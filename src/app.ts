@@ -10,17 +10,40 @@ const app = express();
 app.use(cors({
   origin: '*',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key', 'X-Organization-Id']
 }));
 
+// Notificações dos gateways de pagamento: o corpo bruto é necessário para validar a assinatura
+app.use('/api/payments/webhooks', express.raw({ type: '*/*', limit: '1mb' }));
+
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
+// Campos que não podem aparecer nos logs (refreshToken, password, newPassword, webhookSecret...)
+const SENSITIVE_FIELD = /token|password|secret/i;
+
+function redactSensitive(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSensitive);
+  }
+
+  if (!value || typeof value !== 'object' || Buffer.isBuffer(value)) {
+    return value;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    SENSITIVE_FIELD.test(key) ? '[redacted]' : redactSensitive(field)
+  ]));
+}
+
 // Logging middleware
 app.use((req, res, next) => {
-  logger.info(`${req.method} ${req.url}`, {
-    body: req.method !== 'GET' ? req.body : undefined,
-    query: req.query,
+  // Não registrar tokens enviados por query string (ex.: stream SSE)
+  const { token, ...query } = req.query;
+  logger.info(`${req.method} ${token ? req.path : req.url}`, {
+    body: req.method !== 'GET' ? redactSensitive(req.body) : undefined,
+    query: token ? { ...query, token: '[redacted]' } : req.query,
     params: req.params
   });
   next();
@@ -0,0 +1,542 @@
+import { Request, Response } from 'express';
+import { UserService } from '../services/auth/UserService';
+import { AdminService } from '../services/admin/AdminService';
+import { BalanceService } from '../services/monetization/BalanceService';
+import { PricingService } from '../services/monetization/PricingService';
+import { PlanService } from '../services/monetization/PlanService';
+import { ApiResponse } from '../types/types';
+import { AdminUserFilters, SuspendUserRequest } from '../types/admin';
+import { BILLABLE_ACTIONS, BillableAction, UpdatePriceRequest } from '../types/monetization';
+import { CreatePlanRequest, UpdatePlanRequest } from '../types/plans';
+import { PLATFORM_PERMISSIONS, PLATFORM_ROLES, ROLE_PERMISSIONS, UpdateUserRoleRequest } from '../types/permissions';
+import logger from '../utils/logger';
+
+export class AdminController {
+  private userService: UserService;
+  private adminService: AdminService;
+  private balanceService: BalanceService;
+  private pricingService: PricingService;
+  private planService: PlanService;
+
+  constructor() {
+    this.userService = new UserService();
+    this.adminService = new AdminService();
+    this.balanceService = new BalanceService();
+    this.pricingService = new PricingService();
+    this.planService = new PlanService();
+  }
+
+  getRoles = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    res.json({
+      success: true,
+      data: {
+        organizationRoles: Object.entries(ROLE_PERMISSIONS).map(([role, permissions]) => ({ role, permissions })),
+        platformRoles: PLATFORM_ROLES,
+        platformPermissions: PLATFORM_PERMISSIONS
+      },
+      message: 'Papéis recuperados com sucesso'
+    });
+  };
+
+  updateUserRole = async (
+    req: Request<{ userId: string }, ApiResponse, UpdateUserRoleRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
+
+      if (!role) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça o role'
+        });
+        return;
+      }
+
+      const user = await this.userService.updateRole(userId, role);
+
+      res.json({
+        success: true,
+        data: user,
+        message: 'Papel do usuário atualizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar papel do usuário:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar papel'
+      });
+    }
+  };
+
+  getUsers = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const filters: AdminUserFilters = {
+        search: req.query.search as string,
+        status: req.query.status as 'active' | 'suspended'
+      };
+
+      const result = await this.adminService.getUsers(page, limit, filters);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Usuários recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar usuários:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar usuários'
+      });
+    }
+  };
+
+  getUser = async (
+    req: Request<{ userId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const user = await this.adminService.getUserById(req.params.userId);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'Usuário não encontrado',
+          message: 'O usuário especificado não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: user,
+        message: 'Usuário recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter usuário:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar usuário'
+      });
+    }
+  };
+
+  suspendUser = async (
+    req: Request<{ userId: string }, ApiResponse, SuspendUserRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const adminUserId = req.user?.userId;
+
+      if (!adminUserId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const user = await this.adminService.suspendUser(adminUserId, req.params.userId, req.body?.reason);
+
+      res.json({
+        success: true,
+        data: user,
+        message: 'Usuário suspenso com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao suspender usuário:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao suspender usuário'
+      });
+    }
+  };
+
+  reactivateUser = async (
+    req: Request<{ userId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const user = await this.adminService.reactivateUser(req.params.userId);
+
+      res.json({
+        success: true,
+        data: user,
+        message: 'Usuário reativado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao reativar usuário:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao reativar usuário'
+      });
+    }
+  };
+
+  getOrganizationStats = async (
+    req: Request<{ organizationId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const stats = await this.balanceService.getOrganizationStats(req.params.organizationId);
+
+      res.json({
+        success: true,
+        data: { stats },
+        message: 'Estatísticas recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter estatísticas da organização:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar estatísticas'
+      });
+    }
+  };
+
+  getConnections = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const connections = await this.adminService.getConnections({
+        status: req.query.status as string,
+        organizationId: req.query.organizationId as string
+      });
+
+      res.json({
+        success: true,
+        data: connections,
+        message: `${connections.length} conexões ativas em memória`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar conexões:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar conexões'
+      });
+    }
+  };
+
+  disconnectConnection = async (
+    req: Request<{ connectionId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      await this.adminService.disconnectConnection(req.params.connectionId);
+
+      res.json({
+        success: true,
+        message: 'Conexão desconectada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao desconectar conexão:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao desconectar conexão'
+      });
+    }
+  };
+
+  restartConnection = async (
+    req: Request<{ connectionId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const result = await this.adminService.restartConnection(req.params.connectionId);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Conexão reiniciada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao reiniciar conexão:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao reiniciar conexão'
+      });
+    }
+  };
+
+  getTransactionSummary = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const startDate = req.query.startDate as string | undefined;
+      const endDate = req.query.endDate as string | undefined;
+      const invalidDate = [startDate, endDate].find(date => date && isNaN(new Date(date).getTime()));
+
+      if (invalidDate) {
+        res.status(400).json({
+          success: false,
+          error: `Data inválida: ${invalidDate}`,
+          message: 'startDate e endDate devem ser datas ISO 8601'
+        });
+        return;
+      }
+
+      const summary = await this.adminService.getTransactionSummary(startDate, endDate);
+
+      res.json({
+        success: true,
+        data: summary,
+        message: 'Resumo de transações recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter resumo de transações:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar resumo de transações'
+      });
+    }
+  };
+
+  getPrices = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const prices = await this.pricingService.getCurrentPrices({
+        organizationId: req.query.organizationId as string,
+        planId: req.query.planId as string
+      });
+
+      res.json({
+        success: true,
+        data: prices,
+        message: 'Tabela de preços recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter tabela de preços:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar tabela de preços'
+      });
+    }
+  };
+
+  getPriceHistory = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const prices = await this.pricingService.getPriceHistory({
+        action: req.query.action as BillableAction,
+        organizationId: req.query.organizationId as string,
+        planId: req.query.planId as string
+      });
+
+      res.json({
+        success: true,
+        data: prices,
+        message: 'Histórico de preços recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter histórico de preços:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar histórico de preços'
+      });
+    }
+  };
+
+  updatePrice = async (
+    req: Request<{ action: string }, ApiResponse, UpdatePriceRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const adminUserId = req.user?.userId;
+
+      if (!adminUserId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const action = req.params.action as BillableAction;
+
+      if (!BILLABLE_ACTIONS.includes(action)) {
+        res.status(400).json({
+          success: false,
+          error: `Ação inválida. Use: ${BILLABLE_ACTIONS.join(', ')}`,
+          message: 'Falha ao atualizar preço'
+        });
+        return;
+      }
+
+      const price = await this.pricingService.setPrice(adminUserId, action, req.body.amount, {
+        organizationId: req.body.organizationId,
+        planId: req.body.planId
+      });
+
+      res.json({
+        success: true,
+        data: price,
+        message: `Preço de ${action} atualizado para a versão ${price.version}`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar preço:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar preço'
+      });
+    }
+  };
+
+  removeOrganizationPrice = async (
+    req: Request<{ action: string; organizationId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      await this.pricingService.removePrice(req.params.action as BillableAction, { organizationId: req.params.organizationId });
+
+      res.json({
+        success: true,
+        message: 'Organização voltou a usar o preço do plano ou o padrão'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover preço da organização:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover preço da organização'
+      });
+    }
+  };
+
+  removePlanPrice = async (
+    req: Request<{ action: string; planId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      await this.pricingService.removePrice(req.params.action as BillableAction, { planId: req.params.planId });
+
+      res.json({
+        success: true,
+        message: 'Assinantes do plano voltaram a usar o preço padrão'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover preço do plano:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover preço do plano'
+      });
+    }
+  };
+
+  getPlans = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const plans = await this.planService.getPlans(true);
+
+      res.json({
+        success: true,
+        data: plans,
+        message: 'Planos recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar planos:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar planos'
+      });
+    }
+  };
+
+  createPlan = async (
+    req: Request<{}, ApiResponse, CreatePlanRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const plan = await this.planService.createPlan(req.body);
+
+      res.status(201).json({
+        success: true,
+        data: plan,
+        message: 'Plano criado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar plano:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar plano'
+      });
+    }
+  };
+
+  updatePlan = async (
+    req: Request<{ planId: string }, ApiResponse, UpdatePlanRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const plan = await this.planService.updatePlan(req.params.planId, req.body);
+
+      res.json({
+        success: true,
+        data: plan,
+        message: 'Plano atualizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar plano:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar plano'
+      });
+    }
+  };
+}
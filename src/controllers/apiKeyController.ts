@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/auth/ApiKeyService';
+import { ApiKeyResponse, CreateApiKeyRequest, UpdateApiKeyRequest } from '../types/auth';
+import logger from '../utils/logger';
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+  }
+
+  createApiKey = async (
+    req: Request<{}, ApiKeyResponse, CreateApiKeyRequest>,
+    res: Response<ApiKeyResponse>
+  ): Promise<void> => {
+    try {
+      const { name, scopes } = req.body;
+      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
+
+      if (!userId || !organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!name || !scopes) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça name e scopes'
+        });
+        return;
+      }
+
+      const apiKey = await this.apiKeyService.createKey(userId, organizationId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey,
+        message: 'Chave de API criada com sucesso. Guarde a chave, ela não será exibida novamente'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar chave de API:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar chave de API'
+      });
+    }
+  };
+
+  getApiKeys = async (
+    req: Request,
+    res: Response<ApiKeyResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
+
+      if (!userId || !organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const apiKeys = await this.apiKeyService.getKeys(userId, organizationId);
+
+      res.json({
+        success: true,
+        data: apiKeys,
+        message: 'Chaves de API recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter chaves de API:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar chaves de API'
+      });
+    }
+  };
+
+  updateApiKey = async (
+    req: Request<{ keyId: string }, ApiKeyResponse, UpdateApiKeyRequest>,
+    res: Response<ApiKeyResponse>
+  ): Promise<void> => {
+    try {
+      const { keyId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const apiKey = await this.apiKeyService.updateKey(userId, keyId, req.body);
+
+      res.json({
+        success: true,
+        data: apiKey,
+        message: 'Chave de API atualizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar chave de API:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar chave de API'
+      });
+    }
+  };
+
+  revokeApiKey = async (
+    req: Request<{ keyId: string }>,
+    res: Response<ApiKeyResponse>
+  ): Promise<void> => {
+    try {
+      const { keyId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.apiKeyService.revokeKey(userId, keyId);
+
+      res.json({
+        success: true,
+        message: 'Chave de API revogada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao revogar chave de API:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao revogar chave de API'
+      });
+    }
+  };
+}
@@ -1,16 +1,24 @@
 import { Request, Response } from 'express';
 import { UserService } from '../services/auth/UserService';
-import { AuthResponse, RegisterRequest, LoginRequest, ForgotPasswordRequest, ResetPasswordRequest, UpdatePasswordRequest } from '../types/auth';
+import { AuthResponse, RegisterRequest, LoginRequest, ForgotPasswordRequest, ResetPasswordRequest, UpdatePasswordRequest, UpdateProfileRequest, RefreshTokenRequest, LogoutRequest, SessionMetadata } from '../types/auth';
 import { BalanceService } from '../services/monetization/BalanceService';
+import { SessionService } from '../services/auth/SessionService';
 import logger from '../utils/logger';
 
+const getSessionMetadata = (req: Request): SessionMetadata => ({
+  userAgent: req.get('user-agent') || undefined,
+  ipAddress: req.ip
+});
+
 export class AuthController {
   private userService: UserService;
   private balanceService: BalanceService;
+  private sessionService: SessionService;
 
   constructor() {
     this.userService = new UserService();
     this.balanceService = new BalanceService();
+    this.sessionService = new SessionService();
   }
 
   register = async (
@@ -18,7 +26,7 @@ export class AuthController {
     res: Response<AuthResponse>
   ): Promise<void> => {
     try {
-      const { name, email, password } = req.body;
+      const { name, email, password, defaultCountry } = req.body;
 
       if (!name || !email || !password) {
         res.status(400).json({
@@ -29,9 +37,9 @@ export class AuthController {
         return;
       }
 
-      const result = await this.userService.register({ name, email, password });
+      const result = await this.userService.register({ name, email, password, defaultCountry }, getSessionMetadata(req));
 
-      // Obter saldo atual do usuário (será 0.00 para novo usuário)
+      // Saldo da organização pessoal (será 0.00 para novo usuário)
       const balance = await this.balanceService.getBalance(result.user.id);
 
       // Remover balance do objeto user para evitar duplicação
@@ -42,6 +50,8 @@ export class AuthController {
         data: {
           user: userWithoutBalance,
           token: result.token,
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn,
           balance: balance,
           role: result.user.role,
           message: 'Usuário registrado com sucesso'
@@ -75,9 +85,9 @@ export class AuthController {
         return;
       }
 
-      const result = await this.userService.login({ email, password });
+      const result = await this.userService.login({ email, password }, getSessionMetadata(req));
 
-      // Obter saldo atual do usuário
+      // Saldo da organização pessoal, que tem o mesmo id do usuário
       const balance = await this.balanceService.getBalance(result.user.id);
 
       // Remover balance do objeto user para evitar duplicação
@@ -88,6 +98,8 @@ export class AuthController {
         data: {
           user: userWithoutBalance,
           token: result.token,
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn,
           balance: balance,
           role: result.user.role,
           message: 'Login realizado com sucesso'
@@ -203,12 +215,15 @@ export class AuthController {
         return;
       }
 
-      const result = await this.userService.updatePassword(userId, { currentPassword, newPassword });
+      const result = await this.userService.updatePassword(userId, { currentPassword, newPassword }, getSessionMetadata(req));
 
       res.json({
         success: true,
         data: {
-          message: result.message
+          token: result.token,
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn,
+          message: 'Todas as outras sessões foram encerradas'
         },
         message: 'Senha atualizada com sucesso'
       });
@@ -250,18 +265,17 @@ export class AuthController {
         return;
       }
 
-      // Obter saldo atual do usuário
-      const balance = await this.balanceService.getBalance(userId);
-
-      // Remover balance do objeto user para evitar duplicação
-      const { balance: userBalance, ...userWithoutBalance } = user as any;
+      // Saldo e papel na organização ativa
+      const organizationId = req.user?.organizationId;
+      const balance = organizationId ? await this.balanceService.getBalance(organizationId) : 0;
 
       res.json({
         success: true,
         data: {
-          user: userWithoutBalance,
+          user,
           balance: balance,
-          role: user.role
+          role: req.user?.role,
+          organizationId
         },
         message: 'Perfil recuperado com sucesso'
       });
@@ -275,4 +289,146 @@ export class AuthController {
       });
     }
   };
+
+  updateProfile = async (
+    req: Request<{}, AuthResponse, UpdateProfileRequest>,
+    res: Response<AuthResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { name, defaultCountry } = req.body;
+      const user = await this.userService.updateProfile(userId, { name, defaultCountry });
+
+      res.json({
+        success: true,
+        data: { user },
+        message: 'Perfil atualizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar perfil:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar perfil'
+      });
+    }
+  };
+
+  refresh = async (
+    req: Request<{}, AuthResponse, RefreshTokenRequest>,
+    res: Response<AuthResponse>
+  ): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken) {
+        res.status(400).json({
+          success: false,
+          error: 'Refresh token é obrigatório',
+          message: 'Forneça o refreshToken recebido no login'
+        });
+        return;
+      }
+
+      const tokens = await this.sessionService.refresh(refreshToken, getSessionMetadata(req));
+
+      res.json({
+        success: true,
+        data: tokens,
+        message: 'Tokens renovados com sucesso'
+      });
+
+    } catch (error) {
+      logger.warn(`Falha ao renovar tokens: ${(error as Error).message}`);
+      res.status(401).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Faça login novamente'
+      });
+    }
+  };
+
+  logout = async (
+    req: Request<{}, AuthResponse, LogoutRequest>,
+    res: Response<AuthResponse>
+  ): Promise<void> => {
+    try {
+      const sessionId = req.user?.sessionId;
+      const { refreshToken } = req.body || {};
+
+      // Aceita o token de acesso ou o refresh token (útil quando o acesso já expirou)
+      if (sessionId) {
+        await this.sessionService.revokeSession(sessionId);
+      } else if (refreshToken) {
+        await this.sessionService.revokeByRefreshToken(refreshToken);
+      } else {
+        res.status(400).json({
+          success: false,
+          error: 'Sessão não informada',
+          message: 'Envie o token de acesso ou o refreshToken'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Logout realizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro no logout:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao realizar logout'
+      });
+    }
+  };
+
+  logoutAll = async (
+    req: Request,
+    res: Response<AuthResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const count = await this.sessionService.revokeAllSessions(userId);
+
+      res.json({
+        success: true,
+        data: {
+          message: `${count} sessões encerradas`
+        },
+        message: 'Todas as sessões foram encerradas'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao encerrar sessões:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao encerrar sessões'
+      });
+    }
+  };
 }
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { NextFunction, Request, Response } from 'express';
+import { canAccessConnection } from '../middleware/authMiddleware';
+import { AutoReplyService } from '../services/autoReply/AutoReplyService';
+import { AutoReplyResponse, CreateAutoReplyRuleRequest, UpdateAutoReplyRuleRequest } from '../types/autoReply';
+import logger from '../utils/logger';
+
+export class AutoReplyController {
+  private autoReplyService: AutoReplyService;
+
+  constructor() {
+    this.autoReplyService = new AutoReplyService();
+  }
+
+  createRule = async (
+    req: Request<{}, AutoReplyResponse, CreateAutoReplyRuleRequest>,
+    res: Response<AutoReplyResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, name, actionType, actionConfig } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!connectionId || !name || !actionType || !actionConfig) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça connectionId, name, actionType e actionConfig'
+        });
+        return;
+      }
+
+      const rule = await this.autoReplyService.createRule(organizationId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Regra de resposta automática criada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar regra de resposta automática:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar regra'
+      });
+    }
+  };
+
+  getRules = async (
+    req: Request<{}, AutoReplyResponse, {}, { connectionId?: string }>,
+    res: Response<AutoReplyResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const rules = await this.autoReplyService.getRules(organizationId, req.query.connectionId, req.apiKey?.connectionIds);
+
+      res.json({
+        success: true,
+        data: rules,
+        message: 'Regras recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter regras de resposta automática:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar regras'
+      });
+    }
+  };
+
+  getRuleById = async (
+    req: Request<{ ruleId: string }>,
+    res: Response<AutoReplyResponse>
+  ): Promise<void> => {
+    try {
+      const { ruleId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const rule = await this.autoReplyService.getRuleById(organizationId, ruleId);
+
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: 'Regra não encontrada',
+          message: 'A regra especificada não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Regra recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter regra de resposta automática:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar regra'
+      });
+    }
+  };
+
+  updateRule = async (
+    req: Request<{ ruleId: string }, AutoReplyResponse, UpdateAutoReplyRuleRequest>,
+    res: Response<AutoReplyResponse>
+  ): Promise<void> => {
+    try {
+      const { ruleId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const rule = await this.autoReplyService.updateRule(organizationId, ruleId, req.body);
+
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Regra atualizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar regra de resposta automática:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar regra'
+      });
+    }
+  };
+
+  deleteRule = async (
+    req: Request<{ ruleId: string }>,
+    res: Response<AutoReplyResponse>
+  ): Promise<void> => {
+    try {
+      const { ruleId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.autoReplyService.deleteRule(organizationId, ruleId);
+
+      res.json({
+        success: true,
+        message: 'Regra removida com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover regra de resposta automática:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover regra'
+      });
+    }
+  };
+
+  /**
+   * Chaves de API limitadas a algumas conexões só acessam as regras dessas conexões
+   */
+  checkConnectionAccess = async (
+    req: Request<{ ruleId: string }>,
+    res: Response<AutoReplyResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    const organizationId = req.user?.organizationId;
+
+    if (!organizationId || !req.apiKey || req.apiKey.connectionIds.length === 0) {
+      next();
+      return;
+    }
+
+    const rule = await this.autoReplyService.getRuleById(organizationId, req.params.ruleId);
+
+    if (rule && !canAccessConnection(req, rule.connectionId)) {
+      res.status(403).json({
+        success: false,
+        error: 'Conexão não permitida',
+        message: `A chave de API não tem acesso à conexão ${rule.connectionId}`
+      });
+      return;
+    }
+
+    next();
+  };
+}
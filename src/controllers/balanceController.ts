@@ -1,15 +1,22 @@
 import { Request, Response } from 'express';
 import { BalanceService } from '../services/monetization/BalanceService';
+import { PricingService } from '../services/monetization/PricingService';
+import { PlanService } from '../services/monetization/PlanService';
 import { UserService } from '../services/auth/UserService';
-import { BalanceResponse, AddBalanceRequest, TransactionFilters } from '../types/monetization';
+import { BalanceResponse, AddBalanceRequest, TransactionFilters, TransactionCategory, InsufficientBalanceError } from '../types/monetization';
+import { PlanLimitError, SubscribePlanRequest } from '../types/plans';
 import logger from '../utils/logger';
 
 export class BalanceController {
   private balanceService: BalanceService;
+  private pricingService: PricingService;
+  private planService: PlanService;
   private userService: UserService;
 
   constructor() {
     this.balanceService = new BalanceService();
+    this.pricingService = new PricingService();
+    this.planService = new PlanService();
     this.userService = new UserService();
   }
 
@@ -18,9 +25,9 @@ export class BalanceController {
     res: Response<BalanceResponse>
   ): Promise<void> => {
     try {
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -29,7 +36,7 @@ export class BalanceController {
         return;
       }
 
-      const balance = await this.balanceService.getBalance(userId);
+      const balance = await this.balanceService.getBalance(organizationId);
 
       res.json({
         success: true,
@@ -53,9 +60,9 @@ export class BalanceController {
   ): Promise<void> => {
     try {
       const { amount, userEmail, description } = req.body;
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -73,22 +80,11 @@ export class BalanceController {
         return;
       }
 
-      let targetUserId = userId;
+      let targetOrganizationId = organizationId;
       let targetUserEmail = '';
 
-      // Se userEmail foi fornecido, verificar se é admin e buscar usuário alvo
+      // Se userEmail foi fornecido, creditar a organização pessoal do usuário alvo
       if (userEmail) {
-        const currentUser = await this.userService.getUserById(userId);
-        
-        if (!currentUser || currentUser.role !== 'admin') {
-          res.status(403).json({
-            success: false,
-            error: 'Acesso negado',
-            message: 'Apenas administradores podem gerenciar saldo de outros usuários'
-          });
-          return;
-        }
-
         const targetUser = await this.userService.getUserByEmail(userEmail);
         if (!targetUser) {
           res.status(404).json({
@@ -99,12 +95,12 @@ export class BalanceController {
           return;
         }
 
-        targetUserId = targetUser.id;
+        targetOrganizationId = targetUser.id;
         targetUserEmail = targetUser.email;
       }
 
       const result = await this.balanceService.addBalance(
-        targetUserId, 
+        targetOrganizationId, 
         amount, 
         'deposit', 
         description || `Depósito de ${amount} créditos${targetUserEmail ? ` para ${targetUserEmail}` : ''}`
@@ -134,9 +130,9 @@ export class BalanceController {
     res: Response<BalanceResponse>
   ): Promise<void> => {
     try {
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -150,12 +146,12 @@ export class BalanceController {
       
       const filters: TransactionFilters = {
         type: req.query.type as 'credit' | 'debit',
-        category: req.query.category as 'connection' | 'validation' | 'deposit' | 'refund',
+        category: req.query.category as TransactionCategory,
         startDate: req.query.startDate as string,
         endDate: req.query.endDate as string
       };
 
-      const result = await this.balanceService.getTransactions(userId, page, limit, filters);
+      const result = await this.balanceService.getTransactions(organizationId, page, limit, filters);
 
       res.json({
         success: true,
@@ -179,14 +175,14 @@ export class BalanceController {
     }
   };
 
-  getUserStats = async (
+  getOrganizationStats = async (
     req: Request,
     res: Response<BalanceResponse>
   ): Promise<void> => {
     try {
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -195,7 +191,7 @@ export class BalanceController {
         return;
       }
 
-      const stats = await this.balanceService.getUserStats(userId);
+      const stats = await this.balanceService.getOrganizationStats(organizationId);
 
       res.json({
         success: true,
@@ -216,4 +212,155 @@ export class BalanceController {
       });
     }
   };
+
+  getPrices = async (
+    req: Request,
+    res: Response<BalanceResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const prices = await this.pricingService.getPrices(organizationId);
+
+      res.json({
+        success: true,
+        data: { prices },
+        message: 'Tabela de preços recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter tabela de preços:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar tabela de preços'
+      });
+    }
+  };
+
+  getPlans = async (
+    req: Request,
+    res: Response<BalanceResponse>
+  ): Promise<void> => {
+    try {
+      const plans = await this.planService.getPlans();
+
+      res.json({
+        success: true,
+        data: { plans },
+        message: 'Planos recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar planos:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar planos'
+      });
+    }
+  };
+
+  subscribePlan = async (
+    req: Request<{}, BalanceResponse, SubscribePlanRequest>,
+    res: Response<BalanceResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!req.body.planId) {
+        res.status(400).json({
+          success: false,
+          error: 'planId é obrigatório',
+          message: 'Falha ao assinar plano'
+        });
+        return;
+      }
+
+      const plan = await this.planService.subscribe(organizationId, req.body.planId);
+
+      res.json({
+        success: true,
+        data: { plan },
+        message: `Plano ${plan.plan.name} assinado com sucesso`
+      });
+
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        res.status(402).json({
+          success: false,
+          error: error.message,
+          message: 'Saldo insuficiente para a mensalidade do plano'
+        });
+        return;
+      }
+
+      if (error instanceof PlanLimitError) {
+        res.status(403).json({
+          success: false,
+          error: error.message,
+          message: 'Falha ao assinar plano'
+        });
+        return;
+      }
+
+      logger.error('Erro ao assinar plano:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao assinar plano'
+      });
+    }
+  };
+
+  cancelPlan = async (
+    req: Request,
+    res: Response<BalanceResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.planService.cancel(organizationId);
+
+      res.json({
+        success: true,
+        message: 'Assinatura cancelada; a organização volta a pagar apenas por uso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao cancelar plano:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao cancelar plano'
+      });
+    }
+  };
 }
\ No newline at end of file
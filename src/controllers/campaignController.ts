@@ -0,0 +1,321 @@
+import { NextFunction, Request, Response } from 'express';
+import { canAccessConnection } from '../middleware/authMiddleware';
+import { CampaignService } from '../services/campaigns/CampaignService';
+import { CampaignResponse, CampaignStatus, CampaignRecipientStatus, CreateCampaignRequest } from '../types/campaigns';
+import logger from '../utils/logger';
+
+export class CampaignController {
+  private campaignService: CampaignService;
+
+  constructor() {
+    this.campaignService = new CampaignService();
+  }
+
+  createCampaign = async (
+    req: Request<{}, CampaignResponse, CreateCampaignRequest>,
+    res: Response<CampaignResponse>
+  ): Promise<void> => {
+    try {
+      const { name, template, filters, connectionIds, scheduledAt } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!name || !template || !connectionIds) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça name, template e connectionIds'
+        });
+        return;
+      }
+
+      const campaign = await this.campaignService.createCampaign(organizationId, { name, template, filters, connectionIds, scheduledAt });
+
+      res.status(201).json({
+        success: true,
+        data: campaign,
+        message: 'Campanha criada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar campanha:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar campanha'
+      });
+    }
+  };
+
+  getCampaigns = async (
+    req: Request,
+    res: Response<CampaignResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const status = req.query.status as CampaignStatus | undefined;
+
+      const result = await this.campaignService.getCampaigns(organizationId, page, limit, status, req.apiKey?.connectionIds);
+
+      res.json({
+        success: true,
+        data: result.campaigns,
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: result.totalPages,
+        message: 'Campanhas recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter campanhas:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar campanhas'
+      });
+    }
+  };
+
+  getCampaignById = async (
+    req: Request<{ campaignId: string }>,
+    res: Response<CampaignResponse>
+  ): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const campaign = await this.campaignService.getCampaignById(organizationId, campaignId);
+
+      if (!campaign) {
+        res.status(404).json({
+          success: false,
+          error: 'Campanha não encontrada',
+          message: 'A campanha especificada não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: campaign,
+        message: 'Campanha recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter campanha:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar campanha'
+      });
+    }
+  };
+
+  getRecipients = async (
+    req: Request<{ campaignId: string }>,
+    res: Response<CampaignResponse>
+  ): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+      const status = req.query.status as CampaignRecipientStatus | undefined;
+
+      const result = await this.campaignService.getRecipients(organizationId, campaignId, page, limit, status);
+
+      res.json({
+        success: true,
+        data: result.recipients,
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: result.totalPages,
+        message: 'Destinatários recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter destinatários da campanha:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar destinatários'
+      });
+    }
+  };
+
+  pauseCampaign = async (
+    req: Request<{ campaignId: string }>,
+    res: Response<CampaignResponse>
+  ): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const campaign = await this.campaignService.pauseCampaign(organizationId, campaignId);
+
+      res.json({
+        success: true,
+        data: campaign,
+        message: 'Campanha pausada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao pausar campanha:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao pausar campanha'
+      });
+    }
+  };
+
+  resumeCampaign = async (
+    req: Request<{ campaignId: string }>,
+    res: Response<CampaignResponse>
+  ): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const campaign = await this.campaignService.resumeCampaign(organizationId, campaignId);
+
+      res.json({
+        success: true,
+        data: campaign,
+        message: 'Campanha retomada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao retomar campanha:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao retomar campanha'
+      });
+    }
+  };
+
+  cancelCampaign = async (
+    req: Request<{ campaignId: string }>,
+    res: Response<CampaignResponse>
+  ): Promise<void> => {
+    try {
+      const { campaignId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const campaign = await this.campaignService.cancelCampaign(organizationId, campaignId);
+
+      res.json({
+        success: true,
+        data: campaign,
+        message: 'Campanha cancelada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao cancelar campanha:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao cancelar campanha'
+      });
+    }
+  };
+
+  /**
+   * Chaves de API limitadas a algumas conexões só acessam campanhas que usam apenas essas conexões
+   */
+  checkConnectionAccess = async (
+    req: Request<{ campaignId: string }>,
+    res: Response<CampaignResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    const organizationId = req.user?.organizationId;
+
+    if (!organizationId || !req.apiKey || req.apiKey.connectionIds.length === 0) {
+      next();
+      return;
+    }
+
+    const campaign = await this.campaignService.getCampaignById(organizationId, req.params.campaignId);
+    const deniedConnection = campaign?.connectionIds.find(connectionId => !canAccessConnection(req, connectionId));
+
+    if (deniedConnection) {
+      res.status(403).json({
+        success: false,
+        error: 'Conexão não permitida',
+        message: `A chave de API não tem acesso à conexão ${deniedConnection}`
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -2,6 +2,9 @@ import { Request, Response } from 'express';
 import whatsappService from '../services/whatsappService';
 import { ApiResponse, ConnectionRequest, ValidateConnectionRequest } from '../types/types';
 import { InsufficientBalanceError } from '../types/monetization';
+import { PlanLimitError } from '../types/plans';
+import { UpdateSendSettingsRequest } from '../types/messageQueue';
+import { canAccessConnection } from '../middleware/authMiddleware';
 import logger from '../utils/logger';
 
 export const restartConnection = async (
@@ -10,9 +13,9 @@ export const restartConnection = async (
 ): Promise<void> => {
   try {
     const { connectionId } = req.params;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -30,7 +33,7 @@ export const restartConnection = async (
       return;
     }
 
-    const result = await whatsappService.restartConnection(userId, connectionId);
+    const result = await whatsappService.restartConnection(organizationId, connectionId);
     
     res.json({
       success: true,
@@ -52,10 +55,10 @@ export const createConnection = async (
   res: Response<ApiResponse>
 ): Promise<void> => {
   try {
-    const { pairingMethod = 'qr', phoneNumber } = req.body;
-    const userId = req.user?.userId;
+    const { pairingMethod = 'qr', phoneNumber, name } = req.body;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -75,10 +78,11 @@ export const createConnection = async (
       }
     }
     
-    const result = await whatsappService.createConnection(userId, pairingMethod, phoneNumber);
+    const result = await whatsappService.createConnection(organizationId, pairingMethod, phoneNumber, name);
     
     const responseData: any = {
       connectionId: result.connectionId,
+      name,
       pairingMethod
     };
     
@@ -105,7 +109,16 @@ export const createConnection = async (
       res.status(402).json({
         success: false,
         error: error.message,
-        message: 'Saldo insuficiente para criar conexão (2 créditos necessários)'
+        message: 'Saldo insuficiente para criar conexão'
+      });
+      return;
+    }
+
+    if (error instanceof PlanLimitError) {
+      res.status(403).json({
+        success: false,
+        error: error.message,
+        message: 'Limite de conexões do plano atingido'
       });
       return;
     }
@@ -125,9 +138,9 @@ export const validateConnection = async (
 ): Promise<void> => {
   try {
     const { connectionId, code } = req.body;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -145,7 +158,7 @@ export const validateConnection = async (
       return;
     }
 
-    const isValid = await whatsappService.validateConnection(userId, connectionId, code);
+    const isValid = await whatsappService.validateConnection(organizationId, connectionId, code);
     
     res.json({
       success: true,
@@ -168,9 +181,9 @@ export const removeConnection = async (
 ): Promise<void> => {
   try {
     const { connectionId } = req.params;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -188,7 +201,7 @@ export const removeConnection = async (
       return;
     }
 
-    await whatsappService.removeConnection(userId, connectionId);
+    await whatsappService.removeConnection(organizationId, connectionId);
     
     res.json({
       success: true,
@@ -209,9 +222,9 @@ export const getAllConnections = async (
   res: Response<ApiResponse>
 ): Promise<void> => {
   try {
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -226,7 +239,9 @@ export const getAllConnections = async (
       await connectionManager.cleanupDisconnectedInstances();
     }
     
-    const connections = whatsappService.getAllConnections(userId);
+    // Chaves de API restritas só enxergam as próprias conexões
+    const connections = (await whatsappService.listConnections(organizationId))
+      .filter(connection => canAccessConnection(req, connection.id));
     
     res.json({
       success: true,
@@ -249,9 +264,9 @@ export const getConnectionStatus = async (
 ): Promise<void> => {
   try {
     const { connectionId } = req.params;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -269,7 +284,7 @@ export const getConnectionStatus = async (
       return;
     }
 
-    const connection = whatsappService.getConnection(userId, connectionId);
+    const connection = await whatsappService.findConnection(organizationId, connectionId);
     
     if (!connection) {
       res.status(404).json({
@@ -293,4 +308,81 @@ export const getConnectionStatus = async (
       message: 'Failed to retrieve connection status'
     });
   }
-};
\ No newline at end of file
+};
+export const getSendSettings = async (
+  req: Request<{ connectionId: string }>,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const { connectionId } = req.params;
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+        message: 'JWT token required'
+      });
+      return;
+    }
+
+    const settings = await whatsappService.getSendSettings(organizationId, connectionId);
+    
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Send settings retrieved successfully'
+    });
+  } catch (error) {
+    logger.error('Error retrieving send settings:', error);
+    res.status(404).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Failed to retrieve send settings'
+    });
+  }
+};
+
+export const updateSendSettings = async (
+  req: Request<{ connectionId: string }, ApiResponse, UpdateSendSettingsRequest>,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const { connectionId } = req.params;
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+        message: 'JWT token required'
+      });
+      return;
+    }
+
+    const { messagesPerMinute, jitterMinMs, jitterMaxMs, dailyLimit, quietHoursStart, quietHoursEnd, timezone } = req.body;
+
+    const settings = await whatsappService.updateSendSettings(organizationId, connectionId, {
+      messagesPerMinute,
+      jitterMinMs,
+      jitterMaxMs,
+      dailyLimit,
+      quietHoursStart,
+      quietHoursEnd,
+      timezone
+    });
+    
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Send settings updated successfully'
+    });
+  } catch (error) {
+    logger.error('Error updating send settings:', error);
+    res.status(400).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Failed to update send settings'
+    });
+  }
+};
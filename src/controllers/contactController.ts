@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import whatsappService from '../services/whatsappService';
 import { ApiResponse } from '../types/types';
+import { PaginatedApiResponse } from '../types/contacts';
+import { MessageFilters } from '../types/messages';
 import logger from '../utils/logger';
 
 export const getContacts = async (
@@ -9,9 +11,9 @@ export const getContacts = async (
 ): Promise<void> => {
   try {
     const { connectionId } = req.params;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -29,7 +31,7 @@ export const getContacts = async (
       return;
     }
 
-    const contacts = await whatsappService.getContacts(userId, connectionId);
+    const contacts = await whatsappService.getContacts(organizationId, connectionId);
     
     res.json({
       success: true,
@@ -52,9 +54,9 @@ export const getChats = async (
 ): Promise<void> => {
   try {
     const { connectionId } = req.params;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -72,7 +74,7 @@ export const getChats = async (
       return;
     }
 
-    const chats = await whatsappService.getChats(userId, connectionId);
+    const chats = await whatsappService.getChats(organizationId, connectionId);
     
     res.json({
       success: true,
@@ -91,14 +93,13 @@ export const getChats = async (
 
 export const getMessages = async (
   req: Request<{ connectionId: string }>,
-  res: Response<ApiResponse>
+  res: Response<PaginatedApiResponse>
 ): Promise<void> => {
   try {
     const { connectionId } = req.params;
-    const { limit } = req.query;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -116,12 +117,43 @@ export const getMessages = async (
       return;
     }
 
-    const limitNumber = limit ? parseInt(limit as string, 10) : 50;
-    const messages = await whatsappService.getMessages(userId, connectionId, limitNumber);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    const filters: MessageFilters = {
+      chatId: req.query.chatId as string,
+      type: req.query.type as MessageFilters['type'],
+      direction: req.query.direction as MessageFilters['direction'],
+      startDate: req.query.startDate as string,
+      endDate: req.query.endDate as string,
+      includeDeleted: req.query.includeDeleted === 'true'
+    };
+
+    if (filters.direction && !['incoming', 'outgoing'].includes(filters.direction)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid direction filter',
+        message: 'direction must be "incoming" or "outgoing"'
+      });
+      return;
+    }
+
+    const invalidDate = [filters.startDate, filters.endDate].find(date => date && isNaN(new Date(date).getTime()));
+    if (invalidDate) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid date: ${invalidDate}`,
+        message: 'startDate and endDate must be ISO 8601 dates'
+      });
+      return;
+    }
+
+    const result = await whatsappService.getMessages(organizationId, connectionId, page, limit, filters);
     
     res.json({
       success: true,
-      data: messages,
+      data: result.messages,
+      pagination: result.pagination,
       message: 'Messages retrieved successfully'
     });
   } catch (error) {
@@ -139,9 +171,9 @@ export const getGroups = async (
 ): Promise<void> => {
   try {
     const { connectionId } = req.params;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -159,7 +191,7 @@ export const getGroups = async (
       return;
     }
 
-    const groups = await whatsappService.getGroups(userId, connectionId);
+    const groups = await whatsappService.getGroups(organizationId, connectionId);
     
     res.json({
       success: true,
@@ -0,0 +1,653 @@
+import { Request, Response } from 'express';
+import { ContactGroupService } from '../services/contacts/ContactGroupService';
+import {
+  BulkTagRequest,
+  ContactListRequest,
+  ContactSegmentRequest,
+  ContactSelection,
+  ContactTagRequest
+} from '../types/contacts';
+import { ApiResponse } from '../types/types';
+import logger from '../utils/logger';
+
+export class ContactGroupController {
+  private groupService: ContactGroupService;
+
+  constructor() {
+    this.groupService = new ContactGroupService();
+  }
+
+  getTags = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const tags = await this.groupService.getTags(organizationId);
+
+      res.json({
+        success: true,
+        data: tags,
+        message: 'Tags recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar tags:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar tags'
+      });
+    }
+  };
+
+  createTag = async (
+    req: Request<{}, ApiResponse, ContactTagRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const tag = await this.groupService.createTag(organizationId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: tag,
+        message: 'Tag criada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar tag:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar tag'
+      });
+    }
+  };
+
+  updateTag = async (
+    req: Request<{ tagId: string }, ApiResponse, ContactTagRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const tag = await this.groupService.updateTag(organizationId, req.params.tagId, req.body);
+
+      res.json({
+        success: true,
+        data: tag,
+        message: 'Tag atualizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar tag:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar tag'
+      });
+    }
+  };
+
+  deleteTag = async (
+    req: Request<{ tagId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.groupService.deleteTag(organizationId, req.params.tagId);
+
+      res.json({
+        success: true,
+        message: 'Tag removida com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover tag:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover tag'
+      });
+    }
+  };
+
+  /**
+   * Adiciona tags em lote aos contatos de contact_ids ou dos filtros da listagem
+   */
+  addTags = async (
+    req: Request<{}, ApiResponse, BulkTagRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { tags, contact_ids, filters } = req.body;
+      const result = await this.groupService.addTags(organizationId, { contact_ids, filters }, tags);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Tags adicionadas a ${result.matched} contatos`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao adicionar tags em lote:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao adicionar tags'
+      });
+    }
+  };
+
+  removeTags = async (
+    req: Request<{}, ApiResponse, BulkTagRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { tags, contact_ids, filters } = req.body;
+      const result = await this.groupService.removeTags(organizationId, { contact_ids, filters }, tags);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.affected} tags removidas de ${result.matched} contatos`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover tags em lote:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover tags'
+      });
+    }
+  };
+
+  getLists = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const lists = await this.groupService.getLists(organizationId);
+
+      res.json({
+        success: true,
+        data: lists,
+        message: 'Listas recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar listas de contatos:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar listas'
+      });
+    }
+  };
+
+  getListById = async (
+    req: Request<{ listId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const list = await this.groupService.getListById(organizationId, req.params.listId);
+
+      if (!list) {
+        res.status(404).json({
+          success: false,
+          error: 'Lista não encontrada',
+          message: 'A lista especificada não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: list,
+        message: 'Lista recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter lista de contatos:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar lista'
+      });
+    }
+  };
+
+  createList = async (
+    req: Request<{}, ApiResponse, ContactListRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const list = await this.groupService.createList(organizationId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: list,
+        message: 'Lista criada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar lista de contatos:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar lista'
+      });
+    }
+  };
+
+  updateList = async (
+    req: Request<{ listId: string }, ApiResponse, ContactListRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const list = await this.groupService.updateList(organizationId, req.params.listId, req.body);
+
+      res.json({
+        success: true,
+        data: list,
+        message: 'Lista atualizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar lista de contatos:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar lista'
+      });
+    }
+  };
+
+  deleteList = async (
+    req: Request<{ listId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.groupService.deleteList(organizationId, req.params.listId);
+
+      res.json({
+        success: true,
+        message: 'Lista removida com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover lista de contatos:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover lista'
+      });
+    }
+  };
+
+  addListContacts = async (
+    req: Request<{ listId: string }, ApiResponse, ContactSelection>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { contact_ids, filters } = req.body;
+      const result = await this.groupService.addToList(organizationId, req.params.listId, { contact_ids, filters });
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.affected} contatos adicionados à lista`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao adicionar contatos à lista:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao adicionar contatos à lista'
+      });
+    }
+  };
+
+  removeListContacts = async (
+    req: Request<{ listId: string }, ApiResponse, ContactSelection>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { contact_ids, filters } = req.body;
+      const result = await this.groupService.removeFromList(organizationId, req.params.listId, { contact_ids, filters });
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.affected} contatos removidos da lista`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover contatos da lista:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover contatos da lista'
+      });
+    }
+  };
+
+  getSegments = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const segments = await this.groupService.getSegments(organizationId);
+
+      res.json({
+        success: true,
+        data: segments,
+        message: 'Segmentos recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar segmentos:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar segmentos'
+      });
+    }
+  };
+
+  getSegmentById = async (
+    req: Request<{ segmentId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const segment = await this.groupService.getSegmentById(organizationId, req.params.segmentId);
+
+      if (!segment) {
+        res.status(404).json({
+          success: false,
+          error: 'Segmento não encontrado',
+          message: 'O segmento especificado não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: segment,
+        message: 'Segmento recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter segmento:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar segmento'
+      });
+    }
+  };
+
+  createSegment = async (
+    req: Request<{}, ApiResponse, ContactSegmentRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const segment = await this.groupService.createSegment(organizationId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: segment,
+        message: 'Segmento criado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar segmento:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar segmento'
+      });
+    }
+  };
+
+  updateSegment = async (
+    req: Request<{ segmentId: string }, ApiResponse, ContactSegmentRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const segment = await this.groupService.updateSegment(organizationId, req.params.segmentId, req.body);
+
+      res.json({
+        success: true,
+        data: segment,
+        message: 'Segmento atualizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar segmento:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar segmento'
+      });
+    }
+  };
+
+  deleteSegment = async (
+    req: Request<{ segmentId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.groupService.deleteSegment(organizationId, req.params.segmentId);
+
+      res.json({
+        success: true,
+        message: 'Segmento removido com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover segmento:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover segmento'
+      });
+    }
+  };
+}
@@ -1,18 +1,50 @@
 import { Request, Response } from 'express';
 import { ContactStorageService } from '../services/contacts/ContactStorageService';
-import { ContactResponse, CreateContactRequest, UpdateContactRequest, ValidateContactRequest, ImportResult, PaginatedApiResponse } from '../types/contacts';
+import {
+  ContactResponse,
+  CreateContactRequest,
+  UpdateContactRequest,
+  ValidateContactRequest,
+  ValidateBatchRequest,
+  ContactValidationJobStatus,
+  ImportResult,
+  PaginatedApiResponse,
+  CONTACT_IMPORT_FORMATS,
+  ContactImportError,
+  ContactImportFormat,
+  ContactImportMapping,
+  ContactFilters,
+  CONTACT_EXPORT_FORMATS,
+  ContactExportError,
+  ContactExportFormat
+} from '../types/contacts';
 import whatsappService from '../services/whatsappService';
-import { DonodoZapService } from '../services/contacts/DonodoZapService';
+import { ContactValidationService } from '../services/contacts/ContactValidationService';
+import { ContactImportParser } from '../services/contacts/ContactImportParser';
+import { ContactExportService } from '../services/contacts/ContactExportService';
+import { PricingService } from '../services/monetization/PricingService';
 import { InsufficientBalanceError } from '../types/monetization';
 import logger from '../utils/logger';
 
+const CONTACT_EXPORT_CONTENT_TYPES: Record<ContactExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
 export class ContactStorageController {
   private contactService: ContactStorageService;
-  private donodoZapService: DonodoZapService;
+  private validationService: ContactValidationService;
+  private pricingService: PricingService;
+  private importParser: ContactImportParser;
+  private exportService: ContactExportService;
 
   constructor() {
     this.contactService = new ContactStorageService();
-    this.donodoZapService = new DonodoZapService();
+    this.validationService = new ContactValidationService();
+    this.pricingService = new PricingService();
+    this.importParser = new ContactImportParser();
+    this.exportService = new ContactExportService();
   }
 
   createContact = async (
@@ -21,9 +53,9 @@ export class ContactStorageController {
   ): Promise<void> => {
     try {
       const { phone_number, name } = req.body;
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -41,7 +73,7 @@ export class ContactStorageController {
         return;
       }
 
-      const contact = await this.contactService.createContact(userId, { phone_number, name });
+      const contact = await this.contactService.createContact(organizationId, { phone_number, name }, req.user?.defaultCountry);
 
       res.status(201).json({
         success: true,
@@ -65,9 +97,9 @@ export class ContactStorageController {
     res: Response<PaginatedApiResponse>
   ): Promise<void> => {
     try {
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -79,42 +111,9 @@ export class ContactStorageController {
       // Extrair parâmetros de query
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
-      const search = req.query.search as string;
-      const phoneNumber = req.query.phoneNumber as string;
-      const createdAtStart = req.query.createdAtStart as string;
-      const createdAtEnd = req.query.createdAtEnd as string;
-      const sortBy = req.query.sortBy as 'createdAt' | 'updatedAt' | 'phoneNumber' | 'name' | 'lastWhatsappCheck';
-      const sortOrder = req.query.sortOrder as 'asc' | 'desc';
-
-      // Converter strings para boolean/null de forma segura
-      const hasWhatsAppStr = req.query.hasWhatsApp as string;
-      const hasWhatsApp = hasWhatsAppStr === 'true' ? true : 
-                         hasWhatsAppStr === 'false' ? false : 
-                         hasWhatsAppStr === 'null' ? null : undefined;
-
-      const hasPictureStr = req.query.hasPicture as string;
-      const hasPicture = hasPictureStr === 'true' ? true : 
-                        hasPictureStr === 'false' ? false : 
-                        hasPictureStr === 'null' ? null : undefined;
-
-      const notValidatedStr = req.query.notValidated as string;
-      const notValidated = notValidatedStr === 'true' ? true : 
-                          notValidatedStr === 'false' ? false : 
-                          notValidatedStr === 'null' ? null : undefined;
-
-      const filters = {
-        search,
-        phoneNumber,
-        hasWhatsApp,
-        hasPicture,
-        notValidated,
-        createdAtStart,
-        createdAtEnd,
-        sortBy,
-        sortOrder
-      };
+      const filters = this.parseFilters(req);
 
-      const result = await this.contactService.getContactsPaginated(userId, page, limit, filters);
+      const result = await this.contactService.getContactsPaginated(organizationId, page, limit, filters);
 
       // Incluir contagens agregadas na paginação
       const paginationWithCounts = {
@@ -149,9 +148,9 @@ export class ContactStorageController {
   ): Promise<void> => {
     try {
       const { contactId } = req.params;
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -160,7 +159,7 @@ export class ContactStorageController {
         return;
       }
 
-      const contact = await this.contactService.getContactById(userId, contactId);
+      const contact = await this.contactService.getContactById(organizationId, contactId);
 
       if (!contact) {
         res.status(404).json({
@@ -195,9 +194,9 @@ export class ContactStorageController {
     try {
       const { contactId } = req.params;
       const updateData = req.body;
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -216,7 +215,7 @@ export class ContactStorageController {
         return;
       }
 
-      const contact = await this.contactService.updateContact(userId, contactId, updateData);
+      const contact = await this.contactService.updateContact(organizationId, contactId, updateData);
 
       res.json({
         success: true,
@@ -241,9 +240,9 @@ export class ContactStorageController {
   ): Promise<void> => {
     try {
       const { contactId } = req.params;
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -252,7 +251,7 @@ export class ContactStorageController {
         return;
       }
 
-      await this.contactService.deleteContact(userId, contactId);
+      await this.contactService.deleteContact(organizationId, contactId);
 
       res.json({
         success: true,
@@ -270,15 +269,19 @@ export class ContactStorageController {
     }
   };
 
+  /**
+   * Importa contatos de TXT (um número por linha), CSV, XLSX ou vCard.
+   * Campos do formulário: format, delimiter, mapping (JSON), dry_run e upsert
+   */
   importContacts = async (
     req: Request,
     res: Response<PaginatedApiResponse>
   ): Promise<void> => {
     try {
       const file = req.file;
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -291,45 +294,76 @@ export class ContactStorageController {
         res.status(400).json({
           success: false,
           error: 'Arquivo é obrigatório',
-          message: 'Envie um arquivo TXT com os números'
+          message: 'Envie um arquivo TXT, CSV, XLSX ou VCF com os contatos'
         });
         return;
       }
 
-      // Verificar se é arquivo de texto
-      if (!file.mimetype.includes('text') && !file.originalname.endsWith('.txt')) {
+      const format = (req.body.format as ContactImportFormat | undefined) || this.importParser.detectFormat(file.originalname, file.mimetype);
+
+      if (!format || !CONTACT_IMPORT_FORMATS.includes(format)) {
         res.status(400).json({
           success: false,
           error: 'Formato de arquivo inválido',
-          message: 'Apenas arquivos TXT são aceitos'
+          message: `Formatos aceitos: ${CONTACT_IMPORT_FORMATS.join(', ')}`
+        });
+        return;
+      }
+
+      let mapping: ContactImportMapping | undefined;
+
+      try {
+        mapping = typeof req.body.mapping === 'string' && req.body.mapping.trim()
+          ? JSON.parse(req.body.mapping)
+          : req.body.mapping || undefined;
+      } catch {
+        res.status(400).json({
+          success: false,
+          error: 'mapping deve ser um JSON válido',
+          message: 'Falha ao importar contatos'
         });
         return;
       }
 
-      // Ler conteúdo do arquivo
-      const content = file.buffer.toString('utf-8');
-      const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+      const dryRun = req.body.dry_run === true || req.body.dry_run === 'true';
+      const upsert = req.body.upsert === true || req.body.upsert === 'true';
+      const defaultCountry = req.body.default_country || req.user?.defaultCountry;
+
+      const rows = await this.importParser.parse(file.buffer, {
+        format,
+        delimiter: req.body.delimiter || undefined,
+        mapping
+      });
 
-      if (lines.length === 0) {
+      if (rows.length === 0) {
         res.status(400).json({
           success: false,
           error: 'Arquivo vazio',
-          message: 'O arquivo não contém números válidos'
+          message: 'O arquivo não contém contatos'
         });
         return;
       }
 
       // Importar contatos
-      const result = await this.contactService.importContacts(userId, lines);
+      const result = await this.contactService.importContacts(organizationId, rows, { dryRun, upsert, defaultCountry });
 
       res.json({
         success: true,
         data: result,
         pagination: {} as any,
-        message: `Importação concluída: ${result.imported} importados, ${result.skipped} ignorados, ${result.errors.length} erros`
+        message: `${dryRun ? 'Prévia da importação' : 'Importação concluída'}: ${result.imported} importados, ${result.updated} atualizados, ${result.skipped} ignorados, ${result.errors.length} erros`
       });
 
     } catch (error) {
+      if (error instanceof ContactImportError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          message: 'Falha ao importar contatos'
+        });
+        return;
+      }
+
       logger.error('Erro ao importar contatos:', error);
       res.status(500).json({
         success: false,
@@ -339,14 +373,84 @@ export class ContactStorageController {
     }
   };
 
+  /**
+   * Exporta os contatos com os mesmos filtros e ordenação da listagem.
+   * Query: format (csv, xlsx ou json) e columns (lista separada por vírgula)
+   */
+  exportContacts = async (
+    req: Request,
+    res: Response<PaginatedApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const format = ((req.query.format as string) || 'csv') as ContactExportFormat;
+
+      if (!CONTACT_EXPORT_FORMATS.includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: 'Formato inválido',
+          message: `Formatos aceitos: ${CONTACT_EXPORT_FORMATS.join(', ')}`
+        });
+        return;
+      }
+
+      const filters = this.parseFilters(req);
+      const requestedColumns = typeof req.query.columns === 'string'
+        ? req.query.columns.split(',').map(column => column.trim()).filter(Boolean)
+        : undefined;
+
+      const columns = await this.exportService.resolveColumns(organizationId, filters, requestedColumns);
+      const fileName = `contatos-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      res.setHeader('Content-Type', CONTACT_EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      await this.exportService.exportContacts(organizationId, filters, format, columns, res);
+
+    } catch (error) {
+      if (error instanceof ContactExportError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+          message: 'Falha ao exportar contatos'
+        });
+        return;
+      }
+
+      logger.error('Erro ao exportar contatos:', error);
+
+      // Com o arquivo já em transmissão, só resta interromper a resposta
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao exportar contatos'
+      });
+    }
+  };
+
   deleteAllContacts = async (
     req: Request,
     res: Response<PaginatedApiResponse>
   ): Promise<void> => {
     try {
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -355,7 +459,7 @@ export class ContactStorageController {
         return;
       }
 
-      const deletedCount = await this.contactService.deleteAllContacts(userId);
+      const deletedCount = await this.contactService.deleteAllContacts(organizationId);
 
       res.json({
         success: true,
@@ -380,9 +484,9 @@ export class ContactStorageController {
   ): Promise<void> => {
     try {
       const { contact_id, connection_id } = req.body;
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -401,7 +505,7 @@ export class ContactStorageController {
       }
 
       // Verificar se a conexão existe e está ativa
-      let connection = whatsappService.getConnection(userId, connection_id);
+      let connection = whatsappService.getConnection(organizationId, connection_id);
       
       if (!connection) {
         res.status(404).json({
@@ -417,7 +521,7 @@ export class ContactStorageController {
         logger.info(`Conexão ${connection_id} desconectada, tentando reconectar...`);
         
         try {
-          await whatsappService.restartConnection(userId, connection_id);
+          await whatsappService.restartConnection(organizationId, connection_id);
           
           // Aguardar reconexão (máximo 30 segundos)
           let attempts = 0;
@@ -426,7 +530,7 @@ export class ContactStorageController {
           while (attempts < maxAttempts) {
             await new Promise(resolve => setTimeout(resolve, 1000)); // Aguardar 1 segundo
             
-            connection = whatsappService.getConnection(userId, connection_id);
+            connection = whatsappService.getConnection(organizationId, connection_id);
             if (connection && connection.status === 'connected') {
               logger.info(`Conexão ${connection_id} reconectada com sucesso`);
               break;
@@ -466,7 +570,7 @@ export class ContactStorageController {
         return;
       }
       // Buscar contato
-      const contact = await this.contactService.getContactById(userId, contact_id);
+      const contact = await this.contactService.getContactById(organizationId, contact_id);
       if (!contact) {
         res.status(404).json({
           success: false,
@@ -476,45 +580,17 @@ export class ContactStorageController {
         return;
       }
 
-      // Validar número no WhatsApp
-      const whatsappData = await whatsappService.validateNumber(userId, connection_id, contact.phone_number);
-      
-      // Se tem WhatsApp e tem foto, tentar buscar nome no DonodoZap
-      let donodoZapName: string | null = null;
-      if (whatsappData.exists && whatsappData.picture) {
-        try {
-          donodoZapName = await this.donodoZapService.searchNamesByPhone(contact.phone_number);
-          if (donodoZapName) {
-            logger.info(`Nome encontrado no DonodoZap para ${contact.phone_number}: ${donodoZapName}`);
-          }
-        } catch (error) {
-          logger.warn(`Erro ao buscar nome no DonodoZap para ${contact.phone_number}:`, error);
-          // Não falhar a validação se DonodoZap falhar
-        }
-      }
-      
-      // Atualizar dados do WhatsApp no contato
-      const updatedContact = await this.contactService.updateWhatsAppData(userId, contact_id, {
-        exists: whatsappData.exists,
-        jid: whatsappData.jid,
-        status: whatsappData.status,
-        picture: whatsappData.picture,
-        business: whatsappData.business,
-        verifiedName: whatsappData.verifiedName || whatsappData.name,
-        businessHours: whatsappData.businessHours,
-        website: whatsappData.website,
-        email: whatsappData.email,
-        address: whatsappData.address,
-        category: whatsappData.category,
-        donodoZapName
-      });
+      // Validar número no WhatsApp e atualizar dados do contato
+      const { contact: updatedContact, whatsapp: whatsappData, donodoZapName, cost } =
+        await this.validationService.validateContact(organizationId, connection_id, contact);
 
       res.json({
         success: true,
         data: {
           contact: updatedContact,
           whatsapp: whatsappData,
-          donodoZapName
+          donodoZapName,
+          cost
         },
         pagination: {} as any,
         message: 'Contato validado no WhatsApp com sucesso'
@@ -526,7 +602,7 @@ export class ContactStorageController {
         res.status(402).json({
           success: false,
           error: error.message,
-          message: 'Saldo insuficiente para validar contato no WhatsApp (0.10 créditos necessários)'
+          message: 'Saldo insuficiente para validar contato no WhatsApp'
         });
         return;
       }
@@ -545,9 +621,9 @@ export class ContactStorageController {
     res: Response<PaginatedApiResponse>
   ): Promise<void> => {
     try {
-      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
 
-      if (!userId) {
+      if (!organizationId) {
         res.status(401).json({
           success: false,
           error: 'Usuário não autenticado',
@@ -556,7 +632,7 @@ export class ContactStorageController {
         return;
       }
 
-      const contacts = await this.contactService.getContactsWithWhatsAppData(userId);
+      const contacts = await this.contactService.getContactsWithWhatsAppData(organizationId);
 
       res.json({
         success: true,
@@ -574,4 +650,218 @@ export class ContactStorageController {
       });
     }
   };
-}
\ No newline at end of file
+
+  validateBatch = async (
+    req: Request<{}, PaginatedApiResponse, ValidateBatchRequest>,
+    res: Response<PaginatedApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connection_id, filters } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!connection_id) {
+        res.status(400).json({
+          success: false,
+          error: 'ID da conexão é obrigatório',
+          message: 'Forneça connection_id'
+        });
+        return;
+      }
+
+      const job = await this.validationService.createJob(organizationId, connection_id, filters || {});
+      const price = await this.pricingService.getPrice(organizationId, 'validation');
+
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: `Validação em lote iniciada para ${job.total} contatos (${price.amount.toFixed(2)} créditos por número)`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao iniciar validação em lote:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao iniciar validação em lote'
+      });
+    }
+  };
+
+  getValidationBatches = async (
+    req: Request,
+    res: Response<PaginatedApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const status = req.query.status as ContactValidationJobStatus | undefined;
+      const jobs = await this.validationService.getJobs(organizationId, status);
+
+      res.json({
+        success: true,
+        data: jobs,
+        message: 'Validações em lote recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter validações em lote:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar validações em lote'
+      });
+    }
+  };
+
+  getValidationBatch = async (
+    req: Request<{ jobId: string }>,
+    res: Response<PaginatedApiResponse>
+  ): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const job = await this.validationService.getJob(organizationId, jobId);
+
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Validação em lote não encontrada',
+          message: 'A validação em lote especificada não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Validação em lote recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter validação em lote:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar validação em lote'
+      });
+    }
+  };
+
+  cancelValidationBatch = async (
+    req: Request<{ jobId: string }>,
+    res: Response<PaginatedApiResponse>
+  ): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const job = await this.validationService.cancelJob(organizationId, jobId);
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Validação em lote cancelada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao cancelar validação em lote:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao cancelar validação em lote'
+      });
+    }
+  };
+
+  /**
+   * Filtros e ordenação da query string (listagem e exportação)
+   */
+  private parseFilters(req: Request): ContactFilters {
+    const search = req.query.search as string;
+    const phoneNumber = req.query.phoneNumber as string;
+    const createdAtStart = req.query.createdAtStart as string;
+    const createdAtEnd = req.query.createdAtEnd as string;
+    const sortBy = req.query.sortBy as 'createdAt' | 'updatedAt' | 'phoneNumber' | 'name' | 'lastWhatsappCheck';
+    const sortOrder = req.query.sortOrder as 'asc' | 'desc';
+
+    // Converter strings para boolean/null de forma segura
+    const hasWhatsAppStr = req.query.hasWhatsApp as string;
+    const hasWhatsApp = hasWhatsAppStr === 'true' ? true : 
+                       hasWhatsAppStr === 'false' ? false : 
+                       hasWhatsAppStr === 'null' ? null : undefined;
+
+    const hasPictureStr = req.query.hasPicture as string;
+    const hasPicture = hasPictureStr === 'true' ? true : 
+                      hasPictureStr === 'false' ? false : 
+                      hasPictureStr === 'null' ? null : undefined;
+
+    const notValidatedStr = req.query.notValidated as string;
+    const notValidated = notValidatedStr === 'true' ? true : 
+                        notValidatedStr === 'false' ? false : 
+                        notValidatedStr === 'null' ? null : undefined;
+
+    // Tags como lista separada por vírgula; metadata no formato metadata[chave]=valor
+    const toList = (value: unknown) => typeof value === 'string'
+      ? value.split(',').map(item => item.trim()).filter(Boolean)
+      : undefined;
+    const metadata = req.query.metadata && typeof req.query.metadata === 'object' && !Array.isArray(req.query.metadata)
+      ? req.query.metadata as Record<string, string>
+      : undefined;
+
+    return {
+      search,
+      phoneNumber,
+      country: req.query.country as string | undefined,
+      hasWhatsApp,
+      hasPicture,
+      notValidated,
+      createdAtStart,
+      createdAtEnd,
+      sortBy,
+      sortOrder,
+      tags: toList(req.query.tags),
+      tagMode: req.query.tagMode === 'any' ? 'any' : undefined,
+      excludeTags: toList(req.query.excludeTags),
+      listId: req.query.listId as string | undefined,
+      segmentId: req.query.segmentId as string | undefined,
+      metadata
+    };
+  }
+}
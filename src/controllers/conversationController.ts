@@ -0,0 +1,414 @@
+import { NextFunction, Request, Response } from 'express';
+import whatsappService from '../services/whatsappService';
+import { canAccessConnection } from '../middleware/authMiddleware';
+import { ConversationService } from '../services/conversations/ConversationService';
+import {
+  ConversationFilters,
+  ConversationNotFoundError,
+  ConversationStatus,
+  CreateConversationNoteRequest,
+  ReplyConversationRequest,
+  UpdateConversationRequest
+} from '../types/conversations';
+import { InsufficientBalanceError } from '../types/monetization';
+import { ApiResponse } from '../types/types';
+import logger from '../utils/logger';
+
+export class ConversationController {
+  private conversationService: ConversationService;
+
+  constructor() {
+    this.conversationService = new ConversationService();
+  }
+
+  getConversations = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId || !req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const filters: ConversationFilters = {
+        status: req.query.status as ConversationStatus | undefined,
+        assignedTo: req.query.assignedTo as string | undefined,
+        connectionId: req.query.connectionId as string | undefined,
+        connectionIds: req.apiKey?.connectionIds,
+        tag: req.query.tag as string | undefined,
+        search: req.query.search as string | undefined,
+        unread: req.query.unread === 'true'
+      };
+
+      const result = await this.conversationService.getConversations(organizationId, req.user.userId, page, limit, filters);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Conversas recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar conversas:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar conversas'
+      });
+    }
+  };
+
+  getConversationById = async (
+    req: Request<{ conversationId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const conversation = await this.conversationService.getConversationById(organizationId, req.params.conversationId);
+
+      if (!conversation) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversa não encontrada',
+          message: 'A conversa especificada não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: conversation,
+        message: 'Conversa recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter conversa:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar conversa'
+      });
+    }
+  };
+
+  getMessages = async (
+    req: Request<{ conversationId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const result = await this.conversationService.getMessages(organizationId, req.params.conversationId, page, limit);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Mensagens recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Falha ao recuperar mensagens da conversa', 500);
+    }
+  };
+
+  markRead = async (
+    req: Request<{ conversationId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const conversation = await this.conversationService.markRead(organizationId, req.params.conversationId);
+
+      res.json({
+        success: true,
+        data: conversation,
+        message: 'Conversa marcada como lida'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Falha ao marcar conversa como lida');
+    }
+  };
+
+  updateConversation = async (
+    req: Request<{ conversationId: string }, ApiResponse, UpdateConversationRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { status, assignedToId, tags } = req.body;
+      const conversation = await this.conversationService.updateConversation(organizationId, req.params.conversationId, {
+        status,
+        assignedToId,
+        tags
+      });
+
+      res.json({
+        success: true,
+        data: conversation,
+        message: 'Conversa atualizada com sucesso'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Falha ao atualizar conversa');
+    }
+  };
+
+  /**
+   * Responde pelo chat da conversa; o envio é cobrado como text_message
+   */
+  reply = async (
+    req: Request<{ conversationId: string }, ApiResponse, ReplyConversationRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId || !req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { message, quotedMessageId } = req.body;
+
+      if (!message || typeof message !== 'string' || !message.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'message é obrigatório',
+          message: 'Falha ao responder conversa'
+        });
+        return;
+      }
+
+      const { connectionId, remoteJid } = await this.conversationService.getConversationJid(organizationId, req.params.conversationId);
+
+      // A resposta entra na fila da conexão, com o mesmo ritmo, limite diário e horário de silêncio dos demais envios
+      const job = await whatsappService.queueRichMessage(organizationId, {
+        connectionId,
+        to: remoteJid,
+        type: 'text',
+        text: message,
+        quotedMessageId
+      });
+
+      const conversation = await this.conversationService.registerReply(organizationId, req.params.conversationId, req.user.userId);
+
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          conversation
+        },
+        message: 'Resposta enfileirada com sucesso'
+      });
+
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        res.status(402).json({
+          success: false,
+          error: error.message,
+          message: 'Saldo insuficiente para enviar mensagem'
+        });
+        return;
+      }
+
+      this.handleError(res, error, 'Falha ao responder conversa', 500);
+    }
+  };
+
+  getNotes = async (
+    req: Request<{ conversationId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const notes = await this.conversationService.getNotes(organizationId, req.params.conversationId);
+
+      res.json({
+        success: true,
+        data: notes,
+        message: 'Notas recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Falha ao recuperar notas', 500);
+    }
+  };
+
+  addNote = async (
+    req: Request<{ conversationId: string }, ApiResponse, CreateConversationNoteRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId || !req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const note = await this.conversationService.addNote(organizationId, req.params.conversationId, req.user.userId, req.body.content);
+
+      res.status(201).json({
+        success: true,
+        data: note,
+        message: 'Nota adicionada com sucesso'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Falha ao adicionar nota');
+    }
+  };
+
+  deleteNote = async (
+    req: Request<{ conversationId: string; noteId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId || !req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.conversationService.deleteNote(
+        organizationId,
+        req.params.conversationId,
+        req.params.noteId,
+        req.user.userId,
+        req.user.role === 'admin'
+      );
+
+      res.json({
+        success: true,
+        message: 'Nota removida com sucesso'
+      });
+
+    } catch (error) {
+      this.handleError(res, error, 'Falha ao remover nota');
+    }
+  };
+
+  /**
+   * Chaves de API limitadas a algumas conexões só acessam as conversas dessas conexões
+   */
+  checkConnectionAccess = async (
+    req: Request<{ conversationId: string }>,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    const organizationId = req.user?.organizationId;
+
+    if (!organizationId || !req.apiKey || req.apiKey.connectionIds.length === 0) {
+      next();
+      return;
+    }
+
+    const conversation = await this.conversationService.getConversationById(organizationId, req.params.conversationId);
+
+    if (conversation && !canAccessConnection(req, conversation.connectionId)) {
+      res.status(403).json({
+        success: false,
+        error: 'Conexão não permitida',
+        message: `A chave de API não tem acesso à conexão ${conversation.connectionId}`
+      });
+      return;
+    }
+
+    next();
+  };
+
+  private handleError(res: Response<ApiResponse>, error: unknown, message: string, status: number = 400): void {
+    if (error instanceof ConversationNotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: error.message,
+        message
+      });
+      return;
+    }
+
+    logger.error(`${message}:`, error);
+    res.status(status).json({
+      success: false,
+      error: (error as Error).message,
+      message
+    });
+  }
+}
@@ -0,0 +1,531 @@
+import { Request, Response } from 'express';
+import whatsappService from '../services/whatsappService';
+import { ApiResponse } from '../types/types';
+import {
+  CreateGroupRequest,
+  GroupParticipantAction,
+  UpdateGroupParticipantsRequest,
+  UpdateGroupSettingsRequest
+} from '../types/groups';
+import logger from '../utils/logger';
+
+const PARTICIPANT_ACTIONS: GroupParticipantAction[] = ['add', 'remove', 'promote', 'demote'];
+
+export class GroupController {
+  createGroup = async (
+    req: Request<{ connectionId: string }, ApiResponse, CreateGroupRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId } = req.params;
+      const { subject, participants } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!subject || !Array.isArray(participants) || participants.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça subject e ao menos um participante'
+        });
+        return;
+      }
+
+      const result = await whatsappService.createGroup(organizationId, connectionId, subject, participants);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Grupo criado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar grupo'
+      });
+    }
+  };
+
+  getGroup = async (
+    req: Request<{ connectionId: string; groupId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const group = await whatsappService.getGroup(organizationId, connectionId, groupId);
+
+      res.json({
+        success: true,
+        data: group,
+        message: 'Grupo recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar grupo'
+      });
+    }
+  };
+
+  updateParticipants = async (
+    req: Request<{ connectionId: string; groupId: string }, ApiResponse, UpdateGroupParticipantsRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const { action, participants } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!PARTICIPANT_ACTIONS.includes(action) || !Array.isArray(participants) || participants.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados inválidos',
+          message: `Forneça action (${PARTICIPANT_ACTIONS.join(', ')}) e ao menos um participante`
+        });
+        return;
+      }
+
+      const results = await whatsappService.updateGroupParticipants(organizationId, connectionId, groupId, action, participants);
+      const failed = results.filter(result => !result.success).length;
+
+      res.json({
+        success: true,
+        data: results,
+        message: failed > 0
+          ? `${results.length - failed} participantes atualizados, ${failed} com falha`
+          : 'Participantes atualizados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar participantes do grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar participantes'
+      });
+    }
+  };
+
+  updateSubject = async (
+    req: Request<{ connectionId: string; groupId: string }, ApiResponse, { subject: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const { subject } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!subject) {
+        res.status(400).json({
+          success: false,
+          error: 'Nome do grupo é obrigatório',
+          message: 'Forneça subject'
+        });
+        return;
+      }
+
+      await whatsappService.updateGroupSubject(organizationId, connectionId, groupId, subject);
+
+      res.json({
+        success: true,
+        message: 'Nome do grupo atualizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar nome do grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar nome do grupo'
+      });
+    }
+  };
+
+  updateDescription = async (
+    req: Request<{ connectionId: string; groupId: string }, ApiResponse, { description?: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const { description } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await whatsappService.updateGroupDescription(organizationId, connectionId, groupId, description || '');
+
+      res.json({
+        success: true,
+        message: description ? 'Descrição do grupo atualizada com sucesso' : 'Descrição do grupo removida com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar descrição do grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar descrição do grupo'
+      });
+    }
+  };
+
+  updatePicture = async (
+    req: Request<{ connectionId: string; groupId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const file = req.file;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!file) {
+        res.status(400).json({
+          success: false,
+          error: 'Imagem é obrigatória',
+          message: 'Envie a imagem no campo file'
+        });
+        return;
+      }
+
+      await whatsappService.updateGroupPicture(organizationId, connectionId, groupId, file.buffer);
+
+      res.json({
+        success: true,
+        message: 'Foto do grupo atualizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar foto do grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar foto do grupo'
+      });
+    }
+  };
+
+  removePicture = async (
+    req: Request<{ connectionId: string; groupId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await whatsappService.removeGroupPicture(organizationId, connectionId, groupId);
+
+      res.json({
+        success: true,
+        message: 'Foto do grupo removida com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover foto do grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover foto do grupo'
+      });
+    }
+  };
+
+  updateSettings = async (
+    req: Request<{ connectionId: string; groupId: string }, ApiResponse, UpdateGroupSettingsRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const { announcement, locked } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (typeof announcement !== 'boolean' && typeof locked !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'Nenhuma configuração informada',
+          message: 'Forneça announcement e/ou locked (boolean)'
+        });
+        return;
+      }
+
+      const group = await whatsappService.updateGroupSettings(organizationId, connectionId, groupId, {
+        announcement: typeof announcement === 'boolean' ? announcement : undefined,
+        locked: typeof locked === 'boolean' ? locked : undefined
+      });
+
+      res.json({
+        success: true,
+        data: group,
+        message: 'Configurações do grupo atualizadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar configurações do grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar configurações do grupo'
+      });
+    }
+  };
+
+  getInviteCode = async (
+    req: Request<{ connectionId: string; groupId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const invite = await whatsappService.getGroupInviteCode(organizationId, connectionId, groupId);
+
+      res.json({
+        success: true,
+        data: invite,
+        message: 'Código de convite recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter código de convite:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao obter código de convite'
+      });
+    }
+  };
+
+  revokeInviteCode = async (
+    req: Request<{ connectionId: string; groupId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const invite = await whatsappService.revokeGroupInviteCode(organizationId, connectionId, groupId);
+
+      res.json({
+        success: true,
+        data: invite,
+        message: 'Convite revogado; novo código gerado'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao revogar código de convite:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao revogar código de convite'
+      });
+    }
+  };
+
+  getInviteInfo = async (
+    req: Request<{ connectionId: string; code: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, code } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const group = await whatsappService.getGroupInviteInfo(organizationId, connectionId, code);
+
+      res.json({
+        success: true,
+        data: group,
+        message: 'Informações do convite recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter informações do convite:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao obter informações do convite'
+      });
+    }
+  };
+
+  joinGroup = async (
+    req: Request<{ connectionId: string }, ApiResponse, { invite: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId } = req.params;
+      const { invite } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!invite) {
+        res.status(400).json({
+          success: false,
+          error: 'Convite é obrigatório',
+          message: 'Forneça invite (código ou link do convite)'
+        });
+        return;
+      }
+
+      const groupId = await whatsappService.joinGroup(organizationId, connectionId, invite);
+
+      res.json({
+        success: true,
+        data: { groupId },
+        message: 'Entrada no grupo realizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao entrar no grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao entrar no grupo'
+      });
+    }
+  };
+
+  leaveGroup = async (
+    req: Request<{ connectionId: string; groupId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { connectionId, groupId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await whatsappService.leaveGroup(organizationId, connectionId, groupId);
+
+      res.json({
+        success: true,
+        message: 'Saída do grupo realizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao sair do grupo:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao sair do grupo'
+      });
+    }
+  };
+}
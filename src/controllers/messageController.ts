@@ -1,18 +1,39 @@
 import { Request, Response } from 'express';
 import whatsappService from '../services/whatsappService';
+import { canAccessConnection } from '../middleware/authMiddleware';
 import { ApiResponse, SendMessageRequest, ValidateNumberRequest } from '../types/types';
+import { SendRichMessageRequest } from '../types/messages';
+import { MediaLimitError, UpdateMediaSettingsRequest } from '../types/media';
 import { InsufficientBalanceError } from '../types/monetization';
+import { InvalidPhoneNumberError, ParsedPhoneNumber } from '../types/phone';
+import { PhoneNumberService } from '../services/phone/PhoneNumberService';
 import logger from '../utils/logger';
 
+const phoneNumbers = new PhoneNumberService();
+
+/**
+ * Números sem DDI usam o país padrão do usuário; JIDs (grupos, @s.whatsapp.net) seguem como vieram
+ */
+const normalizeRecipient = (to: string, defaultCountry?: string): string =>
+  to.includes('@') ? to : phoneNumbers.normalize(to, defaultCountry);
+
+const sendInvalidNumber = (res: Response<ApiResponse>, error: InvalidPhoneNumberError): void => {
+  res.status(400).json({
+    success: false,
+    error: error.message,
+    message: 'Invalid phone number'
+  });
+};
+
 export const sendMessage = async (
   req: Request<{}, ApiResponse, SendMessageRequest>,
   res: Response<ApiResponse>
 ): Promise<void> => {
   try {
     const { connectionId, to, message } = req.body;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -30,22 +51,39 @@ export const sendMessage = async (
       return;
     }
 
-    const result = await whatsappService.sendMessage(userId, connectionId, to, message);
+    const recipient = normalizeRecipient(to, req.user?.defaultCountry);
+    const job = await whatsappService.queueMessage(organizationId, connectionId, recipient, message);
     
-    res.json({
+    res.status(202).json({
       success: true,
       data: {
-        wa_id: result.wa_id,
-        original_number: to
+        jobId: job.id,
+        status: job.status,
+        original_number: to,
+        number: recipient
       },
-      message: result.message || 'Message sent successfully'
+      message: 'Message queued successfully'
     });
   } catch (error) {
+    if (error instanceof InvalidPhoneNumberError) {
+      sendInvalidNumber(res, error);
+      return;
+    }
+
+    if (error instanceof InsufficientBalanceError) {
+      res.status(402).json({
+        success: false,
+        error: error.message,
+        message: 'Saldo insuficiente para enviar mensagem'
+      });
+      return;
+    }
+
     logger.error('Error sending message:', error);
     res.status(500).json({
       success: false,
       error: (error as Error).message,
-      message: 'Failed to send message'
+      message: 'Failed to queue message'
     });
   }
 };
@@ -57,9 +95,9 @@ export const sendFile = async (
   try {
     const { connectionId, to, caption } = req.body;
     const file = req.file;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -88,32 +126,336 @@ export const sendFile = async (
       return;
     }
 
-    const result = await whatsappService.sendFile(
-      userId,
+    const recipient = normalizeRecipient(to, req.user?.defaultCountry);
+    const job = await whatsappService.queueFile(
+      organizationId,
       connectionId,
-      to,
+      recipient,
       file.buffer,
       file.originalname,
       file.mimetype,
       caption
     );
     
-    res.json({
+    res.status(202).json({
       success: true,
       data: {
-        wa_id: result.wa_id,
+        jobId: job.id,
+        status: job.status,
         original_number: to,
+        number: recipient,
         file_name: file.originalname,
         file_type: file.mimetype
       },
-      message: result.message || 'File sent successfully'
+      message: 'File queued successfully'
     });
   } catch (error) {
+    if (error instanceof InvalidPhoneNumberError) {
+      sendInvalidNumber(res, error);
+      return;
+    }
+
+    if (error instanceof InsufficientBalanceError) {
+      res.status(402).json({
+        success: false,
+        error: error.message,
+        message: 'Saldo insuficiente para enviar arquivo'
+      });
+      return;
+    }
+
     logger.error('Error sending file:', error);
     res.status(500).json({
       success: false,
       error: (error as Error).message,
-      message: 'Failed to send file'
+      message: 'Failed to queue file'
+    });
+  }
+};
+
+// Campos obrigatórios de cada tipo de mensagem
+const getRichMessageError = (body: SendRichMessageRequest): string | null => {
+  if (body.mentions !== undefined && !Array.isArray(body.mentions)) {
+    return 'mentions must be a list of phone numbers';
+  }
+
+  switch (body.type) {
+    case 'text':
+      return body.text ? null : 'text is required';
+    case 'location':
+      return typeof body.location?.latitude === 'number' && typeof body.location?.longitude === 'number'
+        ? null
+        : 'location.latitude and location.longitude are required';
+    case 'contact':
+      return Array.isArray(body.contacts) && body.contacts.length > 0 && body.contacts.every(c => c.name && c.phoneNumber)
+        ? null
+        : 'contacts must be a non-empty list with name and phoneNumber';
+    case 'poll':
+      return body.poll?.name && Array.isArray(body.poll.options) && body.poll.options.length >= 2 && body.poll.options.length <= 12
+        ? null
+        : 'poll.name and 2 to 12 poll.options are required';
+    case 'reaction':
+      return body.reaction?.messageId && typeof body.reaction.emoji === 'string'
+        ? null
+        : 'reaction.messageId and reaction.emoji are required';
+    default:
+      // Botões e listas só são entregues pela API oficial do WhatsApp Business; em contas comuns não aparecem
+      return ['buttons', 'list'].includes(body.type as string)
+        ? 'buttons and lists are not supported: WhatsApp only delivers them through the official Business API'
+        : 'type must be one of: text, location, contact, poll, reaction';
+  }
+};
+
+export const sendRichMessage = async (
+  req: Request<{}, ApiResponse, SendRichMessageRequest>,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const { connectionId, to, type } = req.body;
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+        message: 'JWT token required'
+      });
+      return;
+    }
+    
+    if (!connectionId || (!to && type !== 'reaction')) {
+      res.status(400).json({
+        success: false,
+        error: 'Connection ID and recipient are required',
+        message: 'Missing required parameters'
+      });
+      return;
+    }
+
+    const validationError = getRichMessageError(req.body);
+    if (validationError) {
+      res.status(400).json({
+        success: false,
+        error: validationError,
+        message: 'Invalid message payload'
+      });
+      return;
+    }
+
+    const defaultCountry = req.user?.defaultCountry;
+    const recipient = to ? normalizeRecipient(to, defaultCountry) : to;
+    const job = await whatsappService.queueRichMessage(organizationId, {
+      ...req.body,
+      to: recipient,
+      contacts: req.body.contacts?.map(card => ({
+        ...card,
+        phoneNumber: phoneNumbers.normalize(card.phoneNumber, defaultCountry)
+      })),
+      mentions: req.body.mentions?.map(number => normalizeRecipient(number, defaultCountry))
+    });
+    
+    res.status(202).json({
+      success: true,
+      data: {
+        jobId: job.id,
+        status: job.status,
+        number: recipient,
+        type
+      },
+      message: 'Message queued successfully'
+    });
+  } catch (error) {
+    if (error instanceof InvalidPhoneNumberError) {
+      sendInvalidNumber(res, error);
+      return;
+    }
+
+    if (error instanceof InsufficientBalanceError) {
+      res.status(402).json({
+        success: false,
+        error: error.message,
+        message: 'Saldo insuficiente para enviar mensagem'
+      });
+      return;
+    }
+
+    logger.error('Error sending rich message:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Failed to queue message'
+    });
+  }
+};
+
+export const getMessageJob = async (
+  req: Request<{ id: string }>,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+        message: 'JWT token required'
+      });
+      return;
+    }
+
+    const job = await whatsappService.getMessageJob(organizationId, id);
+    
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: 'Job not found',
+        message: 'The specified message job does not exist'
+      });
+      return;
+    }
+
+    if (!canAccessConnection(req, job.connectionId)) {
+      res.status(403).json({
+        success: false,
+        error: 'Conexão não permitida',
+        message: `A chave de API não tem acesso à conexão ${job.connectionId}`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Message job retrieved successfully'
+    });
+  } catch (error) {
+    logger.error('Error retrieving message job:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Failed to retrieve message job'
+    });
+  }
+};
+
+export const getMessageMedia = async (
+  req: Request<{ connectionId: string; messageId: string }>,
+  res: Response
+): Promise<void> => {
+  try {
+    const { connectionId, messageId } = req.params;
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+        message: 'JWT token required'
+      });
+      return;
+    }
+
+    const media = await whatsappService.getMessageMedia(organizationId, connectionId, messageId);
+    
+    if (!media) {
+      res.status(404).json({
+        success: false,
+        error: 'Message not found',
+        message: 'The specified message does not exist'
+      });
+      return;
+    }
+
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+
+    res.setHeader('Content-Type', media.mimetype);
+    res.setHeader('Content-Length', media.size);
+    res.setHeader('Content-Disposition', `${disposition}; filename="${encodeURIComponent(media.fileName)}"`);
+    res.send(media.buffer);
+  } catch (error) {
+    if (error instanceof MediaLimitError) {
+      res.status(413).json({
+        success: false,
+        error: error.message,
+        message: 'Media exceeds the configured limits'
+      });
+      return;
+    }
+
+    logger.error('Error downloading message media:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Failed to download media'
+    });
+  }
+};
+
+export const getMediaSettings = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+        message: 'JWT token required'
+      });
+      return;
+    }
+
+    const settings = await whatsappService.getMediaSettings(organizationId);
+    
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Media settings retrieved successfully'
+    });
+  } catch (error) {
+    logger.error('Error retrieving media settings:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Failed to retrieve media settings'
+    });
+  }
+};
+
+export const updateMediaSettings = async (
+  req: Request<{}, ApiResponse, UpdateMediaSettingsRequest>,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+        message: 'JWT token required'
+      });
+      return;
+    }
+
+    const { autoDownload, maxSizeMb, allowedTypes } = req.body;
+    const settings = await whatsappService.updateMediaSettings(organizationId, { autoDownload, maxSizeMb, allowedTypes });
+    
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Media settings updated successfully'
+    });
+  } catch (error) {
+    logger.error('Error updating media settings:', error);
+    res.status(400).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Failed to update media settings'
     });
   }
 };
@@ -124,9 +466,9 @@ export const validateNumber = async (
 ): Promise<void> => {
   try {
     const { connectionId, number } = req.body;
-    const userId = req.user?.userId;
+    const organizationId = req.user?.organizationId;
     
-    if (!userId) {
+    if (!organizationId) {
       res.status(401).json({
         success: false,
         error: 'User not authenticated',
@@ -144,20 +486,29 @@ export const validateNumber = async (
       return;
     }
 
-    const validatedNumber = await whatsappService.validateNumber(userId, connectionId, number);
+    // Formatos, país e tipo do número acompanham a validação
+    const phone: ParsedPhoneNumber | undefined = number.includes('@')
+      ? undefined
+      : phoneNumbers.parse(number, req.user?.defaultCountry);
+    const validatedNumber = await whatsappService.validateNumber(organizationId, connectionId, phone ? phone.digits : number);
     
     res.json({
       success: true,
-      data: validatedNumber,
+      data: { ...validatedNumber, phone },
       message: 'Number validated successfully'
     });
   } catch (error) {
+    if (error instanceof InvalidPhoneNumberError) {
+      sendInvalidNumber(res, error);
+      return;
+    }
+
     // Tratar erro de saldo insuficiente
     if (error instanceof InsufficientBalanceError) {
       res.status(402).json({
         success: false,
         error: error.message,
-        message: 'Saldo insuficiente para validar número (0.10 créditos necessários)'
+        message: 'Saldo insuficiente para validar número'
       });
       return;
     }
@@ -0,0 +1,458 @@
+import { Request, Response } from 'express';
+import { OrganizationService } from '../services/organizations/OrganizationService';
+import { ApiResponse } from '../types/types';
+import {
+  AcceptInviteRequest,
+  CreateInviteRequest,
+  CreateOrganizationRequest,
+  UpdateMemberRoleRequest,
+  UpdateOrganizationRequest
+} from '../types/organizations';
+import logger from '../utils/logger';
+
+export class OrganizationController {
+  private organizationService: OrganizationService;
+
+  constructor() {
+    this.organizationService = new OrganizationService();
+  }
+
+  getOrganizations = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const organizations = await this.organizationService.getUserOrganizations(userId);
+
+      res.json({
+        success: true,
+        data: organizations,
+        message: 'Organizações recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter organizações:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar organizações'
+      });
+    }
+  };
+
+  createOrganization = async (
+    req: Request<{}, ApiResponse, CreateOrganizationRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const organization = await this.organizationService.createOrganization(userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: organization,
+        message: 'Organização criada com sucesso. Use o header X-Organization-Id para acessá-la'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar organização:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar organização'
+      });
+    }
+  };
+
+  getCurrentOrganization = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const organization = await this.organizationService.getOrganization(organizationId);
+
+      res.json({
+        success: true,
+        data: { ...organization, role: req.user?.role },
+        message: 'Organização recuperada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter organização:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar organização'
+      });
+    }
+  };
+
+  updateCurrentOrganization = async (
+    req: Request<{}, ApiResponse, UpdateOrganizationRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const organization = await this.organizationService.updateOrganization(organizationId, req.body);
+
+      res.json({
+        success: true,
+        data: organization,
+        message: 'Organização atualizada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar organização:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar organização'
+      });
+    }
+  };
+
+  getMembers = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const members = await this.organizationService.getMembers(organizationId);
+
+      res.json({
+        success: true,
+        data: members,
+        message: 'Membros recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter membros:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar membros'
+      });
+    }
+  };
+
+  updateMemberRole = async (
+    req: Request<{ userId: string }, ApiResponse, UpdateMemberRoleRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!role) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça o role'
+        });
+        return;
+      }
+
+      const member = await this.organizationService.updateMemberRole(organizationId, userId, role);
+
+      res.json({
+        success: true,
+        data: member,
+        message: 'Papel do membro atualizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar papel do membro:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar papel'
+      });
+    }
+  };
+
+  removeMember = async (
+    req: Request<{ userId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.organizationService.removeMember(organizationId, userId);
+
+      res.json({
+        success: true,
+        message: 'Membro removido com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover membro:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover membro'
+      });
+    }
+  };
+
+  leaveOrganization = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
+
+      if (!userId || !organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.organizationService.removeMember(organizationId, userId);
+
+      res.json({
+        success: true,
+        message: 'Você saiu da organização'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao sair da organização:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao sair da organização'
+      });
+    }
+  };
+
+  createInvite = async (
+    req: Request<{}, ApiResponse, CreateInviteRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      const organizationId = req.user?.organizationId;
+
+      if (!userId || !organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!req.body.email) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça o email do convidado'
+        });
+        return;
+      }
+
+      const invite = await this.organizationService.createInvite(organizationId, userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: invite,
+        message: 'Convite enviado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar convite:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar convite'
+      });
+    }
+  };
+
+  getInvites = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const invites = await this.organizationService.getPendingInvites(organizationId);
+
+      res.json({
+        success: true,
+        data: invites,
+        message: 'Convites recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter convites:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar convites'
+      });
+    }
+  };
+
+  revokeInvite = async (
+    req: Request<{ inviteId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { inviteId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.organizationService.revokeInvite(organizationId, inviteId);
+
+      res.json({
+        success: true,
+        message: 'Convite revogado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao revogar convite:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao revogar convite'
+      });
+    }
+  };
+
+  acceptInvite = async (
+    req: Request<{}, ApiResponse, AcceptInviteRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const { token } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!token) {
+        res.status(400).json({
+          success: false,
+          error: 'Token é obrigatório',
+          message: 'Forneça o token recebido no email de convite'
+        });
+        return;
+      }
+
+      const organization = await this.organizationService.acceptInvite(userId, token);
+
+      res.json({
+        success: true,
+        data: organization,
+        message: 'Convite aceito com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao aceitar convite:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao aceitar convite'
+      });
+    }
+  };
+}
@@ -0,0 +1,248 @@
+import { Request, Response } from 'express';
+import { PaymentService } from '../services/payments/PaymentService';
+import { CreatePaymentRequest, PaymentSignatureError, PaymentStatus, SimulatePaymentRequest } from '../types/payments';
+import { ApiResponse } from '../types/types';
+import logger from '../utils/logger';
+
+export class PaymentController {
+  private paymentService: PaymentService;
+
+  constructor() {
+    this.paymentService = new PaymentService();
+  }
+
+  getPackages = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    res.json({
+      success: true,
+      data: this.paymentService.getPackages(),
+      message: 'Pacotes de créditos recuperados com sucesso'
+    });
+  };
+
+  createPayment = async (
+    req: Request<{}, ApiResponse, CreatePaymentRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId || !req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const { packageId, method } = req.body;
+
+      if (!packageId || !method) {
+        res.status(400).json({
+          success: false,
+          error: 'packageId e method são obrigatórios',
+          message: 'Falha ao criar pagamento'
+        });
+        return;
+      }
+
+      const payment = await this.paymentService.createPayment(
+        organizationId,
+        { userId: req.user.userId, email: req.user.email },
+        { packageId, method }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: payment,
+        message: 'Pagamento criado; os créditos serão adicionados após a confirmação'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar pagamento:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar pagamento'
+      });
+    }
+  };
+
+  getPayments = async (
+    req: Request,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+      const result = await this.paymentService.getPayments(
+        organizationId,
+        page,
+        limit,
+        req.query.status as PaymentStatus | undefined
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Pagamentos recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao listar pagamentos:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar pagamentos'
+      });
+    }
+  };
+
+  getPaymentById = async (
+    req: Request<{ paymentId: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const payment = await this.paymentService.getPaymentById(organizationId, req.params.paymentId);
+
+      if (!payment) {
+        res.status(404).json({
+          success: false,
+          error: 'Pagamento não encontrado',
+          message: 'O pagamento especificado não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: payment,
+        message: 'Pagamento recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter pagamento:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar pagamento'
+      });
+    }
+  };
+
+  simulatePayment = async (
+    req: Request<{ paymentId: string }, ApiResponse, SimulatePaymentRequest>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const status = req.body.status || 'paid';
+
+      if (!['paid', 'failed', 'expired'].includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: 'status deve ser paid, failed ou expired',
+          message: 'Falha ao simular pagamento'
+        });
+        return;
+      }
+
+      const payment = await this.paymentService.simulate(organizationId, req.params.paymentId, status);
+
+      res.json({
+        success: true,
+        data: payment,
+        message: 'Notificação do gateway simulada com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao simular pagamento:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao simular pagamento'
+      });
+    }
+  };
+
+  /**
+   * Notificações dos gateways; sem autenticação, validadas pela assinatura.
+   * Qualquer resposta diferente de 2xx faz o gateway reenviar mais tarde.
+   */
+  handleWebhook = async (
+    req: Request<{ provider: string }>,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        res.status(400).json({
+          success: false,
+          error: 'Corpo da notificação ausente',
+          message: 'Falha ao processar notificação'
+        });
+        return;
+      }
+
+      await this.paymentService.handleWebhook(req.params.provider, req.body, req.headers);
+
+      res.json({
+        success: true,
+        message: 'Notificação processada'
+      });
+
+    } catch (error) {
+      if (error instanceof PaymentSignatureError) {
+        logger.warn(`Notificação do gateway ${req.params.provider} com assinatura inválida`);
+        res.status(401).json({
+          success: false,
+          error: error.message,
+          message: 'Falha ao processar notificação'
+        });
+        return;
+      }
+
+      logger.error(`Erro ao processar notificação do gateway ${req.params.provider}:`, error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao processar notificação'
+      });
+    }
+  };
+}
@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import whatsappService from '../services/whatsappService';
+import eventBus from '../services/events/EventBus';
+import { WhatsAppEvent, WhatsAppEventType, WHATSAPP_EVENT_TYPES } from '../types/events';
+import { canAccessConnection } from '../middleware/authMiddleware';
+import logger from '../utils/logger';
+
+export class RealtimeController {
+  private readonly HEARTBEAT_INTERVAL = 25000;
+
+  /**
+   * Stream de eventos (Server-Sent Events) das conexões da organização ativa
+   */
+  streamEvents = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    const organizationId = req.user?.organizationId;
+
+    if (!organizationId) {
+      res.status(401).json({
+        success: false,
+        error: 'Usuário não autenticado',
+        message: 'Token de acesso inválido'
+      });
+      return;
+    }
+
+    const connectionId = req.query.connectionId as string | undefined;
+    const eventsParam = req.query.events as string | undefined;
+    const events = eventsParam
+      ? eventsParam.split(',').map(event => event.trim()).filter(Boolean) as WhatsAppEventType[]
+      : undefined;
+
+    if (events) {
+      const invalid = events.filter(event => !WHATSAPP_EVENT_TYPES.includes(event));
+      if (invalid.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: `Eventos inválidos: ${invalid.join(', ')}`,
+          message: `Eventos válidos: ${WHATSAPP_EVENT_TYPES.join(', ')}`
+        });
+        return;
+      }
+    }
+
+    if (connectionId && !(await whatsappService.findConnection(organizationId, connectionId))) {
+      res.status(404).json({
+        success: false,
+        error: 'Conexão não encontrada',
+        message: 'A conexão WhatsApp especificada não existe'
+      });
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Desabilitar buffer em proxies nginx
+    res.flushHeaders();
+
+    let eventId = 0;
+    const send = (event: string, data: any) => {
+      eventId++;
+      res.write(`id: ${eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Estado atual das conexões, para o cliente não precisar consultar a API
+    const connections = (await whatsappService.listConnections(organizationId))
+      .filter(connection => !connectionId || connection.id === connectionId)
+      .filter(connection => canAccessConnection(req, connection.id));
+    send('connection.snapshot', { connections });
+
+    const unsubscribe = eventBus.subscribe((event: WhatsAppEvent) => {
+      if (event.organizationId !== organizationId) return;
+      if (connectionId && event.connectionId !== connectionId) return;
+      if (!canAccessConnection(req, event.connectionId)) return;
+      if (events && !events.includes(event.event)) return;
+
+      try {
+        send(event.event, event);
+      } catch (error) {
+        logger.debug(`Erro ao enviar evento ${event.event} via SSE para organização ${organizationId}:`, error);
+      }
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': ping\n\n');
+    }, this.HEARTBEAT_INTERVAL);
+
+    logger.info(`Cliente SSE conectado para organização ${organizationId}${connectionId ? ` (conexão ${connectionId})` : ''}`);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.info(`Cliente SSE desconectado para organização ${organizationId}`);
+    });
+  };
+}
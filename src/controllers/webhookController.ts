@@ -0,0 +1,370 @@
+import { NextFunction, Request, Response } from 'express';
+import { canAccessConnection } from '../middleware/authMiddleware';
+import { WebhookService } from '../services/webhooks/WebhookService';
+import { WebhookResponse, CreateWebhookRequest, UpdateWebhookRequest } from '../types/webhooks';
+import logger from '../utils/logger';
+
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  createWebhook = async (
+    req: Request<{}, WebhookResponse, CreateWebhookRequest>,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const { url, events, connectionId, description } = req.body;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (!url || !events) {
+        res.status(400).json({
+          success: false,
+          error: 'Dados obrigatórios ausentes',
+          message: 'Forneça url e events'
+        });
+        return;
+      }
+
+      // Webhooks sem conexão recebem eventos de todas as conexões
+      if (!connectionId && req.apiKey?.connectionIds.length) {
+        res.status(403).json({
+          success: false,
+          error: 'Conexão não permitida',
+          message: 'Chaves de API restritas a conexões precisam informar connectionId'
+        });
+        return;
+      }
+
+      const webhook = await this.webhookService.createWebhook(organizationId, { url, events, connectionId, description });
+
+      res.status(201).json({
+        success: true,
+        data: webhook,
+        message: 'Webhook criado com sucesso. Guarde o segredo, ele não será exibido novamente'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao criar webhook:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao criar webhook'
+      });
+    }
+  };
+
+  getWebhooks = async (
+    req: Request,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const webhooks = await this.webhookService.getWebhooks(organizationId, req.apiKey?.connectionIds);
+
+      res.json({
+        success: true,
+        data: webhooks,
+        message: 'Webhooks recuperados com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter webhooks:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar webhooks'
+      });
+    }
+  };
+
+  getWebhookById = async (
+    req: Request<{ webhookId: string }>,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const { webhookId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const webhook = await this.webhookService.getWebhookById(organizationId, webhookId);
+
+      if (!webhook) {
+        res.status(404).json({
+          success: false,
+          error: 'Webhook não encontrado',
+          message: 'O webhook especificado não existe'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: webhook,
+        message: 'Webhook recuperado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter webhook:', error);
+      res.status(500).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar webhook'
+      });
+    }
+  };
+
+  updateWebhook = async (
+    req: Request<{ webhookId: string }, WebhookResponse, UpdateWebhookRequest>,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const { webhookId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      if (req.body.connectionId !== undefined && !req.body.connectionId && req.apiKey?.connectionIds.length) {
+        res.status(403).json({
+          success: false,
+          error: 'Conexão não permitida',
+          message: 'Chaves de API restritas a conexões precisam informar connectionId'
+        });
+        return;
+      }
+
+      const webhook = await this.webhookService.updateWebhook(organizationId, webhookId, req.body);
+
+      res.json({
+        success: true,
+        data: webhook,
+        message: 'Webhook atualizado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao atualizar webhook:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao atualizar webhook'
+      });
+    }
+  };
+
+  rotateSecret = async (
+    req: Request<{ webhookId: string }>,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const { webhookId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const webhook = await this.webhookService.rotateSecret(organizationId, webhookId);
+
+      res.json({
+        success: true,
+        data: webhook,
+        message: 'Segredo do webhook rotacionado com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao rotacionar segredo do webhook:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao rotacionar segredo'
+      });
+    }
+  };
+
+  deleteWebhook = async (
+    req: Request<{ webhookId: string }>,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const { webhookId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      await this.webhookService.deleteWebhook(organizationId, webhookId);
+
+      res.json({
+        success: true,
+        message: 'Webhook removido com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao remover webhook:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao remover webhook'
+      });
+    }
+  };
+
+  testWebhook = async (
+    req: Request<{ webhookId: string }>,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const { webhookId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const delivery = await this.webhookService.sendTest(organizationId, webhookId);
+
+      res.json({
+        success: delivery.status === 'success',
+        data: delivery,
+        message: delivery.status === 'success'
+          ? `Evento de teste entregue (HTTP ${delivery.statusCode})`
+          : `Falha ao entregar evento de teste: ${delivery.error}`
+      });
+
+    } catch (error) {
+      logger.error('Erro ao testar webhook:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao testar webhook'
+      });
+    }
+  };
+
+  getDeliveries = async (
+    req: Request<{ webhookId: string }>,
+    res: Response<WebhookResponse>
+  ): Promise<void> => {
+    try {
+      const { webhookId } = req.params;
+      const organizationId = req.user?.organizationId;
+
+      if (!organizationId) {
+        res.status(401).json({
+          success: false,
+          error: 'Usuário não autenticado',
+          message: 'Token de acesso inválido'
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const status = req.query.status as 'pending' | 'success' | 'failed' | undefined;
+
+      const result = await this.webhookService.getDeliveries(organizationId, webhookId, page, limit, status);
+
+      res.json({
+        success: true,
+        data: result.deliveries,
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: result.totalPages,
+        message: 'Entregas recuperadas com sucesso'
+      });
+
+    } catch (error) {
+      logger.error('Erro ao obter entregas do webhook:', error);
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+        message: 'Falha ao recuperar entregas'
+      });
+    }
+  };
+
+  /**
+   * Chaves de API limitadas a algumas conexões só acessam os webhooks dessas conexões
+   */
+  checkConnectionAccess = async (
+    req: Request<{ webhookId: string }>,
+    res: Response<WebhookResponse>,
+    next: NextFunction
+  ): Promise<void> => {
+    const organizationId = req.user?.organizationId;
+
+    if (!organizationId || !req.apiKey || req.apiKey.connectionIds.length === 0) {
+      next();
+      return;
+    }
+
+    const webhook = await this.webhookService.getWebhookById(organizationId, req.params.webhookId);
+
+    // Webhooks sem conexão recebem eventos de todas, inclusive das que a chave não acessa
+    if (webhook && (!webhook.connectionId || !canAccessConnection(req, webhook.connectionId))) {
+      res.status(403).json({
+        success: false,
+        error: 'Conexão não permitida',
+        message: webhook.connectionId
+          ? `A chave de API não tem acesso à conexão ${webhook.connectionId}`
+          : 'A chave de API não tem acesso a webhooks de todas as conexões'
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -1,27 +1,58 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserService } from '../services/auth/UserService';
-import { AuthResponse, JWTPayload } from '../types/auth';
+import { ApiKeyService } from '../services/auth/ApiKeyService';
+import { SessionService } from '../services/auth/SessionService';
+import { OrganizationService } from '../services/organizations/OrganizationService';
+import { ApiKeyContext, AuthResponse, JWTPayload } from '../types/auth';
+import { Permission, hasPermission } from '../types/permissions';
 import logger from '../utils/logger';
 
-// Estender interface Request para incluir user
+// Estender interface Request para incluir user e a chave de API usada
 declare global {
   namespace Express {
     interface Request {
       user?: JWTPayload;
+      apiKey?: ApiKeyContext;
     }
   }
 }
 
 export class AuthMiddleware {
   private userService: UserService;
+  private apiKeyService: ApiKeyService;
+  private sessionService: SessionService;
+  private organizationService: OrganizationService;
 
   constructor() {
     this.userService = new UserService();
+    this.apiKeyService = new ApiKeyService();
+    this.sessionService = new SessionService();
+    this.organizationService = new OrganizationService();
   }
 
   authenticate = async (req: Request, res: Response<AuthResponse>, next: NextFunction): Promise<void> => {
     try {
       const authHeader = req.headers.authorization;
+      const apiKeyHeader = req.headers['x-api-key'];
+
+      // Chave de API no header X-API-Key ou como Bearer; a organização é sempre a da chave
+      if (typeof apiKeyHeader === 'string' || (authHeader && this.apiKeyService.isApiKey(authHeader.replace(/^Bearer /, '')))) {
+        const key = typeof apiKeyHeader === 'string' ? apiKeyHeader : authHeader!.replace(/^Bearer /, '');
+
+        try {
+          const { user, apiKey } = await this.apiKeyService.authenticate(key);
+          req.user = user;
+          req.apiKey = apiKey;
+          next();
+        } catch (error) {
+          res.status(401).json({
+            success: false,
+            error: 'Chave de API inválida',
+            message: (error as Error).message
+          });
+        }
+        return;
+      }
 
       if (!authHeader) {
         res.status(401).json({
@@ -47,6 +78,16 @@ export class AuthMiddleware {
 
       // Verificar e decodificar token
       const decoded = this.userService.verifyToken(token);
+
+      // Tokens sem sessão (emitidos antes dos refresh tokens) ou de sessões encerradas não valem mais
+      if (!decoded.sessionId || !(await this.sessionService.isSessionActive(decoded.sessionId))) {
+        res.status(401).json({
+          success: false,
+          error: 'Sessão encerrada',
+          message: 'Faça login novamente'
+        });
+        return;
+      }
       
       // Verificar se usuário ainda existe
       const user = await this.userService.getUserById(decoded.userId);
@@ -59,8 +100,38 @@ export class AuthMiddleware {
         return;
       }
 
-      // Adicionar dados do usuário à requisição
-      req.user = decoded;
+      if (user.suspendedAt) {
+        res.status(403).json({
+          success: false,
+          error: 'Conta suspensa',
+          message: user.suspendedReason || 'Entre em contato com o suporte'
+        });
+        return;
+      }
+
+      // Organização ativa: header X-Organization-Id ou, sem ele, a organização pessoal
+      const header = req.headers['x-organization-id'];
+      const requestedOrganizationId = typeof header === 'string' && header ? header : undefined;
+      const membership = await this.organizationService.resolveMembership(user.id, user.role, requestedOrganizationId);
+
+      // Sem organização alguma o usuário ainda acessa o perfil e pode aceitar convites
+      if (!membership && requestedOrganizationId) {
+        res.status(403).json({
+          success: false,
+          error: 'Acesso negado',
+          message: 'Você não é membro desta organização'
+        });
+        return;
+      }
+
+      // Adicionar dados do usuário e da organização à requisição
+      req.user = {
+        ...decoded,
+        organizationId: membership?.organizationId,
+        role: membership?.role,
+        platformRole: user.role,
+        defaultCountry: user.defaultCountry
+      };
       next();
 
     } catch (error) {
@@ -86,10 +157,11 @@ export class AuthMiddleware {
 
         if (token) {
           const decoded = this.userService.verifyToken(token);
-          const user = await this.userService.getUserById(decoded.userId);
+          const active = !!decoded.sessionId && await this.sessionService.isSessionActive(decoded.sessionId);
+          const user = active ? await this.userService.getUserById(decoded.userId) : null;
           
           if (user) {
-            req.user = decoded;
+            req.user = { ...decoded, platformRole: user.role, defaultCountry: user.defaultCountry };
           }
         }
       }
@@ -102,41 +174,111 @@ export class AuthMiddleware {
   };
 }
 
-// Middleware para verificar se usuário é admin
-export const requireAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    const userId = req.user?.userId;
+// Middleware para verificar se usuário é admin da plataforma
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Usuário não autenticado',
+      message: 'Token de acesso requerido'
+    });
+    return;
+  }
 
-    if (!userId) {
-      res.status(401).json({
-        success: false,
-        error: 'Usuário não autenticado',
-        message: 'Token de acesso requerido'
-      });
-      return;
-    }
+  if (req.user.platformRole !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Acesso negado',
+      message: 'Apenas administradores podem realizar esta ação'
+    });
+    return;
+  }
 
-    const userService = new UserService();
-    const user = await userService.getUserById(userId);
+  next();
+};
 
-    if (!user || user.role !== 'admin') {
-      res.status(403).json({
-        success: false,
-        error: 'Acesso negado',
-        message: 'Apenas administradores podem realizar esta ação'
-      });
-      return;
-    }
+// Exige a permissão no papel do usuário na organização ativa (ou na plataforma) e, com chave de API,
+// também o escopo e a restrição de conexões da chave
+export const requirePermission = (permission: Permission) => (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Usuário não autenticado',
+      message: 'Token de acesso requerido'
+    });
+    return;
+  }
 
+  if (!hasPermission(req.user.role, permission, req.user.platformRole)) {
+    res.status(403).json({
+      success: false,
+      error: 'Acesso negado',
+      message: req.user.role
+        ? `Seu perfil (${req.user.role}) não possui a permissão ${permission}`
+        : 'Você não participa de nenhuma organização. Crie uma organização ou aceite um convite para continuar'
+    });
+    return;
+  }
+
+  const apiKey = req.apiKey;
+
+  // Sessões de usuário (JWT) não têm restrição adicional
+  if (!apiKey) {
     next();
-  } catch (error) {
-    logger.error('Erro na verificação de admin:', error);
-    res.status(500).json({
+    return;
+  }
+
+  if (!(apiKey.scopes as string[]).includes(permission)) {
+    res.status(403).json({
       success: false,
-      error: 'Erro interno',
-      message: 'Falha na verificação de permissões'
+      error: 'Escopo insuficiente',
+      message: `A chave de API não possui o escopo ${permission}`
     });
+    return;
   }
+
+  const deniedConnection = getRequestedConnectionIds(req).find(connectionId => !canAccessConnection(req, connectionId));
+  if (deniedConnection) {
+    res.status(403).json({
+      success: false,
+      error: 'Conexão não permitida',
+      message: `A chave de API não tem acesso à conexão ${deniedConnection}`
+    });
+    return;
+  }
+
+  next();
+};
+
+// Rotas que só podem ser usadas com login (ex.: gerenciar chaves, senha e organizações)
+export const requireUserSession = (req: Request, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    res.status(403).json({
+      success: false,
+      error: 'Acesso negado',
+      message: 'Esta rota não aceita chave de API'
+    });
+    return;
+  }
+
+  next();
+};
+
+export const canAccessConnection = (req: Request, connectionId: string): boolean => {
+  return !req.apiKey || req.apiKey.connectionIds.length === 0 || req.apiKey.connectionIds.includes(connectionId);
+};
+
+const getRequestedConnectionIds = (req: Request): string[] => {
+  const body = req.body && typeof req.body === 'object' ? req.body : {};
+  const values = [
+    req.params?.connectionId,
+    req.query?.connectionId,
+    body.connectionId,
+    body.connection_id,
+    ...(Array.isArray(body.connectionIds) ? body.connectionIds : [])
+  ];
+
+  return values.filter((value): value is string => typeof value === 'string' && value.length > 0);
 };
 
 // Instância singleton
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/adminController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const adminController = new AdminController();
+
+// Todas as rotas exigem permissão de gerenciar usuários
+router.use(authenticate, requirePermission('users:manage'));
+
+// Papéis e permissões
+router.get('/roles', asyncHandler(adminController.getRoles));
+router.put('/users/:userId/role', asyncHandler(adminController.updateUserRole));
+
+// Usuários
+router.get('/users', asyncHandler(adminController.getUsers));
+router.get('/users/:userId', asyncHandler(adminController.getUser));
+router.post('/users/:userId/suspend', asyncHandler(adminController.suspendUser));
+router.post('/users/:userId/reactivate', asyncHandler(adminController.reactivateUser));
+
+// Saldos e transações
+router.get('/organizations/:organizationId/stats', requirePermission('balance:manage'), asyncHandler(adminController.getOrganizationStats));
+router.get('/transactions/summary', requirePermission('balance:manage'), asyncHandler(adminController.getTransactionSummary));
+
+// Tabela de preços (cada alteração cria uma nova versão)
+router.get('/prices', requirePermission('balance:manage'), asyncHandler(adminController.getPrices));
+router.get('/prices/history', requirePermission('balance:manage'), asyncHandler(adminController.getPriceHistory));
+router.put('/prices/:action', requirePermission('balance:manage'), asyncHandler(adminController.updatePrice));
+router.delete('/prices/:action/organizations/:organizationId', requirePermission('balance:manage'), asyncHandler(adminController.removeOrganizationPrice));
+router.delete('/prices/:action/plans/:planId', requirePermission('balance:manage'), asyncHandler(adminController.removePlanPrice));
+
+// Planos de assinatura
+router.get('/plans', requirePermission('balance:manage'), asyncHandler(adminController.getPlans));
+router.post('/plans', requirePermission('balance:manage'), asyncHandler(adminController.createPlan));
+router.put('/plans/:planId', requirePermission('balance:manage'), asyncHandler(adminController.updatePlan));
+
+// Conexões de todas as organizações
+router.get('/connections', asyncHandler(adminController.getConnections));
+router.post('/connections/:connectionId/disconnect', asyncHandler(adminController.disconnectConnection));
+router.post('/connections/:connectionId/restart', asyncHandler(adminController.restartConnection));
+
+export default router;
@@ -1,19 +1,31 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
-import { authenticate } from '../middleware/authMiddleware';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { authenticate, optionalAuth, requireUserSession } from '../middleware/authMiddleware';
 import { asyncHandler } from '../middleware/errorHandler';
 
 const router = Router();
 const authController = new AuthController();
+const apiKeyController = new ApiKeyController();
 
 // Rotas públicas
 router.post('/register', asyncHandler(authController.register));
 router.post('/login', asyncHandler(authController.login));
 router.post('/forgot-password', asyncHandler(authController.forgotPassword));
 router.post('/reset-password', asyncHandler(authController.resetPassword));
+router.post('/refresh', asyncHandler(authController.refresh));
+router.post('/logout', optionalAuth, asyncHandler(authController.logout));
 
 // Rotas protegidas (requerem autenticação)
 router.get('/profile', authenticate, asyncHandler(authController.getProfile));
-router.put('/update-password', authenticate, asyncHandler(authController.updatePassword));
+router.put('/profile', authenticate, requireUserSession, asyncHandler(authController.updateProfile));
+router.put('/update-password', authenticate, requireUserSession, asyncHandler(authController.updatePassword));
+router.post('/logout-all', authenticate, requireUserSession, asyncHandler(authController.logoutAll));
+
+// Chaves de API (gerenciadas apenas com login)
+router.post('/api-keys', authenticate, requireUserSession, asyncHandler(apiKeyController.createApiKey));
+router.get('/api-keys', authenticate, requireUserSession, asyncHandler(apiKeyController.getApiKeys));
+router.put('/api-keys/:keyId', authenticate, requireUserSession, asyncHandler(apiKeyController.updateApiKey));
+router.delete('/api-keys/:keyId', authenticate, requireUserSession, asyncHandler(apiKeyController.revokeApiKey));
 
 export default router;
\ No newline at end of file
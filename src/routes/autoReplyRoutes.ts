@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { AutoReplyController } from '../controllers/autoReplyController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const autoReplyController = new AutoReplyController();
+
+// Todas as rotas requerem autenticação
+router.use(authenticate, requirePermission('auto-replies:manage'));
+
+// Chaves de API restritas a conexões só enxergam as regras dessas conexões
+router.use('/:ruleId', asyncHandler(autoReplyController.checkConnectionAccess));
+
+// CRUD de regras de resposta automática
+router.post('/', asyncHandler(autoReplyController.createRule));
+router.get('/', asyncHandler(autoReplyController.getRules));
+router.get('/:ruleId', asyncHandler(autoReplyController.getRuleById));
+router.put('/:ruleId', asyncHandler(autoReplyController.updateRule));
+router.delete('/:ruleId', asyncHandler(autoReplyController.deleteRule));
+
+export default router;
@@ -1,22 +1,30 @@
 import { Router } from 'express';
 import { BalanceController } from '../controllers/balanceController';
-import { authenticate, requireAdmin } from '../middleware/authMiddleware';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
 import { asyncHandler } from '../middleware/errorHandler';
 
 const router = Router();
 const balanceController = new BalanceController();
 
 // Todas as rotas requerem autenticação
-router.use(authenticate);
+router.use(authenticate, requirePermission('balance:read'));
 
 // Rotas de saldo
 router.get('/', asyncHandler(balanceController.getBalance));
-router.post('/add', requireAdmin, asyncHandler(balanceController.addBalance));
+router.post('/add', requirePermission('balance:manage'), asyncHandler(balanceController.addBalance));
 
 // Rotas de transações
 router.get('/transactions', asyncHandler(balanceController.getTransactions));
 
 // Rotas de estatísticas
-router.get('/stats', asyncHandler(balanceController.getUserStats));
+router.get('/stats', asyncHandler(balanceController.getOrganizationStats));
+
+// Preços vigentes para a organização
+router.get('/prices', asyncHandler(balanceController.getPrices));
+
+// Planos de assinatura
+router.get('/plans', asyncHandler(balanceController.getPlans));
+router.post('/plan', requirePermission('plans:manage'), asyncHandler(balanceController.subscribePlan));
+router.delete('/plan', requirePermission('plans:manage'), asyncHandler(balanceController.cancelPlan));
 
 export default router;
\ No newline at end of file
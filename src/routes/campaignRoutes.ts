@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { CampaignController } from '../controllers/campaignController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const campaignController = new CampaignController();
+
+// Todas as rotas requerem autenticação
+router.use(authenticate, requirePermission('campaigns:manage'));
+
+// Chaves de API restritas a conexões só enxergam as campanhas dessas conexões
+router.use('/:campaignId', asyncHandler(campaignController.checkConnectionAccess));
+
+// Campanhas
+router.post('/', asyncHandler(campaignController.createCampaign));
+router.get('/', asyncHandler(campaignController.getCampaigns));
+router.get('/:campaignId', asyncHandler(campaignController.getCampaignById));
+router.get('/:campaignId/recipients', asyncHandler(campaignController.getRecipients));
+
+// Controle de execução
+router.post('/:campaignId/pause', asyncHandler(campaignController.pauseCampaign));
+router.post('/:campaignId/resume', asyncHandler(campaignController.resumeCampaign));
+router.post('/:campaignId/cancel', asyncHandler(campaignController.cancelCampaign));
+
+export default router;
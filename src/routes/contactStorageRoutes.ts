@@ -1,24 +1,27 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { ContactStorageController } from '../controllers/contactStorageController';
-import { authenticate } from '../middleware/authMiddleware';
+import { ContactGroupController } from '../controllers/contactGroupController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
 import { asyncHandler } from '../middleware/errorHandler';
 
 const router = Router();
 const contactController = new ContactStorageController();
+const groupController = new ContactGroupController();
+const canRead = requirePermission('contacts:read');
+const canWrite = requirePermission('contacts:write');
 
-// Configurar multer para upload de arquivos TXT
+// Configurar multer para importação (TXT, CSV, XLSX e vCard)
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB
+    fileSize: 10 * 1024 * 1024, // 10MB
   },
   fileFilter: (req, file, cb) => {
-    // Aceitar apenas arquivos de texto
-    if (file.mimetype.includes('text') || file.originalname.endsWith('.txt')) {
+    if (file.mimetype.includes('text') || /\.(txt|csv|xlsx|vcf)$/i.test(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Apenas arquivos TXT são aceitos'));
+      cb(new Error('Apenas arquivos TXT, CSV, XLSX ou VCF são aceitos'));
     }
   }
 });
@@ -27,18 +30,50 @@ const upload = multer({
 router.use(authenticate);
 
 // CRUD de contatos
-router.post('/', asyncHandler(contactController.createContact));
-router.get('/', asyncHandler(contactController.getContacts));
-router.get('/whatsapp', asyncHandler(contactController.getContactsWithWhatsApp));
-router.get('/:contactId', asyncHandler(contactController.getContactById));
-router.put('/:contactId', asyncHandler(contactController.updateContact));
-router.delete('/:contactId', asyncHandler(contactController.deleteContact));
+router.post('/', canWrite, asyncHandler(contactController.createContact));
+router.get('/', canRead, asyncHandler(contactController.getContacts));
+router.get('/whatsapp', canRead, asyncHandler(contactController.getContactsWithWhatsApp));
+router.get('/export', canRead, asyncHandler(contactController.exportContacts));
+
+// Validação em lote (antes de /:contactId)
+router.post('/validate-batch', canWrite, asyncHandler(contactController.validateBatch));
+router.get('/validate-batch', canRead, asyncHandler(contactController.getValidationBatches));
+router.get('/validate-batch/:jobId', canRead, asyncHandler(contactController.getValidationBatch));
+router.post('/validate-batch/:jobId/cancel', canWrite, asyncHandler(contactController.cancelValidationBatch));
+
+// Tags (antes de /:contactId)
+router.get('/tags', canRead, asyncHandler(groupController.getTags));
+router.post('/tags', canWrite, asyncHandler(groupController.createTag));
+router.post('/tags/bulk-add', canWrite, asyncHandler(groupController.addTags));
+router.post('/tags/bulk-remove', canWrite, asyncHandler(groupController.removeTags));
+router.put('/tags/:tagId', canWrite, asyncHandler(groupController.updateTag));
+router.delete('/tags/:tagId', canWrite, asyncHandler(groupController.deleteTag));
+
+// Listas estáticas
+router.get('/lists', canRead, asyncHandler(groupController.getLists));
+router.post('/lists', canWrite, asyncHandler(groupController.createList));
+router.get('/lists/:listId', canRead, asyncHandler(groupController.getListById));
+router.put('/lists/:listId', canWrite, asyncHandler(groupController.updateList));
+router.delete('/lists/:listId', canWrite, asyncHandler(groupController.deleteList));
+router.post('/lists/:listId/contacts', canWrite, asyncHandler(groupController.addListContacts));
+router.post('/lists/:listId/contacts/remove', canWrite, asyncHandler(groupController.removeListContacts));
+
+// Segmentos dinâmicos
+router.get('/segments', canRead, asyncHandler(groupController.getSegments));
+router.post('/segments', canWrite, asyncHandler(groupController.createSegment));
+router.get('/segments/:segmentId', canRead, asyncHandler(groupController.getSegmentById));
+router.put('/segments/:segmentId', canWrite, asyncHandler(groupController.updateSegment));
+router.delete('/segments/:segmentId', canWrite, asyncHandler(groupController.deleteSegment));
+
+router.get('/:contactId', canRead, asyncHandler(contactController.getContactById));
+router.put('/:contactId', canWrite, asyncHandler(contactController.updateContact));
+router.delete('/:contactId', canWrite, asyncHandler(contactController.deleteContact));
 
 // Validação WhatsApp
-router.post('/validate-whatsapp', asyncHandler(contactController.validateContactWhatsApp));
+router.post('/validate-whatsapp', canWrite, asyncHandler(contactController.validateContactWhatsApp));
 
 // Importação e limpeza
-router.post('/import', upload.single('file') as any, asyncHandler(contactController.importContacts));
-router.delete('/', asyncHandler(contactController.deleteAllContacts));
+router.post('/import', canWrite, upload.single('file') as any, asyncHandler(contactController.importContacts));
+router.delete('/', canWrite, asyncHandler(contactController.deleteAllContacts));
 
 export default router;
\ No newline at end of file
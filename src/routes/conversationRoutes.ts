@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { ConversationController } from '../controllers/conversationController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const conversationController = new ConversationController();
+
+// Todas as rotas requerem autenticação
+router.use(authenticate);
+
+// Chaves de API restritas a conexões só enxergam as conversas dessas conexões
+router.use('/:conversationId', asyncHandler(conversationController.checkConnectionAccess));
+
+// Caixa de entrada compartilhada
+router.get('/', requirePermission('messages:read'), asyncHandler(conversationController.getConversations));
+router.get('/:conversationId', requirePermission('messages:read'), asyncHandler(conversationController.getConversationById));
+router.put('/:conversationId', requirePermission('conversations:manage'), asyncHandler(conversationController.updateConversation));
+router.post('/:conversationId/read', requirePermission('messages:read'), asyncHandler(conversationController.markRead));
+
+// Mensagens do chat e resposta pela conversa
+router.get('/:conversationId/messages', requirePermission('messages:read'), asyncHandler(conversationController.getMessages));
+router.post('/:conversationId/messages', requirePermission('messages:send'), asyncHandler(conversationController.reply));
+
+// Notas internas (não são enviadas ao WhatsApp)
+router.get('/:conversationId/notes', requirePermission('messages:read'), asyncHandler(conversationController.getNotes));
+router.post('/:conversationId/notes', requirePermission('conversations:manage'), asyncHandler(conversationController.addNote));
+router.delete('/:conversationId/notes/:noteId', requirePermission('conversations:manage'), asyncHandler(conversationController.deleteNote));
+
+export default router;
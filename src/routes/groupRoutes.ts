@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { GroupController } from '../controllers/groupController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const groupController = new GroupController();
+const canRead = requirePermission('groups:read');
+const canManage = requirePermission('groups:manage');
+
+// Configurar multer para upload da foto do grupo
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Apenas imagens são aceitas'));
+    }
+  }
+});
+
+// Todas as rotas requerem autenticação
+router.use(authenticate);
+
+// Convites (antes das rotas com :groupId)
+router.post('/:connectionId/join', canManage, asyncHandler(groupController.joinGroup));
+router.get('/:connectionId/invite/:code', canRead, asyncHandler(groupController.getInviteInfo));
+
+// Grupos
+router.post('/:connectionId', canManage, asyncHandler(groupController.createGroup));
+router.get('/:connectionId/:groupId', canRead, asyncHandler(groupController.getGroup));
+router.post('/:connectionId/:groupId/participants', canManage, asyncHandler(groupController.updateParticipants));
+router.put('/:connectionId/:groupId/subject', canManage, asyncHandler(groupController.updateSubject));
+router.put('/:connectionId/:groupId/description', canManage, asyncHandler(groupController.updateDescription));
+router.put('/:connectionId/:groupId/picture', canManage, upload.single('file') as any, asyncHandler(groupController.updatePicture));
+router.delete('/:connectionId/:groupId/picture', canManage, asyncHandler(groupController.removePicture));
+router.put('/:connectionId/:groupId/settings', canManage, asyncHandler(groupController.updateSettings));
+router.get('/:connectionId/:groupId/invite-code', canRead, asyncHandler(groupController.getInviteCode));
+router.post('/:connectionId/:groupId/invite-code/revoke', canManage, asyncHandler(groupController.revokeInviteCode));
+router.post('/:connectionId/:groupId/leave', canManage, asyncHandler(groupController.leaveGroup));
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { OrganizationController } from '../controllers/organizationController';
+import { authenticate, requirePermission, requireUserSession } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const organizationController = new OrganizationController();
+
+// Organizações são gerenciadas apenas com login
+router.use(authenticate, requireUserSession);
+
+// Organizações do usuário
+router.get('/', asyncHandler(organizationController.getOrganizations));
+router.post('/', asyncHandler(organizationController.createOrganization));
+router.post('/invites/accept', asyncHandler(organizationController.acceptInvite));
+
+// Organização ativa (header X-Organization-Id)
+router.get('/current', asyncHandler(organizationController.getCurrentOrganization));
+router.put('/current', requirePermission('members:manage'), asyncHandler(organizationController.updateCurrentOrganization));
+router.post('/current/leave', asyncHandler(organizationController.leaveOrganization));
+
+// Membros
+router.get('/current/members', asyncHandler(organizationController.getMembers));
+router.put('/current/members/:userId/role', requirePermission('members:manage'), asyncHandler(organizationController.updateMemberRole));
+router.delete('/current/members/:userId', requirePermission('members:manage'), asyncHandler(organizationController.removeMember));
+
+// Convites por email
+router.post('/current/invites', requirePermission('members:manage'), asyncHandler(organizationController.createInvite));
+router.get('/current/invites', requirePermission('members:manage'), asyncHandler(organizationController.getInvites));
+router.delete('/current/invites/:inviteId', requirePermission('members:manage'), asyncHandler(organizationController.revokeInvite));
+
+export default router;
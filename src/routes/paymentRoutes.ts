@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { PaymentController } from '../controllers/paymentController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const paymentController = new PaymentController();
+
+// Notificações dos gateways (sem autenticação; o corpo bruto é preservado em app.ts para validar a assinatura)
+router.post('/webhooks/:provider', asyncHandler(paymentController.handleWebhook));
+
+// As demais rotas requerem autenticação
+router.use(authenticate);
+
+// Compra de créditos
+router.get('/packages', requirePermission('balance:read'), asyncHandler(paymentController.getPackages));
+router.post('/', requirePermission('payments:create'), asyncHandler(paymentController.createPayment));
+router.get('/', requirePermission('balance:read'), asyncHandler(paymentController.getPayments));
+router.get('/:paymentId', requirePermission('balance:read'), asyncHandler(paymentController.getPaymentById));
+
+// Confirmação manual de pagamentos do gateway fake (desenvolvimento)
+router.post('/:paymentId/simulate', requirePermission('payments:create'), asyncHandler(paymentController.simulatePayment));
+
+export default router;
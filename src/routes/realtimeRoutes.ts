@@ -0,0 +1,22 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { RealtimeController } from '../controllers/realtimeController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const realtimeController = new RealtimeController();
+
+// EventSource do navegador não envia headers customizados: aceitar ?token=<jwt>&organizationId=<id>
+const tokenFromQuery = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.headers.authorization && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  if (!req.headers['x-organization-id'] && typeof req.query.organizationId === 'string') {
+    req.headers['x-organization-id'] = req.query.organizationId;
+  }
+  next();
+};
+
+router.get('/stream', tokenFromQuery, authenticate, requirePermission('events:read'), asyncHandler(realtimeController.streamEvents));
+
+export default router;
@@ -4,10 +4,24 @@ import { Request, Response, NextFunction } from 'express';
 import authRoutes from './authRoutes';
 import contactStorageRoutes from './contactStorageRoutes';
 import balanceRoutes from './balanceRoutes';
-import { authenticate } from '../middleware/authMiddleware';
+import webhookRoutes from './webhookRoutes';
+import realtimeRoutes from './realtimeRoutes';
+import campaignRoutes from './campaignRoutes';
+import groupRoutes from './groupRoutes';
+import autoReplyRoutes from './autoReplyRoutes';
+import adminRoutes from './adminRoutes';
+import organizationRoutes from './organizationRoutes';
+import paymentRoutes from './paymentRoutes';
+import conversationRoutes from './conversationRoutes';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
 import {
   sendMessage,
   sendFile,
+  sendRichMessage,
+  getMessageJob,
+  getMessageMedia,
+  getMediaSettings,
+  updateMediaSettings,
   validateNumber
 } from '../controllers/messageController';
 import {
@@ -22,7 +36,9 @@ import {
   removeConnection,
   getAllConnections,
   getConnectionStatus,
-  restartConnection
+  restartConnection,
+  getSendSettings,
+  updateSendSettings
 } from '../controllers/connectionController';
 import { asyncHandler } from '../middleware/errorHandler';
 
@@ -52,26 +68,66 @@ router.use('/contacts-storage', contactStorageRoutes);
 // Rotas de saldo e transações
 router.use('/balance', balanceRoutes);
 
+// Compra de créditos (PIX e cartão) e notificações dos gateways
+router.use('/payments', paymentRoutes);
+
+// Rotas de webhooks
+router.use('/webhooks', webhookRoutes);
+
+// Stream de eventos em tempo real (SSE)
+router.use('/events', realtimeRoutes);
+
+// Campanhas de envio em massa
+router.use('/campaigns', campaignRoutes);
+
+// Regras de resposta automática por conexão
+router.use('/auto-replies', autoReplyRoutes);
+
+// Administração da plataforma (usuários, papéis, saldos e conexões)
+router.use('/admin', adminRoutes);
+
+// Organizações, membros e convites
+router.use('/organizations', organizationRoutes);
+
+// Caixa de entrada compartilhada (conversas, atribuição e notas internas)
+router.use('/conversations', conversationRoutes);
+
 // Rotas de mensagens (protegidas)
-router.post('/send-message', authenticate, asyncHandler(sendMessage));
+router.post('/send-message', authenticate, requirePermission('messages:send'), asyncHandler(sendMessage));
 
 // Rota de envio de arquivo com middleware tipado
-router.post('/send-file', authenticate, uploadMiddleware as any, asyncHandler(sendFile));
+router.post('/send-file', authenticate, uploadMiddleware as any, requirePermission('messages:send'), asyncHandler(sendFile));
+
+// Localização, contatos, enquetes, reações, respostas e menções
+router.post('/messages', authenticate, requirePermission('messages:send'), asyncHandler(sendRichMessage));
 
-router.post('/validate-number', authenticate, asyncHandler(validateNumber));
+router.post('/validate-number', authenticate, requirePermission('contacts:read'), asyncHandler(validateNumber));
 
 // Rotas de contatos (protegidas)
-router.get('/contacts/:connectionId', authenticate, asyncHandler(getContacts));
-router.get('/groups/:connectionId', authenticate, asyncHandler(getGroups));
-router.get('/chats/:connectionId', authenticate, asyncHandler(getChats));
-router.get('/messages/:connectionId', authenticate, asyncHandler(getMessages));
+router.get('/contacts/:connectionId', authenticate, requirePermission('contacts:read'), asyncHandler(getContacts));
+router.get('/groups/:connectionId', authenticate, requirePermission('groups:read'), asyncHandler(getGroups));
+router.get('/chats/:connectionId', authenticate, requirePermission('messages:read'), asyncHandler(getChats));
+router.get('/messages/:connectionId', authenticate, requirePermission('messages:read'), asyncHandler(getMessages));
+
+// Gerenciamento de grupos (a listagem fica em GET /groups/:connectionId acima)
+router.use('/groups', groupRoutes);
+
+// Status de envios enfileirados
+router.get('/messages/jobs/:id', authenticate, requirePermission('messages:send'), asyncHandler(getMessageJob));
+
+// Mídias recebidas
+router.get('/messages/:connectionId/:messageId/media', authenticate, requirePermission('messages:read'), asyncHandler(getMessageMedia));
+router.get('/media/settings', authenticate, requirePermission('media:manage'), asyncHandler(getMediaSettings));
+router.put('/media/settings', authenticate, requirePermission('media:manage'), asyncHandler(updateMediaSettings));
 
 // Rotas de conexão (protegidas)
-router.post('/connection', authenticate, asyncHandler(createConnection));
-router.put('/connection', authenticate, asyncHandler(validateConnection));
-router.post('/connection/:connectionId/restart', authenticate, asyncHandler(restartConnection));
-router.delete('/connection/:connectionId', authenticate, asyncHandler(removeConnection));
-router.get('/connection', authenticate, asyncHandler(getAllConnections));
-router.get('/connection/:connectionId', authenticate, asyncHandler(getConnectionStatus));
+router.post('/connection', authenticate, requirePermission('connections:manage'), asyncHandler(createConnection));
+router.put('/connection', authenticate, requirePermission('connections:manage'), asyncHandler(validateConnection));
+router.post('/connection/:connectionId/restart', authenticate, requirePermission('connections:manage'), asyncHandler(restartConnection));
+router.delete('/connection/:connectionId', authenticate, requirePermission('connections:manage'), asyncHandler(removeConnection));
+router.get('/connection', authenticate, requirePermission('connections:read'), asyncHandler(getAllConnections));
+router.get('/connection/:connectionId', authenticate, requirePermission('connections:read'), asyncHandler(getConnectionStatus));
+router.get('/connection/:connectionId/send-settings', authenticate, requirePermission('connections:read'), asyncHandler(getSendSettings));
+router.put('/connection/:connectionId/send-settings', authenticate, requirePermission('connections:manage'), asyncHandler(updateSendSettings));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhookController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const webhookController = new WebhookController();
+
+// Todas as rotas requerem autenticação
+router.use(authenticate, requirePermission('webhooks:manage'));
+
+// Chaves de API restritas a conexões só enxergam os webhooks dessas conexões
+router.use('/:webhookId', asyncHandler(webhookController.checkConnectionAccess));
+
+// CRUD de webhooks
+router.post('/', asyncHandler(webhookController.createWebhook));
+router.get('/', asyncHandler(webhookController.getWebhooks));
+router.get('/:webhookId', asyncHandler(webhookController.getWebhookById));
+router.put('/:webhookId', asyncHandler(webhookController.updateWebhook));
+router.delete('/:webhookId', asyncHandler(webhookController.deleteWebhook));
+
+// Segredo, teste e log de entregas
+router.post('/:webhookId/rotate-secret', asyncHandler(webhookController.rotateSecret));
+router.post('/:webhookId/test', asyncHandler(webhookController.testWebhook));
+router.get('/:webhookId/deliveries', asyncHandler(webhookController.getDeliveries));
+
+export default router;
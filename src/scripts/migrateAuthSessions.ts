@@ -0,0 +1,103 @@
+import dotenv from 'dotenv';
+
+// IMPORTANTE: Carregar variáveis de ambiente ANTES de qualquer outra importação
+dotenv.config();
+
+import fs from 'fs';
+import path from 'path';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import { ConnectionStorageService } from '../services/connection/ConnectionStorageService';
+import { PrismaAuthStateProvider } from '../services/connection/authState/PrismaAuthStateProvider';
+
+/**
+ * Importa as pastas auth_sessions/<organizationId>/<connectionId> para a tabela auth_states.
+ *
+ * Uso:
+ *   npx ts-node src/scripts/migrateAuthSessions.ts [--dry-run] [--delete-files]
+ *
+ * --dry-run       apenas lista o que seria importado
+ * --delete-files  remove a pasta após importar com sucesso
+ */
+async function migrateAuthSessions(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const deleteFiles = args.includes('--delete-files');
+  const authDir = path.join(process.cwd(), 'auth_sessions');
+
+  if (!fs.existsSync(authDir)) {
+    logger.info('Pasta auth_sessions não encontrada, nada para migrar');
+    return;
+  }
+
+  const connectionStorage = new ConnectionStorageService();
+  const authStateProvider = new PrismaAuthStateProvider();
+  const summary = { imported: 0, skipped: 0, failed: 0 };
+
+  const organizationDirs = fs.readdirSync(authDir)
+    .filter(file => fs.statSync(path.join(authDir, file)).isDirectory());
+
+  for (const organizationId of organizationDirs) {
+    const organizationPath = path.join(authDir, organizationId);
+    const connectionDirs = fs.readdirSync(organizationPath)
+      .filter(file => fs.statSync(path.join(organizationPath, file)).isDirectory());
+
+    for (const connectionId of connectionDirs) {
+      const authPath = path.join(organizationPath, connectionId);
+
+      if (!fs.existsSync(path.join(authPath, 'creds.json'))) {
+        logger.warn(`Ignorando ${organizationId}/${connectionId}: creds.json não encontrado`);
+        summary.skipped++;
+        continue;
+      }
+
+      if (dryRun) {
+        logger.info(`[dry-run] ${organizationId}/${connectionId} seria importada`);
+        summary.imported++;
+        continue;
+      }
+
+      try {
+        const record = await connectionStorage.getConnection(connectionId)
+          || await connectionStorage.importLegacyConnection(organizationId, connectionId, fs.statSync(authPath).birthtime);
+
+        if (!record) {
+          summary.skipped++;
+          continue;
+        }
+
+        if (record.organizationId !== organizationId) {
+          logger.warn(`Ignorando ${organizationId}/${connectionId}: conexão pertence a outra organização`);
+          summary.skipped++;
+          continue;
+        }
+
+        const count = await authStateProvider.importFromDirectory(connectionId, authPath);
+        logger.info(`${organizationId}/${connectionId} importada (${count} registros)`);
+        summary.imported++;
+
+        if (deleteFiles) {
+          fs.rmSync(authPath, { recursive: true, force: true });
+        }
+      } catch (error) {
+        logger.error(`Erro ao importar ${organizationId}/${connectionId}:`, error);
+        summary.failed++;
+      }
+    }
+  }
+
+  logger.info(`Migração concluída: ${summary.imported} importadas, ${summary.skipped} ignoradas, ${summary.failed} com erro`);
+
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+migrateAuthSessions()
+  .catch(error => {
+    logger.error('Erro na migração de auth_sessions:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
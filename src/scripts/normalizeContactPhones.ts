@@ -0,0 +1,187 @@
+import dotenv from 'dotenv';
+
+// IMPORTANTE: Carregar variáveis de ambiente ANTES de qualquer outra importação
+dotenv.config();
+
+import { Contact, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import { PhoneNumberService } from '../services/phone/PhoneNumberService';
+import { DEFAULT_PHONE_COUNTRY } from '../types/phone';
+
+// Campos copiados do contato removido quando o mantido não os tem
+const MERGED_FIELDS = [
+  'name',
+  'whatsappExists',
+  'whatsappJid',
+  'whatsappStatus',
+  'whatsappPicture',
+  'whatsappVerifiedName',
+  'whatsappBusinessHours',
+  'whatsappWebsite',
+  'whatsappEmail',
+  'whatsappAddress',
+  'whatsappCategory',
+  'lastWhatsappCheck'
+] as const;
+
+interface StoredPhone {
+  id: string;
+  phoneNumber: string;
+  country: string | null;
+}
+
+/**
+ * Regrava os telefones dos contatos em E.164 (sem o "+") e une os contatos que passam a ter
+ * o mesmo número, levando tags, listas e destinatários de campanha para o contato mantido.
+ *
+ * Uso:
+ *   npx ts-node src/scripts/normalizeContactPhones.ts [--dry-run] [--country=BR]
+ *
+ * --dry-run    apenas lista o que seria alterado
+ * --country    país dos números gravados sem DDI (padrão BR)
+ */
+async function normalizeContactPhones(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const phoneNumbers = new PhoneNumberService();
+  const countryArg = args.find(arg => arg.startsWith('--country='))?.split('=')[1];
+  const defaultCountry = phoneNumbers.normalizeCountry(countryArg || DEFAULT_PHONE_COUNTRY);
+  const summary = { updated: 0, merged: 0, invalid: 0, failed: 0 };
+
+  const organizations = await prisma.organization.findMany({ select: { id: true } });
+
+  for (const { id: organizationId } of organizations) {
+    const contacts: StoredPhone[] = await prisma.contact.findMany({
+      where: { organizationId },
+      select: { id: true, phoneNumber: true, country: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // Agrupa pelo número normalizado: grupos com mais de um contato são duplicados
+    const groups = new Map<string, { country?: string; contacts: StoredPhone[] }>();
+
+    for (const contact of contacts) {
+      let digits: string;
+      let country: string | undefined;
+
+      try {
+        ({ digits, country } = phoneNumbers.parse(contact.phoneNumber, contact.country || defaultCountry));
+      } catch (error) {
+        logger.warn(`Contato ${contact.id} (${contact.phoneNumber}) ignorado: número inválido`);
+        summary.invalid++;
+        continue;
+      }
+
+      const group = groups.get(digits) || { country, contacts: [] };
+      group.contacts.push(contact);
+      groups.set(digits, group);
+    }
+
+    for (const [digits, group] of groups) {
+      // Mantém o contato que já está no formato certo ou, na falta dele, o mais antigo
+      const keeper = group.contacts.find(contact => contact.phoneNumber === digits) || group.contacts[0];
+      const duplicates = group.contacts.filter(contact => contact.id !== keeper.id);
+      const country = group.country ?? keeper.country;
+
+      if (duplicates.length === 0 && keeper.phoneNumber === digits && keeper.country === (country ?? null)) {
+        continue;
+      }
+
+      if (dryRun) {
+        const merged = duplicates.map(contact => contact.phoneNumber).join(', ');
+        logger.info(`[dry-run] ${organizationId}: ${keeper.phoneNumber} → ${digits}${merged ? ` (unindo ${merged})` : ''}`);
+        summary.updated++;
+        summary.merged += duplicates.length;
+        continue;
+      }
+
+      try {
+        await mergeContacts(keeper.id, duplicates.map(contact => contact.id), digits, country);
+        summary.updated++;
+        summary.merged += duplicates.length;
+      } catch (error) {
+        logger.error(`Erro ao normalizar ${keeper.phoneNumber} da organização ${organizationId}:`, error);
+        summary.failed++;
+      }
+    }
+  }
+
+  logger.info(`Normalização concluída: ${summary.updated} contatos atualizados, ${summary.merged} duplicados unidos, ${summary.invalid} inválidos, ${summary.failed} com erro`);
+
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Une os duplicados ao contato mantido e grava o número normalizado, tudo ou nada
+ */
+async function mergeContacts(keeperId: string, duplicateIds: string[], phoneNumber: string, country?: string | null): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const keeper = await tx.contact.findUniqueOrThrow({ where: { id: keeperId } });
+    const duplicates = await tx.contact.findMany({
+      where: { id: { in: duplicateIds } },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    const data: Prisma.ContactUpdateInput = { phoneNumber, country: country ?? null };
+    let metadata = toObject(keeper.metadata);
+
+    for (const duplicate of duplicates) {
+      for (const field of MERGED_FIELDS) {
+        if (keeper[field] === null && duplicate[field] !== null && data[field] === undefined) {
+          (data as Record<string, unknown>)[field] = duplicate[field];
+        }
+      }
+
+      if (duplicate.whatsappBusiness && !keeper.whatsappBusiness) {
+        data.whatsappBusiness = true;
+      }
+
+      // Chaves do contato mantido prevalecem
+      metadata = { ...toObject(duplicate.metadata), ...metadata };
+    }
+
+    if (Object.keys(metadata).length > 0) {
+      data.metadata = metadata as Prisma.InputJsonObject;
+    }
+
+    const [tags, lists] = await Promise.all([
+      tx.contactTagAssignment.findMany({ where: { contactId: { in: duplicateIds } }, select: { tagId: true } }),
+      tx.contactListMember.findMany({ where: { contactId: { in: duplicateIds } }, select: { listId: true } })
+    ]);
+
+    await tx.contactTagAssignment.createMany({
+      data: tags.map(({ tagId }) => ({ contactId: keeperId, tagId })),
+      skipDuplicates: true
+    });
+
+    await tx.contactListMember.createMany({
+      data: lists.map(({ listId }) => ({ contactId: keeperId, listId })),
+      skipDuplicates: true
+    });
+
+    await tx.campaignRecipient.updateMany({
+      where: { contactId: { in: duplicateIds } },
+      data: { contactId: keeperId }
+    });
+
+    // Remove os duplicados antes de gravar o número, que pode ser o de um deles
+    await tx.contact.deleteMany({ where: { id: { in: duplicateIds } } });
+    await tx.contact.update({ where: { id: keeperId }, data });
+  });
+}
+
+function toObject(value: Contact['metadata']): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+normalizeContactPhones()
+  .catch(error => {
+    logger.error('Erro na normalização de telefones:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
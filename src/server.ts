@@ -6,6 +6,11 @@ dotenv.config();
 import app from './app';
 import logger from './utils/logger';
 import whatsappService from './services/whatsappService';
+import webhookDispatcher from './services/webhooks/WebhookDispatcher';
+import messageQueueWorker from './services/messaging/MessageQueueWorker';
+import campaignWorker from './services/campaigns/CampaignWorker';
+import contactValidationWorker from './services/contacts/ContactValidationWorker';
+import planRenewalWorker from './services/monetization/PlanRenewalWorker';
 import fs from 'fs';
 
 const PORT = process.env.PORT || 3000;
@@ -75,10 +80,24 @@ app.listen(PORT, async () => {
   } catch (error) {
     logger.error('Erro ao restaurar instâncias:', error);
   }
+
+  // Iniciar entrega de webhooks
+  webhookDispatcher.start();
+
+  // Iniciar fila de envio de mensagens e campanhas
+  messageQueueWorker.start();
+  campaignWorker.start();
+
+  // Iniciar validação de contatos em lote
+  contactValidationWorker.start();
+
+  // Iniciar renovação mensal dos planos
+  planRenewalWorker.start();
   
   logger.info('Available endpoints:');
-  logger.info('POST /api/send-message - Send text messages');
-  logger.info('POST /api/send-file - Send files with optional caption');
+  logger.info('POST /api/send-message - Queue text messages');
+  logger.info('POST /api/send-file - Queue files with optional caption');
+  logger.info('GET /api/messages/jobs/:id - Get queued message status');
   logger.info('GET /api/contacts/:connectionId - List all contacts');
   logger.info('GET /api/groups/:connectionId - List all groups');
   logger.info('POST /api/validate-number - Validate WhatsApp number');
@@ -87,4 +106,7 @@ app.listen(PORT, async () => {
   logger.info('DELETE /api/connection/:connectionId - Remove connection');
   logger.info('GET /api/connection - List all connections');
   logger.info('GET /api/connection/:connectionId - Get connection status with QR code');
+  logger.info('POST /api/webhooks - Register webhook for WhatsApp events');
+  logger.info('POST /api/campaigns - Create bulk message campaign');
+  logger.info('POST /api/contacts-storage/validate-batch - Validate stored contacts in background');
 });
\ No newline at end of file
@@ -0,0 +1,254 @@
+import { Prisma, User as PrismaUserType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import whatsappService from '../whatsappService';
+import { SessionService } from '../auth/SessionService';
+import {
+  AdminConnection,
+  AdminUser,
+  AdminUserFilters,
+  PlatformTransactionSummary
+} from '../../types/admin';
+
+const USER_INCLUDE = {
+  memberships: {
+    include: { organization: { select: { id: true, name: true, balance: true } } },
+    orderBy: { createdAt: 'asc' as const }
+  }
+};
+
+type UserWithOrganizations = PrismaUserType & {
+  memberships: Array<{ role: string; organization: { id: string; name: string; balance: Prisma.Decimal } }>;
+};
+
+export class AdminService {
+  private sessionService: SessionService;
+
+  constructor() {
+    this.sessionService = new SessionService();
+  }
+
+  async getUsers(
+    page: number = 1,
+    limit: number = 20,
+    filters: AdminUserFilters = {}
+  ): Promise<{ users: AdminUser[]; total: number; page: number; limit: number; totalPages: number }> {
+    const where: Prisma.UserWhereInput = {};
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { email: { contains: filters.search, mode: 'insensitive' } }
+      ];
+    }
+
+    if (filters.status === 'suspended') {
+      where.suspendedAt = { not: null };
+    } else if (filters.status === 'active') {
+      where.suspendedAt = null;
+    }
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        include: USER_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    return {
+      users: users.map(user => this.mapUserFromPrisma(user)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async getUserById(userId: string): Promise<AdminUser | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: USER_INCLUDE
+    });
+
+    return user ? this.mapUserFromPrisma(user) : null;
+  }
+
+  /**
+   * Suspende a conta: encerra as sessões abertas e bloqueia login, refresh e chaves de API
+   */
+  async suspendUser(adminUserId: string, userId: string, reason?: string): Promise<AdminUser> {
+    if (adminUserId === userId) {
+      throw new Error('Não é possível suspender a própria conta');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, suspendedAt: true }
+    });
+
+    if (!user) {
+      throw new Error('Usuário não encontrado');
+    }
+
+    if (user.suspendedAt) {
+      throw new Error('Usuário já está suspenso');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        suspendedAt: new Date(),
+        suspendedReason: reason?.trim() || null
+      }
+    });
+
+    await this.sessionService.revokeAllSessions(userId);
+
+    logger.warn(`Usuário ${user.email} suspenso por ${adminUserId}${reason ? `: ${reason}` : ''}`);
+    return (await this.getUserById(userId))!;
+  }
+
+  async reactivateUser(userId: string): Promise<AdminUser> {
+    const result = await prisma.user.updateMany({
+      where: { id: userId, suspendedAt: { not: null } },
+      data: { suspendedAt: null, suspendedReason: null }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Usuário não encontrado ou não está suspenso');
+    }
+
+    logger.info(`Usuário ${userId} reativado`);
+    return (await this.getUserById(userId))!;
+  }
+
+  /**
+   * Instâncias em memória de todas as organizações, com status e última atividade
+   */
+  async getConnections(filters: { status?: string; organizationId?: string } = {}): Promise<AdminConnection[]> {
+    const connections = whatsappService.getAllConnections(filters.organizationId)
+      .filter(connection => !filters.status || connection.status === filters.status);
+
+    const organizationIds = Array.from(new Set(connections.map(connection => connection.organizationId)));
+    const organizations = await prisma.organization.findMany({
+      where: { id: { in: organizationIds } },
+      select: { id: true, name: true }
+    });
+    const names = new Map(organizations.map(organization => [organization.id, organization.name]));
+
+    return connections
+      .map(({ qr, pairingCode, ...connection }) => ({
+        ...connection,
+        organizationName: names.get(connection.organizationId)
+      }))
+      .sort((a, b) => (b.lastActivity?.getTime() || 0) - (a.lastActivity?.getTime() || 0));
+  }
+
+  async disconnectConnection(connectionId: string): Promise<void> {
+    await whatsappService.disconnectConnection(connectionId);
+    logger.warn(`Conexão ${connectionId} desconectada pelo administrador`);
+  }
+
+  async restartConnection(connectionId: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
+    const organizationId = await this.getConnectionOrganizationId(connectionId);
+    logger.warn(`Conexão ${connectionId} reiniciada pelo administrador`);
+    return whatsappService.restartConnection(organizationId, connectionId);
+  }
+
+  /**
+   * Totais de transações de toda a plataforma, opcionalmente em um período
+   */
+  async getTransactionSummary(startDate?: string, endDate?: string): Promise<PlatformTransactionSummary> {
+    const where: Prisma.TransactionWhereInput = {};
+
+    if (startDate || endDate) {
+      where.createdAt = {
+        gte: startDate ? new Date(startDate) : undefined,
+        lte: endDate ? new Date(endDate) : undefined
+      };
+    }
+
+    const [groups, balances, organizations, users, suspendedUsers] = await Promise.all([
+      prisma.transaction.groupBy({
+        by: ['type', 'category'],
+        where,
+        _sum: { amount: true },
+        _count: { id: true }
+      }),
+      prisma.organization.aggregate({ _sum: { balance: true } }),
+      prisma.organization.count(),
+      prisma.user.count(),
+      prisma.user.count({ where: { suspendedAt: { not: null } } })
+    ]);
+
+    let totalCredited = 0;
+    let totalDebited = 0;
+
+    const byCategory = groups.map(group => {
+      const total = Math.abs(group._sum.amount?.toNumber() || 0);
+
+      if (group.type === 'credit') {
+        totalCredited += total;
+      } else {
+        totalDebited += total;
+      }
+
+      return {
+        type: group.type as 'credit' | 'debit',
+        category: group.category,
+        total,
+        count: group._count.id
+      };
+    });
+
+    return {
+      totalCredited,
+      totalDebited,
+      byCategory,
+      totalBalance: balances._sum.balance?.toNumber() || 0,
+      organizations,
+      users,
+      suspendedUsers
+    };
+  }
+
+  private async getConnectionOrganizationId(connectionId: string): Promise<string> {
+    const instance = whatsappService.getAllConnections().find(connection => connection.id === connectionId);
+    if (instance) {
+      return instance.organizationId;
+    }
+
+    const record = await prisma.connection.findUnique({
+      where: { id: connectionId },
+      select: { organizationId: true }
+    });
+
+    if (!record) {
+      throw new Error('Conexão não encontrada');
+    }
+
+    return record.organizationId;
+  }
+
+  private mapUserFromPrisma(user: UserWithOrganizations): AdminUser {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      suspendedAt: user.suspendedAt || undefined,
+      suspendedReason: user.suspendedReason || undefined,
+      createdAt: user.createdAt,
+      organizations: user.memberships.map(membership => ({
+        id: membership.organization.id,
+        name: membership.organization.name,
+        role: membership.role,
+        balance: membership.organization.balance.toNumber()
+      }))
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import { ApiKey as PrismaApiKeyType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import {
+  API_KEY_SCOPES,
+  ApiKey,
+  ApiKeyContext,
+  ApiKeyScope,
+  CreateApiKeyRequest,
+  JWTPayload,
+  UpdateApiKeyRequest
+} from '../../types/auth';
+import { hasPermission } from '../../types/permissions';
+import { OrganizationService } from '../organizations/OrganizationService';
+
+export const API_KEY_PREFIX = 'bk_';
+
+export class ApiKeyService {
+  private organizationService: OrganizationService;
+  private readonly MAX_KEYS_PER_USER = parseInt(process.env.API_KEYS_MAX_PER_USER || '20');
+  // Evita uma escrita no banco a cada requisição
+  private readonly LAST_USED_THROTTLE_MS = 60 * 1000;
+
+  constructor() {
+    this.organizationService = new OrganizationService();
+  }
+
+  /**
+   * Cria uma chave na organização ativa e retorna o valor completo, que só é exibido nesta resposta
+   */
+  async createKey(userId: string, organizationId: string, data: CreateApiKeyRequest): Promise<ApiKey & { key: string }> {
+    const name = data.name?.trim();
+    if (!name) {
+      throw new Error('Nome da chave é obrigatório');
+    }
+
+    const scopes = await this.validateScopes(userId, organizationId, data.scopes);
+    const connectionIds = await this.validateConnectionIds(organizationId, data.connectionIds || []);
+
+    let expiresAt: Date | null = null;
+    if (data.expiresAt) {
+      expiresAt = new Date(data.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        throw new Error('expiresAt deve ser uma data futura');
+      }
+    }
+
+    const activeKeys = await prisma.apiKey.count({
+      where: { userId, revokedAt: null }
+    });
+
+    if (activeKeys >= this.MAX_KEYS_PER_USER) {
+      throw new Error(`Limite de ${this.MAX_KEYS_PER_USER} chaves ativas atingido`);
+    }
+
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        organizationId,
+        name,
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        keyHash: this.hashKey(key),
+        scopes,
+        connectionIds,
+        expiresAt
+      }
+    });
+
+    logger.info(`Chave de API criada: ${apiKey.id} para usuário ${userId} na organização ${organizationId}`);
+    return { ...this.mapApiKeyFromPrisma(apiKey), key };
+  }
+
+  async getKeys(userId: string, organizationId: string): Promise<ApiKey[]> {
+    const keys = await prisma.apiKey.findMany({
+      where: { userId, organizationId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return keys.map(key => this.mapApiKeyFromPrisma(key));
+  }
+
+  async updateKey(userId: string, keyId: string, data: UpdateApiKeyRequest): Promise<ApiKey> {
+    const existing = await prisma.apiKey.findFirst({
+      where: { id: keyId, userId }
+    });
+
+    if (!existing) {
+      throw new Error('Chave de API não encontrada');
+    }
+
+    if (existing.revokedAt) {
+      throw new Error('Chave de API revogada não pode ser alterada');
+    }
+
+    const name = data.name !== undefined ? data.name.trim() : undefined;
+    if (name === '') {
+      throw new Error('Nome da chave é obrigatório');
+    }
+
+    const apiKey = await prisma.apiKey.update({
+      where: { id: keyId },
+      data: {
+        name,
+        scopes: data.scopes !== undefined ? await this.validateScopes(userId, existing.organizationId, data.scopes) : undefined,
+        connectionIds: data.connectionIds !== undefined
+          ? await this.validateConnectionIds(existing.organizationId, data.connectionIds)
+          : undefined
+      }
+    });
+
+    return this.mapApiKeyFromPrisma(apiKey);
+  }
+
+  async revokeKey(userId: string, keyId: string): Promise<void> {
+    const result = await prisma.apiKey.updateMany({
+      where: { id: keyId, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Chave de API não encontrada ou já revogada');
+    }
+
+    logger.info(`Chave de API revogada: ${keyId}`);
+  }
+
+  /**
+   * Valida a chave recebida na requisição e retorna o usuário, já na organização da chave, e as permissões
+   */
+  async authenticate(key: string): Promise<{ user: JWTPayload; apiKey: ApiKeyContext }> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { user: { select: { email: true, role: true, suspendedAt: true, defaultCountry: true } } }
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new Error('Chave de API inválida ou revogada');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new Error('Chave de API expirada');
+    }
+
+    if (apiKey.user.suspendedAt) {
+      throw new Error('Conta do dono da chave suspensa');
+    }
+
+    // O papel é o atual do dono na organização; quem saiu da organização perde o acesso pela chave
+    const role = await this.organizationService.getMemberRole(apiKey.organizationId, apiKey.userId, apiKey.user.role);
+    if (!role) {
+      throw new Error('O dono da chave não é mais membro da organização');
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > this.LAST_USED_THROTTLE_MS) {
+      prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date() }
+      }).catch(error => logger.warn(`Erro ao atualizar último uso da chave ${apiKey.id}:`, error));
+    }
+
+    return {
+      user: {
+        userId: apiKey.userId,
+        email: apiKey.user.email,
+        organizationId: apiKey.organizationId,
+        role,
+        platformRole: apiKey.user.role,
+        defaultCountry: apiKey.user.defaultCountry
+      },
+      apiKey: {
+        id: apiKey.id,
+        scopes: apiKey.scopes as ApiKeyScope[],
+        connectionIds: apiKey.connectionIds
+      }
+    };
+  }
+
+  isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX);
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private async validateScopes(userId: string, organizationId: string, scopes: ApiKeyScope[]): Promise<ApiKeyScope[]> {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new Error('Informe ao menos um escopo');
+    }
+
+    const invalid = scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Escopos inválidos: ${invalid.join(', ')}. Válidos: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    // A chave não pode ter mais acesso que o papel do dono na organização
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+    const role = await this.organizationService.getMemberRole(organizationId, userId, user?.role);
+    const notAllowed = scopes.filter(scope => !hasPermission(role || undefined, scope, user?.role));
+    if (notAllowed.length > 0) {
+      throw new Error(`Seu perfil não permite os escopos: ${notAllowed.join(', ')}`);
+    }
+
+    return Array.from(new Set(scopes));
+  }
+
+  private async validateConnectionIds(organizationId: string, connectionIds: string[]): Promise<string[]> {
+    if (!Array.isArray(connectionIds)) {
+      throw new Error('connectionIds deve ser uma lista');
+    }
+
+    const unique = Array.from(new Set(connectionIds));
+    if (unique.length === 0) {
+      return [];
+    }
+
+    const found = await prisma.connection.count({
+      where: { id: { in: unique }, organizationId }
+    });
+
+    if (found !== unique.length) {
+      throw new Error('Uma ou mais conexões não foram encontradas');
+    }
+
+    return unique;
+  }
+
+  private mapApiKeyFromPrisma(apiKey: PrismaApiKeyType): ApiKey {
+    return {
+      id: apiKey.id,
+      organizationId: apiKey.organizationId,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      connectionIds: apiKey.connectionIds,
+      lastUsedAt: apiKey.lastUsedAt || undefined,
+      expiresAt: apiKey.expiresAt || undefined,
+      revokedAt: apiKey.revokedAt || undefined,
+      createdAt: apiKey.createdAt
+    };
+  }
+}
@@ -62,6 +62,56 @@ export class EmailService {
     }
   }
 
+  async sendOrganizationInviteEmail(
+    email: string,
+    organizationName: string,
+    inviterName: string,
+    inviteToken: string,
+    expiresInDays: number
+  ): Promise<void> {
+    const inviteUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/accept-invite?token=${inviteToken}`;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: `Convite para ${organizationName} - WhatsApp API`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #25D366;">Convite para organização</h2>
+
+          <p>Olá!</p>
+
+          <p>${inviterName ? `<strong>${inviterName}</strong> convidou você` : 'Você foi convidado'} para participar da organização <strong>${organizationName}</strong>.</p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${inviteUrl}"
+               style="background-color: #25D366; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+              Aceitar Convite
+            </a>
+          </div>
+
+          <p>Ou copie e cole este link no seu navegador:</p>
+          <p style="word-break: break-all; color: #666;">${inviteUrl}</p>
+
+          <p><strong>Este convite expira em ${expiresInDays} dias.</strong> Se ainda não tem conta, cadastre-se com este email antes de aceitar.</p>
+
+          <hr style="margin: 30px 0; border: none; border-top: 1px solid #eee;">
+          <p style="color: #666; font-size: 12px;">
+            WhatsApp API - Sistema de Autenticação
+          </p>
+        </div>
+      `
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      logger.info(`Email de convite enviado para: ${email}`);
+    } catch (error) {
+      logger.error('Erro ao enviar email:', error);
+      throw new Error('Erro ao enviar email');
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       await this.transporter.verify();
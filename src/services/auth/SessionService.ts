@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { AuthTokens, JWTPayload, SessionMetadata } from '../../types/auth';
+
+export class SessionService {
+  private readonly JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
+  private readonly JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+  private readonly REFRESH_TOKEN_EXPIRES_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30');
+
+  /**
+   * Abre uma nova sessão e retorna o token de acesso e o refresh token
+   */
+  async createSession(user: { id: string; email: string }, metadata: SessionMetadata = {}): Promise<AuthTokens> {
+    const sessionId = uuidv4();
+    const refreshToken = await this.issueRefreshToken(user.id, sessionId, metadata);
+
+    logger.info(`Sessão ${sessionId} aberta para usuário ${user.email}`);
+
+    return {
+      token: this.generateAccessToken(user, sessionId),
+      refreshToken,
+      expiresIn: this.JWT_EXPIRES_IN
+    };
+  }
+
+  /**
+   * Troca um refresh token válido por um novo par de tokens (rotação).
+   * Reutilizar um token já trocado encerra a sessão inteira.
+   */
+  async refresh(refreshToken: string, metadata: SessionMetadata = {}): Promise<AuthTokens> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { user: { select: { id: true, email: true, suspendedAt: true } } }
+    });
+
+    if (!stored) {
+      throw new Error('Refresh token inválido');
+    }
+
+    if (stored.user.suspendedAt) {
+      throw new Error('Conta suspensa');
+    }
+
+    if (stored.revokedAt) {
+      if (stored.replacedById) {
+        logger.warn(`Refresh token reutilizado na sessão ${stored.sessionId} do usuário ${stored.userId}, encerrando sessão`);
+        await this.revokeSession(stored.sessionId);
+      }
+      throw new Error('Refresh token revogado');
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      throw new Error('Refresh token expirado');
+    }
+
+    const newToken = this.generateRefreshToken();
+
+    await prisma.$transaction(async (tx) => {
+      const created = await tx.refreshToken.create({
+        data: {
+          userId: stored.userId,
+          sessionId: stored.sessionId,
+          tokenHash: this.hashToken(newToken),
+          expiresAt: this.getRefreshExpiry(),
+          userAgent: metadata.userAgent?.slice(0, 500) || stored.userAgent,
+          ipAddress: metadata.ipAddress || stored.ipAddress
+        }
+      });
+
+      // Condição em revokedAt evita duas rotações concorrentes do mesmo token
+      const revoked = await tx.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date(), replacedById: created.id }
+      });
+
+      if (revoked.count === 0) {
+        throw new Error('Refresh token revogado');
+      }
+    });
+
+    return {
+      token: this.generateAccessToken(stored.user, stored.sessionId),
+      refreshToken: newToken,
+      expiresIn: this.JWT_EXPIRES_IN
+    };
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { sessionId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    logger.info(`Sessão ${sessionId} encerrada`);
+  }
+
+  /**
+   * Encerra a sessão do refresh token informado; retorna false se o token não existir
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      select: { sessionId: true }
+    });
+
+    if (!stored) {
+      return false;
+    }
+
+    await this.revokeSession(stored.sessionId);
+    return true;
+  }
+
+  /**
+   * Encerra todas as sessões do usuário e retorna quantas estavam ativas
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const activeSessions = await prisma.refreshToken.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      distinct: ['sessionId'],
+      select: { sessionId: true }
+    });
+
+    await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    logger.info(`${activeSessions.length} sessões encerradas para usuário ${userId}`);
+    return activeSessions.length;
+  }
+
+  /**
+   * Sessão ativa: possui um refresh token não revogado e dentro da validade
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const token = await prisma.refreshToken.findFirst({
+      where: { sessionId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true }
+    });
+
+    return !!token;
+  }
+
+  verifyAccessToken(token: string): JWTPayload {
+    try {
+      return jwt.verify(token, this.JWT_SECRET) as JWTPayload;
+    } catch (error) {
+      throw new Error('Token inválido');
+    }
+  }
+
+  private generateAccessToken(user: { id: string; email: string }, sessionId: string): string {
+    const payload: JWTPayload = {
+      userId: user.id,
+      email: user.email,
+      sessionId
+    };
+
+    return jwt.sign(payload, this.JWT_SECRET, {
+      expiresIn: this.JWT_EXPIRES_IN
+    } as any);
+  }
+
+  private async issueRefreshToken(userId: string, sessionId: string, metadata: SessionMetadata): Promise<string> {
+    const token = this.generateRefreshToken();
+
+    await prisma.refreshToken.create({
+      data: {
+        userId,
+        sessionId,
+        tokenHash: this.hashToken(token),
+        expiresAt: this.getRefreshExpiry(),
+        userAgent: metadata.userAgent?.slice(0, 500),
+        ipAddress: metadata.ipAddress
+      }
+    });
+
+    return token;
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('hex');
+  }
+
+  private getRefreshExpiry(): Date {
+    return new Date(Date.now() + this.REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,28 +1,25 @@
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import prisma from '../../lib/prisma';
 import logger from '../../utils/logger';
-import { User, RegisterRequest, LoginRequest, ForgotPasswordRequest, ResetPasswordRequest, UpdatePasswordRequest, JWTPayload } from '../../types/auth';
+import { User, RegisterRequest, LoginRequest, ForgotPasswordRequest, ResetPasswordRequest, UpdatePasswordRequest, UpdateProfileRequest, JWTPayload, AuthTokens, SessionMetadata } from '../../types/auth';
 import { EmailService } from './EmailService';
+import { SessionService } from './SessionService';
+import { OrganizationService } from '../organizations/OrganizationService';
+import { PLATFORM_ROLES, PlatformRole } from '../../types/permissions';
+import { DEFAULT_PHONE_COUNTRY } from '../../types/phone';
+import { PhoneNumberService } from '../phone/PhoneNumberService';
 
 export class UserService {
-  private readonly JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
-  private readonly JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
   private emailService: EmailService;
+  private sessionService: SessionService;
+  private organizationService: OrganizationService;
+  private phoneNumbers: PhoneNumberService;
 
   constructor() {
     this.emailService = new EmailService();
-  }
-
-  private generateToken(user: any): string {
-    const payload: JWTPayload = {
-      userId: user.id,
-      email: user.email
-    };
-
-    return jwt.sign(payload, this.JWT_SECRET, {
-      expiresIn: this.JWT_EXPIRES_IN
-    } as any);
+    this.sessionService = new SessionService();
+    this.organizationService = new OrganizationService();
+    this.phoneNumbers = new PhoneNumberService();
   }
 
   private validateEmail(email: string): boolean {
@@ -50,7 +47,7 @@ export class UserService {
     return { valid: true };
   }
 
-  async register(data: RegisterRequest): Promise<{ user: Omit<User, 'password'>; token: string }> {
+  async register(data: RegisterRequest, metadata?: SessionMetadata): Promise<{ user: Omit<User, 'password'> } & AuthTokens> {
     const { name, email, password } = data;
 
     // Validações
@@ -58,6 +55,8 @@ export class UserService {
       throw new Error('Nome deve ter pelo menos 2 caracteres');
     }
 
+    const defaultCountry = this.phoneNumbers.normalizeCountry(data.defaultCountry || DEFAULT_PHONE_COUNTRY);
+
     if (!this.validateEmail(email)) {
       throw new Error('Email inválido');
     }
@@ -80,17 +79,23 @@ export class UserService {
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-    // Criar usuário
-    const newUser = await prisma.user.create({
-      data: {
-        name: name.trim(),
-        email: email.toLowerCase(),
-        password: hashedPassword
-      }
+    // Criar usuário com a organização pessoal
+    const newUser = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          name: name.trim(),
+          email: email.toLowerCase(),
+          password: hashedPassword,
+          defaultCountry
+        }
+      });
+
+      await this.organizationService.createPersonalOrganization(tx, user);
+      return user;
     });
 
-    // Gerar token
-    const token = this.generateToken(newUser);
+    // Abrir sessão
+    const tokens = await this.sessionService.createSession(newUser, metadata);
 
     // Remover senha do retorno
     const { password: _, ...userWithoutPassword } = newUser;
@@ -99,11 +104,11 @@ export class UserService {
 
     return {
       user: userWithoutPassword as Omit<User, 'password'>,
-      token
+      ...tokens
     };
   }
 
-  async login(data: LoginRequest): Promise<{ user: Omit<User, 'password'>; token: string }> {
+  async login(data: LoginRequest, metadata?: SessionMetadata): Promise<{ user: Omit<User, 'password'> } & AuthTokens> {
     const { email, password } = data;
 
     if (!email || !password) {
@@ -124,8 +129,12 @@ export class UserService {
       throw new Error('Credenciais inválidas');
     }
 
-    // Gerar token
-    const token = this.generateToken(user);
+    if (user.suspendedAt) {
+      throw new Error('Conta suspensa');
+    }
+
+    // Abrir sessão
+    const tokens = await this.sessionService.createSession(user, metadata);
 
     // Remover senha do retorno
     const { password: _, ...userWithoutPassword } = user;
@@ -134,7 +143,7 @@ export class UserService {
 
     return {
       user: userWithoutPassword as Omit<User, 'password'>,
-      token
+      ...tokens
     };
   }
 
@@ -223,12 +232,18 @@ export class UserService {
       }
     });
 
+    // Sessões abertas com a senha antiga deixam de valer
+    await this.sessionService.revokeAllSessions(user.id);
+
     logger.info(`Senha redefinida para usuário: ${user.email}`);
 
     return { message: 'Senha redefinida com sucesso' };
   }
 
-  async updatePassword(userId: string, data: UpdatePasswordRequest): Promise<{ message: string }> {
+  /**
+   * Atualiza a senha, encerra todas as sessões e abre uma nova para quem fez a troca
+   */
+  async updatePassword(userId: string, data: UpdatePasswordRequest, metadata?: SessionMetadata): Promise<{ message: string } & AuthTokens> {
     const { currentPassword, newPassword } = data;
 
     if (!currentPassword || !newPassword) {
@@ -264,9 +279,44 @@ export class UserService {
       data: { password: hashedPassword }
     });
 
+    await this.sessionService.revokeAllSessions(userId);
+    const tokens = await this.sessionService.createSession(user, metadata);
+
     logger.info(`Senha atualizada para usuário: ${user.email}`);
 
-    return { message: 'Senha atualizada com sucesso' };
+    return { message: 'Senha atualizada com sucesso', ...tokens };
+  }
+
+  /**
+   * Atualiza nome e país padrão; o país vale para os números sem DDI nas próximas requisições
+   */
+  async updateProfile(userId: string, data: UpdateProfileRequest): Promise<Omit<User, 'password'>> {
+    const updateData: { name?: string; defaultCountry?: string } = {};
+
+    if (data.name !== undefined) {
+      if (typeof data.name !== 'string' || data.name.trim().length < 2) {
+        throw new Error('Nome deve ter pelo menos 2 caracteres');
+      }
+      updateData.name = data.name.trim();
+    }
+
+    if (data.defaultCountry !== undefined) {
+      updateData.defaultCountry = this.phoneNumbers.normalizeCountry(data.defaultCountry);
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      throw new Error('Informe name ou defaultCountry');
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: updateData
+    });
+
+    logger.info(`Perfil atualizado para usuário: ${user.email}`);
+
+    const { password: _, ...userWithoutPassword } = user;
+    return userWithoutPassword as Omit<User, 'password'>;
   }
 
   async getUserById(userId: string): Promise<Omit<User, 'password'> | null> {
@@ -295,11 +345,42 @@ export class UserService {
     return userWithoutPassword as Omit<User, 'password'>;
   }
 
-  verifyToken(token: string): JWTPayload {
-    try {
-      return jwt.verify(token, this.JWT_SECRET) as JWTPayload;
-    } catch (error) {
-      throw new Error('Token inválido');
+  /**
+   * Altera o papel do usuário na plataforma; papéis nas organizações ficam em OrganizationService
+   */
+  async updateRole(userId: string, role: PlatformRole): Promise<Omit<User, 'password'>> {
+    if (!PLATFORM_ROLES.includes(role)) {
+      throw new Error(`Papel inválido. Válidos: ${PLATFORM_ROLES.join(', ')}`);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user) {
+      throw new Error('Usuário não encontrado');
+    }
+
+    // Não permitir que o sistema fique sem administradores
+    if (user.role === 'admin' && role !== 'admin') {
+      const admins = await prisma.user.count({ where: { role: 'admin' } });
+      if (admins <= 1) {
+        throw new Error('Não é possível remover o último administrador');
+      }
     }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: userId },
+      data: { role }
+    });
+
+    logger.info(`Papel do usuário ${user.email} alterado de ${user.role} para ${role}`);
+
+    const { password: _, ...userWithoutPassword } = updatedUser;
+    return userWithoutPassword as Omit<User, 'password'>;
+  }
+
+  verifyToken(token: string): JWTPayload {
+    return this.sessionService.verifyAccessToken(token);
   }
 }
\ No newline at end of file
@@ -0,0 +1,674 @@
+import { proto } from '@whiskeysockets/baileys';
+import { Prisma, AutoReplyRule as PrismaAutoReplyRuleType } from '@prisma/client';
+import vm from 'vm';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { ContactStorageService } from '../contacts/ContactStorageService';
+import { ProcessedMessage } from '../messaging/MessageHandler';
+import { MessageQueueService } from '../messaging/MessageQueueService';
+import { BalanceService } from '../monetization/BalanceService';
+import { assertPublicUrl, fetchPublicUrl } from '../webhooks/outboundUrl';
+import {
+  AutoReplyActionConfig,
+  AutoReplyActionType,
+  AutoReplyConditions,
+  AutoReplyRule,
+  CreateAutoReplyRuleRequest,
+  ReplyActionConfig,
+  TagActionConfig,
+  UpdateAutoReplyRuleRequest,
+  WebhookActionConfig
+} from '../../types/autoReply';
+
+const ACTION_TYPES: AutoReplyActionType[] = ['reply', 'webhook', 'tag'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// A regex roda a cada mensagem recebida: padrão e texto avaliado têm tamanho limitado
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_INPUT_LENGTH = 1000;
+// Padrões com backtracking catastrófico (ex.: \d*\d*\d*z) são interrompidos após esse tempo,
+// em vez de travar o event loop de todas as conexões
+const REGEX_TIMEOUT_MS = parseInt(process.env.AUTO_REPLY_REGEX_TIMEOUT_MS || '50');
+const regexScript = new vm.Script('new RegExp(pattern, "i").test(text)');
+const regexContext = vm.createContext({});
+// Cabeçalhos que a ação webhook pode enviar (autenticação no sistema de destino)
+const ALLOWED_WEBHOOK_HEADERS = ['authorization', 'x-api-key', 'x-auth-token', 'x-webhook-token'];
+
+type RuleWithTimezone = PrismaAutoReplyRuleType & { connection: { timezone: string } };
+
+export class AutoReplyService {
+  private contactStorage: ContactStorageService;
+  private messageQueue: MessageQueueService;
+  private balanceService: BalanceService;
+  private readonly WEBHOOK_TIMEOUT = 10000;
+  // Limite de respostas automáticas por chat, somando todas as regras, para evitar loops com outros bots
+  private readonly MAX_REPLIES_PER_CHAT_PER_HOUR = parseInt(process.env.AUTO_REPLY_MAX_PER_CHAT_HOUR || '10');
+
+  constructor() {
+    this.contactStorage = new ContactStorageService();
+    this.messageQueue = new MessageQueueService();
+    this.balanceService = new BalanceService();
+  }
+
+  async createRule(organizationId: string, data: CreateAutoReplyRuleRequest): Promise<AutoReplyRule> {
+    const connection = await prisma.connection.findFirst({
+      where: { id: data.connectionId, organizationId }
+    });
+
+    if (!connection) {
+      throw new Error('Conexão não encontrada');
+    }
+
+    const name = data.name?.trim();
+    if (!name) {
+      throw new Error('Nome da regra é obrigatório');
+    }
+
+    const actionType = this.validateActionType(data.actionType);
+
+    const rule = await prisma.autoReplyRule.create({
+      data: {
+        organizationId,
+        connectionId: data.connectionId,
+        name,
+        active: data.active ?? true,
+        priority: this.validatePriority(data.priority ?? 0),
+        conditions: this.validateConditions(data.conditions || {}) as Prisma.InputJsonValue,
+        actionType,
+        actionConfig: await this.validateActionConfig(actionType, data.actionConfig) as Prisma.InputJsonValue,
+        cooldownSeconds: this.validateCooldown(data.cooldownSeconds ?? 300),
+        stopProcessing: data.stopProcessing ?? true
+      }
+    });
+
+    logger.info(`Regra de resposta automática criada: ${rule.id} na conexão ${data.connectionId}`);
+    return this.mapRuleFromPrisma(rule);
+  }
+
+  /**
+   * connectionIds limita a lista às regras dessas conexões (chaves de API restritas)
+   */
+  async getRules(organizationId: string, connectionId?: string, connectionIds?: string[]): Promise<AutoReplyRule[]> {
+    const rules = await prisma.autoReplyRule.findMany({
+      where: {
+        organizationId,
+        ...(connectionId ? { connectionId } : connectionIds?.length ? { connectionId: { in: connectionIds } } : {})
+      },
+      orderBy: [{ connectionId: 'asc' }, { priority: 'desc' }, { createdAt: 'asc' }]
+    });
+
+    return rules.map(rule => this.mapRuleFromPrisma(rule));
+  }
+
+  async getRuleById(organizationId: string, ruleId: string): Promise<AutoReplyRule | null> {
+    const rule = await prisma.autoReplyRule.findFirst({
+      where: { id: ruleId, organizationId }
+    });
+
+    return rule ? this.mapRuleFromPrisma(rule) : null;
+  }
+
+  async updateRule(organizationId: string, ruleId: string, data: UpdateAutoReplyRuleRequest): Promise<AutoReplyRule> {
+    const existing = await prisma.autoReplyRule.findFirst({
+      where: { id: ruleId, organizationId }
+    });
+
+    if (!existing) {
+      throw new Error('Regra não encontrada');
+    }
+
+    const updateData: Prisma.AutoReplyRuleUpdateInput = {};
+
+    if (data.name !== undefined) {
+      const name = data.name.trim();
+      if (!name) {
+        throw new Error('Nome da regra é obrigatório');
+      }
+      updateData.name = name;
+    }
+
+    if (data.active !== undefined) updateData.active = Boolean(data.active);
+    if (data.priority !== undefined) updateData.priority = this.validatePriority(data.priority);
+    if (data.conditions !== undefined) updateData.conditions = this.validateConditions(data.conditions) as Prisma.InputJsonValue;
+    if (data.cooldownSeconds !== undefined) updateData.cooldownSeconds = this.validateCooldown(data.cooldownSeconds);
+    if (data.stopProcessing !== undefined) updateData.stopProcessing = Boolean(data.stopProcessing);
+
+    // Ação e configuração são validadas juntas
+    if (data.actionType !== undefined || data.actionConfig !== undefined) {
+      const actionType = this.validateActionType(data.actionType ?? existing.actionType);
+      const actionConfig = data.actionConfig ?? (existing.actionConfig as unknown as AutoReplyActionConfig);
+
+      updateData.actionType = actionType;
+      updateData.actionConfig = await this.validateActionConfig(actionType, actionConfig) as Prisma.InputJsonValue;
+    }
+
+    const rule = await prisma.autoReplyRule.update({
+      where: { id: ruleId },
+      data: updateData
+    });
+
+    return this.mapRuleFromPrisma(rule);
+  }
+
+  async deleteRule(organizationId: string, ruleId: string): Promise<void> {
+    const result = await prisma.autoReplyRule.deleteMany({
+      where: { id: ruleId, organizationId }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Regra não encontrada');
+    }
+
+    logger.info(`Regra de resposta automática removida: ${ruleId}`);
+  }
+
+  /**
+   * Avalia as regras ativas da conexão para uma mensagem recebida e executa as que casarem
+   */
+  async handleIncomingMessage(
+    organizationId: string,
+    connectionId: string,
+    webMessage: proto.IWebMessageInfo,
+    message: ProcessedMessage
+  ): Promise<void> {
+    const remoteJid = webMessage.key?.remoteJid;
+    const messageId = webMessage.key?.id;
+
+    if (!remoteJid || !messageId || message.isFromMe || remoteJid === 'status@broadcast') {
+      return;
+    }
+
+    const rules = await prisma.autoReplyRule.findMany({
+      where: { connectionId, active: true },
+      include: { connection: { select: { timezone: true } } },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    }) as RuleWithTimezone[];
+
+    if (rules.length === 0) {
+      return;
+    }
+
+    if (await this.isChatOverLimit(connectionId, remoteJid)) {
+      logger.warn(`Respostas automáticas suspensas para ${remoteJid} em ${connectionId}: limite por hora atingido`);
+      return;
+    }
+
+    let isFirstContact: boolean | undefined;
+
+    for (const rule of rules) {
+      const conditions = rule.conditions as unknown as AutoReplyConditions;
+
+      if (!this.matchesConditions(conditions, message, remoteJid, rule.connection.timezone)) continue;
+
+      if (conditions.firstContact) {
+        isFirstContact ??= await this.isFirstContact(connectionId, remoteJid, messageId);
+        if (!isFirstContact) continue;
+      }
+
+      if (await this.isCoolingDown(rule, remoteJid)) {
+        logger.debug(`Regra ${rule.id} em cooldown para ${remoteJid}`);
+        if (rule.stopProcessing) break;
+        continue;
+      }
+
+      await this.executeRule(organizationId, rule, webMessage, message);
+
+      if (rule.stopProcessing) break;
+    }
+  }
+
+  private async executeRule(
+    organizationId: string,
+    rule: RuleWithTimezone,
+    webMessage: proto.IWebMessageInfo,
+    message: ProcessedMessage
+  ): Promise<void> {
+    const remoteJid = webMessage.key!.remoteJid!;
+    let error: string | null = null;
+
+    try {
+      switch (rule.actionType as AutoReplyActionType) {
+        case 'reply':
+          await this.sendReply(organizationId, rule, rule.actionConfig as unknown as ReplyActionConfig, webMessage, message);
+          break;
+        case 'webhook':
+          await this.callWebhook(rule, rule.actionConfig as unknown as WebhookActionConfig, message);
+          break;
+        case 'tag':
+          await this.tagSender(organizationId, (rule.actionConfig as unknown as TagActionConfig).tag, message, webMessage.pushName);
+          break;
+      }
+
+      logger.info(`Regra ${rule.name} (${rule.id}) executada para ${remoteJid} em ${rule.connectionId}`);
+    } catch (err) {
+      error = (err as Error).message;
+      logger.warn(`Erro ao executar regra ${rule.id} para ${remoteJid}: ${error}`);
+    }
+
+    await prisma.$transaction([
+      prisma.autoReplyExecution.create({
+        data: {
+          ruleId: rule.id,
+          remoteJid,
+          messageId: webMessage.key!.id!,
+          success: error === null,
+          error
+        }
+      }),
+      prisma.autoReplyRule.update({
+        where: { id: rule.id },
+        data: {
+          triggerCount: { increment: 1 },
+          lastTriggeredAt: new Date()
+        }
+      })
+    ]);
+  }
+
+  /**
+   * Cobra e enfileira a resposta, que segue o ritmo, o limite diário e o horário de silêncio da conexão
+   */
+  private async sendReply(
+    organizationId: string,
+    rule: RuleWithTimezone,
+    config: ReplyActionConfig,
+    webMessage: proto.IWebMessageInfo,
+    message: ProcessedMessage
+  ): Promise<void> {
+    const remoteJid = webMessage.key!.remoteJid!;
+    const action = config.mediaUrl ? 'media_message' : 'text_message';
+    const charge = await this.balanceService.chargeAction(organizationId, action, `Resposta automática para ${remoteJid}`, rule.connectionId);
+
+    try {
+      await this.messageQueue.enqueueReply(organizationId, rule.connectionId, remoteJid, {
+        text: config.text ? this.renderTemplate(config.text, message, webMessage.pushName) : undefined,
+        mediaUrl: config.mediaUrl,
+        mediaType: config.mediaType,
+        fileName: config.fileName,
+        quotedMessageId: config.quote ? webMessage.key!.id! : undefined
+      }, charge);
+    } catch (error) {
+      await this.balanceService.refundCharge(organizationId, charge, 'Reembolso de resposta automática não enfileirada')
+        .catch(refundError => logger.error('Erro ao reembolsar créditos:', refundError));
+      throw error;
+    }
+  }
+
+  private async callWebhook(rule: RuleWithTimezone, config: WebhookActionConfig, message: ProcessedMessage): Promise<void> {
+    // Regras antigas podem ter cabeçalhos fora da lista; eles não são enviados
+    const response = await fetchPublicUrl(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Baileys-REST-AutoReply/1.0',
+        ...this.filterHeaders(config.headers)
+      },
+      body: JSON.stringify({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        connectionId: rule.connectionId,
+        timestamp: new Date().toISOString(),
+        message
+      }),
+      signal: AbortSignal.timeout(this.WEBHOOK_TIMEOUT)
+    });
+
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw new Error(`Webhook respondeu com status ${response.status}`);
+    }
+  }
+
+  private filterHeaders(headers?: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers || {})
+      .filter(([name, value]) => ALLOWED_WEBHOOK_HEADERS.includes(name.toLowerCase()) && typeof value === 'string'));
+  }
+
+  private async tagSender(organizationId: string, tag: string, message: ProcessedMessage, pushName?: string | null): Promise<void> {
+    const sender = message.isGroup ? message.participant : message.from;
+
+    if (!sender?.endsWith('@s.whatsapp.net')) {
+      throw new Error('Remetente sem número de telefone para etiquetar');
+    }
+
+    const defaultCountry = await this.getDefaultCountry(organizationId);
+    await this.contactStorage.addTag(organizationId, sender.split('@')[0], tag, pushName || undefined, defaultCountry);
+  }
+
+  /**
+   * País padrão da organização: o do primeiro administrador (quem a criou)
+   */
+  private async getDefaultCountry(organizationId: string): Promise<string | undefined> {
+    const admin = await prisma.organizationMember.findFirst({
+      where: { organizationId, role: 'admin' },
+      orderBy: { createdAt: 'asc' },
+      select: { user: { select: { defaultCountry: true } } }
+    });
+
+    return admin?.user.defaultCountry;
+  }
+
+  private matchesConditions(conditions: AutoReplyConditions, message: ProcessedMessage, remoteJid: string, connectionTimezone: string): boolean {
+    const chatType = conditions.chatType || 'private';
+    if (chatType === 'private' && message.isGroup) return false;
+    if (chatType === 'group' && !message.isGroup) return false;
+
+    if (conditions.senders && conditions.senders.length > 0) {
+      const sender = (message.isGroup ? message.participant : remoteJid) || '';
+      const senderNumber = sender.split('@')[0];
+      const allowed = conditions.senders.some(value => value.includes('@')
+        ? value === sender
+        : value.replace(/\D/g, '') === senderNumber);
+
+      if (!allowed) return false;
+    }
+
+    const text = (message.caption || (message.type === 'text' ? message.content : '') || '').trim();
+
+    if (conditions.keywords && conditions.keywords.length > 0) {
+      const normalized = this.normalize(text);
+      const mode = conditions.matchMode || 'contains';
+      const matched = conditions.keywords.some(keyword => {
+        const value = this.normalize(keyword);
+        if (mode === 'exact') return normalized === value;
+        if (mode === 'startsWith') return normalized.startsWith(value);
+        return normalized.includes(value);
+      });
+
+      if (!matched) return false;
+    }
+
+    if (conditions.regex && !this.testRegex(conditions.regex, text.slice(0, MAX_REGEX_INPUT_LENGTH))) {
+      return false;
+    }
+
+    if (conditions.timeStart && conditions.timeEnd) {
+      return this.isWithinTime(conditions.timeStart, conditions.timeEnd, conditions.timezone || connectionTimezone);
+    }
+
+    return true;
+  }
+
+  private async isCoolingDown(rule: RuleWithTimezone, remoteJid: string): Promise<boolean> {
+    if (rule.cooldownSeconds <= 0) {
+      return false;
+    }
+
+    const recent = await prisma.autoReplyExecution.findFirst({
+      where: {
+        ruleId: rule.id,
+        remoteJid,
+        executedAt: { gt: new Date(Date.now() - rule.cooldownSeconds * 1000) }
+      },
+      select: { id: true }
+    });
+
+    return !!recent;
+  }
+
+  private async isChatOverLimit(connectionId: string, remoteJid: string): Promise<boolean> {
+    const count = await prisma.autoReplyExecution.count({
+      where: {
+        remoteJid,
+        rule: { connectionId },
+        executedAt: { gt: new Date(Date.now() - 60 * 60 * 1000) }
+      }
+    });
+
+    return count >= this.MAX_REPLIES_PER_CHAT_PER_HOUR;
+  }
+
+  /**
+   * Primeiro contato: nenhuma mensagem anterior salva no chat
+   */
+  private async isFirstContact(connectionId: string, remoteJid: string, messageId: string): Promise<boolean> {
+    const previous = await prisma.message.findFirst({
+      where: {
+        connectionId,
+        remoteJid,
+        messageId: { not: messageId }
+      },
+      select: { id: true }
+    });
+
+    return !previous;
+  }
+
+  private isWithinTime(start: string, end: string, timezone: string): boolean {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).formatToParts(new Date());
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value || '0');
+    const now = get('hour') * 60 + get('minute');
+    const startMinutes = this.toMinutes(start);
+    const endMinutes = this.toMinutes(end);
+
+    // Intervalo que atravessa a meia-noite (ex.: 18:00 - 08:00)
+    return startMinutes <= endMinutes
+      ? now >= startMinutes && now < endMinutes
+      : now >= startMinutes || now < endMinutes;
+  }
+
+  private renderTemplate(template: string, message: ProcessedMessage, pushName?: string | null): string {
+    const sender = message.isGroup ? message.participant : message.from;
+    const values: Record<string, string> = {
+      name: pushName || '',
+      phone: (sender || '').split('@')[0],
+      message: message.content || ''
+    };
+
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => key in values ? values[key] : match);
+  }
+
+  private normalize(value: string): string {
+    return value
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim();
+  }
+
+  private toMinutes(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + minute;
+  }
+
+  private validateActionType(actionType: string): AutoReplyActionType {
+    if (!ACTION_TYPES.includes(actionType as AutoReplyActionType)) {
+      throw new Error(`actionType inválido. Válidos: ${ACTION_TYPES.join(', ')}`);
+    }
+
+    return actionType as AutoReplyActionType;
+  }
+
+  private async validateActionConfig(actionType: AutoReplyActionType, config: AutoReplyActionConfig): Promise<AutoReplyActionConfig> {
+    if (!config || typeof config !== 'object') {
+      throw new Error('actionConfig é obrigatório');
+    }
+
+    if (actionType === 'reply') {
+      const reply = config as ReplyActionConfig;
+      if (!reply.text?.trim() && !reply.mediaUrl) {
+        throw new Error('Resposta precisa de text ou mediaUrl');
+      }
+      if (reply.mediaUrl) {
+        await this.validateUrl(reply.mediaUrl);
+      }
+      if (reply.mediaType && !['image', 'video', 'audio', 'document'].includes(reply.mediaType)) {
+        throw new Error('mediaType deve ser image, video, audio ou document');
+      }
+      return reply;
+    }
+
+    if (actionType === 'webhook') {
+      const webhook = config as WebhookActionConfig;
+      return { url: await this.validateUrl(webhook.url), headers: this.validateHeaders(webhook.headers) };
+    }
+
+    const tag = (config as TagActionConfig).tag?.trim();
+    if (!tag) {
+      throw new Error('Informe a tag a ser adicionada ao contato');
+    }
+    return { tag };
+  }
+
+  /**
+   * Executa a regex com tempo máximo; estourar o tempo conta como não casar
+   */
+  private testRegex(pattern: string, text: string): boolean {
+    regexContext.pattern = pattern;
+    regexContext.text = text;
+
+    try {
+      return regexScript.runInContext(regexContext, { timeout: REGEX_TIMEOUT_MS }) === true;
+    } catch (error) {
+      logger.warn(`Regex de resposta automática ignorada (${pattern}): ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Detecta grupos com quantificador repetidos por outro quantificador (ex.: (a+)+, (\w*)*),
+   * que levam a backtracking exponencial
+   */
+  private hasNestedQuantifier(pattern: string): boolean {
+    const groups: boolean[] = [];
+    let inClass = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '\\') {
+        i++;
+      } else if (inClass) {
+        inClass = char !== ']';
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === '(') {
+        groups.push(false);
+      } else if (char === ')') {
+        const quantified = groups.pop() ?? false;
+        const next = pattern[i + 1];
+
+        if (quantified && (next === '*' || next === '+' || next === '{')) {
+          return true;
+        }
+        if (quantified && groups.length > 0) {
+          groups[groups.length - 1] = true;
+        }
+      } else if ((char === '*' || char === '+' || char === '{') && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    }
+
+    return false;
+  }
+
+  private validateConditions(conditions: AutoReplyConditions): AutoReplyConditions {
+    if (conditions.regex) {
+      if (conditions.regex.length > MAX_REGEX_LENGTH) {
+        throw new Error(`regex deve ter no máximo ${MAX_REGEX_LENGTH} caracteres`);
+      }
+
+      try {
+        new RegExp(conditions.regex);
+      } catch (error) {
+        throw new Error('regex inválida');
+      }
+
+      if (this.hasNestedQuantifier(conditions.regex)) {
+        throw new Error('regex não pode ter quantificadores aninhados, como (a+)+');
+      }
+    }
+
+    if (conditions.matchMode && !['contains', 'exact', 'startsWith'].includes(conditions.matchMode)) {
+      throw new Error('matchMode deve ser contains, exact ou startsWith');
+    }
+
+    if (conditions.chatType && !['private', 'group', 'any'].includes(conditions.chatType)) {
+      throw new Error('chatType deve ser private, group ou any');
+    }
+
+    if ((conditions.timeStart || conditions.timeEnd) &&
+      (!TIME_PATTERN.test(conditions.timeStart || '') || !TIME_PATTERN.test(conditions.timeEnd || ''))) {
+      throw new Error('timeStart e timeEnd devem ser informados juntos no formato HH:mm');
+    }
+
+    if (conditions.timezone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: conditions.timezone });
+      } catch (error) {
+        throw new Error('Fuso horário inválido');
+      }
+    }
+
+    return conditions;
+  }
+
+  private validatePriority(priority: number): number {
+    if (!Number.isInteger(priority)) {
+      throw new Error('priority deve ser um número inteiro');
+    }
+    return priority;
+  }
+
+  private validateCooldown(cooldownSeconds: number): number {
+    if (!Number.isInteger(cooldownSeconds) || cooldownSeconds < 0) {
+      throw new Error('cooldownSeconds deve ser um inteiro maior ou igual a zero');
+    }
+    return cooldownSeconds;
+  }
+
+  /**
+   * URLs de mídia e de webhook precisam ser públicas: o servidor não pode ser usado para
+   * alcançar serviços internos
+   */
+  private async validateUrl(url: string): Promise<string> {
+    return (await assertPublicUrl(url)).toString();
+  }
+
+  private validateHeaders(headers?: Record<string, string>): Record<string, string> | undefined {
+    if (headers === undefined || headers === null) {
+      return undefined;
+    }
+
+    if (typeof headers !== 'object' || Array.isArray(headers)) {
+      throw new Error('headers deve ser um objeto');
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      if (!ALLOWED_WEBHOOK_HEADERS.includes(name.toLowerCase())) {
+        throw new Error(`Cabeçalho não permitido: ${name}. Permitidos: ${ALLOWED_WEBHOOK_HEADERS.join(', ')}`);
+      }
+      if (typeof value !== 'string' || value.length > 1000 || /[\r\n]/.test(value)) {
+        throw new Error(`Valor inválido para o cabeçalho ${name}`);
+      }
+    }
+
+    return headers;
+  }
+
+  private mapRuleFromPrisma(rule: PrismaAutoReplyRuleType): AutoReplyRule {
+    return {
+      id: rule.id,
+      organizationId: rule.organizationId,
+      connectionId: rule.connectionId,
+      name: rule.name,
+      active: rule.active,
+      priority: rule.priority,
+      conditions: rule.conditions as unknown as AutoReplyConditions,
+      actionType: rule.actionType as AutoReplyActionType,
+      actionConfig: rule.actionConfig as unknown as AutoReplyActionConfig,
+      cooldownSeconds: rule.cooldownSeconds,
+      stopProcessing: rule.stopProcessing,
+      triggerCount: rule.triggerCount,
+      lastTriggeredAt: rule.lastTriggeredAt || undefined,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt
+    };
+  }
+}
@@ -0,0 +1,665 @@
+import { Prisma, Campaign as PrismaCampaignType, CampaignRecipient as PrismaCampaignRecipientType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { ContactStorageService } from '../contacts/ContactStorageService';
+import { BalanceService } from '../monetization/BalanceService';
+import { PricingService } from '../monetization/PricingService';
+import { MessageQueueService } from '../messaging/MessageQueueService';
+import { InsufficientBalanceError } from '../../types/monetization';
+import { Contact, ContactFilters } from '../../types/contacts';
+import {
+  Campaign,
+  CampaignRecipient,
+  CampaignRecipientStatus,
+  CampaignStats,
+  CampaignStatus,
+  CreateCampaignRequest
+} from '../../types/campaigns';
+
+export type CampaignRecord = PrismaCampaignType;
+
+export class CampaignService {
+  private readonly RECIPIENT_BATCH_SIZE = 1000;
+  private readonly STALE_CLAIM_MS = 5 * 60 * 1000;
+
+  private contactStorage: ContactStorageService;
+  private balanceService: BalanceService;
+  private pricingService: PricingService;
+  private messageQueue: MessageQueueService;
+
+  constructor() {
+    this.contactStorage = new ContactStorageService();
+    this.balanceService = new BalanceService();
+    this.pricingService = new PricingService();
+    this.messageQueue = new MessageQueueService();
+  }
+
+  /**
+   * Resolve placeholders {{campo}} com os dados do contato.
+   * Aceita campos do contato (name, phone_number, whatsapp_verified_name...),
+   * chaves de metadata ({{metadata.cidade}} ou apenas {{cidade}}) e valor padrão ({{name|Cliente}}).
+   */
+  renderTemplate(template: string, contact: Contact): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g, (_match, key: string, fallback: string = '') => {
+      const value = this.resolvePlaceholder(key, contact);
+
+      return value !== undefined && value !== null && value !== ''
+        ? String(value)
+        : fallback.trim();
+    });
+  }
+
+  async createCampaign(organizationId: string, data: CreateCampaignRequest): Promise<Campaign> {
+    const name = data.name?.trim();
+    const template = data.template?.trim();
+
+    if (!name) {
+      throw new Error('Nome da campanha é obrigatório');
+    }
+
+    if (!template) {
+      throw new Error('Template da mensagem é obrigatório');
+    }
+
+    const connectionIds = Array.isArray(data.connectionIds)
+      ? Array.from(new Set(data.connectionIds.filter(Boolean)))
+      : [];
+
+    if (connectionIds.length === 0) {
+      throw new Error('Informe pelo menos uma conexão em connectionIds');
+    }
+
+    const ownedConnections = await prisma.connection.count({
+      where: { id: { in: connectionIds }, organizationId }
+    });
+
+    if (ownedConnections !== connectionIds.length) {
+      throw new Error('Uma ou mais conexões não foram encontradas');
+    }
+
+    let scheduledAt = new Date();
+    if (data.scheduledAt) {
+      scheduledAt = new Date(data.scheduledAt);
+      if (isNaN(scheduledAt.getTime())) {
+        throw new Error('scheduledAt inválido');
+      }
+    }
+
+    // Ordenação não se aplica à seleção de destinatários
+    const { sortBy, sortOrder, ...filters } = data.filters || {};
+
+    // O preço por destinatário fica fixado na criação da campanha
+    const price = await this.pricingService.getPrice(organizationId, 'campaign_recipient');
+
+    const campaign = await prisma.campaign.create({
+      data: {
+        organizationId,
+        name,
+        template,
+        filters: filters as Prisma.InputJsonObject,
+        connectionIds,
+        costPerMessage: new Decimal(price.amount),
+        priceId: price.priceId,
+        scheduledAt
+      }
+    });
+
+    logger.info(`Campanha criada: ${campaign.id} para organização ${organizationId}`);
+    return this.mapCampaignFromPrisma(campaign);
+  }
+
+  /**
+   * connectionIds limita a lista às campanhas que usam apenas essas conexões (chaves de API restritas)
+   */
+  async getCampaigns(
+    organizationId: string,
+    page: number = 1,
+    limit: number = 20,
+    status?: CampaignStatus,
+    connectionIds?: string[]
+  ): Promise<{ campaigns: Campaign[]; total: number; page: number; limit: number; totalPages: number }> {
+    const where: Prisma.CampaignWhereInput = { organizationId };
+    if (status) {
+      where.status = status;
+    }
+
+    if (connectionIds?.length) {
+      const otherConnections = await prisma.connection.findMany({
+        where: { organizationId, id: { notIn: connectionIds } },
+        select: { id: true }
+      });
+
+      where.NOT = { connectionIds: { hasSome: otherConnections.map(connection => connection.id) } };
+    }
+
+    const [campaigns, total] = await Promise.all([
+      prisma.campaign.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.campaign.count({ where })
+    ]);
+
+    return {
+      campaigns: campaigns.map(campaign => this.mapCampaignFromPrisma(campaign)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async getCampaignById(organizationId: string, campaignId: string): Promise<Campaign | null> {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, organizationId }
+    });
+
+    if (!campaign) {
+      return null;
+    }
+
+    return {
+      ...this.mapCampaignFromPrisma(campaign),
+      stats: await this.getStats(campaign.id)
+    };
+  }
+
+  async getRecipients(
+    organizationId: string,
+    campaignId: string,
+    page: number = 1,
+    limit: number = 50,
+    status?: CampaignRecipientStatus
+  ): Promise<{ recipients: CampaignRecipient[]; total: number; page: number; limit: number; totalPages: number }> {
+    await this.getOwnedCampaign(organizationId, campaignId);
+
+    const where: Prisma.CampaignRecipientWhereInput = { campaignId };
+    if (status) {
+      where.status = status;
+    }
+
+    const [recipients, total] = await Promise.all([
+      prisma.campaignRecipient.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.campaignRecipient.count({ where })
+    ]);
+
+    return {
+      recipients: recipients.map(recipient => this.mapRecipientFromPrisma(recipient)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async pauseCampaign(organizationId: string, campaignId: string, reason?: string): Promise<Campaign> {
+    const campaign = await this.getOwnedCampaign(organizationId, campaignId);
+
+    if (campaign.status !== 'running' && campaign.status !== 'scheduled') {
+      throw new Error(`Campanha não pode ser pausada no status ${campaign.status}`);
+    }
+
+    await this.pause(campaign.id, reason || null);
+    logger.info(`Campanha ${campaignId} pausada`);
+
+    return (await this.getCampaignById(organizationId, campaignId))!;
+  }
+
+  async resumeCampaign(organizationId: string, campaignId: string): Promise<Campaign> {
+    const campaign = await this.getOwnedCampaign(organizationId, campaignId);
+
+    if (campaign.status !== 'paused') {
+      throw new Error(`Campanha não pode ser retomada no status ${campaign.status}`);
+    }
+
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: {
+        // Se foi pausada antes de iniciar, volta a aguardar o agendamento
+        status: campaign.startedAt ? 'running' : 'scheduled',
+        pauseReason: null
+      }
+    });
+
+    logger.info(`Campanha ${campaignId} retomada`);
+    return (await this.getCampaignById(organizationId, campaignId))!;
+  }
+
+  async cancelCampaign(organizationId: string, campaignId: string): Promise<Campaign> {
+    const campaign = await this.getOwnedCampaign(organizationId, campaignId);
+
+    if (campaign.status === 'completed' || campaign.status === 'cancelled') {
+      throw new Error(`Campanha já está ${campaign.status === 'completed' ? 'concluída' : 'cancelada'}`);
+    }
+
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: {
+        status: 'cancelled',
+        completedAt: new Date()
+      }
+    });
+
+    await prisma.campaignRecipient.updateMany({
+      where: { campaignId: campaign.id, status: 'pending' },
+      data: { status: 'cancelled' }
+    });
+
+    // Envios já na fila: os que ainda não saíram são cancelados e reembolsados na sincronização
+    await this.cancelQueuedJobs(campaign.id);
+
+    logger.info(`Campanha ${campaignId} cancelada`);
+    return (await this.getCampaignById(organizationId, campaignId))!;
+  }
+
+  /**
+   * Inicia campanhas agendadas cujo horário chegou, gerando a lista de destinatários
+   */
+  async startDueCampaigns(): Promise<number> {
+    const due = await prisma.campaign.findMany({
+      where: {
+        status: 'scheduled',
+        scheduledAt: { lte: new Date() }
+      },
+      orderBy: { scheduledAt: 'asc' }
+    });
+
+    let started = 0;
+
+    for (const campaign of due) {
+      const claimed = await prisma.campaign.updateMany({
+        where: { id: campaign.id, status: 'scheduled' },
+        data: { status: 'running', startedAt: campaign.startedAt || new Date() }
+      });
+
+      if (claimed.count === 0) continue;
+
+      try {
+        // Destinatários só são gerados na primeira execução (retomadas reaproveitam a lista)
+        if (!campaign.startedAt) {
+          const total = await this.buildRecipients(campaign);
+          await prisma.campaign.update({
+            where: { id: campaign.id },
+            data: { totalRecipients: total }
+          });
+          logger.info(`Campanha ${campaign.id} iniciada com ${total} destinatários`);
+        }
+
+        started++;
+      } catch (error) {
+        logger.error(`Erro ao iniciar campanha ${campaign.id}:`, error);
+        // Voltar ao estado "não iniciada" para que a lista seja gerada novamente ao retomar
+        await prisma.campaign.update({
+          where: { id: campaign.id },
+          data: { startedAt: campaign.startedAt }
+        });
+        await this.pause(campaign.id, `Erro ao gerar destinatários: ${(error as Error).message}`);
+      }
+    }
+
+    return started;
+  }
+
+  /**
+   * Campanhas em execução ou com envios ainda na fila (pausadas/canceladas aguardando sincronização)
+   */
+  async getActiveCampaigns(): Promise<CampaignRecord[]> {
+    return prisma.campaign.findMany({
+      where: {
+        OR: [
+          { status: 'running' },
+          { recipients: { some: { status: 'queued' } } }
+        ]
+      },
+      orderBy: { startedAt: 'asc' }
+    });
+  }
+
+  /**
+   * Atualiza destinatários com o resultado dos jobs da fila de envio, reembolsando os que não saíram
+   */
+  async syncQueuedRecipients(campaign: CampaignRecord): Promise<void> {
+    // Reservados sem job criado (processo interrompido no meio do envio) voltam a ficar pendentes
+    await prisma.campaignRecipient.updateMany({
+      where: {
+        campaignId: campaign.id,
+        status: 'queued',
+        jobId: null,
+        updatedAt: { lt: new Date(Date.now() - this.STALE_CLAIM_MS) }
+      },
+      data: { status: campaign.status === 'cancelled' ? 'cancelled' : 'pending', connectionId: null }
+    });
+
+    const queued = await prisma.campaignRecipient.findMany({
+      where: { campaignId: campaign.id, status: 'queued', jobId: { not: null } }
+    });
+
+    if (queued.length === 0) {
+      return;
+    }
+
+    const jobs = await this.messageQueue.getJobsByIds(queued.map(recipient => recipient.jobId!));
+    const jobsById = new Map(jobs.map(job => [job.id, job]));
+
+    for (const recipient of queued) {
+      const job = jobsById.get(recipient.jobId!);
+
+      if (job?.status === 'sent') {
+        await prisma.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: {
+            status: 'sent',
+            waMessageId: job.waMessageId,
+            sentAt: job.sentAt || new Date(),
+            error: null
+          }
+        });
+      } else if (!job || job.status === 'failed' || job.status === 'cancelled') {
+        let status: CampaignRecipientStatus = 'failed';
+        if (job?.status === 'cancelled') {
+          status = campaign.status === 'cancelled' ? 'cancelled' : 'pending';
+        }
+
+        await prisma.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: {
+            status,
+            error: status === 'failed' ? (job?.error || 'Job de envio não encontrado') : null,
+            jobId: status === 'pending' ? null : recipient.jobId,
+            connectionId: status === 'pending' ? null : recipient.connectionId
+          }
+        });
+
+        await this.refund(campaign, recipient);
+      }
+    }
+  }
+
+  /**
+   * Quantidade de envios da campanha aguardando na fila, por conexão
+   */
+  async getQueuedCountByConnection(campaignId: string): Promise<Map<string, number>> {
+    const groups = await prisma.campaignRecipient.groupBy({
+      by: ['connectionId'],
+      where: { campaignId, status: 'queued' },
+      _count: { id: true }
+    });
+
+    return new Map(groups
+      .filter(group => group.connectionId)
+      .map(group => [group.connectionId!, group._count.id]));
+  }
+
+  /**
+   * Cobra e coloca na fila de envio os próximos destinatários pendentes usando a conexão informada.
+   * Retorna false se a campanha foi pausada (ex.: saldo insuficiente).
+   */
+  async dispatchRecipients(campaign: CampaignRecord, connectionId: string, count: number): Promise<boolean> {
+    // A campanha pode ter sido pausada ou cancelada desde que foi carregada
+    const current = await prisma.campaign.findUnique({
+      where: { id: campaign.id },
+      select: { status: true }
+    });
+
+    if (current?.status !== 'running') {
+      return false;
+    }
+
+    const recipients = await prisma.campaignRecipient.findMany({
+      where: { campaignId: campaign.id, status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+      take: count
+    });
+
+    // Preço fixado na criação; o envio conta na franquia de mensagens do plano antes de usar créditos
+    const price = { amount: campaign.costPerMessage.toNumber(), priceId: campaign.priceId || undefined };
+
+    for (const recipient of recipients) {
+      const claimed = await prisma.campaignRecipient.updateMany({
+        where: { id: recipient.id, status: 'pending' },
+        data: { status: 'queued', connectionId }
+      });
+
+      if (claimed.count === 0) continue;
+
+      let charged: PrismaCampaignRecipientType;
+
+      try {
+        const charge = await this.balanceService.chargeAction(
+          campaign.organizationId,
+          'campaign_recipient',
+          `Campanha ${campaign.name}: envio para ${recipient.phoneNumber}`,
+          recipient.id,
+          price
+        );
+
+        charged = await prisma.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: { cost: new Decimal(charge.amount), planPeriodId: charge.planPeriodId || null }
+        });
+      } catch (error) {
+        await prisma.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: { status: 'pending', connectionId: null }
+        });
+
+        if (error instanceof InsufficientBalanceError) {
+          await this.pause(campaign.id, 'Saldo insuficiente');
+          logger.warn(`Campanha ${campaign.id} pausada por saldo insuficiente`);
+          return false;
+        }
+
+        throw error;
+      }
+
+      try {
+        const job = await this.messageQueue.enqueueText(campaign.organizationId, connectionId, recipient.phoneNumber, recipient.message);
+
+        await prisma.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: { jobId: job.id }
+        });
+      } catch (error) {
+        await prisma.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: { status: 'failed', error: (error as Error).message }
+        });
+        await this.refund(campaign, charged);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Conclui a campanha quando não há mais destinatários pendentes nem na fila
+   */
+  async completeIfFinished(campaign: CampaignRecord): Promise<boolean> {
+    const remaining = await prisma.campaignRecipient.count({
+      where: {
+        campaignId: campaign.id,
+        status: { in: ['pending', 'queued'] }
+      }
+    });
+
+    if (remaining > 0) {
+      return false;
+    }
+
+    const result = await prisma.campaign.updateMany({
+      where: { id: campaign.id, status: 'running' },
+      data: { status: 'completed', completedAt: new Date() }
+    });
+
+    if (result.count > 0) {
+      logger.info(`Campanha ${campaign.id} concluída`);
+    }
+
+    return result.count > 0;
+  }
+
+  private async pause(campaignId: string, reason: string | null): Promise<void> {
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: { status: 'paused', pauseReason: reason }
+    });
+
+    await this.cancelQueuedJobs(campaignId);
+  }
+
+  private async cancelQueuedJobs(campaignId: string): Promise<void> {
+    const queued = await prisma.campaignRecipient.findMany({
+      where: { campaignId, status: 'queued', jobId: { not: null } },
+      select: { jobId: true }
+    });
+
+    await this.messageQueue.cancelJobs(queued.map(recipient => recipient.jobId!));
+  }
+
+  private async refund(campaign: CampaignRecord, recipient: PrismaCampaignRecipientType): Promise<void> {
+    const cost = recipient.cost.toNumber();
+    if (cost <= 0 && !recipient.planPeriodId) {
+      return;
+    }
+
+    try {
+      await this.balanceService.refundCharge(campaign.organizationId, {
+        action: 'campaign_recipient',
+        amount: cost,
+        planPeriodId: recipient.planPeriodId || undefined
+      }, `Reembolso de envio não realizado da campanha ${campaign.name} para ${recipient.phoneNumber}`);
+    } catch (error) {
+      logger.error(`Erro ao reembolsar envio ${recipient.id} da campanha ${campaign.id}:`, error);
+    }
+  }
+
+  private async buildRecipients(campaign: CampaignRecord): Promise<number> {
+    const where = await this.contactStorage.buildContactWhere(campaign.organizationId, campaign.filters as ContactFilters);
+    let cursor: string | undefined;
+    let total = 0;
+
+    while (true) {
+      const contacts = await prisma.contact.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        take: this.RECIPIENT_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      if (contacts.length === 0) break;
+
+      const data: Prisma.CampaignRecipientCreateManyInput[] = contacts.map(contact => {
+        const message = this.renderTemplate(campaign.template, this.contactStorage.mapContactFromPrisma(contact)).trim();
+
+        return {
+          campaignId: campaign.id,
+          contactId: contact.id,
+          phoneNumber: contact.phoneNumber,
+          message,
+          status: message ? 'pending' : 'failed',
+          error: message ? null : 'Mensagem vazia após aplicar o template'
+        };
+      });
+
+      const result = await prisma.campaignRecipient.createMany({
+        data,
+        skipDuplicates: true
+      });
+
+      total += result.count;
+      cursor = contacts[contacts.length - 1].id;
+    }
+
+    return total;
+  }
+
+  private async getStats(campaignId: string): Promise<CampaignStats> {
+    const groups = await prisma.campaignRecipient.groupBy({
+      by: ['status'],
+      where: { campaignId },
+      _count: { id: true }
+    });
+
+    const stats: CampaignStats = { pending: 0, queued: 0, sent: 0, failed: 0, cancelled: 0 };
+    for (const group of groups) {
+      stats[group.status as CampaignRecipientStatus] = group._count.id;
+    }
+
+    return stats;
+  }
+
+  private async getOwnedCampaign(organizationId: string, campaignId: string): Promise<CampaignRecord> {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, organizationId }
+    });
+
+    if (!campaign) {
+      throw new Error('Campanha não encontrada');
+    }
+
+    return campaign;
+  }
+
+  private resolvePlaceholder(key: string, contact: Contact): unknown {
+    const metadata = contact.metadata && typeof contact.metadata === 'object' ? contact.metadata : {};
+
+    if (key.startsWith('metadata.')) {
+      return key
+        .slice('metadata.'.length)
+        .split('.')
+        .reduce<any>((value, part) => (value && typeof value === 'object' ? value[part] : undefined), metadata);
+    }
+
+    if (key !== 'metadata' && key in contact) {
+      return (contact as any)[key];
+    }
+
+    return metadata[key];
+  }
+
+  private mapCampaignFromPrisma(campaign: PrismaCampaignType): Campaign {
+    return {
+      id: campaign.id,
+      organizationId: campaign.organizationId,
+      name: campaign.name,
+      template: campaign.template,
+      filters: campaign.filters as ContactFilters,
+      connectionIds: campaign.connectionIds,
+      status: campaign.status as CampaignStatus,
+      pauseReason: campaign.pauseReason || undefined,
+      costPerMessage: campaign.costPerMessage.toNumber(),
+      totalRecipients: campaign.totalRecipients,
+      scheduledAt: campaign.scheduledAt,
+      startedAt: campaign.startedAt || undefined,
+      completedAt: campaign.completedAt || undefined,
+      createdAt: campaign.createdAt,
+      updatedAt: campaign.updatedAt
+    };
+  }
+
+  private mapRecipientFromPrisma(recipient: PrismaCampaignRecipientType): CampaignRecipient {
+    return {
+      id: recipient.id,
+      campaignId: recipient.campaignId,
+      contactId: recipient.contactId || undefined,
+      phoneNumber: recipient.phoneNumber,
+      message: recipient.message,
+      status: recipient.status as CampaignRecipientStatus,
+      connectionId: recipient.connectionId || undefined,
+      jobId: recipient.jobId || undefined,
+      waMessageId: recipient.waMessageId || undefined,
+      error: recipient.error || undefined,
+      sentAt: recipient.sentAt || undefined,
+      createdAt: recipient.createdAt,
+      updatedAt: recipient.updatedAt
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import logger from '../../utils/logger';
+import whatsappService from '../whatsappService';
+import { CampaignService } from './CampaignService';
+
+class CampaignWorker {
+  private campaignService: CampaignService;
+  private interval?: NodeJS.Timeout;
+  private running = false;
+  // Envios por conexão mantidos na fila ao mesmo tempo. O ritmo real é controlado pela
+  // fila de envio; manter poucos itens deixa pausa e cancelamento imediatos.
+  private readonly WINDOW_PER_CONNECTION = parseInt(process.env.CAMPAIGN_WINDOW_PER_CONNECTION || '3');
+
+  constructor() {
+    this.campaignService = new CampaignService();
+  }
+
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.interval = setInterval(() => {
+      if (this.running) return;
+
+      this.running = true;
+      this.tick()
+        .catch(error => logger.error('Erro ao processar campanhas:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, 5000); // A cada 5 segundos
+
+    logger.info('Processamento de campanhas iniciado');
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    await this.campaignService.startDueCampaigns();
+
+    const campaigns = await this.campaignService.getActiveCampaigns();
+
+    for (const campaign of campaigns) {
+      try {
+        await this.campaignService.syncQueuedRecipients(campaign);
+
+        if (campaign.status !== 'running') continue;
+
+        // Rodízio: cada conexão online da campanha recebe sua parte dos envios
+        const onlineConnections = campaign.connectionIds.filter(connectionId => {
+          const connection = whatsappService.getConnection(campaign.organizationId, connectionId);
+          return connection?.status === 'connected';
+        });
+
+        const queuedByConnection = await this.campaignService.getQueuedCountByConnection(campaign.id);
+
+        for (const connectionId of onlineConnections) {
+          const available = this.WINDOW_PER_CONNECTION - (queuedByConnection.get(connectionId) || 0);
+          if (available <= 0) continue;
+
+          const stillRunning = await this.campaignService.dispatchRecipients(campaign, connectionId, available);
+          if (!stillRunning) break;
+        }
+
+        await this.campaignService.completeIfFinished(campaign);
+      } catch (error) {
+        logger.error(`Erro ao processar campanha ${campaign.id}:`, error);
+      }
+    }
+  }
+}
+
+export default new CampaignWorker();
@@ -1,6 +1,5 @@
 import makeWASocket, { 
   DisconnectReason, 
-  useMultiFileAuthState, 
   WASocket,
   fetchLatestBaileysVersion,
   Browsers
@@ -15,13 +14,21 @@ import logger from '../../utils/logger';
 import { WhatsAppConnection } from '../../types/types';
 import { InstanceData } from '../types/InstanceData';
 import { EventHandlers } from './EventHandlers';
+import { ConnectionStorageService, ConnectionRecord } from './ConnectionStorageService';
+import { AuthStateProvider } from './authState/AuthStateProvider';
+import { createAuthStateProvider } from './authState/createAuthStateProvider';
+import eventBus from '../events/EventBus';
 
 export class ConnectionManager {
   private instances: Map<string, InstanceData> = new Map();
   private readonly AUTH_DIR = path.join(process.cwd(), 'auth_sessions');
   private eventHandlers: EventHandlers;
+  private connectionStorage: ConnectionStorageService;
+  private authStateProvider: AuthStateProvider;
 
   constructor() {
+    this.connectionStorage = new ConnectionStorageService();
+    this.authStateProvider = createAuthStateProvider(this.AUTH_DIR);
     this.ensureDirectories();
     this.eventHandlers = new EventHandlers(this.instances, this.AUTH_DIR);
     // Passar referência do ConnectionManager para o EventHandlers
@@ -39,13 +46,8 @@ export class ConnectionManager {
     }
   }
 
-  async createConnection(userId: string, pairingMethod: 'qr' | 'code' = 'qr', phoneNumber?: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
+  async createConnection(organizationId: string, pairingMethod: 'qr' | 'code' = 'qr', phoneNumber?: string, name?: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
     const connectionId = uuidv4();
-    const authPath = path.join(this.AUTH_DIR, userId, connectionId);
-    
-    if (!fs.existsSync(authPath)) {
-      fs.mkdirSync(authPath, { recursive: true });
-    }
 
     if (pairingMethod === 'code') {
       if (!phoneNumber) {
@@ -58,8 +60,16 @@ export class ConnectionManager {
       }
     }
 
+    await this.connectionStorage.createConnection({
+      id: connectionId,
+      organizationId,
+      name,
+      pairingMethod,
+      phoneNumber
+    });
+
     try {
-      const { state, saveCreds } = await useMultiFileAuthState(authPath);
+      const { state, saveCreds } = await this.authStateProvider.useAuthState(organizationId, connectionId);
 
       const sock = makeWASocket({
         auth: state,
@@ -76,7 +86,8 @@ export class ConnectionManager {
 
       const instanceData: InstanceData = {
         instanceId: connectionId,
-        userId,
+        organizationId,
+        name,
         socket: sock,
         status: 'connecting',
         reconnectionAttempts: 0,
@@ -114,6 +125,7 @@ export class ConnectionManager {
             instanceData.pairingCode = code;
             instanceData.status = 'code_pending';
             logger.info(`Código de emparelhamento gerado diretamente para ${connectionId}: ${code}`);
+            eventBus.publish('connection.pairing_code', organizationId, connectionId, { pairingCode: code });
           } catch (error) {
             logger.error(`Erro ao gerar código diretamente para ${connectionId}:`, error);
           }
@@ -154,15 +166,16 @@ export class ConnectionManager {
       return result;
     } catch (error) {
       logger.error(`Erro ao criar conexão ${connectionId}:`, error);
-      await this.cleanup(userId, connectionId);
+      await this.cleanup(organizationId, connectionId);
+      await this.connectionStorage.deleteConnection(connectionId);
       throw error;
     }
   }
 
-  async validateConnection(userId: string, connectionId: string, code: string): Promise<boolean> {
+  async validateConnection(organizationId: string, connectionId: string, code: string): Promise<boolean> {
     const instance = this.instances.get(connectionId);
     
-    if (!instance || instance.userId !== userId) {
+    if (!instance || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada');
     }
 
@@ -175,10 +188,15 @@ export class ConnectionManager {
     }
   }
 
-  async removeConnection(userId: string, connectionId: string): Promise<void> {
+  async removeConnection(organizationId: string, connectionId: string): Promise<void> {
     const instance = this.instances.get(connectionId);
+    const record = await this.connectionStorage.getOrganizationConnection(organizationId, connectionId);
+
+    if ((!instance || instance.organizationId !== organizationId) && !record) {
+      throw new Error('Conexão não encontrada');
+    }
     
-    if (instance && instance.userId === userId) {
+    if (instance && instance.organizationId === organizationId) {
       instance.shouldBeConnected = false;
       
       if (instance.reconnectTimeout) {
@@ -204,10 +222,46 @@ export class ConnectionManager {
       }
     }
     
-    await this.cleanup(userId, connectionId);
+    await this.cleanup(organizationId, connectionId);
+    await this.connectionStorage.deleteConnection(connectionId);
     logger.info(`Conexão ${connectionId} removida com sucesso`);
   }
 
+  /**
+   * Encerra o socket sem apagar as credenciais e sem reconexão automática.
+   * A conexão pode ser retomada depois com restartConnection.
+   */
+  async disconnectConnection(connectionId: string): Promise<void> {
+    const instance = this.instances.get(connectionId);
+
+    if (!instance) {
+      throw new Error('Conexão não está ativa');
+    }
+
+    instance.shouldBeConnected = false;
+
+    if (instance.reconnectTimeout) {
+      clearTimeout(instance.reconnectTimeout);
+    }
+
+    try {
+      if (instance.socket && typeof instance.socket.end === 'function') {
+        instance.socket.end(undefined);
+      }
+    } catch (error) {
+      logger.warn(`Erro ao encerrar socket ${connectionId}:`, error);
+    }
+
+    this.instances.delete(connectionId);
+
+    await this.connectionStorage.updateState(connectionId, {
+      status: 'disconnected',
+      shouldBeConnected: false
+    });
+
+    logger.info(`Conexão ${connectionId} desconectada`);
+  }
+
   async cleanupDisconnectedInstances(): Promise<void> {
     const disconnectedInstances = Array.from(this.instances.entries())
       .filter(([_, instance]) => instance.status === 'disconnected' && !instance.shouldBeConnected);
@@ -220,11 +274,17 @@ export class ConnectionManager {
     
     for (const [connectionId, instance] of disconnectedInstances) {
       logger.info(`Removendo instância desconectada: ${connectionId}`);
-      await this.cleanup(instance.userId, connectionId);
+      await this.cleanup(instance.organizationId, connectionId);
+
+      // Manter o registro para listagem offline, sem tentar restaurar
+      await this.connectionStorage.updateState(connectionId, {
+        status: 'disconnected',
+        shouldBeConnected: false
+      });
     }
   }
 
-  async recreateInstance(userId: string, connectionId: string): Promise<void> {
+  async recreateInstance(organizationId: string, connectionId: string): Promise<void> {
     const instance = this.instances.get(connectionId);
     if (!instance) return;
 
@@ -235,30 +295,33 @@ export class ConnectionManager {
     const phoneNumber = instance.phoneNumber;
     
     // Cleanup da instância atual
-    await this.cleanup(userId, connectionId);
+    await this.cleanup(organizationId, connectionId);
 
     // Recriar com os mesmos parâmetros
     try {
-      await this.createConnection(userId, pairingMethod, phoneNumber);
+      await this.createConnection(organizationId, pairingMethod, phoneNumber);
       logger.info(`Instância ${connectionId} recriada com sucesso`);
     } catch (error) {
       logger.error(`Erro ao recriar instância ${connectionId}:`, error);
     }
   }
 
-  async restartConnection(userId: string, connectionId: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
+  async restartConnection(organizationId: string, connectionId: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
     const instance = this.instances.get(connectionId);
+    const record = await this.connectionStorage.getConnection(connectionId);
     
-    if (instance && instance.userId !== userId) {
+    if ((instance && instance.organizationId !== organizationId) || (record && record.organizationId !== organizationId) || (!instance && !record)) {
       throw new Error('Conexão não encontrada ou não autorizada');
     }
     
     logger.info(`Reiniciando conexão ${connectionId}...`);
     
-    // Salvar dados da instância (se existir)
-    const pairingMethod = instance?.pairingMethod || 'qr';
-    const phoneNumber = instance?.phoneNumber;
-    const shouldBeConnected = instance?.shouldBeConnected !== false;
+    // Salvar dados da instância (ou do registro, se estiver offline)
+    const pairingMethod = instance?.pairingMethod || (record?.pairingMethod as 'qr' | 'code') || 'qr';
+    const phoneNumber = instance?.phoneNumber || record?.phoneNumber || undefined;
+    const name = instance?.name || record?.name || undefined;
+    // Reinício manual indica que o usuário quer a conexão ativa
+    const shouldBeConnected = true;
     
     // Limpar instância atual sem remover arquivos de auth
     if (instance) {
@@ -279,15 +342,9 @@ export class ConnectionManager {
       this.instances.delete(connectionId);
     }
     
-    // Criar nova conexão com mesmo ID
-    const authPath = path.join(this.AUTH_DIR, userId, connectionId);
-    
-    if (!fs.existsSync(authPath)) {
-      fs.mkdirSync(authPath, { recursive: true });
-    }
-
+    // Criar nova conexão com mesmo ID (reaproveitando as credenciais salvas)
     try {
-      const { state, saveCreds } = await useMultiFileAuthState(authPath);
+      const { state, saveCreds } = await this.authStateProvider.useAuthState(organizationId, connectionId);
 
       const sock = makeWASocket({
         auth: state,
@@ -304,12 +361,13 @@ export class ConnectionManager {
 
       const instanceData: InstanceData = {
         instanceId: connectionId,
-        userId,
+        organizationId,
+        name,
         socket: sock,
         status: 'connecting',
         reconnectionAttempts: 0,
         shouldBeConnected,
-        createdAt: new Date(),
+        createdAt: record?.createdAt || instance?.createdAt || new Date(),
         pairingMethod,
         phoneNumber
       };
@@ -317,6 +375,11 @@ export class ConnectionManager {
       this.instances.set(connectionId, instanceData);
       this.eventHandlers.setupSocketEvents(sock, connectionId, saveCreds);
 
+      await this.connectionStorage.updateState(connectionId, {
+        status: 'connecting',
+        shouldBeConnected
+      });
+
       // Aguardar geração do QR code ou código de emparelhamento
       let attempts = 0;
       const maxAttempts = 10;
@@ -354,11 +417,11 @@ export class ConnectionManager {
     }
   }
 
-  async autoRestartInstance(userId: string, connectionId: string): Promise<void> {
+  async autoRestartInstance(organizationId: string, connectionId: string): Promise<void> {
     logger.info(`Executando reinicialização automática para ${connectionId}...`);
     
     const instance = this.instances.get(connectionId);
-    if (!instance || instance.userId !== userId) {
+    if (!instance || instance.organizationId !== organizationId) {
       logger.warn(`Instância ${connectionId} não encontrada para reinicialização automática`);
       return;
     }
@@ -366,6 +429,8 @@ export class ConnectionManager {
     // Salvar configurações da instância
     const pairingMethod = instance.pairingMethod;
     const phoneNumber = instance.phoneNumber;
+    const name = instance.name;
+    const createdAt = instance.createdAt;
     const shouldBeConnected = true; // Manter conectado após restart automático
 
     try {
@@ -388,13 +453,7 @@ export class ConnectionManager {
       await new Promise(resolve => setTimeout(resolve, 1000));
 
       // Recriar instância
-      const authPath = path.join(this.AUTH_DIR, userId, connectionId);
-      
-      if (!fs.existsSync(authPath)) {
-        fs.mkdirSync(authPath, { recursive: true });
-      }
-
-      const { state, saveCreds } = await useMultiFileAuthState(authPath);
+      const { state, saveCreds } = await this.authStateProvider.useAuthState(organizationId, connectionId);
 
       const sock = makeWASocket({
         auth: state,
@@ -411,12 +470,13 @@ export class ConnectionManager {
 
       const newInstanceData: InstanceData = {
         instanceId: connectionId,
-        userId,
+        organizationId,
+        name,
         socket: sock,
         status: 'connecting',
         reconnectionAttempts: 0,
         shouldBeConnected,
-        createdAt: new Date(),
+        createdAt,
         pairingMethod,
         phoneNumber
       };
@@ -435,10 +495,15 @@ export class ConnectionManager {
         failedInstance.shouldBeConnected = false;
         failedInstance.status = 'disconnected';
       }
+
+      await this.connectionStorage.updateState(connectionId, {
+        status: 'disconnected',
+        shouldBeConnected: false
+      });
     }
   }
 
-  async cleanup(userId: string, connectionId: string): Promise<void> {
+  async cleanup(organizationId: string, connectionId: string): Promise<void> {
     const instance = this.instances.get(connectionId);
     
     if (instance) {
@@ -459,49 +524,85 @@ export class ConnectionManager {
     
     this.instances.delete(connectionId);
     
-    const authPath = path.join(this.AUTH_DIR, userId, connectionId);
-    if (fs.existsSync(authPath)) {
-      try {
-        fs.rmSync(authPath, { recursive: true, force: true });
-        logger.info(`Arquivos de autenticação removidos para ${connectionId}`);
-      } catch (error) {
-        logger.error(`Erro ao remover arquivos de ${connectionId}:`, error);
-      }
+    try {
+      await this.authStateProvider.removeAuthState(organizationId, connectionId);
+      logger.info(`Dados de autenticação removidos para ${connectionId}`);
+    } catch (error) {
+      logger.error(`Erro ao remover dados de autenticação de ${connectionId}:`, error);
     }
   }
 
-  getAllConnections(userId?: string): WhatsAppConnection[] {
-    const filteredInstances = userId 
-      ? Array.from(this.instances.values()).filter(instance => instance.userId === userId)
+  getAllConnections(organizationId?: string): WhatsAppConnection[] {
+    const filteredInstances = organizationId 
+      ? Array.from(this.instances.values()).filter(instance => instance.organizationId === organizationId)
       : Array.from(this.instances.values());
       
-    return filteredInstances.map(instance => ({
-      id: instance.instanceId,
-      userId: instance.userId,
-      status: instance.status,
-      phoneNumber: instance.number,
-      profilePicture: instance.profilePicture,
-      createdAt: instance.createdAt,
-      lastActivity: instance.lastActivity,
-      qr: instance.qr,
-      pairingCode: instance.pairingCode
-    }));
+    return filteredInstances.map(instance => this.toConnection(instance));
   }
 
-  getConnection(userId: string, connectionId: string): WhatsAppConnection | undefined {
+  getConnection(organizationId: string, connectionId: string): WhatsAppConnection | undefined {
     const instance = this.instances.get(connectionId);
-    if (!instance || instance.userId !== userId) return undefined;
+    if (!instance || instance.organizationId !== organizationId) return undefined;
+
+    return this.toConnection(instance);
+  }
+
+  /**
+   * Lista as conexões persistidas da organização, incluindo as offline,
+   * com o estado em memória sobreposto quando a instância está ativa
+   */
+  async listConnections(organizationId: string): Promise<WhatsAppConnection[]> {
+    const records = await this.connectionStorage.getOrganizationConnections(organizationId);
+    const recordIds = new Set(records.map(record => record.id));
+
+    const connections = records.map(record => this.toConnection(this.instances.get(record.id), record));
+
+    // Instâncias em memória sem registro (não deveria ocorrer, mas não escondê-las)
+    for (const instance of this.instances.values()) {
+      if (instance.organizationId === organizationId && !recordIds.has(instance.instanceId)) {
+        connections.push(this.toConnection(instance));
+      }
+    }
+
+    return connections;
+  }
+
+  /**
+   * Obtém uma conexão da organização, recorrendo ao banco quando não está em memória
+   */
+  async findConnection(organizationId: string, connectionId: string): Promise<WhatsAppConnection | undefined> {
+    const instance = this.instances.get(connectionId);
+    if (instance && instance.organizationId !== organizationId) return undefined;
+
+    const record = await this.connectionStorage.getOrganizationConnection(organizationId, connectionId);
+    if (!instance && !record) return undefined;
+
+    return this.toConnection(instance, record || undefined);
+  }
+
+  private toConnection(instance?: InstanceData, record?: ConnectionRecord): WhatsAppConnection {
+    if (!instance && !record) {
+      throw new Error('Instância ou registro da conexão é obrigatório');
+    }
 
     return {
-      id: instance.instanceId,
-      userId: instance.userId,
-      status: instance.status,
-      phoneNumber: instance.number,
-      profilePicture: instance.profilePicture,
-      createdAt: instance.createdAt,
-      lastActivity: instance.lastActivity,
-      qr: instance.qr,
-      pairingCode: instance.pairingCode
+      id: instance?.instanceId || record!.id,
+      organizationId: instance?.organizationId || record!.organizationId,
+      name: instance?.name || record?.name || undefined,
+      status: instance?.status || 'disconnected',
+      phoneNumber: instance?.number || record?.number || undefined,
+      profilePicture: instance?.profilePicture || record?.profilePicture || undefined,
+      createdAt: record?.createdAt || instance!.createdAt,
+      lastActivity: instance?.lastActivity,
+      qr: instance?.qr,
+      pairingCode: instance?.pairingCode,
+      pairingMethod: instance?.pairingMethod || (record?.pairingMethod as 'qr' | 'code'),
+      online: !!instance,
+      shouldBeConnected: instance?.shouldBeConnected ?? record?.shouldBeConnected,
+      lastDisconnectReason: record?.lastDisconnectReason ?? undefined,
+      lastDisconnectAt: record?.lastDisconnectAt || undefined,
+      lastConnectedAt: record?.lastConnectedAt || undefined,
+      lastSeenAt: record?.lastSeenAt || undefined
     };
   }
 
@@ -511,68 +612,46 @@ export class ConnectionManager {
 
   async restoreInstances(): Promise<void> {
     try {
-      if (!fs.existsSync(this.AUTH_DIR)) {
-        logger.info('Nenhuma instância para restaurar');
-        return;
-      }
+      // Registrar no banco conexões antigas que só existem em disco
+      await this.importLegacySessions();
 
-      const userDirs = fs.readdirSync(this.AUTH_DIR)
-        .filter(file => fs.statSync(path.join(this.AUTH_DIR, file)).isDirectory());
+      const records = await this.connectionStorage.getRestorableConnections();
 
-      if (userDirs.length === 0) {
+      if (records.length === 0) {
         logger.info('Nenhuma instância para restaurar');
         return;
       }
 
-      let totalInstances = 0;
-      for (const userId of userDirs) {
-        const userPath = path.join(this.AUTH_DIR, userId);
-        const instanceDirs = fs.readdirSync(userPath)
-          .filter(file => fs.statSync(path.join(userPath, file)).isDirectory());
-        totalInstances += instanceDirs.length;
-      }
+      logger.info(`Restaurando ${records.length} instâncias...`);
 
-      logger.info(`Restaurando ${totalInstances} instâncias...`);
+      for (const record of records) {
+        // Sem credenciais válidas não há como reconectar sem novo pareamento
+        if (!(await this.authStateProvider.hasCredentials(record.organizationId, record.id))) {
+          const legacyCredsPath = path.join(this.AUTH_DIR, record.organizationId, record.id, 'creds.json');
 
-      // Limpar instâncias antigas primeiro
-      for (const userId of userDirs) {
-        const userPath = path.join(this.AUTH_DIR, userId);
-        const instanceDirs = fs.readdirSync(userPath)
-          .filter(file => fs.statSync(path.join(userPath, file)).isDirectory());
-          
-        for (const instanceId of instanceDirs) {
-          const authPath = path.join(userPath, instanceId);
-          const credsPath = path.join(authPath, 'creds.json');
-          
-          // Se não tem credenciais válidas, remover
-          if (!fs.existsSync(credsPath)) {
-            try {
-              fs.rmSync(authPath, { recursive: true, force: true });
-              logger.info(`Instância inválida removida: ${userId}/${instanceId}`);
-              continue;
-            } catch (error) {
-              logger.error(`Erro ao remover instância inválida ${userId}/${instanceId}:`, error);
-            }
+          // Sessão ainda em auth_sessions: aguardar a migração em vez de descartar o pareamento
+          if (this.authStateProvider.store === 'database' && fs.existsSync(legacyCredsPath)) {
+            logger.warn(`Credenciais de ${record.organizationId}/${record.id} ainda estão em auth_sessions. Execute a migração: npx ts-node src/scripts/migrateAuthSessions.ts`);
+            continue;
           }
+
+          logger.warn(`Credenciais não encontradas para ${record.organizationId}/${record.id}, conexão marcada como desconectada`);
+          await this.connectionStorage.updateState(record.id, {
+            status: 'disconnected',
+            shouldBeConnected: false
+          });
+          continue;
         }
-      }
 
-      // Restaurar instâncias válidas
-      for (const userId of userDirs) {
-        const userPath = path.join(this.AUTH_DIR, userId);
-        if (!fs.existsSync(userPath)) continue;
-        
-        const instanceDirs = fs.readdirSync(userPath)
-          .filter(file => fs.statSync(path.join(userPath, file)).isDirectory());
-          
-        for (const instanceId of instanceDirs) {
-          try {
-            await this.restoreInstance(userId, instanceId);
-          } catch (error) {
-            logger.error(`Erro ao restaurar instância ${userId}/${instanceId}:`, error);
-            // Remover instância com erro
-            await this.cleanup(userId, instanceId);
-          }
+        try {
+          await this.restoreInstance(record);
+        } catch (error) {
+          logger.error(`Erro ao restaurar instância ${record.organizationId}/${record.id}:`, error);
+          await this.cleanup(record.organizationId, record.id);
+          await this.connectionStorage.updateState(record.id, {
+            status: 'disconnected',
+            shouldBeConnected: false
+          });
         }
       }
     } catch (error) {
@@ -580,16 +659,58 @@ export class ConnectionManager {
     }
   }
 
-  private async restoreInstance(userId: string, instanceId: string): Promise<void> {
-    const authPath = path.join(this.AUTH_DIR, userId, instanceId);
-    
-    if (!fs.existsSync(authPath)) {
-      logger.warn(`Pasta de autenticação não encontrada para ${userId}/${instanceId}`);
+  /**
+   * Importa pastas auth_sessions/<organizationId>/<connectionId> sem registro no banco
+   * e remove as que não possuem credenciais
+   */
+  private async importLegacySessions(): Promise<void> {
+    if (!fs.existsSync(this.AUTH_DIR)) {
       return;
     }
 
+    const organizationDirs = fs.readdirSync(this.AUTH_DIR)
+      .filter(file => fs.statSync(path.join(this.AUTH_DIR, file)).isDirectory());
+
+    for (const organizationId of organizationDirs) {
+      const organizationPath = path.join(this.AUTH_DIR, organizationId);
+      const instanceDirs = fs.readdirSync(organizationPath)
+        .filter(file => fs.statSync(path.join(organizationPath, file)).isDirectory());
+
+      for (const instanceId of instanceDirs) {
+        const authPath = path.join(organizationPath, instanceId);
+        const credsPath = path.join(authPath, 'creds.json');
+
+        // Se não tem credenciais válidas, remover
+        if (!fs.existsSync(credsPath)) {
+          try {
+            fs.rmSync(authPath, { recursive: true, force: true });
+            logger.info(`Instância inválida removida: ${organizationId}/${instanceId}`);
+          } catch (error) {
+            logger.error(`Erro ao remover instância inválida ${organizationId}/${instanceId}:`, error);
+          }
+          continue;
+        }
+
+        const record = await this.connectionStorage.getConnection(instanceId);
+        if (!record) {
+          const imported = await this.connectionStorage.importLegacyConnection(
+            organizationId,
+            instanceId,
+            fs.statSync(authPath).birthtime
+          );
+          if (imported) {
+            logger.info(`Conexão legada importada para o banco: ${organizationId}/${instanceId}`);
+          }
+        }
+      }
+    }
+  }
+
+  private async restoreInstance(record: ConnectionRecord): Promise<void> {
+    const { organizationId, id: instanceId } = record;
+
     try {
-      const { state, saveCreds } = await useMultiFileAuthState(authPath);
+      const { state, saveCreds } = await this.authStateProvider.useAuthState(organizationId, instanceId);
 
       const sock = makeWASocket({
         auth: state,
@@ -606,22 +727,27 @@ export class ConnectionManager {
 
       const instanceData: InstanceData = {
         instanceId,
-        userId,
+        organizationId,
+        name: record.name || undefined,
         socket: sock,
         status: 'connecting',
-        profilePicture: '',
+        profilePicture: record.profilePicture || '',
+        number: record.number || undefined,
         reconnectionAttempts: 0,
         shouldBeConnected: true,
-        createdAt: new Date(),
-        pairingMethod: 'qr'
+        createdAt: record.createdAt,
+        pairingMethod: record.pairingMethod as 'qr' | 'code',
+        phoneNumber: record.phoneNumber || undefined
       };
 
       this.instances.set(instanceId, instanceData);
       this.eventHandlers.setupSocketEvents(sock, instanceId, saveCreds);
 
-      logger.info(`Instância ${userId}/${instanceId} restaurada com sucesso`);
+      await this.connectionStorage.updateState(instanceId, { status: 'connecting' });
+
+      logger.info(`Instância ${organizationId}/${instanceId} restaurada com sucesso`);
     } catch (error) {
-      logger.error(`Erro ao restaurar instância ${userId}/${instanceId}:`, error);
+      logger.error(`Erro ao restaurar instância ${organizationId}/${instanceId}:`, error);
     }
   }
-}
\ No newline at end of file
+}
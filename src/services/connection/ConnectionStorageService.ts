@@ -0,0 +1,105 @@
+import { Connection as PrismaConnectionType, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+
+export type ConnectionRecord = PrismaConnectionType;
+
+export class ConnectionStorageService {
+  async createConnection(data: {
+    id: string;
+    organizationId: string;
+    name?: string;
+    pairingMethod: 'qr' | 'code';
+    phoneNumber?: string;
+  }): Promise<ConnectionRecord> {
+    return prisma.connection.create({
+      data: {
+        id: data.id,
+        organizationId: data.organizationId,
+        name: data.name?.trim() || null,
+        pairingMethod: data.pairingMethod,
+        phoneNumber: data.phoneNumber || null,
+        status: 'connecting',
+        shouldBeConnected: true
+      }
+    });
+  }
+
+  async getConnection(connectionId: string): Promise<ConnectionRecord | null> {
+    return prisma.connection.findUnique({
+      where: { id: connectionId }
+    });
+  }
+
+  async getOrganizationConnection(organizationId: string, connectionId: string): Promise<ConnectionRecord | null> {
+    return prisma.connection.findFirst({
+      where: { id: connectionId, organizationId }
+    });
+  }
+
+  async getOrganizationConnections(organizationId?: string): Promise<ConnectionRecord[]> {
+    return prisma.connection.findMany({
+      where: organizationId ? { organizationId } : {},
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Conexões que o usuário deseja manter conectadas (usadas na restauração)
+   */
+  async getRestorableConnections(): Promise<ConnectionRecord[]> {
+    return prisma.connection.findMany({
+      where: { shouldBeConnected: true },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Atualiza o estado persistido de uma conexão. Erros são apenas registrados
+   * para não interromper o fluxo de eventos do socket.
+   */
+  async updateState(connectionId: string, data: Prisma.ConnectionUpdateManyMutationInput): Promise<void> {
+    try {
+      await prisma.connection.updateMany({
+        where: { id: connectionId },
+        data
+      });
+    } catch (error) {
+      logger.error(`Erro ao persistir estado da conexão ${connectionId}:`, error);
+    }
+  }
+
+  async deleteConnection(connectionId: string): Promise<void> {
+    await prisma.connection.deleteMany({
+      where: { id: connectionId }
+    });
+  }
+
+  /**
+   * Registra conexões antigas encontradas em auth_sessions que ainda não existem no banco
+   */
+  async importLegacyConnection(organizationId: string, connectionId: string, createdAt: Date): Promise<ConnectionRecord | null> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true }
+    });
+
+    if (!organization) {
+      logger.warn(`Organização ${organizationId} não existe, conexão ${connectionId} não será importada`);
+      return null;
+    }
+
+    return prisma.connection.upsert({
+      where: { id: connectionId },
+      create: {
+        id: connectionId,
+        organizationId,
+        pairingMethod: 'qr',
+        status: 'disconnected',
+        shouldBeConnected: true,
+        createdAt
+      },
+      update: {}
+    });
+  }
+}
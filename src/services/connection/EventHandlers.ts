@@ -4,12 +4,31 @@ import QRCode from 'qrcode';
 import logger from '../../utils/logger';
 import { InstanceData } from '../types/InstanceData';
 import { MessageHandler } from '../messaging/MessageHandler';
+import { MessageStorageService } from '../messaging/MessageStorageService';
+import { ConnectionStorageService } from './ConnectionStorageService';
+import { MediaService } from '../media/MediaService';
+import { AutoReplyService } from '../autoReply/AutoReplyService';
+import { ConversationService } from '../conversations/ConversationService';
+import eventBus from '../events/EventBus';
+import { WhatsAppEventType } from '../../types/events';
 
 export class EventHandlers {
+  private messageStorage: MessageStorageService;
+  private connectionStorage: ConnectionStorageService;
+  private mediaService: MediaService;
+  private autoReplyService: AutoReplyService;
+  private conversationService: ConversationService;
+
   constructor(
     private instances: Map<string, InstanceData>,
     private AUTH_DIR: string
-  ) {}
+  ) {
+    this.messageStorage = new MessageStorageService();
+    this.connectionStorage = new ConnectionStorageService();
+    this.mediaService = new MediaService();
+    this.autoReplyService = new AutoReplyService();
+    this.conversationService = new ConversationService();
+  }
 
   setupSocketEvents(sock: WASocket, connectionId: string, saveCreds: () => void): void {
     try {
@@ -40,8 +59,11 @@ export class EventHandlers {
             }
             
             if (messages && messages.length > 0) {
-              instance.messages = messages;
-              logger.info(`${messages.length} mensagens armazenadas para ${connectionId}`);
+              const saved = await this.messageStorage.saveHistoryMessages(instance.organizationId, connectionId, messages);
+              logger.info(`${saved} mensagens do histórico salvas no banco para ${connectionId}`);
+
+              const conversations = await this.conversationService.registerHistory(instance.organizationId, connectionId, messages);
+              logger.info(`${conversations} conversas criadas a partir do histórico para ${connectionId}`);
             }
             
             instance.lastHistorySync = new Date();
@@ -55,31 +77,56 @@ export class EventHandlers {
       // Message Events
       sock.ev.on('messages.upsert', async ({ type, messages }) => {
         try {
-          if (type === 'notify') {
-            // Novas mensagens em tempo real
-            for (const message of messages) {
-              const processedMessage = MessageHandler.processMessage(message);
-              if (processedMessage) {
-                logger.info(`Nova mensagem recebida em ${connectionId}: ${MessageHandler.formatForLog(processedMessage)}`);
-                
-                // Aqui você pode salvar a mensagem no banco de dados
-                // await saveMessageToDatabase(processedMessage);
-              }
+          const instance = this.instances.get(connectionId);
+
+          for (const message of messages) {
+            const processedMessage = MessageHandler.processMessage(message);
+            if (!processedMessage) {
+              continue;
             }
-          } else {
-            // Mensagens antigas já vistas/processadas
-            for (const message of messages) {
-              const processedMessage = MessageHandler.processMessage(message);
-              if (processedMessage) {
-                logger.debug(`Mensagem histórica processada em ${connectionId}: ${MessageHandler.formatForLog(processedMessage)}`);
-                
-                // Aqui você pode salvar mensagens históricas no banco de dados
-                // await saveMessageToDatabase(processedMessage);
-              }
+
+            if (type === 'notify') {
+              // Novas mensagens em tempo real
+              logger.info(`Nova mensagem recebida em ${connectionId}: ${MessageHandler.formatForLog(processedMessage)}`);
+            } else {
+              // Mensagens antigas já vistas/processadas (inclui as enviadas por esta API)
+              logger.debug(`Mensagem histórica processada em ${connectionId}: ${MessageHandler.formatForLog(processedMessage)}`);
+            }
+
+            if (!instance) {
+              continue;
+            }
+
+            try {
+              await this.messageStorage.saveMessage(instance.organizationId, connectionId, message);
+            } catch (error) {
+              logger.error(`Erro ao salvar mensagem ${message.key?.id} de ${connectionId}:`, error);
+            }
+
+            // Caixa de entrada compartilhada: última mensagem, não lidas e reabertura
+            try {
+              await this.conversationService.registerMessage(instance.organizationId, connectionId, message, type === 'notify');
+            } catch (error) {
+              logger.error(`Erro ao atualizar conversa da mensagem ${message.key?.id} de ${connectionId}:`, error);
+            }
+
+            // Download automático de mídias recebidas (sem bloquear o processamento)
+            if (type === 'notify' && !processedMessage.isFromMe) {
+              this.mediaService.handleIncomingMessage(instance.organizationId, connectionId, message, sock)
+                .catch(error => logger.warn(`Erro no download automático de mídia de ${connectionId}:`, error));
+
+              // Regras de resposta automática da conexão
+              this.autoReplyService.handleIncomingMessage(instance.organizationId, connectionId, message, processedMessage)
+                .catch(error => logger.warn(`Erro ao avaliar respostas automáticas de ${connectionId}:`, error));
+            }
+
+            if (processedMessage.isFromMe) {
+              this.publishEvent(connectionId, 'message.sent', processedMessage);
+            } else if (type === 'notify') {
+              this.publishEvent(connectionId, 'message.received', processedMessage);
             }
           }
-          
-          const instance = this.instances.get(connectionId);
+
           if (instance) {
             instance.lastActivity = new Date();
           }
@@ -93,8 +140,16 @@ export class EventHandlers {
           for (const update of updates) {
             logger.debug(`Mensagem atualizada em ${connectionId}: ${update.key.id} - Status: ${JSON.stringify(update.update)}`);
             
-            // Aqui você pode atualizar o status da mensagem no banco de dados
-            // await updateMessageStatus(update.key.id, update.update);
+            await this.messageStorage.applyUpdate(connectionId, update);
+
+            if (typeof update.update.status === 'number') {
+              this.publishEvent(connectionId, 'message.status', {
+                id: update.key.id,
+                remoteJid: update.key.remoteJid,
+                fromMe: update.key.fromMe || false,
+                status: update.update.status
+              });
+            }
           }
           
           const instance = this.instances.get(connectionId);
@@ -111,12 +166,12 @@ export class EventHandlers {
           if ('keys' in deletions) {
             for (const deletion of deletions.keys) {
               logger.info(`Mensagem deletada em ${connectionId}: ${deletion.id} de ${deletion.remoteJid}`);
-              
-              // Aqui você pode marcar a mensagem como deletada no banco de dados
-              // await markMessageAsDeleted(deletion.id);
             }
+
+            await this.messageStorage.markDeleted(connectionId, deletions.keys);
           } else {
             logger.info(`Todas as mensagens deletadas em ${connectionId} para ${deletions.jid}`);
+            await this.messageStorage.markChatDeleted(connectionId, deletions.jid);
           }
         } catch (error) {
           logger.error(`Erro no evento messages.delete para ${connectionId}:`, error);
@@ -129,8 +184,13 @@ export class EventHandlers {
             const reactionText = reaction.reaction.text || 'removida';
             logger.info(`Reação "${reactionText}" em mensagem ${reaction.key.id} de ${reaction.key.remoteJid} em ${connectionId}`);
             
-            // Aqui você pode salvar a reação no banco de dados
-            // await saveReaction(reaction.key.id, reaction.reaction);
+            this.publishEvent(connectionId, 'message.reaction', {
+              messageId: reaction.key.id,
+              remoteJid: reaction.key.remoteJid,
+              from: reaction.reaction.key?.participant || reaction.reaction.key?.remoteJid,
+              fromMe: reaction.reaction.key?.fromMe || false,
+              text: reaction.reaction.text || null
+            });
           }
         } catch (error) {
           logger.error(`Erro no evento messages.reaction para ${connectionId}:`, error);
@@ -142,8 +202,14 @@ export class EventHandlers {
           for (const receipt of receipts) {
             logger.debug(`Recibo atualizado em ${connectionId}: ${receipt.key.id} - ${receipt.receipt.receiptTimestamp}`);
             
-            // Aqui você pode atualizar os recibos de leitura no banco de dados
-            // await updateMessageReceipt(receipt.key.id, receipt.receipt);
+            this.publishEvent(connectionId, 'message.receipt', {
+              messageId: receipt.key.id,
+              remoteJid: receipt.key.remoteJid,
+              userJid: receipt.receipt.userJid,
+              receiptTimestamp: receipt.receipt.receiptTimestamp,
+              readTimestamp: receipt.receipt.readTimestamp,
+              playedTimestamp: receipt.receipt.playedTimestamp
+            });
           }
         } catch (error) {
           logger.error(`Erro no evento message-receipt.update para ${connectionId}:`, error);
@@ -207,6 +273,20 @@ export class EventHandlers {
         }
       });
 
+      // Presence Events
+      sock.ev.on('presence.update', async ({ id, presences }) => {
+        try {
+          logger.debug(`Presença atualizada em ${connectionId}: ${id}`);
+
+          this.publishEvent(connectionId, 'presence.update', {
+            chatId: id,
+            presences
+          });
+        } catch (error) {
+          logger.error(`Erro no evento presence.update para ${connectionId}:`, error);
+        }
+      });
+
       // Blocklist Events
       sock.ev.on('blocklist.set', async ({ blocklist }) => {
         try {
@@ -229,6 +309,16 @@ export class EventHandlers {
         try {
           for (const call of calls) {
             logger.info(`Chamada ${call.status} de ${call.from} em ${connectionId}`);
+
+            this.publishEvent(connectionId, 'call', {
+              id: call.id,
+              from: call.from,
+              status: call.status,
+              isVideo: call.isVideo || false,
+              isGroup: call.isGroup || false,
+              groupJid: call.groupJid,
+              date: call.date
+            });
           }
         } catch (error) {
           logger.error(`Erro no evento call para ${connectionId}:`, error);
@@ -252,6 +342,11 @@ export class EventHandlers {
       sock.ev.on('groups.update', async (updates) => {
         try {
           logger.debug(`Grupos atualizados em ${connectionId}: ${updates.length}`);
+
+          // Nome, descrição, configurações e convite alterados
+          for (const update of updates) {
+            this.publishEvent(connectionId, 'group.update', update);
+          }
         } catch (error) {
           logger.error(`Erro no evento groups.update para ${connectionId}:`, error);
         }
@@ -259,12 +354,17 @@ export class EventHandlers {
 
       sock.ev.on('group-participants.update', async (updates) => {
         try {
-          if (Array.isArray(updates)) {
-            for (const update of updates) {
-              logger.info(`Participantes do grupo ${update.id} ${update.action} em ${connectionId}: ${update.participants.length} usuários`);
-            }
-          } else {
-            logger.info(`Participantes do grupo ${updates.id} ${updates.action} em ${connectionId}: ${updates.participants.length} usuários`);
+          const updateList = Array.isArray(updates) ? updates : [updates];
+
+          for (const update of updateList) {
+            logger.info(`Participantes do grupo ${update.id} ${update.action} em ${connectionId}: ${update.participants.length} usuários`);
+
+            this.publishEvent(connectionId, 'group.participants', {
+              groupId: update.id,
+              action: update.action,
+              participants: update.participants,
+              author: (update as any).author
+            });
           }
         } catch (error) {
           logger.error(`Erro no evento group-participants.update para ${connectionId}:`, error);
@@ -288,9 +388,16 @@ export class EventHandlers {
       if (qr && instance && instance.pairingMethod === 'qr') {
         try {
           const qrCode = await QRCode.toDataURL(qr);
+          const previousStatus = instance.status;
           instance.qr = qrCode;
           instance.status = 'qr_pending';
           logger.info(`QR Code atualizado para conexão ${connectionId}`);
+
+          if (previousStatus !== 'qr_pending') {
+            this.publishEvent(connectionId, 'connection.status', { status: instance.status });
+            await this.connectionStorage.updateState(connectionId, { status: instance.status });
+          }
+          this.publishEvent(connectionId, 'connection.qr', { qrCode });
         } catch (error) {
           logger.error(`Erro ao gerar QR Code para ${connectionId}:`, error);
         }
@@ -307,6 +414,9 @@ export class EventHandlers {
               instance.pairingCode = code;
               instance.status = 'code_pending';
               logger.info(`Código de emparelhamento gerado para ${connectionId}: ${code}`);
+              this.publishEvent(connectionId, 'connection.status', { status: instance.status });
+              this.publishEvent(connectionId, 'connection.pairing_code', { pairingCode: code });
+              await this.connectionStorage.updateState(connectionId, { status: instance.status });
             }
           } catch (error) {
             logger.error(`Erro ao gerar código de emparelhamento para ${connectionId}:`, error);
@@ -318,9 +428,14 @@ export class EventHandlers {
                   instance.pairingCode = code;
                   instance.status = 'code_pending';
                   logger.info(`Código de emparelhamento gerado (retry) para ${connectionId}: ${code}`);
+                  this.publishEvent(connectionId, 'connection.status', { status: instance.status });
+                  this.publishEvent(connectionId, 'connection.pairing_code', { pairingCode: code });
+                  await this.connectionStorage.updateState(connectionId, { status: instance.status });
                 } catch (retryError) {
                   logger.error(`Erro na segunda tentativa de código para ${connectionId}:`, retryError);
                   instance.status = 'disconnected';
+                  this.publishEvent(connectionId, 'connection.status', { status: instance.status });
+                  await this.connectionStorage.updateState(connectionId, { status: instance.status });
                 }
               }
             }, 2000);
@@ -357,6 +472,15 @@ export class EventHandlers {
     
     if (instance) {
       instance.status = 'disconnected';
+      this.publishEvent(connectionId, 'connection.status', { status: instance.status, reason });
+
+      const now = new Date();
+      await this.connectionStorage.updateState(connectionId, {
+        status: instance.status,
+        lastDisconnectReason: typeof reason === 'number' ? reason : null,
+        lastDisconnectAt: now,
+        lastSeenAt: now
+      });
       
       // Seguir documentação: tratar restartRequired especificamente
       if (reason === DisconnectReason.restartRequired) {
@@ -370,7 +494,7 @@ export class EventHandlers {
             // Obter referência do ConnectionManager
             const connectionManager = (this as any).connectionManager;
             if (connectionManager && typeof connectionManager.autoRestartInstance === 'function') {
-              await connectionManager.autoRestartInstance(instance.userId, connectionId);
+              await connectionManager.autoRestartInstance(instance.organizationId, connectionId);
               logger.info(`Instância ${connectionId} reiniciada automaticamente com sucesso`);
             } else {
               logger.error(`ConnectionManager não disponível para reinicialização automática de ${connectionId}`);
@@ -402,6 +526,7 @@ export class EventHandlers {
         } else {
           logger.warn(`Instância ${connectionId} desconectada permanentemente. Razão: ${reason}`);
           instance.shouldBeConnected = false;
+          await this.connectionStorage.updateState(connectionId, { shouldBeConnected: false });
           // Cleanup será feito pelo ConnectionManager
           return;
         }
@@ -424,6 +549,7 @@ export class EventHandlers {
           } else {
             logger.warn(`Máximo de tentativas de reconexão atingido para ${connectionId}, removendo instância`);
             instance.shouldBeConnected = false;
+            await this.connectionStorage.updateState(connectionId, { shouldBeConnected: false });
           }
         }, delayTime);
       }
@@ -490,6 +616,33 @@ export class EventHandlers {
         instance.reconnectionAttempts = 0;
         instance.lastActivity = new Date();
       }
+
+      this.publishEvent(connectionId, 'connection.status', {
+        status: instance.status,
+        number: instance.number,
+        profilePicture: instance.profilePicture
+      });
+
+      const now = new Date();
+      await this.connectionStorage.updateState(connectionId, {
+        status: instance.status,
+        number: instance.number,
+        profilePicture: instance.profilePicture || null,
+        lastConnectedAt: now,
+        lastSeenAt: now
+      });
     }
   }
+
+  /**
+   * Publica um evento no barramento interno em nome do dono da conexão
+   */
+  private publishEvent(connectionId: string, event: WhatsAppEventType, data: any): void {
+    const instance = this.instances.get(connectionId);
+    if (!instance) {
+      return;
+    }
+
+    eventBus.publish(event, instance.organizationId, connectionId, data);
+  }
 }
\ No newline at end of file
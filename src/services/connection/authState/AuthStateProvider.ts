@@ -0,0 +1,30 @@
+import { AuthenticationState } from '@whiskeysockets/baileys';
+
+export type AuthStateStore = 'database' | 'file';
+
+export interface ConnectionAuthState {
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+}
+
+/**
+ * Armazenamento das credenciais e chaves signal de uma conexão Baileys
+ */
+export interface AuthStateProvider {
+  readonly store: AuthStateStore;
+
+  /**
+   * Carrega (ou inicializa) o estado de autenticação da conexão
+   */
+  useAuthState(organizationId: string, connectionId: string): Promise<ConnectionAuthState>;
+
+  /**
+   * Indica se a conexão já foi pareada (possui creds salvas)
+   */
+  hasCredentials(organizationId: string, connectionId: string): Promise<boolean>;
+
+  /**
+   * Remove credenciais e chaves da conexão
+   */
+  removeAuthState(organizationId: string, connectionId: string): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { useMultiFileAuthState } from '@whiskeysockets/baileys';
+import fs from 'fs';
+import path from 'path';
+import { AuthStateProvider, ConnectionAuthState } from './AuthStateProvider';
+
+/**
+ * Estado de autenticação em auth_sessions/<organizationId>/<connectionId> (formato do useMultiFileAuthState)
+ */
+export class FileAuthStateProvider implements AuthStateProvider {
+  readonly store = 'file' as const;
+
+  constructor(private authDir: string) {}
+
+  async useAuthState(organizationId: string, connectionId: string): Promise<ConnectionAuthState> {
+    const authPath = this.getAuthPath(organizationId, connectionId);
+
+    if (!fs.existsSync(authPath)) {
+      fs.mkdirSync(authPath, { recursive: true });
+    }
+
+    return useMultiFileAuthState(authPath);
+  }
+
+  async hasCredentials(organizationId: string, connectionId: string): Promise<boolean> {
+    return fs.existsSync(path.join(this.getAuthPath(organizationId, connectionId), 'creds.json'));
+  }
+
+  async removeAuthState(organizationId: string, connectionId: string): Promise<void> {
+    const authPath = this.getAuthPath(organizationId, connectionId);
+
+    if (fs.existsSync(authPath)) {
+      fs.rmSync(authPath, { recursive: true, force: true });
+    }
+  }
+
+  private getAuthPath(organizationId: string, connectionId: string): string {
+    return path.join(this.authDir, organizationId, connectionId);
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  AuthenticationCreds,
+  BufferJSON,
+  initAuthCreds,
+  makeCacheableSignalKeyStore,
+  proto,
+  SignalDataSet,
+  SignalDataTypeMap
+} from '@whiskeysockets/baileys';
+import { Prisma } from '@prisma/client';
+import fs from 'fs';
+import path from 'path';
+import P from 'pino';
+import prisma from '../../../lib/prisma';
+import { AuthStateProvider, ConnectionAuthState } from './AuthStateProvider';
+
+const CREDS_TYPE = 'creds';
+
+// Tipos de chave gravados pelo useMultiFileAuthState como "<tipo>-<id>.json".
+// Os mais longos primeiro, pois alguns são prefixo de outros (sender-key / sender-key-memory).
+const KEY_TYPES: (keyof SignalDataTypeMap)[] = [
+  'app-state-sync-version',
+  'app-state-sync-key',
+  'sender-key-memory',
+  'sender-key',
+  'pre-key',
+  'session'
+];
+
+/**
+ * Estado de autenticação no PostgreSQL, uma linha por creds/chave em auth_states
+ */
+export class PrismaAuthStateProvider implements AuthStateProvider {
+  readonly store = 'database' as const;
+
+  async useAuthState(_organizationId: string, connectionId: string): Promise<ConnectionAuthState> {
+    const creds: AuthenticationCreds = (await this.readValue(connectionId, CREDS_TYPE, '')) || initAuthCreds();
+
+    const keys = {
+      get: async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+        const rows = await prisma.authState.findMany({
+          where: {
+            connectionId,
+            type,
+            keyId: { in: ids.map(id => this.toKeyId(id)) }
+          },
+          select: { keyId: true, value: true }
+        });
+
+        const values = new Map(rows.map(row => [row.keyId, row.value]));
+        const data: { [id: string]: SignalDataTypeMap[T] } = {};
+
+        for (const id of ids) {
+          const stored = values.get(this.toKeyId(id));
+          if (stored === undefined) continue;
+
+          let value = this.deserialize(stored);
+          if (type === 'app-state-sync-key' && value) {
+            value = proto.Message.AppStateSyncKeyData.fromObject(value);
+          }
+
+          data[id] = value;
+        }
+
+        return data;
+      },
+      set: async (data: SignalDataSet) => {
+        const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+        for (const [type, entries] of Object.entries(data)) {
+          for (const [id, value] of Object.entries(entries || {})) {
+            const keyId = this.toKeyId(id);
+
+            if (value) {
+              const serialized = this.serialize(value);
+              operations.push(prisma.authState.upsert({
+                where: {
+                  auth_state_key_unique: { connectionId, type, keyId }
+                },
+                create: { connectionId, type, keyId, value: serialized },
+                update: { value: serialized }
+              }));
+            } else {
+              operations.push(prisma.authState.deleteMany({
+                where: { connectionId, type, keyId }
+              }));
+            }
+          }
+        }
+
+        if (operations.length > 0) {
+          await prisma.$transaction(operations);
+        }
+      }
+    };
+
+    return {
+      state: {
+        creds,
+        // Cache em memória para evitar uma consulta ao banco por mensagem criptografada
+        keys: makeCacheableSignalKeyStore(keys, P({ level: 'silent' }))
+      },
+      saveCreds: async () => {
+        await this.writeValue(connectionId, CREDS_TYPE, '', creds);
+      }
+    };
+  }
+
+  async hasCredentials(_organizationId: string, connectionId: string): Promise<boolean> {
+    const count = await prisma.authState.count({
+      where: { connectionId, type: CREDS_TYPE }
+    });
+
+    return count > 0;
+  }
+
+  async removeAuthState(_organizationId: string, connectionId: string): Promise<void> {
+    await prisma.authState.deleteMany({
+      where: { connectionId }
+    });
+  }
+
+  /**
+   * Importa uma pasta do useMultiFileAuthState, substituindo o que houver no banco.
+   * Retorna a quantidade de registros gravados.
+   */
+  async importFromDirectory(connectionId: string, authPath: string): Promise<number> {
+    const data: Prisma.AuthStateCreateManyInput[] = [];
+
+    for (const file of fs.readdirSync(authPath)) {
+      if (!file.endsWith('.json')) continue;
+
+      const name = file.slice(0, -'.json'.length);
+      let type: string;
+      let keyId: string;
+
+      if (name === CREDS_TYPE) {
+        type = CREDS_TYPE;
+        keyId = '';
+      } else {
+        const keyType = KEY_TYPES.find(candidate => name.startsWith(`${candidate}-`));
+        if (!keyType) continue;
+
+        type = keyType;
+        keyId = name.slice(keyType.length + 1);
+      }
+
+      // Os arquivos já estão serializados com BufferJSON.replacer
+      const value = JSON.parse(fs.readFileSync(path.join(authPath, file), 'utf-8'));
+      if (value === null) continue;
+
+      data.push({ connectionId, type, keyId, value });
+    }
+
+    if (!data.some(item => item.type === CREDS_TYPE)) {
+      throw new Error(`creds.json não encontrado em ${authPath}`);
+    }
+
+    await prisma.$transaction([
+      prisma.authState.deleteMany({ where: { connectionId } }),
+      prisma.authState.createMany({ data })
+    ]);
+
+    return data.length;
+  }
+
+  private async readValue(connectionId: string, type: string, keyId: string): Promise<any> {
+    const row = await prisma.authState.findUnique({
+      where: {
+        auth_state_key_unique: { connectionId, type, keyId }
+      },
+      select: { value: true }
+    });
+
+    return row ? this.deserialize(row.value) : null;
+  }
+
+  private async writeValue(connectionId: string, type: string, keyId: string, value: any): Promise<void> {
+    const serialized = this.serialize(value);
+
+    await prisma.authState.upsert({
+      where: {
+        auth_state_key_unique: { connectionId, type, keyId }
+      },
+      create: { connectionId, type, keyId, value: serialized },
+      update: { value: serialized }
+    });
+  }
+
+  /**
+   * Mesmo ajuste de nome de arquivo do useMultiFileAuthState, para que a
+   * importação das pastas antigas preserve os ids das chaves
+   */
+  private toKeyId(id: string): string {
+    return id.replace(/\//g, '__').replace(/:/g, '-');
+  }
+
+  private serialize(value: any): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value, BufferJSON.replacer));
+  }
+
+  private deserialize(value: Prisma.JsonValue): any {
+    return JSON.parse(JSON.stringify(value), BufferJSON.reviver);
+  }
+}
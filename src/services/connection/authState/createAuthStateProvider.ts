@@ -0,0 +1,24 @@
+import logger from '../../../utils/logger';
+import { AuthStateProvider } from './AuthStateProvider';
+import { FileAuthStateProvider } from './FileAuthStateProvider';
+import { PrismaAuthStateProvider } from './PrismaAuthStateProvider';
+
+/**
+ * Seleciona o armazenamento do estado de autenticação via AUTH_STATE_STORE
+ * ('database' por padrão, 'file' mantém o comportamento de auth_sessions/)
+ */
+export function createAuthStateProvider(authDir: string): AuthStateProvider {
+  const store = (process.env.AUTH_STATE_STORE || 'database').toLowerCase();
+
+  if (store === 'file') {
+    logger.info('Estado de autenticação armazenado em arquivos (auth_sessions)');
+    return new FileAuthStateProvider(authDir);
+  }
+
+  if (store !== 'database') {
+    logger.warn(`AUTH_STATE_STORE inválido (${store}), usando 'database'`);
+  }
+
+  logger.info('Estado de autenticação armazenado no banco de dados');
+  return new PrismaAuthStateProvider();
+}
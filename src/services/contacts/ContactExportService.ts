@@ -0,0 +1,275 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { CONTACT_TAGS_INCLUDE, ContactStorageService } from './ContactStorageService';
+import {
+  Contact,
+  CONTACT_EXPORT_COLUMNS,
+  ContactExportError,
+  ContactExportFormat,
+  ContactFilters,
+  DEFAULT_CONTACT_EXPORT_COLUMNS
+} from '../../types/contacts';
+
+const METADATA_PREFIX = 'metadata.';
+
+/**
+ * Exporta os contatos filtrados em lotes, escrevendo direto no stream de saída
+ * para não carregar a base inteira em memória
+ */
+export class ContactExportService {
+  private readonly BATCH_SIZE = 500;
+  private contactStorage: ContactStorageService;
+
+  constructor() {
+    this.contactStorage = new ContactStorageService();
+  }
+
+  /**
+   * Valida as colunas pedidas e expande metadata.* nas chaves presentes nos contatos filtrados
+   */
+  async resolveColumns(organizationId: string, filters: ContactFilters, columns?: string[]): Promise<string[]> {
+    const requested = columns && columns.length > 0 ? columns : DEFAULT_CONTACT_EXPORT_COLUMNS;
+    const resolved: string[] = [];
+
+    for (const column of requested) {
+      if (column === `${METADATA_PREFIX}*`) {
+        const keys = await this.collectMetadataKeys(organizationId, filters);
+        resolved.push(...keys.map(key => `${METADATA_PREFIX}${key}`));
+        continue;
+      }
+
+      const isMetadataKey = column.startsWith(METADATA_PREFIX) && column.length > METADATA_PREFIX.length;
+
+      if (!isMetadataKey && !(CONTACT_EXPORT_COLUMNS as readonly string[]).includes(column)) {
+        throw new ContactExportError(`Coluna inválida: ${column}`);
+      }
+
+      resolved.push(column);
+    }
+
+    // Mantém a primeira ocorrência quando metadata.* repete uma coluna pedida explicitamente
+    return Array.from(new Set(resolved));
+  }
+
+  async exportContacts(
+    organizationId: string,
+    filters: ContactFilters,
+    format: ContactExportFormat,
+    columns: string[],
+    output: Writable
+  ): Promise<number> {
+    let total: number;
+
+    switch (format) {
+      case 'csv':
+        total = await this.writeCsv(organizationId, filters, columns, output);
+        break;
+      case 'json':
+        total = await this.writeJson(organizationId, filters, columns, output);
+        break;
+      case 'xlsx':
+        total = await this.writeXlsx(organizationId, filters, columns, output);
+        break;
+      default:
+        throw new ContactExportError(`Formato não suportado: ${format}`);
+    }
+
+    logger.info(`Exportação ${format} concluída para organização ${organizationId}: ${total} contatos`);
+    return total;
+  }
+
+  private async writeCsv(organizationId: string, filters: ContactFilters, columns: string[], output: Writable): Promise<number> {
+    let total = 0;
+
+    // BOM para o Excel reconhecer UTF-8
+    await this.write(output, '\uFEFF' + columns.map(column => this.escapeCsv(column)).join(',') + '\r\n');
+
+    await this.forEachBatch(organizationId, filters, async contacts => {
+      const chunk = contacts
+        .map(contact => columns.map(column => this.escapeCsv(this.formatText(this.getValue(contact, column)))).join(','))
+        .join('\r\n');
+
+      await this.write(output, chunk + '\r\n');
+      total += contacts.length;
+    });
+
+    output.end();
+    return total;
+  }
+
+  private async writeJson(organizationId: string, filters: ContactFilters, columns: string[], output: Writable): Promise<number> {
+    let total = 0;
+
+    await this.write(output, '[');
+
+    await this.forEachBatch(organizationId, filters, async contacts => {
+      const chunk = contacts
+        .map(contact => {
+          const row: Record<string, unknown> = {};
+          for (const column of columns) {
+            row[column] = this.getValue(contact, column) ?? null;
+          }
+          return JSON.stringify(row);
+        })
+        .join(',');
+
+      await this.write(output, (total > 0 ? ',' : '') + chunk);
+      total += contacts.length;
+    });
+
+    await this.write(output, ']');
+    output.end();
+    return total;
+  }
+
+  private async writeXlsx(organizationId: string, filters: ContactFilters, columns: string[], output: Writable): Promise<number> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: false,
+      useSharedStrings: false
+    });
+    const sheet = workbook.addWorksheet('Contatos');
+    let total = 0;
+
+    sheet.addRow(columns).commit();
+
+    await this.forEachBatch(organizationId, filters, async contacts => {
+      for (const contact of contacts) {
+        sheet.addRow(columns.map(column => {
+          const value = this.getValue(contact, column);
+          return value instanceof Date || typeof value === 'boolean' || typeof value === 'number'
+            ? value
+            : this.formatText(value);
+        })).commit();
+      }
+
+      total += contacts.length;
+    });
+
+    sheet.commit();
+    await workbook.commit();
+    return total;
+  }
+
+  /**
+   * Percorre os contatos na ordem da listagem com cursor; o id desempata a ordenação
+   */
+  private async forEachBatch(
+    organizationId: string,
+    filters: ContactFilters,
+    handler: (contacts: Contact[]) => Promise<void>
+  ): Promise<void> {
+    const where = await this.contactStorage.buildContactWhere(organizationId, filters);
+    const orderBy: Prisma.ContactOrderByWithRelationInput[] = [
+      this.contactStorage.buildContactOrderBy(filters),
+      { id: 'asc' }
+    ];
+    let cursor: string | undefined;
+
+    while (true) {
+      const contacts = await prisma.contact.findMany({
+        where,
+        orderBy,
+        take: this.BATCH_SIZE,
+        include: CONTACT_TAGS_INCLUDE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      if (contacts.length === 0) break;
+
+      await handler(contacts.map(contact => this.contactStorage.mapContactFromPrisma(contact)));
+
+      if (contacts.length < this.BATCH_SIZE) break;
+      cursor = contacts[contacts.length - 1].id;
+    }
+  }
+
+  private async collectMetadataKeys(organizationId: string, filters: ContactFilters): Promise<string[]> {
+    const where = await this.contactStorage.buildContactWhere(organizationId, filters);
+    const keys = new Set<string>();
+    let cursor: string | undefined;
+
+    while (true) {
+      const contacts = await prisma.contact.findMany({
+        where,
+        select: { id: true, metadata: true },
+        orderBy: { id: 'asc' },
+        take: this.BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      if (contacts.length === 0) break;
+
+      for (const contact of contacts) {
+        if (contact.metadata && typeof contact.metadata === 'object' && !Array.isArray(contact.metadata)) {
+          Object.keys(contact.metadata).forEach(key => keys.add(key));
+        }
+      }
+
+      if (contacts.length < this.BATCH_SIZE) break;
+      cursor = contacts[contacts.length - 1].id;
+    }
+
+    return Array.from(keys).sort();
+  }
+
+  private getValue(contact: Contact, column: string): unknown {
+    if (column.startsWith(METADATA_PREFIX)) {
+      const metadata = contact.metadata && typeof contact.metadata === 'object' && !Array.isArray(contact.metadata)
+        ? contact.metadata as Prisma.JsonObject
+        : {};
+      return metadata[column.slice(METADATA_PREFIX.length)];
+    }
+
+    return contact[column as keyof Contact];
+  }
+
+  /**
+   * Texto da célula: listas simples viram "a, b", objetos viram JSON
+   */
+  private formatText(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (Array.isArray(value) && value.every(item => typeof item !== 'object' || item === null)) {
+      return value.join(', ');
+    }
+
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Valores que o Excel/Sheets interpretariam como fórmula (ex.: nome "=HYPERLINK(...)")
+   * ganham um apóstrofo na frente e são abertos como texto
+   */
+  private escapeCsv(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  /**
+   * Respeita o backpressure do stream (cliente lento não acumula o arquivo em memória)
+   */
+  private async write(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed) {
+      throw new Error('Conexão encerrada durante a exportação');
+    }
+
+    if (!output.write(chunk)) {
+      await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    }
+  }
+}
@@ -0,0 +1,561 @@
+import {
+  ContactList as PrismaContactListType,
+  ContactSegment as PrismaContactSegmentType,
+  ContactTag as PrismaContactTagType,
+  Prisma
+} from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { ContactStorageService } from './ContactStorageService';
+import {
+  BulkOperationResult,
+  ContactFilters,
+  ContactList,
+  ContactListRequest,
+  ContactSegment,
+  ContactSegmentRequest,
+  ContactSelection,
+  ContactTag,
+  ContactTagRequest
+} from '../../types/contacts';
+
+type TagWithCount = PrismaContactTagType & { _count: { contacts: number } };
+type ListWithCount = PrismaContactListType & { _count: { members: number } };
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Agrupamento de contatos: tags (muitos-para-muitos), listas estáticas e segmentos dinâmicos
+ */
+export class ContactGroupService {
+  private readonly BATCH_SIZE = 1000;
+  private contactStorage: ContactStorageService;
+
+  constructor() {
+    this.contactStorage = new ContactStorageService();
+  }
+
+  async getTags(organizationId: string): Promise<ContactTag[]> {
+    const tags = await prisma.contactTag.findMany({
+      where: { organizationId },
+      include: { _count: { select: { contacts: true } } },
+      orderBy: { name: 'asc' }
+    });
+
+    return tags.map(tag => this.mapTagFromPrisma(tag));
+  }
+
+  async createTag(organizationId: string, data: ContactTagRequest): Promise<ContactTag> {
+    const name = this.contactStorage.normalizeTag(data.name || '');
+
+    if (!name) {
+      throw new Error('Nome da tag é obrigatório');
+    }
+
+    this.validateColor(data.color);
+
+    const existing = await prisma.contactTag.findUnique({
+      where: { organization_tag_unique: { organizationId, name } }
+    });
+
+    if (existing) {
+      throw new Error('Tag já existe');
+    }
+
+    const tag = await prisma.contactTag.create({
+      data: { organizationId, name, color: data.color || null },
+      include: { _count: { select: { contacts: true } } }
+    });
+
+    logger.info(`Tag ${name} criada na organização ${organizationId}`);
+    return this.mapTagFromPrisma(tag);
+  }
+
+  async updateTag(organizationId: string, tagId: string, data: ContactTagRequest): Promise<ContactTag> {
+    const tag = await this.findTag(organizationId, tagId);
+    const update: Prisma.ContactTagUpdateInput = {};
+
+    if (data.name !== undefined) {
+      const name = this.contactStorage.normalizeTag(data.name);
+
+      if (!name) {
+        throw new Error('Nome da tag é obrigatório');
+      }
+
+      if (name !== tag.name) {
+        const existing = await prisma.contactTag.findUnique({
+          where: { organization_tag_unique: { organizationId, name } }
+        });
+
+        if (existing) {
+          throw new Error('Tag já existe');
+        }
+      }
+
+      update.name = name;
+    }
+
+    if (data.color !== undefined) {
+      this.validateColor(data.color);
+      update.color = data.color || null;
+    }
+
+    const updated = await prisma.contactTag.update({
+      where: { id: tag.id },
+      data: update,
+      include: { _count: { select: { contacts: true } } }
+    });
+
+    return this.mapTagFromPrisma(updated);
+  }
+
+  /**
+   * Remove a tag de todos os contatos
+   */
+  async deleteTag(organizationId: string, tagId: string): Promise<void> {
+    const tag = await this.findTag(organizationId, tagId);
+
+    await prisma.contactTag.delete({ where: { id: tag.id } });
+
+    logger.info(`Tag ${tag.name} removida da organização ${organizationId}`);
+  }
+
+  /**
+   * Adiciona as tags aos contatos selecionados, criando as tags que ainda não existem
+   */
+  async addTags(organizationId: string, selection: ContactSelection, tagNames: string[]): Promise<BulkOperationResult> {
+    const names = this.normalizeTags(tagNames);
+    const where = await this.buildSelectionWhere(organizationId, selection);
+
+    const tags = await Promise.all(names.map(name => prisma.contactTag.upsert({
+      where: { organization_tag_unique: { organizationId, name } },
+      create: { organizationId, name },
+      update: {}
+    })));
+
+    let matched = 0;
+    let affected = 0;
+
+    await this.forEachContactBatch(where, async (contactIds) => {
+      const data: Prisma.ContactTagAssignmentCreateManyInput[] = [];
+      for (const contactId of contactIds) {
+        tags.forEach(tag => data.push({ contactId, tagId: tag.id }));
+      }
+
+      const result = await prisma.contactTagAssignment.createMany({ data, skipDuplicates: true });
+
+      matched += contactIds.length;
+      affected += result.count;
+    });
+
+    logger.info(`Tags ${names.join(', ')} adicionadas a ${matched} contatos da organização ${organizationId}`);
+    return { matched, affected };
+  }
+
+  async removeTags(organizationId: string, selection: ContactSelection, tagNames: string[]): Promise<BulkOperationResult> {
+    const names = this.normalizeTags(tagNames);
+    const where = await this.buildSelectionWhere(organizationId, selection);
+
+    const [matched, result] = await Promise.all([
+      prisma.contact.count({ where }),
+      prisma.contactTagAssignment.deleteMany({
+        where: {
+          tag: { organizationId, name: { in: names } },
+          contact: where
+        }
+      })
+    ]);
+
+    logger.info(`Tags ${names.join(', ')} removidas de ${result.count} vínculos da organização ${organizationId}`);
+    return { matched, affected: result.count };
+  }
+
+  async getLists(organizationId: string): Promise<ContactList[]> {
+    const lists = await prisma.contactList.findMany({
+      where: { organizationId },
+      include: { _count: { select: { members: true } } },
+      orderBy: { name: 'asc' }
+    });
+
+    return lists.map(list => this.mapListFromPrisma(list));
+  }
+
+  async getListById(organizationId: string, listId: string): Promise<ContactList | null> {
+    const list = await prisma.contactList.findFirst({
+      where: { id: listId, organizationId },
+      include: { _count: { select: { members: true } } }
+    });
+
+    return list ? this.mapListFromPrisma(list) : null;
+  }
+
+  async createList(organizationId: string, data: ContactListRequest): Promise<ContactList> {
+    const name = data.name?.trim();
+
+    if (!name) {
+      throw new Error('Nome da lista é obrigatório');
+    }
+
+    const existing = await prisma.contactList.findUnique({
+      where: { organization_list_unique: { organizationId, name } }
+    });
+
+    if (existing) {
+      throw new Error('Já existe uma lista com esse nome');
+    }
+
+    const list = await prisma.contactList.create({
+      data: { organizationId, name, description: data.description?.trim() || null },
+      include: { _count: { select: { members: true } } }
+    });
+
+    logger.info(`Lista ${name} criada na organização ${organizationId}`);
+    return this.mapListFromPrisma(list);
+  }
+
+  async updateList(organizationId: string, listId: string, data: ContactListRequest): Promise<ContactList> {
+    const list = await this.findList(organizationId, listId);
+    const update: Prisma.ContactListUpdateInput = {};
+
+    if (data.name !== undefined) {
+      const name = data.name.trim();
+
+      if (!name) {
+        throw new Error('Nome da lista é obrigatório');
+      }
+
+      if (name !== list.name) {
+        const existing = await prisma.contactList.findUnique({
+          where: { organization_list_unique: { organizationId, name } }
+        });
+
+        if (existing) {
+          throw new Error('Já existe uma lista com esse nome');
+        }
+      }
+
+      update.name = name;
+    }
+
+    if (data.description !== undefined) {
+      update.description = data.description?.trim() || null;
+    }
+
+    const updated = await prisma.contactList.update({
+      where: { id: list.id },
+      data: update,
+      include: { _count: { select: { members: true } } }
+    });
+
+    return this.mapListFromPrisma(updated);
+  }
+
+  /**
+   * Remove a lista; os contatos continuam armazenados
+   */
+  async deleteList(organizationId: string, listId: string): Promise<void> {
+    const list = await this.findList(organizationId, listId);
+
+    await prisma.contactList.delete({ where: { id: list.id } });
+
+    logger.info(`Lista ${list.name} removida da organização ${organizationId}`);
+  }
+
+  async addToList(organizationId: string, listId: string, selection: ContactSelection): Promise<BulkOperationResult> {
+    const list = await this.findList(organizationId, listId);
+    const where = await this.buildSelectionWhere(organizationId, selection);
+    let matched = 0;
+    let affected = 0;
+
+    await this.forEachContactBatch(where, async (contactIds) => {
+      const result = await prisma.contactListMember.createMany({
+        data: contactIds.map(contactId => ({ listId: list.id, contactId })),
+        skipDuplicates: true
+      });
+
+      matched += contactIds.length;
+      affected += result.count;
+    });
+
+    logger.info(`${affected} contatos adicionados à lista ${list.name} da organização ${organizationId}`);
+    return { matched, affected };
+  }
+
+  async removeFromList(organizationId: string, listId: string, selection: ContactSelection): Promise<BulkOperationResult> {
+    const list = await this.findList(organizationId, listId);
+    const where = await this.buildSelectionWhere(organizationId, selection);
+
+    const [matched, result] = await Promise.all([
+      prisma.contact.count({ where }),
+      prisma.contactListMember.deleteMany({
+        where: { listId: list.id, contact: where }
+      })
+    ]);
+
+    return { matched, affected: result.count };
+  }
+
+  async getSegments(organizationId: string): Promise<ContactSegment[]> {
+    const segments = await prisma.contactSegment.findMany({
+      where: { organizationId },
+      orderBy: { name: 'asc' }
+    });
+
+    return segments.map(segment => this.mapSegmentFromPrisma(segment));
+  }
+
+  /**
+   * Retorna o segmento com a quantidade atual de contatos que atendem aos filtros
+   */
+  async getSegmentById(organizationId: string, segmentId: string): Promise<(ContactSegment & { contact_count: number }) | null> {
+    const segment = await prisma.contactSegment.findFirst({
+      where: { id: segmentId, organizationId }
+    });
+
+    if (!segment) {
+      return null;
+    }
+
+    const contactCount = await prisma.contact.count({
+      where: await this.contactStorage.buildContactWhere(organizationId, { segmentId: segment.id })
+    });
+
+    return { ...this.mapSegmentFromPrisma(segment), contact_count: contactCount };
+  }
+
+  async createSegment(organizationId: string, data: ContactSegmentRequest): Promise<ContactSegment> {
+    const name = data.name?.trim();
+
+    if (!name) {
+      throw new Error('Nome do segmento é obrigatório');
+    }
+
+    const filters = await this.validateSegmentFilters(organizationId, data.filters);
+
+    const existing = await prisma.contactSegment.findUnique({
+      where: { organization_segment_unique: { organizationId, name } }
+    });
+
+    if (existing) {
+      throw new Error('Já existe um segmento com esse nome');
+    }
+
+    const segment = await prisma.contactSegment.create({
+      data: {
+        organizationId,
+        name,
+        description: data.description?.trim() || null,
+        filters: filters as Prisma.InputJsonValue
+      }
+    });
+
+    logger.info(`Segmento ${name} criado na organização ${organizationId}`);
+    return this.mapSegmentFromPrisma(segment);
+  }
+
+  async updateSegment(organizationId: string, segmentId: string, data: ContactSegmentRequest): Promise<ContactSegment> {
+    const segment = await this.findSegment(organizationId, segmentId);
+    const update: Prisma.ContactSegmentUpdateInput = {};
+
+    if (data.name !== undefined) {
+      const name = data.name.trim();
+
+      if (!name) {
+        throw new Error('Nome do segmento é obrigatório');
+      }
+
+      if (name !== segment.name) {
+        const existing = await prisma.contactSegment.findUnique({
+          where: { organization_segment_unique: { organizationId, name } }
+        });
+
+        if (existing) {
+          throw new Error('Já existe um segmento com esse nome');
+        }
+      }
+
+      update.name = name;
+    }
+
+    if (data.description !== undefined) {
+      update.description = data.description?.trim() || null;
+    }
+
+    if (data.filters !== undefined) {
+      update.filters = await this.validateSegmentFilters(organizationId, data.filters) as Prisma.InputJsonValue;
+    }
+
+    const updated = await prisma.contactSegment.update({
+      where: { id: segment.id },
+      data: update
+    });
+
+    return this.mapSegmentFromPrisma(updated);
+  }
+
+  async deleteSegment(organizationId: string, segmentId: string): Promise<void> {
+    const segment = await this.findSegment(organizationId, segmentId);
+
+    await prisma.contactSegment.delete({ where: { id: segment.id } });
+
+    logger.info(`Segmento ${segment.name} removido da organização ${organizationId}`);
+  }
+
+  /**
+   * contact_ids tem prioridade; sem ids, usa os filtros da listagem (inclusive segmentId)
+   */
+  private async buildSelectionWhere(organizationId: string, selection: ContactSelection): Promise<Prisma.ContactWhereInput> {
+    if (Array.isArray(selection.contact_ids) && selection.contact_ids.length > 0) {
+      return { organizationId, id: { in: selection.contact_ids } };
+    }
+
+    if (selection.filters && typeof selection.filters === 'object') {
+      return this.contactStorage.buildContactWhere(organizationId, selection.filters);
+    }
+
+    throw new Error('Informe contact_ids ou filters para selecionar os contatos');
+  }
+
+  private async forEachContactBatch(
+    where: Prisma.ContactWhereInput,
+    handler: (contactIds: string[]) => Promise<void>
+  ): Promise<void> {
+    let cursor: string | undefined;
+
+    while (true) {
+      const contacts = await prisma.contact.findMany({
+        where,
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: this.BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      if (contacts.length === 0) break;
+
+      await handler(contacts.map(contact => contact.id));
+
+      if (contacts.length < this.BATCH_SIZE) break;
+      cursor = contacts[contacts.length - 1].id;
+    }
+  }
+
+  /**
+   * Segmentos guardam apenas filtros; ordenação não se aplica e um segmento não referencia outro
+   */
+  private async validateSegmentFilters(organizationId: string, filters: unknown): Promise<ContactFilters> {
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+      throw new Error('filters deve ser um objeto com os filtros do segmento');
+    }
+
+    const rest: ContactFilters = { ...(filters as ContactFilters) };
+
+    if (rest.segmentId) {
+      throw new Error('Um segmento não pode usar outro segmento como filtro');
+    }
+
+    delete rest.sortBy;
+    delete rest.sortOrder;
+
+    if (rest.metadata !== undefined && (typeof rest.metadata !== 'object' || rest.metadata === null || Array.isArray(rest.metadata))) {
+      throw new Error('filters.metadata deve ser um objeto de chave e valor');
+    }
+
+    if (rest.tags !== undefined) {
+      rest.tags = this.normalizeTags(rest.tags);
+    }
+
+    if (rest.excludeTags !== undefined) {
+      rest.excludeTags = this.normalizeTags(rest.excludeTags);
+    }
+
+    if (rest.listId) {
+      await this.findList(organizationId, rest.listId);
+    }
+
+    return rest;
+  }
+
+  private normalizeTags(tags: unknown): string[] {
+    if (!Array.isArray(tags)) {
+      throw new Error('tags deve ser uma lista de nomes');
+    }
+
+    const names = Array.from(new Set(tags.map(tag => this.contactStorage.normalizeTag(tag)).filter(Boolean)));
+
+    if (names.length === 0) {
+      throw new Error('Informe ao menos uma tag');
+    }
+
+    return names;
+  }
+
+  private validateColor(color?: string | null): void {
+    if (color && !COLOR_PATTERN.test(color)) {
+      throw new Error('color deve estar no formato #RRGGBB');
+    }
+  }
+
+  private async findTag(organizationId: string, tagId: string): Promise<PrismaContactTagType> {
+    const tag = await prisma.contactTag.findFirst({ where: { id: tagId, organizationId } });
+
+    if (!tag) {
+      throw new Error('Tag não encontrada');
+    }
+
+    return tag;
+  }
+
+  private async findList(organizationId: string, listId: string): Promise<PrismaContactListType> {
+    const list = await prisma.contactList.findFirst({ where: { id: listId, organizationId } });
+
+    if (!list) {
+      throw new Error('Lista não encontrada');
+    }
+
+    return list;
+  }
+
+  private async findSegment(organizationId: string, segmentId: string): Promise<PrismaContactSegmentType> {
+    const segment = await prisma.contactSegment.findFirst({ where: { id: segmentId, organizationId } });
+
+    if (!segment) {
+      throw new Error('Segmento não encontrado');
+    }
+
+    return segment;
+  }
+
+  private mapTagFromPrisma(tag: TagWithCount): ContactTag {
+    return {
+      id: tag.id,
+      name: tag.name,
+      color: tag.color || undefined,
+      contact_count: tag._count.contacts,
+      created_at: tag.createdAt,
+      updated_at: tag.updatedAt
+    };
+  }
+
+  private mapListFromPrisma(list: ListWithCount): ContactList {
+    return {
+      id: list.id,
+      name: list.name,
+      description: list.description || undefined,
+      contact_count: list._count.members,
+      created_at: list.createdAt,
+      updated_at: list.updatedAt
+    };
+  }
+
+  private mapSegmentFromPrisma(segment: PrismaContactSegmentType): ContactSegment {
+    return {
+      id: segment.id,
+      name: segment.name,
+      description: segment.description || undefined,
+      filters: segment.filters as ContactFilters,
+      created_at: segment.createdAt,
+      updated_at: segment.updatedAt
+    };
+  }
+}
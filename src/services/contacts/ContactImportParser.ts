@@ -0,0 +1,384 @@
+import ExcelJS from 'exceljs';
+import {
+  ContactImportError,
+  ContactImportFormat,
+  ContactImportMapping,
+  ContactImportOptions,
+  ContactImportRow
+} from '../../types/contacts';
+
+interface TableRecord {
+  line: number;
+  values: string[];
+}
+
+// Cabeçalhos reconhecidos quando nenhum mapeamento é informado
+const PHONE_HEADERS = ['phone_number', 'phone', 'telefone', 'numero', 'celular', 'whatsapp', 'mobile'];
+const NAME_HEADERS = ['name', 'nome', 'full_name', 'nome_completo'];
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Converte arquivos TXT, CSV, XLSX e vCard em linhas de contato com o número da linha de origem
+ */
+export class ContactImportParser {
+  /**
+   * Identifica o formato pela extensão do arquivo (ou pelo tipo MIME)
+   */
+  detectFormat(fileName: string, mimeType: string): ContactImportFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+
+    if (extension === 'csv' || mimeType === 'text/csv') {
+      return 'csv';
+    }
+
+    if (extension === 'xlsx' || mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+      return 'xlsx';
+    }
+
+    if (extension === 'vcf' || mimeType === 'text/vcard' || mimeType === 'text/x-vcard') {
+      return 'vcf';
+    }
+
+    if (extension === 'txt' || mimeType === 'text/plain') {
+      return 'txt';
+    }
+
+    return null;
+  }
+
+  async parse(buffer: Buffer, options: ContactImportOptions): Promise<ContactImportRow[]> {
+    switch (options.format) {
+      case 'txt':
+        return this.parseTxt(this.decode(buffer));
+      case 'csv':
+        return this.mapTable(this.parseCsv(this.decode(buffer), options.delimiter), options.mapping);
+      case 'xlsx':
+        return this.mapTable(await this.parseXlsx(buffer), options.mapping);
+      case 'vcf':
+        return this.parseVcard(this.decode(buffer));
+      default:
+        throw new ContactImportError(`Formato não suportado: ${options.format}`);
+    }
+  }
+
+  private decode(buffer: Buffer): string {
+    // Remove o BOM que planilhas exportadas costumam incluir
+    return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+  }
+
+  private parseTxt(content: string): ContactImportRow[] {
+    const rows: ContactImportRow[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim()) {
+        rows.push({ line: index + 1, phone_number: line.trim() });
+      }
+    });
+
+    return rows;
+  }
+
+  /**
+   * CSV no formato RFC 4180: aspas duplas delimitam campos com separador ou quebra de linha
+   */
+  private parseCsv(content: string, delimiter?: string): TableRecord[] {
+    const separator = delimiter
+      ? (delimiter === '\\t' ? '\t' : delimiter)
+      : this.detectDelimiter(content);
+
+    if (separator.length !== 1) {
+      throw new ContactImportError('O delimitador deve ter um único caractere');
+    }
+
+    const records: TableRecord[] = [];
+    let values: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const pushRecord = () => {
+      values.push(field);
+
+      if (values.some(value => value.trim())) {
+        records.push({ line: recordLine, values });
+      }
+
+      values = [];
+      field = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === separator) {
+        values.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        pushRecord();
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new ContactImportError(`Aspas não fechadas a partir da linha ${recordLine}`);
+    }
+
+    if (field || values.length > 0) {
+      pushRecord();
+    }
+
+    return records;
+  }
+
+  /**
+   * Escolhe o separador mais frequente no cabeçalho
+   */
+  private detectDelimiter(content: string): string {
+    const header = content.split(/\r?\n/, 1)[0] || '';
+    let best = ',';
+    let bestCount = 0;
+
+    for (const candidate of CSV_DELIMITERS) {
+      const count = header.split(candidate).length - 1;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Lê a primeira planilha; a linha 1 é o cabeçalho
+   */
+  private async parseXlsx(buffer: Buffer): Promise<TableRecord[]> {
+    const workbook = new ExcelJS.Workbook();
+
+    try {
+      await workbook.xlsx.load(buffer);
+    } catch (error) {
+      throw new ContactImportError('Arquivo XLSX inválido ou corrompido');
+    }
+
+    const sheet = workbook.worksheets[0];
+
+    if (!sheet) {
+      throw new ContactImportError('A planilha não contém abas');
+    }
+
+    const records: TableRecord[] = [];
+    const columnCount = sheet.columnCount;
+
+    sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      const values: string[] = [];
+
+      for (let column = 1; column <= columnCount; column++) {
+        values.push(row.getCell(column).text ?? '');
+      }
+
+      if (values.some(value => value.trim())) {
+        records.push({ line: rowNumber, values });
+      }
+    });
+
+    return records;
+  }
+
+  /**
+   * Aplica o mapeamento de cabeçalhos; sem mapeamento, reconhece telefone e nome
+   * e leva as demais colunas para metadata
+   */
+  private mapTable(records: TableRecord[], mapping?: ContactImportMapping): ContactImportRow[] {
+    const [header, ...body] = records;
+
+    if (!header) {
+      return [];
+    }
+
+    const headers = header.values.map(value => value.trim());
+    const normalized = headers.map(value => this.normalizeHeader(value));
+
+    const findColumn = (name: string): number => {
+      const index = headers.indexOf(name.trim());
+      return index >= 0 ? index : normalized.indexOf(this.normalizeHeader(name));
+    };
+
+    let phoneColumn: number;
+    let nameColumn = -1;
+    const metadataColumns: Array<{ key: string; column: number }> = [];
+
+    if (mapping) {
+      if (!mapping.phone_number) {
+        throw new ContactImportError('O mapeamento precisa indicar a coluna de phone_number');
+      }
+
+      phoneColumn = findColumn(mapping.phone_number);
+      if (phoneColumn < 0) {
+        throw new ContactImportError(`Coluna não encontrada no cabeçalho: ${mapping.phone_number}`);
+      }
+
+      if (mapping.name) {
+        nameColumn = findColumn(mapping.name);
+        if (nameColumn < 0) {
+          throw new ContactImportError(`Coluna não encontrada no cabeçalho: ${mapping.name}`);
+        }
+      }
+
+      for (const [key, column] of Object.entries(mapping.metadata || {})) {
+        const index = findColumn(column);
+        if (index < 0) {
+          throw new ContactImportError(`Coluna não encontrada no cabeçalho: ${column}`);
+        }
+        metadataColumns.push({ key, column: index });
+      }
+    } else {
+      phoneColumn = normalized.findIndex(value => PHONE_HEADERS.includes(value));
+      nameColumn = normalized.findIndex(value => NAME_HEADERS.includes(value));
+
+      if (phoneColumn < 0) {
+        throw new ContactImportError('Coluna de telefone não reconhecida; informe o mapeamento');
+      }
+
+      headers.forEach((value, index) => {
+        if (index !== phoneColumn && index !== nameColumn && value) {
+          metadataColumns.push({ key: value, column: index });
+        }
+      });
+    }
+
+    return body.map(record => {
+      const cell = (index: number) => (record.values[index] ?? '').trim();
+      const metadata: Record<string, string> = {};
+
+      for (const { key, column } of metadataColumns) {
+        const value = cell(column);
+        if (value) {
+          metadata[key] = value;
+        }
+      }
+
+      return {
+        line: record.line,
+        phone_number: cell(phoneColumn),
+        name: nameColumn >= 0 ? cell(nameColumn) || undefined : undefined,
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+      };
+    });
+  }
+
+  /**
+   * vCard 2.1/3.0/4.0: um contato por cartão, usando o primeiro TEL
+   */
+  private parseVcard(content: string): ContactImportRow[] {
+    const rows: ContactImportRow[] = [];
+    const lines = content.split(/\r?\n/);
+
+    // Linhas iniciadas por espaço ou tab continuam a anterior (folding)
+    const unfolded: Array<{ line: number; text: string }> = [];
+    lines.forEach((text, index) => {
+      if (/^[ \t]/.test(text) && unfolded.length > 0) {
+        unfolded[unfolded.length - 1].text += text.slice(1);
+      } else {
+        unfolded.push({ line: index + 1, text });
+      }
+    });
+
+    let card: { line: number; name?: string; formattedName?: string; phones: string[]; metadata: Record<string, string> } | null = null;
+
+    for (const { line, text } of unfolded) {
+      const separator = text.indexOf(':');
+      if (separator < 0) {
+        continue;
+      }
+
+      // Remove o grupo (item1.TEL) e separa os parâmetros (TEL;TYPE=CELL)
+      const [property] = text.slice(0, separator).split(';');
+      const key = property.split('.').pop()!.toUpperCase();
+      const value = this.unescapeVcard(text.slice(separator + 1)).trim();
+
+      if (key === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+        card = { line, phones: [], metadata: {} };
+        continue;
+      }
+
+      if (!card) {
+        continue;
+      }
+
+      switch (key) {
+        case 'FN':
+          card.formattedName = value;
+          break;
+        case 'N': {
+          const [family, given] = value.split(';');
+          card.name = [given, family].filter(part => part && part.trim()).join(' ').trim();
+          break;
+        }
+        case 'TEL':
+          card.phones.push(value.replace(/^tel:/i, ''));
+          break;
+        case 'EMAIL':
+          card.metadata.email = card.metadata.email || value;
+          break;
+        case 'ORG':
+          card.metadata.organization = value.replace(/;+$/, '').replace(/;/g, ' - ');
+          break;
+        case 'END':
+          if (value.toUpperCase() === 'VCARD') {
+            rows.push({
+              line: card.line,
+              phone_number: card.phones[0] || '',
+              name: card.formattedName || card.name || undefined,
+              metadata: Object.keys(card.metadata).length > 0 ? card.metadata : undefined
+            });
+            card = null;
+          }
+          break;
+      }
+    }
+
+    return rows;
+  }
+
+  private unescapeVcard(value: string): string {
+    return value
+      .replace(/\\n/gi, '\n')
+      .replace(/\\([,;\\])/g, '$1');
+  }
+
+  private normalizeHeader(value: string): string {
+    return value
+      .trim()
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '');
+  }
+}
@@ -1,14 +1,17 @@
 import logger from '../../utils/logger';
 import { Contact as ContactType, Group, ValidatedNumber } from '../../types/types';
 import { InstanceData } from '../types/InstanceData';
+import { PhoneNumberService } from '../phone/PhoneNumberService';
 
 export class ContactService {
+  private phoneNumbers = new PhoneNumberService();
+
   constructor(private instances: Map<string, InstanceData>) {}
 
-  async getContacts(userId: string, connectionId: string): Promise<ContactType[]> {
+  async getContacts(organizationId: string, connectionId: string): Promise<ContactType[]> {
     const instance = this.instances.get(connectionId);
     
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada, não conectada ou não autorizada');
     }
 
@@ -37,10 +40,10 @@ export class ContactService {
     }
   }
 
-  async getGroups(userId: string, connectionId: string): Promise<Group[]> {
+  async getGroups(organizationId: string, connectionId: string): Promise<Group[]> {
     const instance = this.instances.get(connectionId);
     
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada, não conectada ou não autorizada');
     }
 
@@ -70,10 +73,10 @@ export class ContactService {
     }
   }
 
-  async getChats(userId: string, connectionId: string): Promise<any[]> {
+  async getChats(organizationId: string, connectionId: string): Promise<any[]> {
     const instance = this.instances.get(connectionId);
     
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada, não conectada ou não autorizada');
     }
 
@@ -104,61 +107,22 @@ export class ContactService {
     }
   }
 
-  async getMessages(userId: string, connectionId: string, limit: number = 50): Promise<any[]> {
-    const instance = this.instances.get(connectionId);
-    
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
-      throw new Error('Conexão não encontrada, não conectada ou não autorizada');
-    }
-
-    try {
-      // Usar mensagens armazenadas do histórico se disponíveis
-      if (instance.messages && instance.messages.length > 0) {
-        // Ordenar por timestamp (mais recentes primeiro) e aplicar limite
-        const sortedMessages = instance.messages
-          .sort((a: any, b: any) => (b.messageTimestamp || 0) - (a.messageTimestamp || 0))
-          .slice(0, limit);
-        
-        const messageList = sortedMessages.map((msg: any) => ({
-          id: msg.key?.id,
-          from: msg.key?.remoteJid,
-          participant: msg.key?.participant,
-          timestamp: msg.messageTimestamp,
-          message: msg.message,
-          isFromMe: msg.key?.fromMe || false,
-          status: msg.status
-        }));
-        
-        logger.info(`${messageList.length} mensagens retornadas do histórico para ${connectionId} (limite: ${limit})`);
-        return messageList;
-      }
-
-      // Se não há mensagens no histórico, retornar lista vazia
-      logger.info(`Nenhuma mensagem disponível no histórico para ${connectionId}`);
-      return [];
-    } catch (error) {
-      logger.error(`Erro ao recuperar mensagens para ${connectionId}:`, error);
-      throw error;
-    }
-  }
-
-  async validateNumber(userId: string, connectionId: string, number: string): Promise<ValidatedNumber> {
+  async validateNumber(organizationId: string, connectionId: string, number: string): Promise<ValidatedNumber> {
     const instance = this.instances.get(connectionId);
     
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada, não conectada ou não autorizada');
     }
 
     try {
-      // Para números brasileiros, testar ambos os formatos (com e sem 9)
-      const numbersToTest = this.getBrazilianNumberVariations(number);
+      // Variações do país (nono dígito no Brasil, 521 no México...) no formato de JID
+      const jidsToTest = this.phoneNumbers.getJidCandidates(number);
       
       let validResult = null;
       let validJid = '';
       
       // Testar cada variação até encontrar uma válida
-      for (const testNumber of numbersToTest) {
-        const jid = testNumber.includes('@') ? testNumber : `${testNumber}@s.whatsapp.net`;
+      for (const jid of jidsToTest) {
         const results = await instance.socket.onWhatsApp(jid);
         
         if (results && results.length > 0 && results[0]?.exists) {
@@ -297,59 +261,12 @@ export class ContactService {
     }
   }
 
-  /**
-   * Gera variações de números brasileiros para teste
-   */
-  private getBrazilianNumberVariations(number: string): string[] {
-    // Remove caracteres não numéricos
-    const cleanNumber = number.replace(/\D/g, '');
-    
-    // Se já tem @, retorna como está
-    if (number.includes('@')) {
-      return [number];
-    }
-    
-    // Se não é número brasileiro (não começa com 55), retorna como está
-    if (!cleanNumber.startsWith('55')) {
-      return [cleanNumber];
-    }
-    
-    // Para números brasileiros, gerar variações
-    const variations: string[] = [];
-    
-    // Formato: 55 + DDD (2 dígitos) + número (8 ou 9 dígitos)
-    if (cleanNumber.length === 13) {
-      // Número com 9 dígitos no celular (55 + 11 + 9 + 12345678)
-      variations.push(cleanNumber);
-      
-      // Tentar versão sem o 9 (55 + 11 + 12345678)
-      const ddd = cleanNumber.substring(2, 4);
-      const phoneWithout9 = cleanNumber.substring(5); // Remove o 9
-      variations.push(`55${ddd}${phoneWithout9}`);
-      
-    } else if (cleanNumber.length === 12) {
-      // Número sem o 9 (55 + 11 + 12345678)
-      variations.push(cleanNumber);
-      
-      // Tentar versão com o 9 (55 + 11 + 9 + 12345678)
-      const ddd = cleanNumber.substring(2, 4);
-      const phone = cleanNumber.substring(4);
-      variations.push(`55${ddd}9${phone}`);
-      
-    } else {
-      // Outros formatos, retorna como está
-      variations.push(cleanNumber);
-    }
-    
-    return variations;
-  }
-
   /**
    * Valida e retorna o JID correto para um número
    */
-  async getValidJid(userId: string, connectionId: string, number: string): Promise<string | null> {
+  async getValidJid(organizationId: string, connectionId: string, number: string): Promise<string | null> {
     try {
-      const validation = await this.validateNumber(userId, connectionId, number);
+      const validation = await this.validateNumber(organizationId, connectionId, number);
       return validation.exists ? validation.jid || null : null;
     } catch (error) {
       logger.error(`Erro ao obter JID válido para ${number}:`, error);
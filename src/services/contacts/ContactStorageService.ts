@@ -1,28 +1,49 @@
 import prisma from '../../lib/prisma';
 import logger from '../../utils/logger';
-import { Contact, CreateContactRequest, UpdateContactRequest, ImportResult, ContactFilters, PaginationMetadata } from '../../types/contacts';
+import {
+  Contact,
+  CreateContactRequest,
+  UpdateContactRequest,
+  ImportResult,
+  ContactFilters,
+  PaginationMetadata,
+  ContactImportError,
+  ContactImportRow,
+  ImportPreviewRow,
+  ImportRowAction,
+  ImportRowError
+} from '../../types/contacts';
 import { Contact as PrismaContactType, Prisma } from '@prisma/client';
+import { PhoneNumberService } from '../phone/PhoneNumberService';
+
+// Nomes das tags junto com o contato (listagem, detalhe e exportação)
+export const CONTACT_TAGS_INCLUDE = {
+  tags: { select: { tag: { select: { name: true } } }, orderBy: { createdAt: 'asc' } }
+} as const;
+
+// Linhas exibidas na prévia do dry-run e atualizações por transação no upsert
+const IMPORT_PREVIEW_LIMIT = 50;
+const IMPORT_UPDATE_BATCH_SIZE = 100;
 
 export class ContactStorageService {
-  private validatePhoneNumber(phoneNumber: string): string {
-    // Remove caracteres não numéricos
-    const cleanNumber = phoneNumber.replace(/\D/g, '');
-    
-    if (cleanNumber.length < 10 || cleanNumber.length > 15) {
-      throw new Error('Número de telefone deve ter entre 10 e 15 dígitos');
-    }
+  private phoneNumbers: PhoneNumberService;
 
-    return cleanNumber;
+  constructor() {
+    this.phoneNumbers = new PhoneNumberService();
   }
 
-  async createContact(userId: string, data: CreateContactRequest): Promise<Contact> {
-    const phoneNumber = this.validatePhoneNumber(data.phone_number);
+  /**
+   * Números sem DDI são interpretados no país padrão do usuário
+   */
+  async createContact(organizationId: string, data: CreateContactRequest, defaultCountry?: string): Promise<Contact> {
+    const phone = this.phoneNumbers.parse(data.phone_number, defaultCountry);
+    const phoneNumber = phone.digits;
 
-    // Verificar se número já existe para este usuário
+    // Verificar se número já existe nesta organização
     const existingContact = await prisma.contact.findUnique({
       where: {
-        user_phone_unique: {
-          userId,
+        organization_phone_unique: {
+          organizationId,
           phoneNumber
         }
       }
@@ -34,18 +55,19 @@ export class ContactStorageService {
 
     const contact = await prisma.contact.create({
       data: {
-        userId,
+        organizationId,
         phoneNumber,
+        country: phone.country || null,
         name: data.name?.trim() || null
       }
     });
 
-    logger.info(`Contato criado: ${phoneNumber} para usuário ${userId}`);
+    logger.info(`Contato criado: ${phoneNumber} para organização ${organizationId}`);
     return this.mapContactFromPrisma(contact);
   }
 
   async getContactsPaginated(
-    userId: string, 
+    organizationId: string, 
     page: number = 1, 
     limit: number = 10, 
     filters: ContactFilters = {}
@@ -59,74 +81,9 @@ export class ContactStorageService {
     totalVerified: number;
   }> {
     const skip = (page - 1) * limit;
-    
-    // Construir filtros WHERE
-    const where: Prisma.ContactWhereInput = {
-      userId
-    };
-
-    // Filtro de busca (nome ou telefone)
-    if (filters.search) {
-      where.OR = [
-        { name: { contains: filters.search, mode: 'insensitive' } },
-        { phoneNumber: { contains: filters.search } }
-      ];
-    }
-
-    // Filtro por número específico
-    if (filters.phoneNumber) {
-      where.phoneNumber = { contains: filters.phoneNumber };
-    }
-
-    // Filtro por WhatsApp
-    if (filters.hasWhatsApp === true) {
-      where.whatsappExists = true;
-    } else if (filters.hasWhatsApp === false) {
-      where.whatsappExists = false;
-    } else if (filters.hasWhatsApp === null) {
-      where.whatsappExists = null;
-    }
-
-    // Filtro por foto de perfil
-    if (filters.hasPicture === true) {
-      where.AND = [
-        { whatsappPicture: { not: null } },
-        { whatsappPicture: { not: '' } }
-      ];
-    } else if (filters.hasPicture === false) {
-      where.OR = [
-        { whatsappPicture: null },
-        { whatsappPicture: '' }
-      ];
-    }
-
-    // Filtro por não validados
-    if (filters.notValidated === true) {
-      where.lastWhatsappCheck = null;
-    } else if (filters.notValidated === false) {
-      where.lastWhatsappCheck = { not: null };
-    }
-
-    // Filtros de data
-    if (filters.createdAtStart || filters.createdAtEnd) {
-      where.createdAt = {
-        ...(where.createdAt as Prisma.DateTimeFilter || {})
-      };
-      
-      if (filters.createdAtStart) {
-        (where.createdAt as Prisma.DateTimeFilter).gte = new Date(filters.createdAtStart);
-      }
-      
-      if (filters.createdAtEnd) {
-        (where.createdAt as Prisma.DateTimeFilter).lte = new Date(filters.createdAtEnd);
-      }
-    }
+    const where = await this.buildContactWhere(organizationId, filters);
 
-    // Ordenação
-    const orderBy: Prisma.ContactOrderByWithRelationInput = {};
-    const sortBy = filters.sortBy as keyof Prisma.ContactOrderByWithRelationInput || 'createdAt';
-    const sortOrder = filters.sortOrder || 'desc';
-    orderBy[sortBy] = sortOrder;
+    const orderBy = this.buildContactOrderBy(filters);
 
     // Executar queries principais e contagens agregadas
     const [contacts, total, totalWhatsappExists, totalWhatsappNotExists, totalNotValidated, totalBusiness, totalVerified] = await Promise.all([
@@ -134,7 +91,8 @@ export class ContactStorageService {
         where,
         orderBy,
         skip,
-        take: limit
+        take: limit,
+        include: CONTACT_TAGS_INCLUDE
       }),
       prisma.contact.count({ where }),
       // Contagem de contatos com WhatsApp
@@ -204,27 +162,166 @@ export class ContactStorageService {
     };
   }
 
-  async getContacts(userId: string): Promise<Contact[]> {
+  /**
+   * Ordenação da listagem (sortBy/sortOrder), também usada na exportação
+   */
+  buildContactOrderBy(filters: ContactFilters = {}): Prisma.ContactOrderByWithRelationInput {
+    const orderBy: Prisma.ContactOrderByWithRelationInput = {};
+    const sortBy = filters.sortBy as keyof Prisma.ContactOrderByWithRelationInput || 'createdAt';
+    const sortOrder = filters.sortOrder || 'desc';
+    orderBy[sortBy] = sortOrder;
+
+    return orderBy;
+  }
+
+  /**
+   * Monta o filtro do Prisma a partir de ContactFilters (usado na listagem, exportação, campanhas e validação em lote).
+   * O segmento informado em segmentId é carregado e combinado com os demais filtros
+   */
+  async buildContactWhere(organizationId: string, filters: ContactFilters = {}): Promise<Prisma.ContactWhereInput> {
+    const where = this.buildFilterWhere(organizationId, filters);
+
+    if (!filters.segmentId) {
+      return where;
+    }
+
+    const segment = await prisma.contactSegment.findFirst({
+      where: { id: filters.segmentId, organizationId }
+    });
+
+    if (!segment) {
+      throw new Error('Segmento não encontrado');
+    }
+
+    return {
+      AND: [where, this.buildFilterWhere(organizationId, segment.filters as ContactFilters)]
+    };
+  }
+
+  private buildFilterWhere(organizationId: string, filters: ContactFilters): Prisma.ContactWhereInput {
+    // Construir filtros WHERE
+    const where: Prisma.ContactWhereInput = {
+      organizationId
+    };
+
+    // Filtro de busca (nome ou telefone)
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { phoneNumber: { contains: filters.search } }
+      ];
+    }
+
+    // Filtro por número específico
+    if (filters.phoneNumber) {
+      where.phoneNumber = { contains: filters.phoneNumber };
+    }
+
+    // Filtro por país do número
+    if (filters.country) {
+      where.country = filters.country.toUpperCase();
+    }
+
+    // Filtro por WhatsApp
+    if (filters.hasWhatsApp === true) {
+      where.whatsappExists = true;
+    } else if (filters.hasWhatsApp === false) {
+      where.whatsappExists = false;
+    } else if (filters.hasWhatsApp === null) {
+      where.whatsappExists = null;
+    }
+
+    // Filtro por foto de perfil
+    if (filters.hasPicture === true) {
+      where.AND = [
+        { whatsappPicture: { not: null } },
+        { whatsappPicture: { not: '' } }
+      ];
+    } else if (filters.hasPicture === false) {
+      where.OR = [
+        { whatsappPicture: null },
+        { whatsappPicture: '' }
+      ];
+    }
+
+    // Filtro por não validados
+    if (filters.notValidated === true) {
+      where.lastWhatsappCheck = null;
+    } else if (filters.notValidated === false) {
+      where.lastWhatsappCheck = { not: null };
+    }
+
+    // Filtros de data
+    if (filters.createdAtStart || filters.createdAtEnd) {
+      where.createdAt = {
+        ...(where.createdAt as Prisma.DateTimeFilter || {})
+      };
+      
+      if (filters.createdAtStart) {
+        (where.createdAt as Prisma.DateTimeFilter).gte = new Date(filters.createdAtStart);
+      }
+      
+      if (filters.createdAtEnd) {
+        (where.createdAt as Prisma.DateTimeFilter).lte = new Date(filters.createdAtEnd);
+      }
+    }
+
+    const conditions: Prisma.ContactWhereInput[] = [];
+
+    // Filtros por tags
+    const tags = (filters.tags || []).map(tag => this.normalizeTag(tag)).filter(Boolean);
+    if (tags.length > 0) {
+      if (filters.tagMode === 'any') {
+        conditions.push({ tags: { some: { tag: { name: { in: tags } } } } });
+      } else {
+        conditions.push(...tags.map(name => ({ tags: { some: { tag: { name } } } })));
+      }
+    }
+
+    const excludeTags = (filters.excludeTags || []).map(tag => this.normalizeTag(tag)).filter(Boolean);
+    if (excludeTags.length > 0) {
+      conditions.push({ tags: { none: { tag: { name: { in: excludeTags } } } } });
+    }
+
+    // Filtro por lista estática
+    if (filters.listId) {
+      conditions.push({ lists: { some: { listId: filters.listId } } });
+    }
+
+    // Igualdade em chaves de metadata
+    for (const [key, value] of Object.entries(filters.metadata || {})) {
+      conditions.push({ metadata: { path: [key], equals: value } });
+    }
+
+    if (conditions.length > 0) {
+      where.AND = [...((where.AND as Prisma.ContactWhereInput[]) || []), ...conditions];
+    }
+
+    return where;
+  }
+
+  async getContacts(organizationId: string): Promise<Contact[]> {
     const contacts = await prisma.contact.findMany({
-      where: { userId },
+      where: { organizationId },
       orderBy: { createdAt: 'desc' }
     });
 
     return contacts.map(this.mapContactFromPrisma);
   }
 
-  async getContactById(userId: string, contactId: string): Promise<Contact | null> {
+  async getContactById(organizationId: string, contactId: string): Promise<Contact | null> {
     const contact = await prisma.contact.findFirst({
       where: {
         id: contactId,
-        userId
-      }
+        organizationId
+      },
+      include: CONTACT_TAGS_INCLUDE
     });
 
     return contact ? this.mapContactFromPrisma(contact) : null;
   }
 
-  async updateContact(userId: string, contactId: string, data: UpdateContactRequest): Promise<Contact> {
+  async updateContact(organizationId: string, contactId: string, data: UpdateContactRequest): Promise<Contact> {
     // Preparar dados para atualização
     const updateData: any = {
       updatedAt: new Date()
@@ -270,7 +367,7 @@ export class ContactStorageService {
     const contact = await prisma.contact.updateMany({
       where: {
         id: contactId,
-        userId
+        organizationId
       },
       data: updateData
     });
@@ -283,15 +380,15 @@ export class ContactStorageService {
       where: { id: contactId }
     });
 
-    logger.info(`Contato atualizado: ${contactId} para usuário ${userId}`);
+    logger.info(`Contato atualizado: ${contactId} para organização ${organizationId}`);
     return this.mapContactFromPrisma(updatedContact);
   }
 
-  async deleteContact(userId: string, contactId: string): Promise<void> {
+  async deleteContact(organizationId: string, contactId: string): Promise<void> {
     const result = await prisma.contact.deleteMany({
       where: {
         id: contactId,
-        userId
+        organizationId
       }
     });
 
@@ -299,44 +396,113 @@ export class ContactStorageService {
       throw new Error('Contato não encontrado');
     }
 
-    logger.info(`Contato removido: ${contactId} para usuário ${userId}`);
+    logger.info(`Contato removido: ${contactId} para organização ${organizationId}`);
   }
 
-  async importContacts(userId: string, phoneNumbers: string[]): Promise<ImportResult> {
-    // Buscar contatos existentes do usuário
-    const existingContacts = await prisma.contact.findMany({
-      where: { userId },
-      select: { phoneNumber: true }
-    });
+  /**
+   * Importa linhas já extraídas do arquivo. Números sem DDI usam o país padrão e
+   * números repetidos no arquivo (mesmo em formatos diferentes) contam uma vez;
+   * contatos existentes são ignorados ou, com upsert, têm nome e metadata atualizados.
+   * Em dry-run nada é gravado e a resposta traz a prévia das linhas.
+   */
+  async importContacts(
+    organizationId: string,
+    rows: ContactImportRow[],
+    options: { dryRun?: boolean; upsert?: boolean; defaultCountry?: string } = {}
+  ): Promise<ImportResult> {
+    if (options.defaultCountry && !this.phoneNumbers.isSupportedCountry(options.defaultCountry)) {
+      throw new ContactImportError(`País inválido: ${options.defaultCountry}`);
+    }
 
-    const existingNumbers = new Set(existingContacts.map((c: any) => c.phoneNumber));
-    
-    let imported = 0;
+    const errors: ImportRowError[] = [];
+    const valid: Array<ContactImportRow & { country?: string }> = [];
+    const seen = new Set<string>();
     let skipped = 0;
-    const errors: string[] = [];
-    const contactsToInsert: { userId: string; phoneNumber: string }[] = [];
 
-    for (const phoneNumber of phoneNumbers) {
+    for (const row of rows) {
       try {
-        const cleanNumber = this.validatePhoneNumber(phoneNumber);
-        
-        if (existingNumbers.has(cleanNumber)) {
+        const phone = this.phoneNumbers.parse(row.phone_number || '', options.defaultCountry);
+
+        if (seen.has(phone.digits)) {
           skipped++;
           continue;
         }
 
+        seen.add(phone.digits);
+        valid.push({ ...row, phone_number: phone.digits, country: phone.country });
+
+      } catch (error) {
+        errors.push({ line: row.line, value: row.phone_number || undefined, error: (error as Error).message });
+      }
+    }
+
+    // Buscar contatos existentes da organização
+    const existingContacts = await prisma.contact.findMany({
+      where: { organizationId, phoneNumber: { in: valid.map(row => row.phone_number) } },
+      select: { id: true, phoneNumber: true, name: true, metadata: true }
+    });
+    const existingByNumber = new Map(existingContacts.map(contact => [contact.phoneNumber, contact]));
+
+    const preview: ImportPreviewRow[] = [];
+    const contactsToInsert: Prisma.ContactCreateManyInput[] = [];
+    const contactsToUpdate: Array<{ id: string; data: Prisma.ContactUpdateInput }> = [];
+
+    for (const row of valid) {
+      const existing = existingByNumber.get(row.phone_number);
+      let action: ImportRowAction = 'create';
+
+      if (!existing) {
         contactsToInsert.push({
-          userId,
-          phoneNumber: cleanNumber
+          organizationId,
+          phoneNumber: row.phone_number,
+          country: row.country || null,
+          name: row.name || null,
+          ...(row.metadata ? { metadata: row.metadata } : {})
         });
+      } else if (options.upsert && (row.name || row.metadata)) {
+        action = 'update';
+        const metadata = (existing.metadata && typeof existing.metadata === 'object' && !Array.isArray(existing.metadata)
+          ? existing.metadata
+          : {}) as Prisma.JsonObject;
+
+        contactsToUpdate.push({
+          id: existing.id,
+          data: {
+            ...(row.name ? { name: row.name } : {}),
+            ...(row.metadata ? { metadata: { ...metadata, ...row.metadata } } : {})
+          }
+        });
+      } else {
+        action = 'skip';
+        skipped++;
+      }
 
-        existingNumbers.add(cleanNumber);
-
-      } catch (error) {
-        errors.push(`${phoneNumber}: ${(error as Error).message}`);
+      if (options.dryRun && preview.length < IMPORT_PREVIEW_LIMIT) {
+        preview.push({
+          line: row.line,
+          phone_number: row.phone_number,
+          country: row.country,
+          name: row.name,
+          metadata: row.metadata,
+          action
+        });
       }
     }
 
+    if (options.dryRun) {
+      return {
+        total_rows: rows.length,
+        imported: contactsToInsert.length,
+        updated: contactsToUpdate.length,
+        skipped,
+        errors,
+        dry_run: true,
+        preview
+      };
+    }
+
+    let imported = 0;
+
     // Inserir contatos em lote
     if (contactsToInsert.length > 0) {
       const result = await prisma.contact.createMany({
@@ -345,25 +511,38 @@ export class ContactStorageService {
       });
 
       imported = result.count;
+      skipped += contactsToInsert.length - result.count;
     }
 
-    logger.info(`Importação concluída para usuário ${userId}: ${imported} importados, ${skipped} ignorados, ${errors.length} erros`);
-    
-    return { imported, skipped, errors };
+    for (let i = 0; i < contactsToUpdate.length; i += IMPORT_UPDATE_BATCH_SIZE) {
+      const batch = contactsToUpdate.slice(i, i + IMPORT_UPDATE_BATCH_SIZE);
+      await prisma.$transaction(batch.map(({ id, data }) => prisma.contact.update({ where: { id }, data })));
+    }
+
+    logger.info(`Importação concluída para organização ${organizationId}: ${imported} importados, ${contactsToUpdate.length} atualizados, ${skipped} ignorados, ${errors.length} erros`);
+
+    return {
+      total_rows: rows.length,
+      imported,
+      updated: contactsToUpdate.length,
+      skipped,
+      errors,
+      dry_run: false
+    };
   }
 
-  async deleteAllContacts(userId: string): Promise<number> {
+  async deleteAllContacts(organizationId: string): Promise<number> {
     const result = await prisma.contact.deleteMany({
-      where: { userId }
+      where: { organizationId }
     });
 
     const deletedCount = result.count;
-    logger.info(`${deletedCount} contatos removidos para usuário ${userId}`);
+    logger.info(`${deletedCount} contatos removidos para organização ${organizationId}`);
     return deletedCount;
   }
 
   async updateWhatsAppData(
-    userId: string, 
+    organizationId: string, 
     contactId: string, 
     whatsappData: {
       exists: boolean;
@@ -412,7 +591,7 @@ export class ContactStorageService {
     const contact = await prisma.contact.updateMany({
       where: {
         id: contactId,
-        userId
+        organizationId
       },
       data: updateData
     });
@@ -429,10 +608,10 @@ export class ContactStorageService {
     return this.mapContactFromPrisma(updatedContact);
   }
 
-  async getContactsWithWhatsAppData(userId: string): Promise<Contact[]> {
+  async getContactsWithWhatsAppData(organizationId: string): Promise<Contact[]> {
     const contacts = await prisma.contact.findMany({
       where: {
-        userId,
+        organizationId,
         whatsappExists: { not: null }
       },
       orderBy: { lastWhatsappCheck: 'desc' }
@@ -441,11 +620,70 @@ export class ContactStorageService {
     return contacts.map(this.mapContactFromPrisma);
   }
 
-  private mapContactFromPrisma(contact: PrismaContactType): Contact {
+  /**
+   * Adiciona uma tag ao contato, criando o contato e a tag se ainda não existirem
+   */
+  async addTag(organizationId: string, phoneNumber: string, tag: string, name?: string, defaultCountry?: string): Promise<Contact> {
+    const phone = this.phoneNumbers.parse(phoneNumber, defaultCountry);
+    const cleanNumber = phone.digits;
+    const tagName = this.normalizeTag(tag);
+
+    if (!tagName) {
+      throw new Error('Nome da tag é obrigatório');
+    }
+
+    const contact = await prisma.$transaction(async (tx) => {
+      const contact = await tx.contact.upsert({
+        where: {
+          organization_phone_unique: {
+            organizationId,
+            phoneNumber: cleanNumber
+          }
+        },
+        create: {
+          organizationId,
+          phoneNumber: cleanNumber,
+          country: phone.country || null,
+          name: name?.trim() || null
+        },
+        update: {}
+      });
+
+      const contactTag = await tx.contactTag.upsert({
+        where: { organization_tag_unique: { organizationId, name: tagName } },
+        create: { organizationId, name: tagName },
+        update: {}
+      });
+
+      await tx.contactTagAssignment.upsert({
+        where: { contact_tag_unique: { contactId: contact.id, tagId: contactTag.id } },
+        create: { contactId: contact.id, tagId: contactTag.id },
+        update: {}
+      });
+
+      return tx.contact.findUniqueOrThrow({
+        where: { id: contact.id },
+        include: CONTACT_TAGS_INCLUDE
+      });
+    });
+
+    logger.info(`Tag ${tagName} adicionada ao contato ${cleanNumber} da organização ${organizationId}`);
+    return this.mapContactFromPrisma(contact);
+  }
+
+  /**
+   * Tags são guardadas em minúsculas e sem espaços nas pontas
+   */
+  normalizeTag(tag: string): string {
+    return typeof tag === 'string' ? tag.trim().toLowerCase() : '';
+  }
+
+  mapContactFromPrisma(contact: PrismaContactType & { tags?: Array<{ tag: { name: string } }> }): Contact {
     return {
       id: contact.id,
-      user_id: contact.userId,
+      user_id: contact.organizationId,
       phone_number: contact.phoneNumber,
+      country: contact.country || undefined,
       name: contact.name || undefined,
       whatsapp_exists: contact.whatsappExists ?? undefined,
       whatsapp_jid: contact.whatsappJid || undefined,
@@ -459,6 +697,7 @@ export class ContactStorageService {
       whatsapp_address: contact.whatsappAddress || undefined,
       whatsapp_category: contact.whatsappCategory || undefined,
       metadata: contact.metadata,
+      tags: contact.tags ? contact.tags.map(assignment => assignment.tag.name) : undefined,
       last_whatsapp_check: contact.lastWhatsappCheck || undefined,
       created_at: contact.createdAt,
       updated_at: contact.updatedAt
@@ -0,0 +1,285 @@
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import whatsappService from '../whatsappService';
+import { ContactStorageService } from './ContactStorageService';
+import { DonodoZapService } from './DonodoZapService';
+import { BalanceService } from '../monetization/BalanceService';
+import { Charge, InsufficientBalanceError } from '../../types/monetization';
+import { ValidatedNumber } from '../../types/types';
+import { Contact, ContactFilters, ContactValidationJob, ContactValidationJobStatus } from '../../types/contacts';
+import { ContactValidationJob as PrismaContactValidationJobType, Prisma } from '@prisma/client';
+
+export type ContactValidationJobRecord = PrismaContactValidationJobType;
+
+export class ContactValidationService {
+  private contactStorage: ContactStorageService;
+  private donodoZapService: DonodoZapService;
+  private balanceService: BalanceService;
+
+  constructor() {
+    this.contactStorage = new ContactStorageService();
+    this.donodoZapService = new DonodoZapService();
+    this.balanceService = new BalanceService();
+  }
+
+  /**
+   * Valida um contato no WhatsApp (com cobrança) e grava os dados obtidos
+   */
+  async validateContact(
+    organizationId: string,
+    connectionId: string,
+    contact: Contact
+  ): Promise<{ contact: Contact; whatsapp: ValidatedNumber; donodoZapName: string | null; cost: number }> {
+    const whatsappData = await whatsappService.validateNumber(organizationId, connectionId, contact.phone_number);
+    let cost = whatsappData.cost || 0;
+
+    // Se tem WhatsApp e tem foto, tentar buscar nome no DonodoZap
+    let donodoZapName: string | null = null;
+    if (whatsappData.exists && whatsappData.picture) {
+      const enrichment = await this.searchDonodoZapName(organizationId, contact);
+      donodoZapName = enrichment.name;
+      cost += enrichment.cost;
+    }
+
+    const updatedContact = await this.contactStorage.updateWhatsAppData(organizationId, contact.id, {
+      exists: whatsappData.exists,
+      jid: whatsappData.jid,
+      status: whatsappData.status,
+      picture: whatsappData.picture,
+      business: whatsappData.business,
+      verifiedName: whatsappData.verifiedName || whatsappData.name,
+      businessHours: whatsappData.businessHours,
+      website: whatsappData.website,
+      email: whatsappData.email,
+      address: whatsappData.address,
+      category: whatsappData.category,
+      donodoZapName
+    });
+
+    return { contact: updatedContact, whatsapp: whatsappData, donodoZapName, cost };
+  }
+
+  /**
+   * Busca o nome no DonodoZap cobrando a consulta; sem saldo a busca é ignorada sem falhar a validação
+   */
+  private async searchDonodoZapName(organizationId: string, contact: Contact): Promise<{ name: string | null; cost: number }> {
+    let charge: Charge;
+
+    try {
+      charge = await this.balanceService.chargeAction(
+        organizationId,
+        'enrichment',
+        `Busca de nome do número ${contact.phone_number}`,
+        contact.id
+      );
+    } catch (error) {
+      logger.warn(`Busca no DonodoZap ignorada para ${contact.phone_number}: ${(error as Error).message}`);
+      return { name: null, cost: 0 };
+    }
+
+    try {
+      const name = await this.donodoZapService.searchNamesByPhone(contact.phone_number);
+      if (name) {
+        logger.info(`Nome encontrado no DonodoZap para ${contact.phone_number}: ${name}`);
+      }
+      return { name, cost: charge.amount };
+    } catch (error) {
+      logger.warn(`Erro ao buscar nome no DonodoZap para ${contact.phone_number}:`, error);
+      // Não falhar a validação se DonodoZap falhar
+      try {
+        await this.balanceService.refundCharge(
+          organizationId,
+          charge,
+          `Reembolso de busca de nome não realizada do número ${contact.phone_number}`
+        );
+      } catch (refundError) {
+        logger.error(`Erro ao reembolsar busca de nome de ${contact.phone_number}:`, refundError);
+      }
+      return { name: null, cost: 0 };
+    }
+  }
+
+  async createJob(organizationId: string, connectionId: string, filters: ContactFilters = {}): Promise<ContactValidationJob> {
+    const connection = await whatsappService.findConnection(organizationId, connectionId);
+    if (!connection) {
+      throw new Error('Conexão não encontrada');
+    }
+
+    const total = await prisma.contact.count({
+      where: await this.contactStorage.buildContactWhere(organizationId, filters)
+    });
+
+    if (total === 0) {
+      throw new Error('Nenhum contato encontrado com os filtros informados');
+    }
+
+    const job = await prisma.contactValidationJob.create({
+      data: {
+        organizationId,
+        connectionId,
+        filters: filters as Prisma.InputJsonValue,
+        total
+      }
+    });
+
+    logger.info(`Validação em lote criada: ${job.id} (${total} contatos) para organização ${organizationId}`);
+    return this.mapJobFromPrisma(job);
+  }
+
+  async getJobs(organizationId: string, status?: ContactValidationJobStatus): Promise<ContactValidationJob[]> {
+    const where: Prisma.ContactValidationJobWhereInput = { organizationId };
+    if (status) {
+      where.status = status;
+    }
+
+    const jobs = await prisma.contactValidationJob.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+
+    return jobs.map(job => this.mapJobFromPrisma(job));
+  }
+
+  async getJob(organizationId: string, jobId: string): Promise<ContactValidationJob | null> {
+    const job = await prisma.contactValidationJob.findFirst({
+      where: { id: jobId, organizationId }
+    });
+
+    return job ? this.mapJobFromPrisma(job) : null;
+  }
+
+  async cancelJob(organizationId: string, jobId: string): Promise<ContactValidationJob> {
+    const job = await prisma.contactValidationJob.findFirst({
+      where: { id: jobId, organizationId }
+    });
+
+    if (!job) {
+      throw new Error('Validação em lote não encontrada');
+    }
+
+    const result = await prisma.contactValidationJob.updateMany({
+      where: { id: jobId, status: { in: ['queued', 'running'] } },
+      data: { status: 'cancelled', completedAt: new Date() }
+    });
+
+    if (result.count === 0) {
+      throw new Error(`Validação em lote já finalizada (${job.status})`);
+    }
+
+    logger.info(`Validação em lote cancelada: ${jobId}`);
+    return this.mapJobFromPrisma(await prisma.contactValidationJob.findUniqueOrThrow({ where: { id: jobId } }));
+  }
+
+  /**
+   * Métodos usados pelo worker
+   */
+
+  async getActiveJobs(): Promise<ContactValidationJobRecord[]> {
+    return prisma.contactValidationJob.findMany({
+      where: { status: { in: ['queued', 'running'] } },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Valida o próximo contato do job. Retorna false quando não há mais nada a fazer.
+   */
+  async processNext(job: ContactValidationJobRecord): Promise<boolean> {
+    // Cursor por id: contatos validados podem sair do filtro (ex.: notValidated) sem afetar a ordem
+    const where = await this.contactStorage.buildContactWhere(job.organizationId, job.filters as ContactFilters);
+    const record = await prisma.contact.findFirst({
+      where: {
+        ...where,
+        ...(job.lastContactId ? { id: { gt: job.lastContactId } } : {})
+      },
+      orderBy: { id: 'asc' }
+    });
+
+    if (!record) {
+      await this.finish(job.id, 'completed');
+      logger.info(`Validação em lote concluída: ${job.id}`);
+      return false;
+    }
+
+    if (job.status === 'queued') {
+      await prisma.contactValidationJob.updateMany({
+        where: { id: job.id, status: 'queued' },
+        data: { status: 'running', startedAt: new Date() }
+      });
+    }
+
+    const contact = this.contactStorage.mapContactFromPrisma(record);
+    const data: Prisma.ContactValidationJobUpdateManyMutationInput = {
+      processed: { increment: 1 },
+      lastContactId: contact.id
+    };
+
+    try {
+      const { whatsapp, cost } = await this.validateContact(job.organizationId, job.connectionId, contact);
+
+      data.cost = { increment: cost };
+      if (whatsapp.exists) {
+        data.existsCount = { increment: 1 };
+        if (whatsapp.business) {
+          data.businessCount = { increment: 1 };
+        }
+      } else {
+        data.notExistsCount = { increment: 1 };
+      }
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        await this.finish(job.id, 'failed', 'Saldo insuficiente');
+        logger.warn(`Validação em lote ${job.id} interrompida: saldo insuficiente`);
+        return false;
+      }
+
+      // Falhas na consulta ao WhatsApp já são estornadas pelo whatsappService
+      data.failedCount = { increment: 1 };
+      logger.warn(`Falha ao validar ${contact.phone_number} no job ${job.id}: ${(error as Error).message}`);
+    }
+
+    await prisma.contactValidationJob.updateMany({
+      where: { id: job.id, status: { in: ['queued', 'running'] } },
+      data
+    });
+
+    return true;
+  }
+
+  private async finish(jobId: string, status: ContactValidationJobStatus, error?: string): Promise<void> {
+    await prisma.contactValidationJob.updateMany({
+      where: { id: jobId, status: { in: ['queued', 'running'] } },
+      data: {
+        status,
+        error: error || null,
+        completedAt: new Date()
+      }
+    });
+  }
+
+  private mapJobFromPrisma(job: PrismaContactValidationJobType): ContactValidationJob {
+    return {
+      id: job.id,
+      user_id: job.organizationId,
+      connection_id: job.connectionId,
+      filters: job.filters as ContactFilters,
+      status: job.status as ContactValidationJobStatus,
+      total: job.total,
+      processed: job.processed,
+      progress: job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 0,
+      summary: {
+        exists: job.existsCount,
+        not_exists: job.notExistsCount,
+        business: job.businessCount,
+        failed: job.failedCount
+      },
+      cost: job.cost.toNumber(),
+      error: job.error,
+      started_at: job.startedAt,
+      completed_at: job.completedAt,
+      created_at: job.createdAt,
+      updated_at: job.updatedAt
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import logger from '../../utils/logger';
+import whatsappService from '../whatsappService';
+import { ContactValidationService } from './ContactValidationService';
+
+class ContactValidationWorker {
+  private validationService: ContactValidationService;
+  private interval?: NodeJS.Timeout;
+  private running = false;
+  // Próxima validação permitida por conexão (timestamp em ms)
+  private nextValidationAt: Map<string, number> = new Map();
+  private readonly VALIDATION_INTERVAL = parseInt(process.env.CONTACT_VALIDATION_INTERVAL_MS || '2000');
+
+  constructor() {
+    this.validationService = new ContactValidationService();
+  }
+
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.interval = setInterval(() => {
+      if (this.running) return;
+
+      this.running = true;
+      this.tick()
+        .catch(error => logger.error('Erro ao processar validações em lote:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, 1000); // A cada 1 segundo
+
+    logger.info('Validação de contatos em lote iniciada');
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    const jobs = await this.validationService.getActiveJobs();
+    const handledConnections = new Set<string>();
+
+    // Um job por conexão de cada vez, na ordem de criação
+    for (const job of jobs) {
+      if (handledConnections.has(job.connectionId)) continue;
+      handledConnections.add(job.connectionId);
+
+      if ((this.nextValidationAt.get(job.connectionId) || 0) > Date.now()) continue;
+
+      // Jobs aguardam até a conexão voltar
+      const connection = whatsappService.getConnection(job.organizationId, job.connectionId);
+      if (!connection || connection.status !== 'connected') continue;
+
+      try {
+        await this.validationService.processNext(job);
+      } catch (error) {
+        logger.error(`Erro ao processar validação em lote ${job.id}:`, error);
+      }
+
+      this.nextValidationAt.set(job.connectionId, Date.now() + this.VALIDATION_INTERVAL);
+    }
+  }
+}
+
+export default new ContactValidationWorker();
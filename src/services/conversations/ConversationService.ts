@@ -0,0 +1,441 @@
+import { proto, toNumber } from '@whiskeysockets/baileys';
+import { Prisma, Conversation as PrismaConversationType, ConversationNote as PrismaConversationNoteType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { MessageHandler, ProcessedMessage } from '../messaging/MessageHandler';
+import { MessageStorageService } from '../messaging/MessageStorageService';
+import { StoredMessage } from '../../types/messages';
+import { PaginationMetadata } from '../../types/contacts';
+import {
+  CONVERSATION_STATUSES,
+  Conversation,
+  ConversationFilters,
+  ConversationListResponse,
+  ConversationNote,
+  ConversationNotFoundError,
+  ConversationStatus,
+  UpdateConversationRequest
+} from '../../types/conversations';
+
+const PREVIEW_LENGTH = 200;
+
+const CONVERSATION_INCLUDE = {
+  assignedTo: { select: { id: true, name: true, email: true } }
+} as const;
+
+const NOTE_INCLUDE = {
+  author: { select: { id: true, name: true } }
+} as const;
+
+type ConversationWithAssignee = PrismaConversationType & {
+  assignedTo: { id: string; name: string; email: string } | null;
+};
+
+type NoteWithAuthor = PrismaConversationNoteType & {
+  author: { id: string; name: string } | null;
+};
+
+export class ConversationService {
+  private messageStorage: MessageStorageService;
+
+  constructor() {
+    this.messageStorage = new MessageStorageService();
+  }
+
+  /**
+   * Atualiza a conversa com uma mensagem recebida ou enviada (messages.upsert).
+   * Mensagens novas recebidas contam como não lidas e reabrem a conversa;
+   * mensagens enviadas (pela API ou pelo celular) zeram as não lidas.
+   */
+  async registerMessage(
+    organizationId: string,
+    connectionId: string,
+    webMessage: proto.IWebMessageInfo,
+    isNew: boolean
+  ): Promise<void> {
+    const remoteJid = webMessage.key?.remoteJid;
+    const processed = MessageHandler.processMessage(webMessage);
+
+    if (!remoteJid || !processed || !this.isConversationJid(remoteJid)) {
+      return;
+    }
+
+    const incoming = !processed.isFromMe;
+    const lastMessageAt = this.getTimestamp(webMessage);
+    const lastMessagePreview = this.buildPreview(processed);
+    const name = incoming && !processed.isGroup ? webMessage.pushName || undefined : undefined;
+
+    await prisma.conversation.upsert({
+      where: { connection_conversation_unique: { connectionId, remoteJid } },
+      create: {
+        organizationId,
+        connectionId,
+        remoteJid,
+        isGroup: processed.isGroup,
+        name,
+        unreadCount: incoming && isNew ? 1 : 0,
+        lastMessageAt,
+        lastMessagePreview
+      },
+      update: {
+        name,
+        lastMessageAt,
+        lastMessagePreview,
+        unreadCount: !incoming ? 0 : isNew ? { increment: 1 } : undefined,
+        ...(incoming && isNew ? { status: 'open', closedAt: null } : {})
+      }
+    });
+  }
+
+  /**
+   * Cria as conversas dos chats recebidos no history sync, sem alterar as que já existem
+   */
+  async registerHistory(organizationId: string, connectionId: string, webMessages: proto.IWebMessageInfo[]): Promise<number> {
+    const latest = new Map<string, Prisma.ConversationCreateManyInput>();
+
+    for (const webMessage of webMessages) {
+      const remoteJid = webMessage.key?.remoteJid;
+      if (!remoteJid || !this.isConversationJid(remoteJid)) {
+        continue;
+      }
+
+      const lastMessageAt = this.getTimestamp(webMessage);
+      const current = latest.get(remoteJid);
+      if (current && (current.lastMessageAt as Date) >= lastMessageAt) {
+        continue;
+      }
+
+      const processed = MessageHandler.processMessage(webMessage);
+      if (!processed) {
+        continue;
+      }
+
+      latest.set(remoteJid, {
+        organizationId,
+        connectionId,
+        remoteJid,
+        isGroup: processed.isGroup,
+        name: current?.name || (!processed.isFromMe && !processed.isGroup ? webMessage.pushName : undefined),
+        lastMessageAt,
+        lastMessagePreview: this.buildPreview(processed)
+      });
+    }
+
+    if (latest.size === 0) {
+      return 0;
+    }
+
+    const result = await prisma.conversation.createMany({
+      data: Array.from(latest.values()),
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  async getConversations(
+    organizationId: string,
+    userId: string,
+    page: number = 1,
+    limit: number = 20,
+    filters: ConversationFilters = {}
+  ): Promise<ConversationListResponse> {
+    const where: Prisma.ConversationWhereInput = { organizationId };
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.assignedTo === 'me') {
+      where.assignedToId = userId;
+    } else if (filters.assignedTo === 'unassigned') {
+      where.assignedToId = null;
+    } else if (filters.assignedTo) {
+      where.assignedToId = filters.assignedTo;
+    }
+
+    if (filters.connectionId) {
+      where.connectionId = filters.connectionId;
+    } else if (filters.connectionIds?.length) {
+      where.connectionId = { in: filters.connectionIds };
+    }
+
+    if (filters.tag) {
+      where.tags = { has: this.normalizeTag(filters.tag) };
+    }
+
+    if (filters.unread) {
+      where.unreadCount = { gt: 0 };
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { remoteJid: { contains: filters.search.replace(/\D/g, '') || filters.search } }
+      ];
+    }
+
+    const [conversations, total] = await Promise.all([
+      prisma.conversation.findMany({
+        where,
+        include: CONVERSATION_INCLUDE,
+        orderBy: [{ lastMessageAt: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.conversation.count({ where })
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      conversations: conversations.map(conversation => this.mapConversationFromPrisma(conversation)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    };
+  }
+
+  async getConversationById(organizationId: string, conversationId: string): Promise<Conversation | null> {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, organizationId },
+      include: CONVERSATION_INCLUDE
+    });
+
+    return conversation ? this.mapConversationFromPrisma(conversation) : null;
+  }
+
+  /**
+   * Mensagens salvas do chat da conversa, da mais recente para a mais antiga
+   */
+  async getMessages(
+    organizationId: string,
+    conversationId: string,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ messages: StoredMessage[]; pagination: PaginationMetadata }> {
+    const conversation = await this.findConversation(organizationId, conversationId);
+
+    return this.messageStorage.getMessagesPaginated(organizationId, conversation.connectionId, page, limit, {
+      chatId: conversation.remoteJid
+    });
+  }
+
+  async markRead(organizationId: string, conversationId: string): Promise<Conversation> {
+    await this.findConversation(organizationId, conversationId);
+
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { unreadCount: 0 },
+      include: CONVERSATION_INCLUDE
+    });
+
+    return this.mapConversationFromPrisma(conversation);
+  }
+
+  /**
+   * Altera status, responsável e etiquetas da conversa
+   */
+  async updateConversation(organizationId: string, conversationId: string, data: UpdateConversationRequest): Promise<Conversation> {
+    await this.findConversation(organizationId, conversationId);
+
+    const update: Prisma.ConversationUncheckedUpdateInput = {};
+
+    if (data.status !== undefined) {
+      if (!CONVERSATION_STATUSES.includes(data.status)) {
+        throw new Error(`Status inválido. Use: ${CONVERSATION_STATUSES.join(', ')}`);
+      }
+
+      update.status = data.status;
+      update.closedAt = data.status === 'closed' ? new Date() : null;
+    }
+
+    if (data.assignedToId !== undefined) {
+      if (data.assignedToId !== null) {
+        await this.ensureMember(organizationId, data.assignedToId);
+      }
+
+      update.assignedToId = data.assignedToId;
+    }
+
+    if (data.tags !== undefined) {
+      if (!Array.isArray(data.tags)) {
+        throw new Error('tags deve ser uma lista');
+      }
+
+      update.tags = Array.from(new Set(data.tags.map(tag => this.normalizeTag(tag)).filter(Boolean)));
+    }
+
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: update,
+      include: CONVERSATION_INCLUDE
+    });
+
+    logger.info(`Conversa ${conversationId} atualizada: ${JSON.stringify(data)}`);
+    return this.mapConversationFromPrisma(conversation);
+  }
+
+  /**
+   * Após uma resposta pela caixa de entrada: zera as não lidas e, se a conversa
+   * não tinha responsável, atribui a quem respondeu
+   */
+  async registerReply(organizationId: string, conversationId: string, userId: string): Promise<Conversation> {
+    const current = await this.findConversation(organizationId, conversationId);
+    const isMember = !current.assignedToId && await prisma.organizationMember.findUnique({
+      where: { organization_member_unique: { organizationId, userId } },
+      select: { id: true }
+    });
+
+    const conversation = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        unreadCount: 0,
+        assignedToId: isMember ? userId : undefined
+      },
+      include: CONVERSATION_INCLUDE
+    });
+
+    return this.mapConversationFromPrisma(conversation);
+  }
+
+  async getConversationJid(organizationId: string, conversationId: string): Promise<{ connectionId: string; remoteJid: string }> {
+    const conversation = await this.findConversation(organizationId, conversationId);
+    return { connectionId: conversation.connectionId, remoteJid: conversation.remoteJid };
+  }
+
+  async getNotes(organizationId: string, conversationId: string): Promise<ConversationNote[]> {
+    await this.findConversation(organizationId, conversationId);
+
+    const notes = await prisma.conversationNote.findMany({
+      where: { conversationId },
+      include: NOTE_INCLUDE,
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return notes.map(note => this.mapNoteFromPrisma(note));
+  }
+
+  async addNote(organizationId: string, conversationId: string, authorId: string, content: string): Promise<ConversationNote> {
+    await this.findConversation(organizationId, conversationId);
+
+    const text = content?.trim();
+    if (!text) {
+      throw new Error('Conteúdo da nota é obrigatório');
+    }
+
+    const note = await prisma.conversationNote.create({
+      data: { conversationId, authorId, content: text },
+      include: NOTE_INCLUDE
+    });
+
+    return this.mapNoteFromPrisma(note);
+  }
+
+  /**
+   * Remove uma nota; apenas o autor ou um admin da organização pode removê-la
+   */
+  async deleteNote(
+    organizationId: string,
+    conversationId: string,
+    noteId: string,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<void> {
+    await this.findConversation(organizationId, conversationId);
+
+    const note = await prisma.conversationNote.findFirst({
+      where: { id: noteId, conversationId }
+    });
+
+    if (!note) {
+      throw new Error('Nota não encontrada');
+    }
+
+    if (note.authorId !== userId && !isAdmin) {
+      throw new Error('Apenas o autor ou um admin pode remover a nota');
+    }
+
+    await prisma.conversationNote.delete({ where: { id: noteId } });
+  }
+
+  private async findConversation(organizationId: string, conversationId: string) {
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: conversationId, organizationId }
+    });
+
+    if (!conversation) {
+      throw new ConversationNotFoundError();
+    }
+
+    return conversation;
+  }
+
+  private async ensureMember(organizationId: string, userId: string): Promise<void> {
+    const member = await prisma.organizationMember.findUnique({
+      where: { organization_member_unique: { organizationId, userId } },
+      select: { id: true }
+    });
+
+    if (!member) {
+      throw new Error('O responsável deve ser membro da organização');
+    }
+  }
+
+  /**
+   * Status, canais e listas de transmissão não são conversas
+   */
+  private isConversationJid(remoteJid: string): boolean {
+    return !remoteJid.endsWith('@broadcast') && !remoteJid.endsWith('@newsletter');
+  }
+
+  private getTimestamp(webMessage: proto.IWebMessageInfo): Date {
+    const seconds = toNumber(webMessage.messageTimestamp || 0);
+    return seconds ? new Date(seconds * 1000) : new Date();
+  }
+
+  private buildPreview(processed: ProcessedMessage): string {
+    const text = processed.caption ? `${processed.content}: ${processed.caption}` : processed.content;
+    return text.slice(0, PREVIEW_LENGTH);
+  }
+
+  private normalizeTag(tag: string): string {
+    return String(tag).trim().toLowerCase();
+  }
+
+  private mapConversationFromPrisma(conversation: ConversationWithAssignee): Conversation {
+    return {
+      id: conversation.id,
+      organizationId: conversation.organizationId,
+      connectionId: conversation.connectionId,
+      remoteJid: conversation.remoteJid,
+      isGroup: conversation.isGroup,
+      name: conversation.name || undefined,
+      status: conversation.status as ConversationStatus,
+      assignedTo: conversation.assignedTo || undefined,
+      unreadCount: conversation.unreadCount,
+      tags: conversation.tags,
+      lastMessageAt: conversation.lastMessageAt || undefined,
+      lastMessagePreview: conversation.lastMessagePreview || undefined,
+      closedAt: conversation.closedAt || undefined,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt
+    };
+  }
+
+  private mapNoteFromPrisma(note: NoteWithAuthor): ConversationNote {
+    return {
+      id: note.id,
+      conversationId: note.conversationId,
+      author: note.author || undefined,
+      content: note.content,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { EventEmitter } from 'events';
+import logger from '../../utils/logger';
+import { WhatsAppEvent, WhatsAppEventType } from '../../types/events';
+
+/**
+ * Barramento interno de eventos do WhatsApp.
+ * EventHandlers publica aqui; webhooks e demais consumidores se inscrevem.
+ */
+class EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Cada consumidor (webhooks, streams de clientes) registra um listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish<T = any>(event: WhatsAppEventType, organizationId: string, connectionId: string, data: T): void {
+    const payload: WhatsAppEvent<T> = {
+      event,
+      organizationId,
+      connectionId,
+      timestamp: new Date().toISOString(),
+      data
+    };
+
+    try {
+      this.emitter.emit('event', payload);
+    } catch (error) {
+      logger.error(`Erro ao publicar evento ${event} para ${connectionId}:`, error);
+    }
+  }
+
+  subscribe(listener: (event: WhatsAppEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+}
+
+export default new EventBus();
@@ -0,0 +1,216 @@
+import { GroupMetadata, WASocket } from '@whiskeysockets/baileys';
+import logger from '../../utils/logger';
+import { InstanceData } from '../types/InstanceData';
+import {
+  GroupInfo,
+  GroupInvite,
+  GroupParticipantAction,
+  GroupParticipantResult,
+  UpdateGroupSettingsRequest
+} from '../../types/groups';
+
+// Significado dos códigos retornados pelo WhatsApp por participante
+const PARTICIPANT_ERRORS: Record<string, string> = {
+  '400': 'Requisição inválida',
+  '401': 'Sem permissão de administrador',
+  '403': 'Privacidade do participante não permite adicioná-lo (envie o link de convite)',
+  '404': 'Número não está no WhatsApp ou não participa do grupo',
+  '406': 'Participante não pode ser adicionado',
+  '408': 'Participante saiu do grupo recentemente',
+  '409': 'Participante já está no grupo',
+  '500': 'Grupo cheio ou erro do WhatsApp'
+};
+
+const INVITE_LINK_PREFIX = 'https://chat.whatsapp.com/';
+
+export class GroupService {
+  constructor(private instances: Map<string, InstanceData>) {}
+
+  async createGroup(
+    organizationId: string,
+    connectionId: string,
+    subject: string,
+    participants: string[]
+  ): Promise<{ group: GroupInfo; participants: GroupParticipantResult[] }> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const jids = participants.map(participant => this.toUserJid(participant));
+
+    const metadata = await socket.groupCreate(subject, jids);
+    const added = new Set(metadata.participants.map(participant => participant.id));
+
+    logger.info(`Grupo ${metadata.id} criado em ${connectionId} com ${added.size} participantes`);
+
+    // O WhatsApp não detalha falhas na criação: quem não entrou no grupo é reportado como 403
+    return {
+      group: this.mapGroup(metadata),
+      participants: jids.map(jid => added.has(jid)
+        ? { jid, status: '200', success: true }
+        : { jid, status: '403', success: false, error: PARTICIPANT_ERRORS['403'] })
+    };
+  }
+
+  async getGroup(organizationId: string, connectionId: string, groupId: string): Promise<GroupInfo> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const metadata = await socket.groupMetadata(this.toGroupJid(groupId));
+
+    return this.mapGroup(metadata);
+  }
+
+  async updateParticipants(
+    organizationId: string,
+    connectionId: string,
+    groupId: string,
+    action: GroupParticipantAction,
+    participants: string[]
+  ): Promise<GroupParticipantResult[]> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const groupJid = this.toGroupJid(groupId);
+    const jids = participants.map(participant => this.toUserJid(participant));
+
+    const results = await socket.groupParticipantsUpdate(groupJid, jids, action);
+
+    logger.info(`Participantes do grupo ${groupJid} (${action}) em ${connectionId}: ${results.filter(r => r.status === '200').length}/${jids.length} com sucesso`);
+
+    return results.map((result, index) => {
+      const success = result.status === '200';
+      return {
+        jid: result.jid || jids[index],
+        status: result.status,
+        success,
+        error: success ? undefined : PARTICIPANT_ERRORS[result.status] || `Falha retornada pelo WhatsApp (${result.status})`
+      };
+    });
+  }
+
+  async updateSubject(organizationId: string, connectionId: string, groupId: string, subject: string): Promise<void> {
+    const socket = this.getSocket(organizationId, connectionId);
+    await socket.groupUpdateSubject(this.toGroupJid(groupId), subject);
+  }
+
+  /**
+   * Atualiza a descrição; texto vazio remove a descrição
+   */
+  async updateDescription(organizationId: string, connectionId: string, groupId: string, description: string): Promise<void> {
+    const socket = this.getSocket(organizationId, connectionId);
+    await socket.groupUpdateDescription(this.toGroupJid(groupId), description || undefined);
+  }
+
+  async updatePicture(organizationId: string, connectionId: string, groupId: string, image: Buffer): Promise<void> {
+    const socket = this.getSocket(organizationId, connectionId);
+    await socket.updateProfilePicture(this.toGroupJid(groupId), image);
+  }
+
+  async removePicture(organizationId: string, connectionId: string, groupId: string): Promise<void> {
+    const socket = this.getSocket(organizationId, connectionId);
+    await socket.removeProfilePicture(this.toGroupJid(groupId));
+  }
+
+  async updateSettings(organizationId: string, connectionId: string, groupId: string, settings: UpdateGroupSettingsRequest): Promise<GroupInfo> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const groupJid = this.toGroupJid(groupId);
+
+    if (settings.announcement !== undefined) {
+      await socket.groupSettingUpdate(groupJid, settings.announcement ? 'announcement' : 'not_announcement');
+    }
+
+    if (settings.locked !== undefined) {
+      await socket.groupSettingUpdate(groupJid, settings.locked ? 'locked' : 'unlocked');
+    }
+
+    return this.mapGroup(await socket.groupMetadata(groupJid));
+  }
+
+  async getInviteCode(organizationId: string, connectionId: string, groupId: string): Promise<GroupInvite> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const code = await socket.groupInviteCode(this.toGroupJid(groupId));
+
+    if (!code) {
+      throw new Error('WhatsApp não retornou o código de convite');
+    }
+
+    return { code, link: `${INVITE_LINK_PREFIX}${code}` };
+  }
+
+  /**
+   * Revoga o convite atual e retorna o novo código
+   */
+  async revokeInviteCode(organizationId: string, connectionId: string, groupId: string): Promise<GroupInvite> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const code = await socket.groupRevokeInvite(this.toGroupJid(groupId));
+
+    if (!code) {
+      throw new Error('WhatsApp não retornou o novo código de convite');
+    }
+
+    return { code, link: `${INVITE_LINK_PREFIX}${code}` };
+  }
+
+  async getInviteInfo(organizationId: string, connectionId: string, invite: string): Promise<GroupInfo> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const metadata = await socket.groupGetInviteInfo(this.parseInviteCode(invite));
+
+    return this.mapGroup(metadata);
+  }
+
+  /**
+   * Entra no grupo pelo código ou link de convite e retorna o JID do grupo
+   */
+  async joinByInvite(organizationId: string, connectionId: string, invite: string): Promise<string> {
+    const socket = this.getSocket(organizationId, connectionId);
+    const groupJid = await socket.groupAcceptInvite(this.parseInviteCode(invite));
+
+    if (!groupJid) {
+      throw new Error('Não foi possível entrar no grupo');
+    }
+
+    logger.info(`Conexão ${connectionId} entrou no grupo ${groupJid}`);
+    return groupJid;
+  }
+
+  async leaveGroup(organizationId: string, connectionId: string, groupId: string): Promise<void> {
+    const socket = this.getSocket(organizationId, connectionId);
+    await socket.groupLeave(this.toGroupJid(groupId));
+
+    logger.info(`Conexão ${connectionId} saiu do grupo ${groupId}`);
+  }
+
+  private getSocket(organizationId: string, connectionId: string): WASocket {
+    const instance = this.instances.get(connectionId);
+
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
+      throw new Error('Conexão não encontrada, não conectada ou não autorizada');
+    }
+
+    instance.lastActivity = new Date();
+    return instance.socket;
+  }
+
+  private toGroupJid(groupId: string): string {
+    return groupId.includes('@') ? groupId : `${groupId}@g.us`;
+  }
+
+  private toUserJid(number: string): string {
+    return number.includes('@') ? number : `${number.replace(/\D/g, '')}@s.whatsapp.net`;
+  }
+
+  private parseInviteCode(invite: string): string {
+    return invite.trim().replace(INVITE_LINK_PREFIX, '').split(/[/?]/)[0];
+  }
+
+  private mapGroup(metadata: GroupMetadata): GroupInfo {
+    return {
+      id: metadata.id,
+      subject: metadata.subject,
+      description: metadata.desc || undefined,
+      owner: metadata.owner || undefined,
+      creation: metadata.creation,
+      announce: !!metadata.announce,
+      restrict: !!metadata.restrict,
+      size: metadata.size || metadata.participants.length,
+      participants: metadata.participants.map(participant => ({
+        jid: participant.id,
+        admin: participant.admin || null
+      }))
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { BufferJSON, downloadMediaMessage, normalizeMessageContent, proto, WASocket } from '@whiskeysockets/baileys';
+import { Message as PrismaMessageType } from '@prisma/client';
+import P from 'pino';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { MediaStorage } from './storage/MediaStorage';
+import { createMediaStorage } from './storage/createMediaStorage';
+import { MediaKind, MediaLimitError, MediaSettings, MessageMedia, UpdateMediaSettingsRequest } from '../../types/media';
+
+const MEDIA_KINDS: MediaKind[] = ['image', 'video', 'audio', 'document', 'sticker'];
+
+interface MediaInfo {
+  kind: MediaKind;
+  mimetype: string;
+  fileName?: string;
+  fileLength?: number;
+}
+
+export class MediaService {
+  private storage: MediaStorage;
+  // Teto global para o limite por organização
+  private readonly MAX_SIZE_MB = parseInt(process.env.MEDIA_MAX_SIZE_MB || '100');
+
+  constructor() {
+    this.storage = createMediaStorage();
+  }
+
+  async getSettings(organizationId: string): Promise<MediaSettings> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { mediaAutoDownload: true, mediaMaxSizeMb: true, mediaAllowedTypes: true }
+    });
+
+    if (!organization) {
+      throw new Error('Organização não encontrada');
+    }
+
+    return {
+      autoDownload: organization.mediaAutoDownload,
+      maxSizeMb: organization.mediaMaxSizeMb,
+      allowedTypes: organization.mediaAllowedTypes as MediaKind[]
+    };
+  }
+
+  async updateSettings(organizationId: string, data: UpdateMediaSettingsRequest): Promise<MediaSettings> {
+    if (data.maxSizeMb !== undefined && (!Number.isInteger(data.maxSizeMb) || data.maxSizeMb < 1 || data.maxSizeMb > this.MAX_SIZE_MB)) {
+      throw new Error(`maxSizeMb deve ser um inteiro entre 1 e ${this.MAX_SIZE_MB}`);
+    }
+
+    if (data.allowedTypes !== undefined) {
+      if (!Array.isArray(data.allowedTypes) || data.allowedTypes.some(type => !MEDIA_KINDS.includes(type))) {
+        throw new Error(`allowedTypes aceita apenas: ${MEDIA_KINDS.join(', ')}`);
+      }
+    }
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        mediaAutoDownload: data.autoDownload !== undefined ? Boolean(data.autoDownload) : undefined,
+        mediaMaxSizeMb: data.maxSizeMb,
+        mediaAllowedTypes: data.allowedTypes ? Array.from(new Set(data.allowedTypes)) : undefined
+      }
+    });
+
+    return this.getSettings(organizationId);
+  }
+
+  /**
+   * Baixa a mídia de uma mensagem recebida quando a organização habilitou o download automático
+   */
+  async handleIncomingMessage(organizationId: string, connectionId: string, webMessage: proto.IWebMessageInfo, socket: WASocket): Promise<void> {
+    if (!webMessage.key?.id || !this.getMediaInfo(webMessage.message)) {
+      return;
+    }
+
+    const settings = await this.getSettings(organizationId);
+    if (!settings.autoDownload) {
+      return;
+    }
+
+    try {
+      await this.downloadAndStore(organizationId, connectionId, webMessage, socket, settings);
+    } catch (error) {
+      if (error instanceof MediaLimitError) {
+        logger.debug(`Mídia ${webMessage.key.id} de ${connectionId} não baixada: ${error.message}`);
+        return;
+      }
+      logger.warn(`Erro ao baixar mídia ${webMessage.key.id} de ${connectionId}:`, error);
+    }
+  }
+
+  /**
+   * Retorna a mídia de uma mensagem salva, baixando do WhatsApp se ainda não estiver armazenada
+   */
+  async getMessageMedia(
+    organizationId: string,
+    connectionId: string,
+    messageId: string,
+    socket?: WASocket
+  ): Promise<MessageMedia | null> {
+    const record = await prisma.message.findFirst({
+      where: { organizationId, connectionId, messageId }
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    const webMessage = this.parseRaw(record);
+    const info = this.getMediaInfo(webMessage?.message);
+
+    if (!webMessage || !info) {
+      throw new Error('Mensagem não contém mídia');
+    }
+
+    if (record.mediaStorageKey) {
+      const buffer = await this.storage.read(record.mediaStorageKey);
+      if (buffer) {
+        return {
+          buffer,
+          mimetype: info.mimetype,
+          fileName: this.getFileName(messageId, info),
+          size: buffer.length
+        };
+      }
+      logger.warn(`Mídia ${record.mediaStorageKey} não encontrada no armazenamento, baixando novamente`);
+    }
+
+    if (!socket) {
+      throw new Error('Conexão não está ativa para baixar a mídia');
+    }
+
+    return this.downloadAndStore(organizationId, connectionId, webMessage, socket, await this.getSettings(organizationId));
+  }
+
+  private async downloadAndStore(
+    organizationId: string,
+    connectionId: string,
+    webMessage: proto.IWebMessageInfo,
+    socket: WASocket,
+    settings: MediaSettings
+  ): Promise<MessageMedia> {
+    const info = this.getMediaInfo(webMessage.message)!;
+    const maxBytes = settings.maxSizeMb * 1024 * 1024;
+
+    if (settings.allowedTypes.length > 0 && !settings.allowedTypes.includes(info.kind)) {
+      throw new MediaLimitError(`Tipo de mídia não permitido: ${info.kind}`);
+    }
+
+    if (info.fileLength && info.fileLength > maxBytes) {
+      throw new MediaLimitError(`Mídia excede o limite de ${settings.maxSizeMb}MB`);
+    }
+
+    const buffer = await downloadMediaMessage(
+      webMessage as any,
+      'buffer',
+      {},
+      {
+        logger: P({ level: 'silent' }),
+        reuploadRequest: socket.updateMediaMessage
+      }
+    ) as Buffer;
+
+    // fileLength pode não vir na mensagem
+    if (buffer.length > maxBytes) {
+      throw new MediaLimitError(`Mídia excede o limite de ${settings.maxSizeMb}MB`);
+    }
+
+    const messageId = webMessage.key!.id!;
+    const storageKey = `${organizationId}/${connectionId}/${this.getFileName(messageId, info, true)}`;
+
+    await this.storage.save(storageKey, buffer, info.mimetype);
+    await prisma.message.updateMany({
+      where: { connectionId, remoteJid: webMessage.key!.remoteJid!, messageId },
+      data: { mediaStorageKey: storageKey, mediaSize: buffer.length }
+    });
+
+    logger.info(`Mídia ${messageId} de ${connectionId} armazenada (${this.storage.driver}, ${buffer.length} bytes)`);
+
+    return {
+      buffer,
+      mimetype: info.mimetype,
+      fileName: this.getFileName(messageId, info),
+      size: buffer.length
+    };
+  }
+
+  private getMediaInfo(message?: proto.IMessage | null): MediaInfo | null {
+    const content = normalizeMessageContent(message);
+    if (!content) {
+      return null;
+    }
+
+    for (const kind of MEDIA_KINDS) {
+      const media = (content as any)[`${kind}Message`];
+      if (media) {
+        return {
+          kind,
+          mimetype: media.mimetype || 'application/octet-stream',
+          fileName: kind === 'document' ? media.fileName || undefined : undefined,
+          fileLength: media.fileLength ? Number(media.fileLength) : undefined
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Nome do arquivo para download; no armazenamento usa apenas o id da mensagem e a extensão
+   */
+  private getFileName(messageId: string, info: MediaInfo, forStorage = false): string {
+    if (info.fileName && !forStorage) {
+      return info.fileName;
+    }
+
+    const extension = info.fileName?.includes('.')
+      ? info.fileName.split('.').pop()!
+      : info.mimetype.split('/')[1]?.split(';')[0].trim() || 'bin';
+
+    return `${messageId.replace(/[^a-zA-Z0-9_-]/g, '_')}.${extension.replace(/[^a-zA-Z0-9]/g, '')}`;
+  }
+
+  private parseRaw(record: PrismaMessageType): proto.IWebMessageInfo | null {
+    if (!record.raw) {
+      return null;
+    }
+
+    return JSON.parse(JSON.stringify(record.raw), BufferJSON.reviver);
+  }
+}
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+import { MediaStorage } from './MediaStorage';
+
+export class LocalMediaStorage implements MediaStorage {
+  readonly driver = 'local' as const;
+
+  constructor(private baseDir: string) {}
+
+  async save(key: string, buffer: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, buffer);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.baseDir, key);
+
+    // Impedir que a chave aponte para fora do diretório base
+    if (!filePath.startsWith(path.resolve(this.baseDir) + path.sep)) {
+      throw new Error(`Chave de mídia inválida: ${key}`);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,20 @@
+export type MediaStorageDriver = 'local' | 's3';
+
+/**
+ * Armazenamento das mídias baixadas das mensagens
+ */
+export interface MediaStorage {
+  readonly driver: MediaStorageDriver;
+
+  /**
+   * Grava o arquivo na chave informada (ex.: <organizationId>/<connectionId>/<messageId>.jpg)
+   */
+  save(key: string, buffer: Buffer, mimetype: string): Promise<void>;
+
+  /**
+   * Lê o arquivo; retorna null se não existir
+   */
+  read(key: string): Promise<Buffer | null>;
+
+  remove(key: string): Promise<void>;
+}
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { MediaStorage } from './MediaStorage';
+
+export interface S3MediaStorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // ex.: http://localhost:9000 para MinIO
+  forcePathStyle: boolean;
+}
+
+/**
+ * Armazenamento compatível com S3 (AWS, MinIO, R2...) usando requisições
+ * assinadas com AWS Signature V4
+ */
+export class S3MediaStorage implements MediaStorage {
+  readonly driver = 's3' as const;
+
+  constructor(private config: S3MediaStorageConfig) {}
+
+  async save(key: string, buffer: Buffer, mimetype: string): Promise<void> {
+    const response = await this.request('PUT', key, buffer, { 'content-type': mimetype });
+
+    if (!response.ok) {
+      throw new Error(`Falha ao gravar mídia no S3 (${response.status}): ${await response.text()}`);
+    }
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Falha ao ler mídia do S3 (${response.status}): ${await response.text()}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async remove(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Falha ao remover mídia do S3 (${response.status})`);
+    }
+  }
+
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = this.buildUrl(key);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = this.sha256(body || '');
+
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce<Buffer>(
+      (key, part) => this.hmac(key, part),
+      this.hmac(this.hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region)
+    );
+    const signature = this.hmac(signingKey, stringToSign).toString('hex');
+
+    return fetch(url, {
+      method,
+      body,
+      headers: {
+        ...headers,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      signal: AbortSignal.timeout(30000)
+    });
+  }
+
+  private buildUrl(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.config;
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    const encodedKey = key.split('/').map(part => this.encode(part)).join('/');
+
+    if (forcePathStyle) {
+      return new URL(`${base.origin}/${bucket}/${encodedKey}`);
+    }
+
+    return new URL(`${base.protocol}//${bucket}.${base.host}/${encodedKey}`);
+  }
+
+  // Codificação RFC 3986 exigida na assinatura
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private sha256(value: string | Buffer): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+
+  private hmac(key: string | Buffer, value: string): Buffer {
+    return crypto.createHmac('sha256', key).update(value).digest();
+  }
+}
@@ -0,0 +1,37 @@
+import path from 'path';
+import logger from '../../../utils/logger';
+import { MediaStorage } from './MediaStorage';
+import { LocalMediaStorage } from './LocalMediaStorage';
+import { S3MediaStorage } from './S3MediaStorage';
+
+/**
+ * Seleciona o armazenamento de mídias via MEDIA_STORAGE
+ * ('local' por padrão, em uploads/media; 's3' para qualquer serviço compatível com S3)
+ */
+export function createMediaStorage(): MediaStorage {
+  const driver = (process.env.MEDIA_STORAGE || 'local').toLowerCase();
+
+  if (driver === 's3') {
+    const bucket = process.env.MEDIA_S3_BUCKET;
+    const accessKeyId = process.env.MEDIA_S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.MEDIA_S3_SECRET_ACCESS_KEY;
+
+    if (bucket && accessKeyId && secretAccessKey) {
+      logger.info(`Mídias armazenadas no S3 (bucket ${bucket})`);
+      return new S3MediaStorage({
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+        region: process.env.MEDIA_S3_REGION || 'us-east-1',
+        endpoint: process.env.MEDIA_S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.MEDIA_S3_FORCE_PATH_STYLE !== 'false'
+      });
+    }
+
+    logger.warn('MEDIA_STORAGE=s3 sem MEDIA_S3_BUCKET/MEDIA_S3_ACCESS_KEY_ID/MEDIA_S3_SECRET_ACCESS_KEY, usando armazenamento local');
+  } else if (driver !== 'local') {
+    logger.warn(`MEDIA_STORAGE inválido (${driver}), usando 'local'`);
+  }
+
+  return new LocalMediaStorage(process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), 'uploads', 'media'));
+}
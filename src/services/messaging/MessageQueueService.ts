@@ -0,0 +1,541 @@
+import { Prisma, MessageJob as PrismaMessageJobType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { BalanceService } from '../monetization/BalanceService';
+import { BillableAction, Charge } from '../../types/monetization';
+import {
+  MessageJob,
+  MessageJobStatus,
+  MessageJobType,
+  SendSettings,
+  UpdateSendSettingsRequest,
+  FileJobPayload,
+  ReplyJobPayload,
+  RichJobPayload
+} from '../../types/messageQueue';
+import { SendRichMessageRequest } from '../../types/messages';
+
+const QUEUE_DIR = path.join(process.cwd(), 'uploads', 'queue');
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export type QueuedJobRecord = PrismaMessageJobType;
+
+export class MessageQueueService {
+  private readonly MAX_ATTEMPTS = parseInt(process.env.MESSAGE_QUEUE_MAX_ATTEMPTS || '3');
+  private readonly RETRY_DELAY = parseInt(process.env.MESSAGE_QUEUE_RETRY_DELAY_MS || '30000');
+  // Jobs em processamento há mais tempo que isso voltam para a fila (ex.: servidor reiniciado no meio do envio)
+  private readonly STALE_PROCESSING_MS = 5 * 60 * 1000;
+  private balanceService: BalanceService;
+
+  constructor() {
+    this.balanceService = new BalanceService();
+  }
+
+  /**
+   * Enfileira uma mensagem de texto. `charge` é a cobrança já feita pelo envio, estornada se ele não acontecer.
+   */
+  async enqueueText(organizationId: string, connectionId: string, to: string, message: string, charge?: Charge): Promise<MessageJob> {
+    await this.ensureConnection(organizationId, connectionId);
+
+    const job = await prisma.messageJob.create({
+      data: {
+        organizationId,
+        connectionId,
+        type: 'text',
+        to,
+        payload: { message },
+        cost: new Decimal(charge?.amount || 0),
+        planPeriodId: charge?.planPeriodId
+      }
+    });
+
+    return this.mapJobFromPrisma(job);
+  }
+
+  /**
+   * Enfileira um arquivo, gravando o conteúdo em disco até o envio
+   */
+  async enqueueFile(
+    organizationId: string,
+    connectionId: string,
+    to: string,
+    fileBuffer: Buffer,
+    fileName: string,
+    mimetype: string,
+    caption?: string,
+    charge?: Charge
+  ): Promise<MessageJob> {
+    await this.ensureConnection(organizationId, connectionId);
+
+    if (!fs.existsSync(QUEUE_DIR)) {
+      fs.mkdirSync(QUEUE_DIR, { recursive: true });
+    }
+
+    const jobId = uuidv4();
+    const filePath = path.join(QUEUE_DIR, jobId);
+    fs.writeFileSync(filePath, fileBuffer);
+
+    const payload: FileJobPayload = { fileName, mimetype, filePath };
+    if (caption) {
+      payload.caption = caption;
+    }
+
+    try {
+      const job = await prisma.messageJob.create({
+        data: {
+          id: jobId,
+          organizationId,
+          connectionId,
+          type: 'file',
+          to,
+          payload: payload as unknown as Prisma.InputJsonObject,
+          cost: new Decimal(charge?.amount || 0),
+          planPeriodId: charge?.planPeriodId
+        }
+      });
+
+      return this.mapJobFromPrisma(job);
+    } catch (error) {
+      this.removeJobFile(payload);
+      throw error;
+    }
+  }
+
+  /**
+   * Enfileira uma mensagem interativa (localização, contato, enquete, reação ou texto com menções)
+   */
+  async enqueueRich(organizationId: string, request: SendRichMessageRequest, charge?: Charge): Promise<MessageJob> {
+    await this.ensureConnection(organizationId, request.connectionId);
+
+    const { connectionId, to, ...rest } = request;
+    const payload: RichJobPayload = rest;
+
+    const job = await prisma.messageJob.create({
+      data: {
+        organizationId,
+        connectionId,
+        type: 'rich',
+        to: to || '',
+        payload: payload as unknown as Prisma.InputJsonObject,
+        cost: new Decimal(charge?.amount || 0),
+        planPeriodId: charge?.planPeriodId
+      }
+    });
+
+    return this.mapJobFromPrisma(job);
+  }
+
+  /**
+   * Enfileira uma resposta automática para o chat que disparou a regra
+   */
+  async enqueueReply(organizationId: string, connectionId: string, remoteJid: string, payload: ReplyJobPayload, charge?: Charge): Promise<MessageJob> {
+    const job = await prisma.messageJob.create({
+      data: {
+        organizationId,
+        connectionId,
+        type: 'reply',
+        to: remoteJid,
+        payload: payload as unknown as Prisma.InputJsonObject,
+        cost: new Decimal(charge?.amount || 0),
+        planPeriodId: charge?.planPeriodId
+      }
+    });
+
+    return this.mapJobFromPrisma(job);
+  }
+
+  async getJob(organizationId: string, jobId: string): Promise<MessageJob | null> {
+    const job = await prisma.messageJob.findFirst({
+      where: { id: jobId, organizationId }
+    });
+
+    return job ? this.mapJobFromPrisma(job) : null;
+  }
+
+  async getSendSettings(organizationId: string, connectionId: string): Promise<SendSettings> {
+    const connection = await prisma.connection.findFirst({
+      where: { id: connectionId, organizationId }
+    });
+
+    if (!connection) {
+      throw new Error('Conexão não encontrada');
+    }
+
+    return this.mapSettingsFromPrisma(connection);
+  }
+
+  async updateSendSettings(organizationId: string, connectionId: string, data: UpdateSendSettingsRequest): Promise<SendSettings> {
+    const current = await this.getSendSettings(organizationId, connectionId);
+    const changes = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+    const settings: SendSettings = { ...current, ...changes };
+
+    if (!Number.isInteger(settings.messagesPerMinute) || settings.messagesPerMinute < 1 || settings.messagesPerMinute > 60) {
+      throw new Error('messagesPerMinute deve ser um inteiro entre 1 e 60');
+    }
+
+    if (!Number.isInteger(settings.jitterMinMs) || !Number.isInteger(settings.jitterMaxMs)
+      || settings.jitterMinMs < 0 || settings.jitterMaxMs < settings.jitterMinMs) {
+      throw new Error('jitterMinMs e jitterMaxMs devem ser inteiros com 0 <= jitterMinMs <= jitterMaxMs');
+    }
+
+    if (settings.dailyLimit !== null && (!Number.isInteger(settings.dailyLimit) || settings.dailyLimit < 1)) {
+      throw new Error('dailyLimit deve ser um inteiro positivo ou null');
+    }
+
+    if (!settings.quietHoursStart !== !settings.quietHoursEnd) {
+      throw new Error('Informe quietHoursStart e quietHoursEnd juntos (ou ambos null)');
+    }
+
+    if (settings.quietHoursStart && (!TIME_PATTERN.test(settings.quietHoursStart) || !TIME_PATTERN.test(settings.quietHoursEnd!))) {
+      throw new Error('Horários de silêncio devem estar no formato HH:mm');
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone });
+    } catch {
+      throw new Error(`Fuso horário inválido: ${settings.timezone}`);
+    }
+
+    const connection = await prisma.connection.update({
+      where: { id: connectionId },
+      data: {
+        messagesPerMinute: settings.messagesPerMinute,
+        jitterMinMs: settings.jitterMinMs,
+        jitterMaxMs: settings.jitterMaxMs,
+        dailyLimit: settings.dailyLimit,
+        quietHoursStart: settings.quietHoursStart || null,
+        quietHoursEnd: settings.quietHoursEnd || null,
+        timezone: settings.timezone
+      }
+    });
+
+    return this.mapSettingsFromPrisma(connection);
+  }
+
+  /**
+   * Conexões com jobs prontos para envio, com suas configurações de ritmo
+   */
+  async getConnectionsWithDueJobs(): Promise<Array<{ connectionId: string; organizationId: string; settings: SendSettings }>> {
+    const due = await prisma.messageJob.groupBy({
+      by: ['connectionId'],
+      where: {
+        status: 'queued',
+        scheduledAt: { lte: new Date() }
+      }
+    });
+
+    if (due.length === 0) {
+      return [];
+    }
+
+    const connections = await prisma.connection.findMany({
+      where: { id: { in: due.map(item => item.connectionId) } }
+    });
+
+    return connections.map(connection => ({
+      connectionId: connection.id,
+      organizationId: connection.organizationId,
+      settings: this.mapSettingsFromPrisma(connection)
+    }));
+  }
+
+  /**
+   * Reserva o próximo job da conexão. Retorna null se outro processo o pegou antes.
+   */
+  async claimNextJob(connectionId: string): Promise<QueuedJobRecord | null> {
+    const job = await prisma.messageJob.findFirst({
+      where: {
+        connectionId,
+        status: 'queued',
+        scheduledAt: { lte: new Date() }
+      },
+      orderBy: [{ scheduledAt: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    if (!job) {
+      return null;
+    }
+
+    const claimed = await prisma.messageJob.updateMany({
+      where: { id: job.id, status: 'queued' },
+      data: {
+        status: 'processing',
+        attempts: { increment: 1 }
+      }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    return { ...job, status: 'processing', attempts: job.attempts + 1 };
+  }
+
+  async markSent(job: QueuedJobRecord, waJid?: string, waMessageId?: string): Promise<void> {
+    await prisma.messageJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'sent',
+        error: null,
+        waJid: waJid || null,
+        waMessageId: waMessageId || null,
+        sentAt: new Date()
+      }
+    });
+
+    this.removeJobFile(job.payload);
+  }
+
+  /**
+   * Registra a falha do envio, reagendando enquanto houver tentativas
+   */
+  async markFailed(job: QueuedJobRecord, error: string, retryable: boolean = true): Promise<MessageJobStatus> {
+    const willRetry = retryable && job.attempts < this.MAX_ATTEMPTS;
+    const status: MessageJobStatus = willRetry ? 'queued' : 'failed';
+
+    await prisma.messageJob.update({
+      where: { id: job.id },
+      data: {
+        status,
+        error,
+        scheduledAt: willRetry ? new Date(Date.now() + this.RETRY_DELAY) : undefined
+      }
+    });
+
+    if (!willRetry) {
+      this.removeJobFile(job.payload);
+      await this.refund(job, 'Reembolso de envio que falhou');
+    }
+
+    return status;
+  }
+
+  /**
+   * Estado atual de vários jobs (usado pelas campanhas para acompanhar seus envios)
+   */
+  async getJobsByIds(jobIds: string[]): Promise<QueuedJobRecord[]> {
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    return prisma.messageJob.findMany({
+      where: { id: { in: jobIds } }
+    });
+  }
+
+  /**
+   * Cancela jobs que ainda não começaram a ser enviados
+   */
+  async cancelJobs(jobIds: string[]): Promise<number> {
+    if (jobIds.length === 0) {
+      return 0;
+    }
+
+    const jobs = await prisma.messageJob.findMany({
+      where: {
+        id: { in: jobIds },
+        status: 'queued'
+      }
+    });
+
+    let cancelled = 0;
+
+    for (const job of jobs) {
+      const result = await prisma.messageJob.updateMany({
+        where: { id: job.id, status: 'queued' },
+        data: {
+          status: 'cancelled',
+          error: 'Cancelado antes do envio'
+        }
+      });
+
+      if (result.count > 0) {
+        this.removeJobFile(job.payload);
+        await this.refund(job, 'Reembolso de envio cancelado');
+        cancelled++;
+      }
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Devolve para a fila jobs presos em 'processing'
+   */
+  async releaseStaleJobs(): Promise<number> {
+    const result = await prisma.messageJob.updateMany({
+      where: {
+        status: 'processing',
+        updatedAt: { lt: new Date(Date.now() - this.STALE_PROCESSING_MS) }
+      },
+      data: { status: 'queued' }
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Quantidade de mensagens enviadas pela conexão no dia atual (no fuso da conexão)
+   */
+  async countSentToday(connectionId: string, timezone: string): Promise<number> {
+    return prisma.messageJob.count({
+      where: {
+        connectionId,
+        status: 'sent',
+        sentAt: { gte: this.getStartOfDay(new Date(), timezone) }
+      }
+    });
+  }
+
+  isQuietHours(settings: SendSettings, date: Date = new Date()): boolean {
+    if (!settings.quietHoursStart || !settings.quietHoursEnd) {
+      return false;
+    }
+
+    const { hour, minute } = this.getLocalTime(date, settings.timezone);
+    const now = hour * 60 + minute;
+    const start = this.toMinutes(settings.quietHoursStart);
+    const end = this.toMinutes(settings.quietHoursEnd);
+
+    if (start === end) {
+      return false;
+    }
+
+    // Intervalo que atravessa a meia-noite (ex.: 22:00 - 08:00)
+    return start < end
+      ? now >= start && now < end
+      : now >= start || now < end;
+  }
+
+  readJobFile(payload: FileJobPayload): Buffer {
+    return fs.readFileSync(payload.filePath);
+  }
+
+  private removeJobFile(payload: Prisma.JsonValue | FileJobPayload): void {
+    const filePath = (payload as FileJobPayload | null)?.filePath;
+    if (!filePath) {
+      return;
+    }
+
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      logger.warn(`Erro ao remover arquivo da fila ${filePath}:`, error);
+    }
+  }
+
+  private async refund(job: QueuedJobRecord, description: string): Promise<void> {
+    const cost = job.cost.toNumber();
+    if (cost <= 0 && !job.planPeriodId) {
+      return;
+    }
+
+    try {
+      await this.balanceService.refundCharge(job.organizationId, {
+        action: this.getChargedAction(job),
+        amount: cost,
+        planPeriodId: job.planPeriodId || undefined
+      }, `${description} para ${job.to}`);
+    } catch (error) {
+      logger.error(`Erro ao reembolsar envio ${job.id}:`, error);
+    }
+  }
+
+  private getChargedAction(job: QueuedJobRecord): BillableAction {
+    const hasMedia = job.type === 'file' || (job.type === 'reply' && !!(job.payload as unknown as ReplyJobPayload).mediaUrl);
+    return hasMedia ? 'media_message' : 'text_message';
+  }
+
+  private async ensureConnection(organizationId: string, connectionId: string): Promise<void> {
+    const connection = await prisma.connection.findFirst({
+      where: { id: connectionId, organizationId },
+      select: { id: true }
+    });
+
+    if (!connection) {
+      throw new Error('Conexão não encontrada ou não autorizada');
+    }
+  }
+
+  private getLocalTime(date: Date, timezone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date);
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value || '0');
+
+    return {
+      year: get('year'),
+      month: get('month'),
+      day: get('day'),
+      hour: get('hour'),
+      minute: get('minute'),
+      second: get('second')
+    };
+  }
+
+  private getStartOfDay(date: Date, timezone: string): Date {
+    const local = this.getLocalTime(date, timezone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+    const offset = localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+
+    return new Date(Date.UTC(local.year, local.month - 1, local.day) - offset);
+  }
+
+  private toMinutes(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + minute;
+  }
+
+  private mapSettingsFromPrisma(connection: {
+    messagesPerMinute: number;
+    jitterMinMs: number;
+    jitterMaxMs: number;
+    dailyLimit: number | null;
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+    timezone: string;
+  }): SendSettings {
+    return {
+      messagesPerMinute: connection.messagesPerMinute,
+      jitterMinMs: connection.jitterMinMs,
+      jitterMaxMs: connection.jitterMaxMs,
+      dailyLimit: connection.dailyLimit,
+      quietHoursStart: connection.quietHoursStart,
+      quietHoursEnd: connection.quietHoursEnd,
+      timezone: connection.timezone
+    };
+  }
+
+  private mapJobFromPrisma(job: PrismaMessageJobType): MessageJob {
+    return {
+      id: job.id,
+      connectionId: job.connectionId,
+      type: job.type as MessageJobType,
+      to: job.to,
+      status: job.status as MessageJobStatus,
+      attempts: job.attempts,
+      error: job.error || undefined,
+      waJid: job.waJid || undefined,
+      waMessageId: job.waMessageId || undefined,
+      cost: job.cost.toNumber(),
+      scheduledAt: job.scheduledAt,
+      sentAt: job.sentAt || undefined,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import logger from '../../utils/logger';
+import whatsappService from '../whatsappService';
+import { MessageQueueService, QueuedJobRecord } from './MessageQueueService';
+import { FileJobPayload, InvalidRecipientError, ReplyJobPayload, RichJobPayload, SendSettings, TextJobPayload } from '../../types/messageQueue';
+
+class MessageQueueWorker {
+  private messageQueue: MessageQueueService;
+  private interval?: NodeJS.Timeout;
+  private running = false;
+  // Próximo envio permitido por conexão (timestamp em ms)
+  private nextSendAt: Map<string, number> = new Map();
+  // Envios presos em processamento (servidor reiniciado ou derrubado no meio do envio) são
+  // devolvidos à fila periodicamente, e não só na inicialização
+  private readonly STALE_CHECK_INTERVAL = 60 * 1000;
+  private lastStaleCheck = 0;
+
+  constructor() {
+    this.messageQueue = new MessageQueueService();
+  }
+
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.interval = setInterval(() => {
+      if (this.running) return;
+
+      this.running = true;
+      this.tick()
+        .catch(error => logger.error('Erro ao processar fila de mensagens:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, 1000); // A cada 1 segundo
+
+    logger.info('Fila de envio de mensagens iniciada');
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  private async releaseStaleJobs(): Promise<void> {
+    try {
+      const released = await this.messageQueue.releaseStaleJobs();
+      if (released > 0) {
+        logger.info(`${released} envios presos em processamento voltaram para a fila`);
+      }
+    } catch (error) {
+      logger.error('Erro ao liberar envios presos:', error);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (Date.now() - this.lastStaleCheck >= this.STALE_CHECK_INTERVAL) {
+      this.lastStaleCheck = Date.now();
+      await this.releaseStaleJobs();
+    }
+
+    const connections = await this.messageQueue.getConnectionsWithDueJobs();
+    const now = Date.now();
+
+    for (const { connectionId, organizationId, settings } of connections) {
+      if ((this.nextSendAt.get(connectionId) || 0) > now) continue;
+
+      // Mensagens aguardam na fila até a conexão voltar
+      const connection = whatsappService.getConnection(organizationId, connectionId);
+      if (!connection || connection.status !== 'connected') continue;
+
+      if (this.messageQueue.isQuietHours(settings)) {
+        this.nextSendAt.set(connectionId, now + 60000);
+        continue;
+      }
+
+      if (settings.dailyLimit !== null) {
+        const sentToday = await this.messageQueue.countSentToday(connectionId, settings.timezone);
+        if (sentToday >= settings.dailyLimit) {
+          this.nextSendAt.set(connectionId, now + 5 * 60000);
+          continue;
+        }
+      }
+
+      const job = await this.messageQueue.claimNextJob(connectionId);
+      if (!job) continue;
+
+      await this.processJob(job);
+      this.nextSendAt.set(connectionId, Date.now() + this.getInterval(settings));
+    }
+  }
+
+  private async processJob(job: QueuedJobRecord): Promise<void> {
+    try {
+      const result = await this.deliver(job);
+      await this.messageQueue.markSent(job, result.wa_id, result.message_id);
+    } catch (error) {
+      const retryable = !(error instanceof InvalidRecipientError);
+      const status = await this.messageQueue.markFailed(job, (error as Error).message, retryable);
+
+      logger.warn(`Envio ${job.id} da conexão ${job.connectionId} falhou (tentativa ${job.attempts}): ${(error as Error).message}${status === 'queued' ? ', reagendado' : ''}`);
+    }
+  }
+
+  private async deliver(job: QueuedJobRecord): Promise<{ wa_id?: string; message_id?: string }> {
+    switch (job.type) {
+      case 'file':
+        return this.sendFile(job);
+      case 'rich':
+        return whatsappService.sendRichMessage(job.organizationId, {
+          ...(job.payload as unknown as RichJobPayload),
+          connectionId: job.connectionId,
+          to: job.to || undefined
+        });
+      case 'reply':
+        return whatsappService.sendReply(job.organizationId, job.connectionId, job.to, job.payload as unknown as ReplyJobPayload);
+      default:
+        return whatsappService.sendMessage(job.organizationId, job.connectionId, job.to, (job.payload as unknown as TextJobPayload).message);
+    }
+  }
+
+  private async sendFile(job: QueuedJobRecord) {
+    const payload = job.payload as unknown as FileJobPayload;
+    const fileBuffer = this.messageQueue.readJobFile(payload);
+
+    return whatsappService.sendFile(
+      job.organizationId,
+      job.connectionId,
+      job.to,
+      fileBuffer,
+      payload.fileName,
+      payload.mimetype,
+      payload.caption
+    );
+  }
+
+  /**
+   * Intervalo entre envios: ritmo por minuto mais um atraso aleatório
+   */
+  private getInterval(settings: SendSettings): number {
+    const base = Math.ceil(60000 / settings.messagesPerMinute);
+    const jitter = settings.jitterMinMs + Math.random() * (settings.jitterMaxMs - settings.jitterMinMs);
+
+    return base + Math.round(jitter);
+  }
+}
+
+export default new MessageQueueWorker();
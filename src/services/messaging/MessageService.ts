@@ -1,28 +1,37 @@
-import { delay } from '@whiskeysockets/baileys';
+import { AnyMessageContent, delay, proto, WAUrlInfo } from '@whiskeysockets/baileys';
 import logger from '../../utils/logger';
 import { InstanceData } from '../types/InstanceData';
-import { MessageHandler } from './MessageHandler';
 import { ContactService } from '../contacts/ContactService';
+import { MessageStorageService } from './MessageStorageService';
+import { MediaService } from '../media/MediaService';
+import { InvalidRecipientError, ReplyJobPayload } from '../../types/messageQueue';
+import { OutgoingContactCard, SendRichMessageRequest, SentMessageResult } from '../../types/messages';
+import { MessageMedia } from '../../types/media';
+import { fetchPublicUrl } from '../webhooks/outboundUrl';
 
 export class MessageService {
+  private readonly MAX_REPLY_MEDIA_MB = parseInt(process.env.MEDIA_MAX_SIZE_MB || '100');
+
   constructor(
     private instances: Map<string, InstanceData>,
-    private contactService: ContactService
+    private contactService: ContactService,
+    private messageStorage: MessageStorageService,
+    private mediaService: MediaService
   ) {}
 
-  async sendMessage(userId: string, connectionId: string, to: string, message: string): Promise<{ success: boolean; wa_id?: string; message?: string }> {
+  async sendMessage(organizationId: string, connectionId: string, to: string, message: string): Promise<{ success: boolean; wa_id?: string; message_id?: string; message?: string }> {
     const instance = this.instances.get(connectionId);
     
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada, não conectada ou não autorizada');
     }
 
     try {
       // Validar número e obter JID correto
-      const validJid = await this.contactService.getValidJid(userId, connectionId, to);
+      const validJid = await this.contactService.getValidJid(organizationId, connectionId, to);
       
       if (!validJid) {
-        throw new Error(`Número ${to} não está no WhatsApp ou é inválido`);
+        throw new InvalidRecipientError(to);
       }
       
       // Simular digitação para parecer mais natural
@@ -33,7 +42,7 @@ export class MessageService {
       await instance.socket.sendPresenceUpdate('paused', validJid);
       await delay(500);
       
-      await instance.socket.sendMessage(validJid, { text: message });
+      const sent = await instance.socket.sendMessage(validJid, { text: message });
       
       instance.lastActivity = new Date();
       logger.info(`Mensagem enviada de ${connectionId} para ${validJid}: ${message.substring(0, 50)}${message.length > 50 ? '...' : ''}`);
@@ -41,6 +50,7 @@ export class MessageService {
       return {
         success: true,
         wa_id: validJid,
+        message_id: sent?.key.id || undefined,
         message: 'Mensagem enviada com sucesso'
       };
     } catch (error) {
@@ -50,26 +60,26 @@ export class MessageService {
   }
 
   async sendFile(
-    userId: string,
+    organizationId: string,
     connectionId: string, 
     to: string, 
     fileBuffer: Buffer, 
     fileName: string, 
     mimetype: string, 
     caption?: string
-  ): Promise<{ success: boolean; wa_id?: string; message?: string }> {
+  ): Promise<{ success: boolean; wa_id?: string; message_id?: string; message?: string }> {
     const instance = this.instances.get(connectionId);
     
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada, não conectada ou não autorizada');
     }
 
     try {
       // Validar número e obter JID correto
-      const validJid = await this.contactService.getValidJid(userId, connectionId, to);
+      const validJid = await this.contactService.getValidJid(organizationId, connectionId, to);
       
       if (!validJid) {
-        throw new Error(`Número ${to} não está no WhatsApp ou é inválido`);
+        throw new InvalidRecipientError(to);
       }
       
       const messageContent: any = {
@@ -89,7 +99,7 @@ export class MessageService {
         messageContent.document = fileBuffer;
       }
 
-      await instance.socket.sendMessage(validJid, messageContent);
+      const sent = await instance.socket.sendMessage(validJid, messageContent);
       
       instance.lastActivity = new Date();
       logger.info(`Arquivo enviado de ${connectionId} para ${validJid}: ${fileName} (${mimetype})`);
@@ -97,6 +107,7 @@ export class MessageService {
       return {
         success: true,
         wa_id: validJid,
+        message_id: sent?.key.id || undefined,
         message: 'Arquivo enviado com sucesso'
       };
     } catch (error) {
@@ -106,29 +117,248 @@ export class MessageService {
   }
 
   /**
-   * Baixa mídia de uma mensagem
+   * Envia localização, cartão de contato, enquete, reação ou texto com
+   * menções, resposta citada e prévia de link
    */
-  async downloadMedia(userId: string, connectionId: string, messageInfo: any): Promise<Buffer | null> {
+  async sendRichMessage(organizationId: string, request: SendRichMessageRequest): Promise<SentMessageResult> {
+    const { connectionId } = request;
     const instance = this.instances.get(connectionId);
-    
-    if (!instance || instance.status !== 'connected' || instance.userId !== userId) {
+
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
       throw new Error('Conexão não encontrada, não conectada ou não autorizada');
     }
 
     try {
-      const message = messageInfo.message;
-      if (!message || !MessageHandler.hasMedia(message)) {
-        throw new Error('Mensagem não contém mídia');
-      }
+      // Reações usam o chat da mensagem original
+      const target = request.type === 'reaction'
+        ? await this.getStoredMessage(organizationId, connectionId, request.reaction!.messageId)
+        : undefined;
 
-      // Usar downloadMediaMessage do Baileys
-      const buffer = await (instance.socket as any).downloadMediaMessage(messageInfo);
-      logger.info(`Mídia baixada de ${connectionId}: ${buffer?.length || 0} bytes`);
-      
-      return buffer || null;
+      const jid = target?.key.remoteJid || await this.resolveJid(organizationId, connectionId, request.to!);
+      const quoted = request.quotedMessageId
+        ? await this.getStoredMessage(organizationId, connectionId, request.quotedMessageId)
+        : undefined;
+
+      const content = this.buildRichContent(request, target);
+      const sent = await instance.socket.sendMessage(jid, content, { quoted });
+
+      instance.lastActivity = new Date();
+      logger.info(`Mensagem do tipo ${request.type} enviada de ${connectionId} para ${jid}`);
+
+      return {
+        success: true,
+        wa_id: jid,
+        message_id: sent?.key.id || undefined,
+        key: sent?.key ? {
+          remoteJid: sent.key.remoteJid || jid,
+          fromMe: sent.key.fromMe ?? true,
+          id: sent.key.id!,
+          participant: sent.key.participant || undefined
+        } : undefined,
+        message: 'Mensagem enviada com sucesso'
+      };
     } catch (error) {
-      logger.error(`Erro ao baixar mídia de ${connectionId}:`, error);
+      logger.error(`Erro ao enviar mensagem do tipo ${request.type} de ${connectionId}:`, error);
       throw error;
     }
   }
+
+  /**
+   * Envia uma resposta automática ao chat (privado ou grupo) que disparou a regra
+   */
+  async sendReply(organizationId: string, connectionId: string, remoteJid: string, reply: ReplyJobPayload): Promise<SentMessageResult> {
+    const instance = this.instances.get(connectionId);
+
+    if (!instance || instance.status !== 'connected' || instance.organizationId !== organizationId) {
+      throw new Error('Conexão não encontrada, não conectada ou não autorizada');
+    }
+
+    let content: AnyMessageContent;
+
+    if (reply.mediaUrl) {
+      // Baixada aqui, e não pelo Baileys, para barrar URLs internas também nos redirecionamentos
+      const media = await this.downloadReplyMedia(reply.mediaUrl);
+      switch (reply.mediaType) {
+        case 'video':
+          content = { video: media, caption: reply.text };
+          break;
+        case 'audio':
+          content = { audio: media, mimetype: 'audio/mpeg' };
+          break;
+        case 'document':
+          content = { document: media, fileName: reply.fileName || 'arquivo', mimetype: 'application/octet-stream', caption: reply.text };
+          break;
+        default:
+          content = { image: media, caption: reply.text };
+      }
+    } else {
+      content = { text: reply.text || '' };
+    }
+
+    // A citação é opcional: sem a mensagem original salva, a resposta segue sem ela
+    const quoted = reply.quotedMessageId
+      ? await this.getStoredMessage(organizationId, connectionId, reply.quotedMessageId).catch(() => undefined)
+      : undefined;
+
+    const sent = await instance.socket.sendMessage(remoteJid, content, { quoted });
+
+    instance.lastActivity = new Date();
+    logger.info(`Resposta automática enviada de ${connectionId} para ${remoteJid}`);
+
+    return {
+      success: true,
+      wa_id: remoteJid,
+      message_id: sent?.key.id || undefined,
+      message: 'Resposta enviada com sucesso'
+    };
+  }
+
+  private async downloadReplyMedia(url: string): Promise<Buffer> {
+    const maxBytes = this.MAX_REPLY_MEDIA_MB * 1024 * 1024;
+    const response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(30000) });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Mídia da resposta indisponível (HTTP ${response.status})`);
+    }
+
+    if (Number(response.headers.get('content-length') || 0) > maxBytes) {
+      await response.body?.cancel();
+      throw new Error(`Mídia da resposta maior que ${this.MAX_REPLY_MEDIA_MB}MB`);
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (buffer.length > maxBytes) {
+      throw new Error(`Mídia da resposta maior que ${this.MAX_REPLY_MEDIA_MB}MB`);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Retorna a mídia de uma mensagem salva (do armazenamento ou baixando do WhatsApp)
+   */
+  async downloadMedia(organizationId: string, connectionId: string, messageId: string): Promise<MessageMedia | null> {
+    const instance = this.instances.get(connectionId);
+    const socket = instance && instance.status === 'connected' && instance.organizationId === organizationId
+      ? instance.socket
+      : undefined;
+
+    return this.mediaService.getMessageMedia(organizationId, connectionId, messageId, socket);
+  }
+
+  private buildRichContent(request: SendRichMessageRequest, target?: proto.IWebMessageInfo): AnyMessageContent {
+    switch (request.type) {
+      case 'location':
+        return {
+          location: {
+            degreesLatitude: request.location!.latitude,
+            degreesLongitude: request.location!.longitude,
+            name: request.location!.name,
+            address: request.location!.address
+          }
+        };
+
+      case 'contact': {
+        const cards = request.contacts!;
+        return {
+          contacts: {
+            displayName: cards.length === 1 ? cards[0].name : `${cards.length} contatos`,
+            contacts: cards.map(card => ({ vcard: this.buildVCard(card) }))
+          }
+        };
+      }
+
+      case 'poll':
+        return {
+          poll: {
+            name: request.poll!.name,
+            values: request.poll!.options,
+            selectableCount: request.poll!.selectableCount ?? 1
+          }
+        };
+
+      case 'reaction':
+        return {
+          react: {
+            text: request.reaction!.emoji,
+            key: target!.key
+          }
+        };
+
+      default: {
+        const content: any = {
+          text: request.text!,
+          mentions: request.mentions?.map(number => this.toUserJid(number))
+        };
+
+        // false desativa a prévia automática; um objeto define a prévia manualmente
+        if (request.linkPreview === false) {
+          content.linkPreview = null;
+        } else if (request.linkPreview) {
+          const preview: WAUrlInfo = {
+            'canonical-url': request.linkPreview.url,
+            'matched-text': request.linkPreview.url,
+            title: request.linkPreview.title || request.linkPreview.url,
+            description: request.linkPreview.description,
+            originalThumbnailUrl: request.linkPreview.thumbnailUrl
+          };
+          content.linkPreview = preview;
+        }
+
+        return content;
+      }
+    }
+  }
+
+  private buildVCard(card: OutgoingContactCard): string {
+    const digits = card.phoneNumber.replace(/\D/g, '');
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `FN:${card.name}`
+    ];
+
+    if (card.organization) {
+      lines.push(`ORG:${card.organization};`);
+    }
+    if (card.email) {
+      lines.push(`EMAIL;type=INTERNET:${card.email}`);
+    }
+
+    lines.push(`TEL;type=CELL;type=VOICE;waid=${digits}:+${digits}`);
+    lines.push('END:VCARD');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Grupos são usados diretamente; números passam pela validação de JID
+   */
+  private async resolveJid(organizationId: string, connectionId: string, to: string): Promise<string> {
+    if (to.endsWith('@g.us')) {
+      return to;
+    }
+
+    const validJid = await this.contactService.getValidJid(organizationId, connectionId, to);
+    if (!validJid) {
+      throw new InvalidRecipientError(to);
+    }
+
+    return validJid;
+  }
+
+  private async getStoredMessage(organizationId: string, connectionId: string, messageId: string): Promise<proto.IWebMessageInfo> {
+    const message = await this.messageStorage.getRawMessage(organizationId, connectionId, messageId);
+
+    if (!message?.key) {
+      throw new Error(`Mensagem ${messageId} não encontrada`);
+    }
+
+    return message;
+  }
+
+  private toUserJid(number: string): string {
+    return number.includes('@') ? number : `${number.replace(/\D/g, '')}@s.whatsapp.net`;
+  }
 }
\ No newline at end of file
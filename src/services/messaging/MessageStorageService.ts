@@ -0,0 +1,315 @@
+import { proto, BufferJSON, toNumber, WAMessageKey, WAMessageUpdate } from '@whiskeysockets/baileys';
+import { Prisma, Message as PrismaMessageType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { MessageHandler, ProcessedMessage } from './MessageHandler';
+import { StoredMessage, MessageFilters, MessageStatus } from '../../types/messages';
+import { PaginationMetadata } from '../../types/contacts';
+
+const STATUS_MAP: Record<number, MessageStatus> = {
+  [proto.WebMessageInfo.Status.ERROR]: 'error',
+  [proto.WebMessageInfo.Status.PENDING]: 'pending',
+  [proto.WebMessageInfo.Status.SERVER_ACK]: 'server_ack',
+  [proto.WebMessageInfo.Status.DELIVERY_ACK]: 'delivered',
+  [proto.WebMessageInfo.Status.READ]: 'read',
+  [proto.WebMessageInfo.Status.PLAYED]: 'played'
+};
+
+export class MessageStorageService {
+  /**
+   * Salva (ou atualiza) uma mensagem recebida ou enviada
+   */
+  async saveMessage(organizationId: string, connectionId: string, webMessage: proto.IWebMessageInfo): Promise<StoredMessage | null> {
+    const data = this.buildMessageData(organizationId, connectionId, webMessage);
+    if (!data) {
+      return null;
+    }
+
+    const { organizationId: _, connectionId: __, remoteJid, messageId, ...updateData } = data;
+
+    // Não sobrescrever um status já conhecido ao reprocessar a mesma mensagem
+    if (!updateData.status) {
+      delete updateData.status;
+    }
+
+    const message = await prisma.message.upsert({
+      where: {
+        connection_message_unique: {
+          connectionId,
+          remoteJid,
+          messageId
+        }
+      },
+      create: data,
+      update: updateData
+    });
+
+    return this.mapMessageFromPrisma(message);
+  }
+
+  /**
+   * Salva mensagens do history sync em lote, ignorando as já existentes
+   */
+  async saveHistoryMessages(organizationId: string, connectionId: string, webMessages: proto.IWebMessageInfo[]): Promise<number> {
+    const data = webMessages
+      .map(webMessage => this.buildMessageData(organizationId, connectionId, webMessage))
+      .filter((item): item is Prisma.MessageUncheckedCreateInput => item !== null);
+
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.message.createMany({
+      data,
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Aplica atualizações de status, edições e revogações recebidas em messages.update
+   */
+  async applyUpdate(connectionId: string, { key, update }: WAMessageUpdate): Promise<void> {
+    if (!key.id || !key.remoteJid) {
+      return;
+    }
+
+    const updateData: Prisma.MessageUpdateManyMutationInput = {};
+
+    if (typeof update.status === 'number' && STATUS_MAP[update.status]) {
+      updateData.status = STATUS_MAP[update.status];
+    }
+
+    const editedMessage = update.message?.editedMessage?.message
+      || update.message?.protocolMessage?.editedMessage;
+    if (editedMessage) {
+      const processed = MessageHandler.processMessage({ key, message: editedMessage, messageTimestamp: update.messageTimestamp });
+      if (processed) {
+        updateData.content = processed.content;
+        updateData.caption = processed.caption || null;
+      }
+      updateData.editedAt = new Date();
+    }
+
+    if (update.messageStubType === proto.WebMessageInfo.StubType.REVOKE || update.message === null) {
+      updateData.deletedAt = new Date();
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return;
+    }
+
+    await prisma.message.updateMany({
+      where: {
+        connectionId,
+        remoteJid: key.remoteJid,
+        messageId: key.id
+      },
+      data: updateData
+    });
+  }
+
+  /**
+   * Marca mensagens como deletadas
+   */
+  async markDeleted(connectionId: string, keys: WAMessageKey[]): Promise<number> {
+    let count = 0;
+
+    for (const key of keys) {
+      if (!key.id || !key.remoteJid) continue;
+
+      const result = await prisma.message.updateMany({
+        where: {
+          connectionId,
+          remoteJid: key.remoteJid,
+          messageId: key.id
+        },
+        data: { deletedAt: new Date() }
+      });
+
+      count += result.count;
+    }
+
+    return count;
+  }
+
+  /**
+   * Marca todas as mensagens de um chat como deletadas
+   */
+  async markChatDeleted(connectionId: string, remoteJid: string): Promise<number> {
+    const result = await prisma.message.updateMany({
+      where: {
+        connectionId,
+        remoteJid,
+        deletedAt: null
+      },
+      data: { deletedAt: new Date() }
+    });
+
+    return result.count;
+  }
+
+  async getMessagesPaginated(
+    organizationId: string,
+    connectionId: string,
+    page: number = 1,
+    limit: number = 50,
+    filters: MessageFilters = {}
+  ): Promise<{ messages: StoredMessage[]; pagination: PaginationMetadata }> {
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.MessageWhereInput = {
+      organizationId,
+      connectionId
+    };
+
+    if (filters.chatId) {
+      where.remoteJid = filters.chatId;
+    }
+
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    if (filters.direction === 'incoming') {
+      where.fromMe = false;
+    } else if (filters.direction === 'outgoing') {
+      where.fromMe = true;
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.timestamp = {};
+
+      if (filters.startDate) {
+        where.timestamp.gte = new Date(filters.startDate);
+      }
+
+      if (filters.endDate) {
+        where.timestamp.lte = new Date(filters.endDate);
+      }
+    }
+
+    if (!filters.includeDeleted) {
+      where.deletedAt = null;
+    }
+
+    const [messages, total] = await Promise.all([
+      prisma.message.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        skip,
+        take: limit
+      }),
+      prisma.message.count({ where })
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      messages: messages.map(message => this.mapMessageFromPrisma(message)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    };
+  }
+
+  /**
+   * Recupera a mensagem original (proto) salva, útil para download de mídia e respostas
+   */
+  async getRawMessage(organizationId: string, connectionId: string, messageId: string): Promise<proto.IWebMessageInfo | null> {
+    const message = await prisma.message.findFirst({
+      where: {
+        organizationId,
+        connectionId,
+        messageId
+      },
+      select: { raw: true }
+    });
+
+    if (!message?.raw) {
+      return null;
+    }
+
+    return JSON.parse(JSON.stringify(message.raw), BufferJSON.reviver);
+  }
+
+  private buildMessageData(
+    organizationId: string,
+    connectionId: string,
+    webMessage: proto.IWebMessageInfo
+  ): Prisma.MessageUncheckedCreateInput | null {
+    const { key, message } = webMessage;
+
+    // Mensagens de protocolo e reações não são mensagens de conversa
+    if (!key?.id || !key.remoteJid || !message || message.protocolMessage || message.reactionMessage) {
+      return null;
+    }
+
+    const processed: ProcessedMessage | null = MessageHandler.processMessage({
+      ...webMessage,
+      messageTimestamp: toNumber(webMessage.messageTimestamp || 0)
+    });
+
+    if (!processed) {
+      return null;
+    }
+
+    return {
+      organizationId,
+      connectionId,
+      remoteJid: key.remoteJid,
+      messageId: key.id,
+      fromMe: processed.isFromMe,
+      sender: processed.from || null,
+      participant: processed.participant || null,
+      isGroup: processed.isGroup,
+      type: processed.type,
+      content: processed.content,
+      caption: processed.caption || null,
+      mediaUrl: processed.mediaUrl || null,
+      quotedMessage: processed.quotedMessage ? (processed.quotedMessage as any) : Prisma.JsonNull,
+      metadata: processed.metadata ? this.toJson(processed.metadata) : Prisma.JsonNull,
+      raw: this.toJson(webMessage),
+      status: typeof webMessage.status === 'number' ? STATUS_MAP[webMessage.status] || null : null,
+      timestamp: new Date(processed.timestamp || Date.now())
+    };
+  }
+
+  /**
+   * Serializa objetos proto (com Buffers e Longs) em JSON compatível com o Prisma
+   */
+  private toJson(value: any): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value, BufferJSON.replacer));
+  }
+
+  private mapMessageFromPrisma(message: PrismaMessageType): StoredMessage {
+    return {
+      id: message.id,
+      connectionId: message.connectionId,
+      remoteJid: message.remoteJid,
+      messageId: message.messageId,
+      fromMe: message.fromMe,
+      from: message.sender || undefined,
+      participant: message.participant || undefined,
+      isGroup: message.isGroup,
+      type: message.type as StoredMessage['type'],
+      content: message.content || undefined,
+      caption: message.caption || undefined,
+      mediaUrl: message.mediaUrl || undefined,
+      mediaStored: !!message.mediaStorageKey,
+      quotedMessage: message.quotedMessage ?? undefined,
+      metadata: message.metadata ?? undefined,
+      status: (message.status as MessageStatus) || undefined,
+      timestamp: message.timestamp,
+      editedAt: message.editedAt || undefined,
+      deletedAt: message.deletedAt || undefined,
+      createdAt: message.createdAt,
+      updatedAt: message.updatedAt
+    };
+  }
+}
@@ -1,154 +1,178 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../../lib/prisma';
 import logger from '../../utils/logger';
-import { Transaction, InsufficientBalanceError } from '../../types/monetization';
+import { PricingService } from './PricingService';
+import { QuotaService } from './QuotaService';
+import {
+  Transaction,
+  InsufficientBalanceError,
+  BillableAction,
+  Charge,
+  DebitCategory,
+  TransactionCategory,
+  ACTION_CATEGORIES
+} from '../../types/monetization';
+import { ACTION_QUOTAS, PlanPeriodUsage } from '../../types/plans';
 import { Decimal } from '@prisma/client/runtime/library';
 
 export class BalanceService {
+  private pricingService: PricingService;
+  private quotaService: QuotaService;
+
+  constructor() {
+    this.pricingService = new PricingService();
+    this.quotaService = new QuotaService();
+  }
+
   /**
-   * Obtém o saldo atual do usuário
+   * Obtém o saldo atual da organização
    */
-  async getBalance(userId: string): Promise<number> {
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
+  async getBalance(organizationId: string): Promise<number> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
       select: { balance: true }
     });
 
-    if (!user) {
-      throw new Error('Usuário não encontrado');
+    if (!organization) {
+      throw new Error('Organização não encontrada');
     }
 
-    return user.balance.toNumber();
+    return organization.balance.toNumber();
   }
 
   /**
-   * Adiciona créditos ao saldo do usuário
+   * Adiciona créditos ao saldo da organização. Com `tx`, o crédito participa da transação
+   * do chamador (ex.: confirmação de pagamento, que precisa creditar uma única vez).
    */
   async addBalance(
-    userId: string, 
+    organizationId: string, 
     amount: number, 
     category: 'deposit' | 'refund', 
     description?: string,
-    relatedEntityId?: string
+    relatedEntityId?: string,
+    tx?: Prisma.TransactionClient
   ): Promise<{ balance: number; transaction: Transaction }> {
     if (amount <= 0) {
       throw new Error('Valor deve ser positivo');
     }
 
-    return await prisma.$transaction(async (tx) => {
-      // Buscar saldo atual
-      const user = await tx.user.findUnique({
-        where: { id: userId },
-        select: { balance: true }
-      });
-
-      if (!user) {
-        throw new Error('Usuário não encontrado');
-      }
-
-      const balanceBefore = user.balance.toNumber();
-      const balanceAfter = balanceBefore + amount;
-
-      // Atualizar saldo
-      await tx.user.update({
-        where: { id: userId },
-        data: { balance: new Decimal(balanceAfter) }
-      });
-
-      // Registrar transação
-      const transaction = await tx.transaction.create({
-        data: {
-          userId,
-          amount: new Decimal(amount),
-          type: 'credit',
-          category,
-          description: description || `Crédito de ${amount} adicionado`,
-          relatedEntityId,
-          balanceBefore: new Decimal(balanceBefore),
-          balanceAfter: new Decimal(balanceAfter)
-        }
-      });
-
-      logger.info(`Crédito adicionado: ${amount} para usuário ${userId}. Saldo: ${balanceBefore} → ${balanceAfter}`);
+    if (tx) {
+      return this.credit(tx, organizationId, amount, category, description, relatedEntityId);
+    }
 
-      return {
-        balance: balanceAfter,
-        transaction: this.mapTransactionFromPrisma(transaction)
-      };
-    });
+    return await prisma.$transaction(tx => this.credit(tx, organizationId, amount, category, description, relatedEntityId));
   }
 
   /**
-   * Deduz créditos do saldo do usuário
+   * Deduz créditos do saldo da organização
    */
   async deductBalance(
-    userId: string, 
+    organizationId: string, 
     amount: number, 
-    category: 'connection' | 'validation', 
+    category: DebitCategory, 
     description?: string,
-    relatedEntityId?: string
+    relatedEntityId?: string,
+    priceId?: string
   ): Promise<{ balance: number; transaction: Transaction }> {
     if (amount <= 0) {
       throw new Error('Valor deve ser positivo');
     }
 
-    return await prisma.$transaction(async (tx) => {
-      // Buscar saldo atual
-      const user = await tx.user.findUnique({
-        where: { id: userId },
-        select: { balance: true }
-      });
+    return await prisma.$transaction(tx => this.debit(tx, organizationId, amount, category, description, relatedEntityId, priceId));
+  }
 
-      if (!user) {
-        throw new Error('Usuário não encontrado');
-      }
+  /**
+   * Cobra a renovação de um plano. Diferente de deductBalance, registra a transação
+   * mesmo quando o plano é gratuito, para que toda renovação fique no histórico.
+   * Com `tx`, o débito participa da transação do chamador (ex.: criação do período do plano).
+   */
+  async chargeSubscription(
+    organizationId: string,
+    amount: number,
+    description: string,
+    relatedEntityId?: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<{ balance: number; transaction: Transaction }> {
+    if (amount < 0) {
+      throw new Error('Valor não pode ser negativo');
+    }
+
+    if (tx) {
+      return this.debit(tx, organizationId, amount, 'subscription', description, relatedEntityId);
+    }
+
+    return await prisma.$transaction(tx => this.debit(tx, organizationId, amount, 'subscription', description, relatedEntityId));
+  }
+
+  /**
+   * Cobra uma ação. Se a organização tem plano, o uso é contado na franquia do período
+   * e só o excedente é cobrado em créditos, pelo preço vigente da tabela de preços
+   * ou pelo preço já fixado informado (ex.: o da campanha na criação).
+   */
+  async chargeAction(
+    organizationId: string,
+    action: BillableAction,
+    description?: string,
+    relatedEntityId?: string,
+    fixedPrice?: { amount: number; priceId?: string }
+  ): Promise<Charge> {
+    const resource = ACTION_QUOTAS[action];
+    const usage = resource ? await this.quotaService.consume(organizationId, resource) : null;
+
+    if (usage?.covered) {
+      return { action, amount: 0, planPeriodId: usage.periodId };
+    }
 
-      const balanceBefore = user.balance.toNumber();
-      const balanceAfter = balanceBefore - amount;
+    try {
+      const price = fixedPrice || await this.pricingService.getPrice(organizationId, action);
 
-      // Verificar se há saldo suficiente
-      if (balanceAfter < 0) {
-        throw new InsufficientBalanceError(amount, balanceBefore);
+      if (price.amount <= 0) {
+        return { action, amount: 0, planPeriodId: usage?.periodId };
       }
 
-      // Atualizar saldo
-      await tx.user.update({
-        where: { id: userId },
-        data: { balance: new Decimal(balanceAfter) }
-      });
+      const { transaction } = await this.deductBalance(
+        organizationId,
+        price.amount,
+        ACTION_CATEGORIES[action],
+        usage && description ? `${description} (excedente do plano)` : description,
+        relatedEntityId,
+        price.priceId
+      );
+
+      return { action, amount: price.amount, transaction, planPeriodId: usage?.periodId };
+    } catch (error) {
+      if (usage && resource) {
+        await this.quotaService.release(usage.periodId, resource);
+      }
+      throw error;
+    }
+  }
 
-      // Registrar transação
-      const transaction = await tx.transaction.create({
-        data: {
-          userId,
-          amount: new Decimal(-amount), // Negativo para débito
-          type: 'debit',
-          category,
-          description: description || `Débito de ${amount} para ${category}`,
-          relatedEntityId,
-          balanceBefore: new Decimal(balanceBefore),
-          balanceAfter: new Decimal(balanceAfter)
-        }
-      });
+  /**
+   * Desfaz uma cobrança: devolve o uso à franquia e estorna os créditos debitados
+   */
+  async refundCharge(organizationId: string, charge: Charge, description: string): Promise<void> {
+    const resource = ACTION_QUOTAS[charge.action];
 
-      logger.info(`Crédito deduzido: ${amount} do usuário ${userId}. Saldo: ${balanceBefore} → ${balanceAfter}`);
+    if (charge.planPeriodId && resource) {
+      await this.quotaService.release(charge.planPeriodId, resource);
+    }
 
-      return {
-        balance: balanceAfter,
-        transaction: this.mapTransactionFromPrisma(transaction)
-      };
-    });
+    if (charge.amount > 0) {
+      await this.addBalance(organizationId, charge.amount, 'refund', description, charge.transaction?.id);
+    }
   }
 
   /**
-   * Obtém histórico de transações do usuário
+   * Obtém histórico de transações da organização
    */
   async getTransactions(
-    userId: string, 
+    organizationId: string, 
     page: number = 1, 
     limit: number = 20,
     filters: {
       type?: 'credit' | 'debit';
-      category?: 'connection' | 'validation' | 'deposit' | 'refund';
+      category?: TransactionCategory;
       startDate?: string;
       endDate?: string;
     } = {}
@@ -161,7 +185,7 @@ export class BalanceService {
   }> {
     const skip = (page - 1) * limit;
     
-    const where: any = { userId };
+    const where: any = { organizationId };
 
     if (filters.type) {
       where.type = filters.type;
@@ -203,30 +227,32 @@ export class BalanceService {
   }
 
   /**
-   * Obtém estatísticas de uso do usuário
+   * Obtém estatísticas de uso da organização
    */
-  async getUserStats(userId: string): Promise<{
+  async getOrganizationStats(organizationId: string): Promise<{
     totalSpent: number;
     totalDeposited: number;
     connectionsCreated: number;
     numbersValidated: number;
     currentBalance: number;
+    plan: PlanPeriodUsage | null;
   }> {
-    const [user, stats] = await Promise.all([
-      prisma.user.findUnique({
-        where: { id: userId },
+    const [organization, stats, plan] = await Promise.all([
+      prisma.organization.findUnique({
+        where: { id: organizationId },
         select: { balance: true }
       }),
       prisma.transaction.groupBy({
         by: ['type', 'category'],
-        where: { userId },
+        where: { organizationId },
         _sum: { amount: true },
         _count: { id: true }
-      })
+      }),
+      this.quotaService.getUsage(organizationId)
     ]);
 
-    if (!user) {
-      throw new Error('Usuário não encontrado');
+    if (!organization) {
+      throw new Error('Organização não encontrada');
     }
 
     let totalSpent = 0;
@@ -256,22 +282,137 @@ export class BalanceService {
       totalDeposited,
       connectionsCreated,
       numbersValidated,
-      currentBalance: user.balance.toNumber()
+      currentBalance: organization.balance.toNumber(),
+      plan
     };
   }
 
+  private async credit(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+    amount: number,
+    category: 'deposit' | 'refund',
+    description?: string,
+    relatedEntityId?: string
+  ): Promise<{ balance: number; transaction: Transaction }> {
+    // Incremento atômico: créditos e débitos simultâneos não sobrescrevem o saldo um do outro
+    const updated = await tx.organization.updateMany({
+      where: { id: organizationId },
+      data: { balance: { increment: amount } }
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Organização não encontrada');
+    }
+
+    const balanceAfter = await this.getLockedBalance(tx, organizationId);
+    const balanceBefore = balanceAfter - amount;
+
+    // Registrar transação
+    const transaction = await tx.transaction.create({
+      data: {
+        organizationId,
+        amount: new Decimal(amount),
+        type: 'credit',
+        category,
+        description: description || `Crédito de ${amount} adicionado`,
+        relatedEntityId,
+        balanceBefore: new Decimal(balanceBefore),
+        balanceAfter: new Decimal(balanceAfter)
+      }
+    });
+
+    logger.info(`Crédito adicionado: ${amount} para organização ${organizationId}. Saldo: ${balanceBefore} → ${balanceAfter}`);
+
+    return {
+      balance: balanceAfter,
+      transaction: this.mapTransactionFromPrisma(transaction)
+    };
+  }
+
+  /**
+   * Debita o saldo e registra a transação, falhando se o saldo não for suficiente
+   */
+  private async debit(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+    amount: number,
+    category: DebitCategory,
+    description?: string,
+    relatedEntityId?: string,
+    priceId?: string
+  ): Promise<{ balance: number; transaction: Transaction }> {
+    // Débito condicional e atômico: só desconta se ainda houver saldo no momento da escrita
+    const updated = await tx.organization.updateMany({
+      where: { id: organizationId, balance: { gte: amount } },
+      data: { balance: { decrement: amount } }
+    });
+
+    if (updated.count === 0) {
+      const organization = await tx.organization.findUnique({
+        where: { id: organizationId },
+        select: { balance: true }
+      });
+
+      if (!organization) {
+        throw new Error('Organização não encontrada');
+      }
+
+      throw new InsufficientBalanceError(amount, organization.balance.toNumber());
+    }
+
+    const balanceAfter = await this.getLockedBalance(tx, organizationId);
+    const balanceBefore = balanceAfter + amount;
+
+    // Registrar transação
+    const transaction = await tx.transaction.create({
+      data: {
+        organizationId,
+        amount: new Decimal(-amount), // Negativo para débito
+        type: 'debit',
+        category,
+        description: description || `Débito de ${amount} para ${category}`,
+        relatedEntityId,
+        priceId,
+        balanceBefore: new Decimal(balanceBefore),
+        balanceAfter: new Decimal(balanceAfter)
+      }
+    });
+
+    logger.info(`Crédito deduzido: ${amount} da organização ${organizationId}. Saldo: ${balanceBefore} → ${balanceAfter}`);
+
+    return {
+      balance: balanceAfter,
+      transaction: this.mapTransactionFromPrisma(transaction)
+    };
+  }
+
+  /**
+   * Saldo após o crédito/débito da transação: a linha fica bloqueada pelo UPDATE até o commit,
+   * então nenhuma outra escrita entra entre a atualização e esta leitura
+   */
+  private async getLockedBalance(tx: Prisma.TransactionClient, organizationId: string): Promise<number> {
+    const organization = await tx.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { balance: true }
+    });
+
+    return organization.balance.toNumber();
+  }
+
   /**
    * Mapeia transação do Prisma para o tipo da aplicação
    */
   private mapTransactionFromPrisma(transaction: any): Transaction {
     return {
       id: transaction.id,
-      userId: transaction.userId,
+      organizationId: transaction.organizationId,
       amount: transaction.amount.toNumber(),
       type: transaction.type,
       category: transaction.category,
       description: transaction.description,
       relatedEntityId: transaction.relatedEntityId,
+      priceId: transaction.priceId || undefined,
       balanceBefore: transaction.balanceBefore.toNumber(),
       balanceAfter: transaction.balanceAfter.toNumber(),
       createdAt: transaction.createdAt
@@ -0,0 +1,48 @@
+import logger from '../../utils/logger';
+import { PlanService } from './PlanService';
+
+class PlanRenewalWorker {
+  private planService: PlanService;
+  private interval?: NodeJS.Timeout;
+  private running = false;
+
+  constructor() {
+    this.planService = new PlanService();
+  }
+
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.interval = setInterval(() => {
+      if (this.running) return;
+
+      this.running = true;
+      this.tick()
+        .catch(error => logger.error('Erro ao renovar planos:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, 60000); // A cada 1 minuto
+
+    logger.info('Renovação de planos iniciada');
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    const renewed = await this.planService.renewDueSubscriptions();
+
+    if (renewed > 0) {
+      logger.info(`${renewed} assinaturas de planos renovadas`);
+    }
+  }
+}
+
+export default new PlanRenewalWorker();
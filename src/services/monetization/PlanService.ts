@@ -0,0 +1,320 @@
+import { Plan as PrismaPlanType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { BalanceService } from './BalanceService';
+import { QuotaService } from './QuotaService';
+import { InsufficientBalanceError } from '../../types/monetization';
+import { CreatePlanRequest, Plan, PlanLimitError, PlanPeriodUsage, UpdatePlanRequest } from '../../types/plans';
+
+export class PlanService {
+  private balanceService: BalanceService;
+  private quotaService: QuotaService;
+
+  constructor() {
+    this.balanceService = new BalanceService();
+    this.quotaService = new QuotaService();
+  }
+
+  async getPlans(includeInactive: boolean = false): Promise<Plan[]> {
+    const plans = await prisma.plan.findMany({
+      where: includeInactive ? {} : { active: true },
+      orderBy: { monthlyPrice: 'asc' }
+    });
+
+    return plans.map(this.mapPlanFromPrisma);
+  }
+
+  async createPlan(data: CreatePlanRequest): Promise<Plan> {
+    const name = data.name?.trim();
+    if (!name) {
+      throw new Error('Nome do plano é obrigatório');
+    }
+
+    this.validateLimits(data);
+
+    const existing = await prisma.plan.findUnique({ where: { name } });
+    if (existing) {
+      throw new Error('Já existe um plano com este nome');
+    }
+
+    const plan = await prisma.plan.create({
+      data: {
+        name,
+        description: data.description?.trim() || null,
+        monthlyPrice: new Decimal(data.monthlyPrice || 0),
+        connectionsQuota: data.connectionsQuota || 0,
+        validationsQuota: data.validationsQuota || 0,
+        messagesQuota: data.messagesQuota || 0,
+        maxConnections: data.maxConnections ?? null
+      }
+    });
+
+    logger.info(`Plano criado: ${plan.name} (${plan.id})`);
+    return this.mapPlanFromPrisma(plan);
+  }
+
+  /**
+   * Alterações valem a partir da próxima renovação de cada assinante;
+   * o limite de conexões simultâneas vale imediatamente
+   */
+  async updatePlan(planId: string, data: UpdatePlanRequest): Promise<Plan> {
+    const plan = await prisma.plan.findUnique({ where: { id: planId } });
+    if (!plan) {
+      throw new Error('Plano não encontrado');
+    }
+
+    this.validateLimits(data);
+
+    const name = data.name !== undefined ? data.name.trim() : undefined;
+    if (name !== undefined && !name) {
+      throw new Error('Nome do plano é obrigatório');
+    }
+
+    if (name && name !== plan.name) {
+      const existing = await prisma.plan.findUnique({ where: { name } });
+      if (existing) {
+        throw new Error('Já existe um plano com este nome');
+      }
+    }
+
+    const updated = await prisma.plan.update({
+      where: { id: planId },
+      data: {
+        name,
+        description: data.description !== undefined ? data.description?.trim() || null : undefined,
+        monthlyPrice: data.monthlyPrice !== undefined ? new Decimal(data.monthlyPrice) : undefined,
+        connectionsQuota: data.connectionsQuota,
+        validationsQuota: data.validationsQuota,
+        messagesQuota: data.messagesQuota,
+        maxConnections: data.maxConnections,
+        active: data.active
+      }
+    });
+
+    logger.info(`Plano atualizado: ${updated.name} (${updated.id})`);
+    return this.mapPlanFromPrisma(updated);
+  }
+
+  /**
+   * Assina ou troca de plano: cobra a mensalidade e inicia um novo período com as franquias
+   * do plano. O período anterior é encerrado e o que restou da franquia dele é perdido.
+   */
+  async subscribe(organizationId: string, planId: string): Promise<PlanPeriodUsage> {
+    const [plan, organization] = await Promise.all([
+      prisma.plan.findUnique({ where: { id: planId } }),
+      prisma.organization.findUnique({ where: { id: organizationId }, select: { planId: true } })
+    ]);
+
+    if (!plan || !plan.active) {
+      throw new Error('Plano não encontrado');
+    }
+
+    if (!organization) {
+      throw new Error('Organização não encontrada');
+    }
+
+    if (organization.planId === planId) {
+      throw new Error('A organização já assina este plano');
+    }
+
+    if (plan.maxConnections !== null) {
+      const connections = await prisma.connection.count({ where: { organizationId } });
+      if (connections > plan.maxConnections) {
+        throw new PlanLimitError(`O plano ${plan.name} permite ${plan.maxConnections} conexões; remova conexões antes de assiná-lo`);
+      }
+    }
+
+    await this.startPeriod(organizationId, plan);
+    logger.info(`Organização ${organizationId} assinou o plano ${plan.name}`);
+
+    return (await this.quotaService.getUsage(organizationId))!;
+  }
+
+  /**
+   * Cancela a assinatura imediatamente; a organização volta a pagar apenas por uso
+   */
+  async cancel(organizationId: string): Promise<void> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { planId: true }
+    });
+
+    if (!organization?.planId) {
+      throw new Error('A organização não possui plano');
+    }
+
+    await this.endSubscription(organizationId);
+    logger.info(`Assinatura da organização ${organizationId} cancelada`);
+  }
+
+  /**
+   * Renova as assinaturas cujo período terminou. Sem saldo para a mensalidade ou com o
+   * plano desativado, a assinatura é encerrada e a organização volta à cobrança por uso.
+   */
+  async renewDueSubscriptions(): Promise<number> {
+    const organizations = await prisma.organization.findMany({
+      where: {
+        planId: { not: null },
+        planPeriods: { none: { endsAt: { gt: new Date() } } }
+      },
+      include: {
+        plan: true,
+        planPeriods: { orderBy: { endsAt: 'desc' }, take: 1, select: { endsAt: true } }
+      }
+    });
+
+    let renewed = 0;
+
+    for (const organization of organizations) {
+      if (!organization.plan!.active) {
+        await this.endSubscription(organization.id);
+        logger.warn(`Assinatura do plano ${organization.plan!.name} da organização ${organization.id} encerrada: plano desativado`);
+        continue;
+      }
+
+      try {
+        // O novo período começa onde o anterior terminou, não no momento em que o worker rodou.
+        // Se esse período já teria acabado (parada longa), começa agora: os meses que ficaram
+        // para trás não são cobrados
+        const previousEnd = organization.planPeriods[0]?.endsAt;
+        const startsAt = previousEnd && this.addMonth(previousEnd) > new Date() ? previousEnd : new Date();
+        await this.startPeriod(organization.id, organization.plan!, startsAt);
+        renewed++;
+      } catch (error) {
+        if (error instanceof InsufficientBalanceError) {
+          await this.endSubscription(organization.id);
+          logger.warn(`Assinatura do plano ${organization.plan!.name} da organização ${organization.id} encerrada por saldo insuficiente`);
+          continue;
+        }
+
+        logger.error(`Erro ao renovar plano da organização ${organization.id}:`, error);
+      }
+    }
+
+    return renewed;
+  }
+
+  /**
+   * Impede criar conexões além do limite simultâneo do plano
+   */
+  async assertConnectionLimit(organizationId: string): Promise<void> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { plan: { select: { name: true, maxConnections: true } } }
+    });
+
+    const plan = organization?.plan;
+    if (!plan || plan.maxConnections === null) {
+      return;
+    }
+
+    const connections = await prisma.connection.count({ where: { organizationId } });
+    if (connections >= plan.maxConnections) {
+      throw new PlanLimitError(`Limite de ${plan.maxConnections} conexões simultâneas do plano ${plan.name} atingido`);
+    }
+  }
+
+  private async startPeriod(organizationId: string, plan: PrismaPlanType, startsAt: Date = new Date()): Promise<void> {
+    const endsAt = this.addMonth(startsAt);
+
+    // Cobrança e período na mesma transação: sem saldo nada é alterado e, se a criação
+    // do período falhar, o débito é desfeito em vez de se repetir a cada renovação
+    await prisma.$transaction(async (tx) => {
+      const { transaction } = await this.balanceService.chargeSubscription(
+        organizationId,
+        plan.monthlyPrice.toNumber(),
+        `Plano ${plan.name}: período de ${startsAt.toISOString().slice(0, 10)} a ${endsAt.toISOString().slice(0, 10)}`,
+        plan.id,
+        tx
+      );
+
+      await tx.planPeriod.updateMany({
+        where: { organizationId, endsAt: { gt: startsAt } },
+        data: { endsAt: startsAt }
+      });
+
+      await tx.organization.update({
+        where: { id: organizationId },
+        data: { planId: plan.id }
+      });
+
+      await tx.planPeriod.create({
+        data: {
+          organizationId,
+          planId: plan.id,
+          startsAt,
+          endsAt,
+          connectionsQuota: plan.connectionsQuota,
+          validationsQuota: plan.validationsQuota,
+          messagesQuota: plan.messagesQuota,
+          transactionId: transaction.id
+        }
+      });
+    });
+  }
+
+  /**
+   * Mesmo dia no mês seguinte; em meses mais curtos, o último dia (31/01 → 28/02, não 03/03)
+   */
+  private addMonth(date: Date): Date {
+    const result = new Date(date);
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + 1);
+
+    const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+
+    return result;
+  }
+
+  private async endSubscription(organizationId: string): Promise<void> {
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.planPeriod.updateMany({
+        where: { organizationId, endsAt: { gt: now } },
+        data: { endsAt: now }
+      }),
+      prisma.organization.update({
+        where: { id: organizationId },
+        data: { planId: null }
+      })
+    ]);
+  }
+
+  private validateLimits(data: Partial<CreatePlanRequest>): void {
+    if (data.monthlyPrice !== undefined && (typeof data.monthlyPrice !== 'number' || data.monthlyPrice < 0)) {
+      throw new Error('monthlyPrice deve ser zero ou positivo');
+    }
+
+    const quotas = ['connectionsQuota', 'validationsQuota', 'messagesQuota'] as const;
+    for (const field of quotas) {
+      const value = data[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`${field} deve ser um inteiro não negativo`);
+      }
+    }
+
+    if (data.maxConnections !== undefined && data.maxConnections !== null
+      && (!Number.isInteger(data.maxConnections) || data.maxConnections < 1)) {
+      throw new Error('maxConnections deve ser um inteiro positivo ou null');
+    }
+  }
+
+  private mapPlanFromPrisma(plan: PrismaPlanType): Plan {
+    return {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description || undefined,
+      monthlyPrice: plan.monthlyPrice.toNumber(),
+      connectionsQuota: plan.connectionsQuota,
+      validationsQuota: plan.validationsQuota,
+      messagesQuota: plan.messagesQuota,
+      maxConnections: plan.maxConnections ?? undefined,
+      active: plan.active,
+      createdAt: plan.createdAt,
+      updatedAt: plan.updatedAt
+    };
+  }
+}
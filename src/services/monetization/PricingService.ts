@@ -0,0 +1,223 @@
+import { Prisma, Price as PrismaPriceType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { BILLABLE_ACTIONS, BillableAction, EffectivePrice, Price } from '../../types/monetization';
+
+export class PricingService {
+  /**
+   * Preço vigente de uma ação para a organização: o próprio, o do plano ou o padrão da plataforma
+   */
+  async getPrice(organizationId: string, action: BillableAction): Promise<EffectivePrice> {
+    const prices = await this.findApplicablePrices(organizationId, action);
+    const price = prices[0];
+
+    if (!price) {
+      throw new Error(`Preço não configurado para ${action}`);
+    }
+
+    return this.toEffectivePrice(price);
+  }
+
+  /**
+   * Tabela de preços vigente para a organização
+   */
+  async getPrices(organizationId: string): Promise<EffectivePrice[]> {
+    const prices = await this.findApplicablePrices(organizationId);
+
+    return BILLABLE_ACTIONS
+      .map(action => prices.find(p => p.action === action))
+      .filter((price): price is PrismaPriceType => !!price)
+      .map(price => this.toEffectivePrice(price));
+  }
+
+  /**
+   * Versões vigentes: padrões da plataforma e preços próprios de organizações e planos
+   */
+  async getCurrentPrices(filters: { organizationId?: string; planId?: string } = {}): Promise<Price[]> {
+    const prices = await prisma.price.findMany({
+      where: {
+        validUntil: null,
+        organizationId: filters.organizationId,
+        planId: filters.planId
+      },
+      orderBy: [{ organizationId: 'asc' }, { planId: 'asc' }, { action: 'asc' }]
+    });
+
+    return prices.map(this.mapPriceFromPrisma);
+  }
+
+  /**
+   * Todas as versões, da mais recente para a mais antiga
+   */
+  async getPriceHistory(filters: { action?: BillableAction; organizationId?: string; planId?: string } = {}): Promise<Price[]> {
+    const prices = await prisma.price.findMany({
+      where: {
+        action: filters.action,
+        organizationId: filters.organizationId,
+        planId: filters.planId
+      },
+      orderBy: [{ validFrom: 'desc' }, { version: 'desc' }]
+    });
+
+    return prices.map(this.mapPriceFromPrisma);
+  }
+
+  /**
+   * Define um novo preço criando uma nova versão; a versão anterior deixa de valer mas continua
+   * referenciada pelas transações já cobradas com ela
+   */
+  async setPrice(
+    adminUserId: string,
+    action: BillableAction,
+    amount: number,
+    target: { organizationId?: string; planId?: string } = {}
+  ): Promise<Price> {
+    if (!BILLABLE_ACTIONS.includes(action)) {
+      throw new Error('Ação inválida');
+    }
+
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      throw new Error('Valor deve ser zero ou positivo');
+    }
+
+    if (target.organizationId && target.planId) {
+      throw new Error('Informe organizationId ou planId, não ambos');
+    }
+
+    if (target.organizationId) {
+      const organization = await prisma.organization.findUnique({
+        where: { id: target.organizationId },
+        select: { id: true }
+      });
+
+      if (!organization) {
+        throw new Error('Organização não encontrada');
+      }
+    }
+
+    if (target.planId) {
+      const plan = await prisma.plan.findUnique({
+        where: { id: target.planId },
+        select: { id: true }
+      });
+
+      if (!plan) {
+        throw new Error('Plano não encontrado');
+      }
+    }
+
+    const price = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const scope = { action, organizationId: target.organizationId || null, planId: target.planId || null };
+
+      const last = await tx.price.findFirst({
+        where: scope,
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      await tx.price.updateMany({
+        where: { ...scope, validUntil: null },
+        data: { validUntil: now }
+      });
+
+      return tx.price.create({
+        data: {
+          ...scope,
+          amount: new Decimal(amount),
+          version: (last?.version || 0) + 1,
+          createdById: adminUserId,
+          validFrom: now
+        }
+      });
+    });
+
+    const scope = target.organizationId
+      ? ` para organização ${target.organizationId}`
+      : target.planId ? ` para o plano ${target.planId}` : '';
+
+    logger.info(`Preço de ${action}${scope} alterado para ${amount} (versão ${price.version}) por ${adminUserId}`);
+    return this.mapPriceFromPrisma(price);
+  }
+
+  /**
+   * Encerra o preço próprio da organização ou do plano, que volta a pagar o preço seguinte na ordem
+   */
+  async removePrice(action: BillableAction, target: { organizationId?: string; planId?: string }): Promise<void> {
+    if (!target.organizationId && !target.planId) {
+      throw new Error('O preço padrão não pode ser removido, apenas alterado');
+    }
+
+    const result = await prisma.price.updateMany({
+      where: {
+        action,
+        organizationId: target.organizationId || null,
+        planId: target.planId || null,
+        validUntil: null
+      },
+      data: { validUntil: new Date() }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Preço próprio não encontrado');
+    }
+
+    logger.info(`Preço próprio de ${action} removido de ${target.organizationId ? `organização ${target.organizationId}` : `plano ${target.planId}`}`);
+  }
+
+  /**
+   * Versões vigentes que se aplicam à organização, da mais específica para a padrão
+   */
+  private async findApplicablePrices(organizationId: string, action?: BillableAction): Promise<PrismaPriceType[]> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { planId: true }
+    });
+
+    const scopes: Prisma.PriceWhereInput[] = [
+      { organizationId },
+      { organizationId: null, planId: null }
+    ];
+
+    if (organization?.planId) {
+      scopes.push({ planId: organization.planId });
+    }
+
+    const prices = await prisma.price.findMany({
+      where: {
+        action,
+        validUntil: null,
+        OR: scopes
+      }
+    });
+
+    const rank = (price: PrismaPriceType) => price.organizationId ? 0 : price.planId ? 1 : 2;
+    return prices.sort((a, b) => rank(a) - rank(b));
+  }
+
+  private toEffectivePrice(price: PrismaPriceType): EffectivePrice {
+    return {
+      action: price.action as BillableAction,
+      amount: price.amount.toNumber(),
+      priceId: price.id,
+      source: price.organizationId ? 'organization' : price.planId ? 'plan' : 'default',
+      version: price.version
+    };
+  }
+
+  private mapPriceFromPrisma(price: PrismaPriceType): Price {
+    return {
+      id: price.id,
+      action: price.action as BillableAction,
+      organizationId: price.organizationId || undefined,
+      planId: price.planId || undefined,
+      amount: price.amount.toNumber(),
+      version: price.version,
+      createdById: price.createdById || undefined,
+      validFrom: price.validFrom,
+      validUntil: price.validUntil || undefined,
+      createdAt: price.createdAt
+    };
+  }
+}
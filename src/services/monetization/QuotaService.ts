@@ -0,0 +1,103 @@
+import { Prisma, PlanPeriod as PrismaPlanPeriodType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { PlanPeriodUsage, QuotaResource, QuotaUsage } from '../../types/plans';
+
+const QUOTA_FIELDS = {
+  connections: { quota: 'connectionsQuota', used: 'connectionsUsed' },
+  validations: { quota: 'validationsQuota', used: 'validationsUsed' },
+  messages: { quota: 'messagesQuota', used: 'messagesUsed' }
+} as const;
+
+type PlanPeriodWithPlan = PrismaPlanPeriodType & {
+  plan: { id: string; name: string; maxConnections: number | null };
+};
+
+export class QuotaService {
+  /**
+   * Período de cobrança vigente da organização, se ela tiver plano
+   */
+  async getCurrentPeriod(organizationId: string): Promise<PlanPeriodWithPlan | null> {
+    const now = new Date();
+
+    return prisma.planPeriod.findFirst({
+      where: {
+        organizationId,
+        startsAt: { lte: now },
+        endsAt: { gt: now }
+      },
+      include: { plan: { select: { id: true, name: true, maxConnections: true } } },
+      orderBy: { startsAt: 'desc' }
+    });
+  }
+
+  /**
+   * Conta um uso no período vigente. `covered` indica se ele coube na franquia;
+   * caso contrário o uso é excedente e deve ser cobrado em créditos.
+   */
+  async consume(organizationId: string, resource: QuotaResource): Promise<{ periodId: string; covered: boolean } | null> {
+    const period = await this.getCurrentPeriod(organizationId);
+    if (!period) {
+      return null;
+    }
+
+    const fields = QUOTA_FIELDS[resource];
+    const data: Prisma.PlanPeriodUpdateInput = {};
+    data[fields.used] = { increment: 1 };
+
+    // O incremento é atômico, então usos simultâneos não ultrapassam a franquia
+    const updated = await prisma.planPeriod.update({
+      where: { id: period.id },
+      data
+    });
+
+    return {
+      periodId: period.id,
+      covered: updated[fields.used] <= updated[fields.quota]
+    };
+  }
+
+  /**
+   * Desfaz um uso contado (ex.: envio ou validação que falhou)
+   */
+  async release(periodId: string, resource: QuotaResource): Promise<void> {
+    const fields = QUOTA_FIELDS[resource];
+    const where: Prisma.PlanPeriodWhereInput = { id: periodId };
+    const data: Prisma.PlanPeriodUpdateManyMutationInput = {};
+
+    where[fields.used] = { gt: 0 };
+    data[fields.used] = { decrement: 1 };
+
+    await prisma.planPeriod.updateMany({ where, data });
+  }
+
+  /**
+   * Uso do período vigente, exibido nas estatísticas de saldo
+   */
+  async getUsage(organizationId: string): Promise<PlanPeriodUsage | null> {
+    const period = await this.getCurrentPeriod(organizationId);
+    return period ? this.mapUsageFromPrisma(period) : null;
+  }
+
+  private mapUsageFromPrisma(period: PlanPeriodWithPlan): PlanPeriodUsage {
+    const usage = (quota: number, used: number): QuotaUsage => ({
+      quota,
+      used,
+      remaining: Math.max(0, quota - used),
+      overage: Math.max(0, used - quota)
+    });
+
+    return {
+      periodId: period.id,
+      plan: {
+        id: period.plan.id,
+        name: period.plan.name,
+        maxConnections: period.plan.maxConnections ?? undefined
+      },
+      startsAt: period.startsAt,
+      endsAt: period.endsAt,
+      connections: usage(period.connectionsQuota, period.connectionsUsed),
+      validations: usage(period.validationsQuota, period.validationsUsed),
+      messages: usage(period.messagesQuota, period.messagesUsed)
+    };
+  }
+}
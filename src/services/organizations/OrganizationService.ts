@@ -0,0 +1,399 @@
+import crypto from 'crypto';
+import { Prisma, Organization as PrismaOrganizationType, OrganizationInvite as PrismaOrganizationInviteType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { EmailService } from '../auth/EmailService';
+import { ROLES, Role } from '../../types/permissions';
+import {
+  CreateInviteRequest,
+  CreateOrganizationRequest,
+  Organization,
+  OrganizationInvite,
+  OrganizationMember,
+  OrganizationMembership,
+  UpdateOrganizationRequest
+} from '../../types/organizations';
+
+export class OrganizationService {
+  private emailService: EmailService;
+  private readonly INVITE_EXPIRES_DAYS = parseInt(process.env.ORGANIZATION_INVITE_EXPIRES_DAYS || '7');
+
+  constructor() {
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Cria a organização pessoal do usuário, com o mesmo id dele, tendo-o como admin
+   */
+  async createPersonalOrganization(
+    tx: Prisma.TransactionClient,
+    user: { id: string; name: string }
+  ): Promise<void> {
+    await tx.organization.create({
+      data: {
+        id: user.id,
+        name: user.name,
+        members: {
+          create: { userId: user.id, role: 'admin' }
+        }
+      }
+    });
+  }
+
+  /**
+   * Define a organização ativa da requisição: a solicitada ou, sem ela, a pessoal
+   * (ou a primeira da qual o usuário participa). Retorna null se não houver acesso.
+   */
+  async resolveMembership(
+    userId: string,
+    platformRole: string | undefined,
+    requestedOrganizationId?: string
+  ): Promise<{ organizationId: string; role: Role } | null> {
+    if (requestedOrganizationId) {
+      const role = await this.getMemberRole(requestedOrganizationId, userId, platformRole);
+      return role ? { organizationId: requestedOrganizationId, role } : null;
+    }
+
+    // A organização pessoal tem o mesmo id do usuário
+    const membership = await prisma.organizationMember.findUnique({
+      where: { organization_member_unique: { organizationId: userId, userId } },
+      select: { organizationId: true, role: true }
+    }) || await prisma.organizationMember.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      select: { organizationId: true, role: true }
+    });
+
+    return membership ? { organizationId: membership.organizationId, role: membership.role as Role } : null;
+  }
+
+  /**
+   * Papel do usuário na organização; administradores da plataforma são admin em todas
+   */
+  async getMemberRole(organizationId: string, userId: string, platformRole?: string): Promise<Role | null> {
+    const member = await prisma.organizationMember.findUnique({
+      where: { organization_member_unique: { organizationId, userId } },
+      select: { role: true }
+    });
+
+    if (member) {
+      return member.role as Role;
+    }
+
+    if (platformRole === 'admin') {
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { id: true }
+      });
+      return organization ? 'admin' : null;
+    }
+
+    return null;
+  }
+
+  async getUserOrganizations(userId: string): Promise<OrganizationMembership[]> {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      include: { organization: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return memberships.map(membership => ({
+      ...this.mapOrganizationFromPrisma(membership.organization),
+      role: membership.role as Role,
+      personal: membership.organizationId === userId
+    }));
+  }
+
+  async createOrganization(userId: string, data: CreateOrganizationRequest): Promise<Organization> {
+    const name = this.validateName(data.name);
+
+    const organization = await prisma.organization.create({
+      data: {
+        name,
+        members: {
+          create: { userId, role: 'admin' }
+        }
+      }
+    });
+
+    logger.info(`Organização criada: ${organization.id} por usuário ${userId}`);
+    return this.mapOrganizationFromPrisma(organization);
+  }
+
+  async getOrganization(organizationId: string): Promise<Organization> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId }
+    });
+
+    if (!organization) {
+      throw new Error('Organização não encontrada');
+    }
+
+    return this.mapOrganizationFromPrisma(organization);
+  }
+
+  async updateOrganization(organizationId: string, data: UpdateOrganizationRequest): Promise<Organization> {
+    const organization = await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        name: data.name !== undefined ? this.validateName(data.name) : undefined
+      }
+    });
+
+    return this.mapOrganizationFromPrisma(organization);
+  }
+
+  async getMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const members = await prisma.organizationMember.findMany({
+      where: { organizationId },
+      include: { user: { select: { name: true, email: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return members.map(member => ({
+      id: member.id,
+      userId: member.userId,
+      name: member.user.name,
+      email: member.user.email,
+      role: member.role as Role,
+      createdAt: member.createdAt
+    }));
+  }
+
+  async updateMemberRole(organizationId: string, memberUserId: string, role: Role): Promise<OrganizationMember> {
+    this.validateRole(role);
+
+    const member = await this.findMember(organizationId, memberUserId);
+
+    if (member.role === 'admin' && role !== 'admin') {
+      await this.ensureAnotherAdmin(organizationId);
+    }
+
+    await prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { role }
+    });
+
+    logger.info(`Papel do membro ${memberUserId} na organização ${organizationId} alterado de ${member.role} para ${role}`);
+
+    const members = await this.getMembers(organizationId);
+    return members.find(item => item.userId === memberUserId)!;
+  }
+
+  /**
+   * Remove o membro (ou a própria saída), revoga as chaves de API dele na organização
+   * e libera as conversas atribuídas a ele
+   */
+  async removeMember(organizationId: string, memberUserId: string): Promise<void> {
+    const member = await this.findMember(organizationId, memberUserId);
+
+    if (member.role === 'admin') {
+      await this.ensureAnotherAdmin(organizationId);
+    }
+
+    await prisma.$transaction([
+      prisma.organizationMember.delete({ where: { id: member.id } }),
+      prisma.apiKey.updateMany({
+        where: { organizationId, userId: memberUserId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      }),
+      prisma.conversation.updateMany({
+        where: { organizationId, assignedToId: memberUserId },
+        data: { assignedToId: null }
+      })
+    ]);
+
+    logger.info(`Membro ${memberUserId} removido da organização ${organizationId}`);
+  }
+
+  /**
+   * Convida um email para a organização; um convite pendente para o mesmo email é substituído
+   */
+  async createInvite(organizationId: string, invitedById: string, data: CreateInviteRequest): Promise<OrganizationInvite> {
+    const email = data.email?.trim().toLowerCase();
+    if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new Error('Email inválido');
+    }
+
+    const role = data.role || 'operator';
+    this.validateRole(role);
+
+    const existingMember = await prisma.organizationMember.findFirst({
+      where: { organizationId, user: { email } }
+    });
+
+    if (existingMember) {
+      throw new Error('Usuário já é membro da organização');
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    const [organization, inviter] = await Promise.all([
+      this.getOrganization(organizationId),
+      prisma.user.findUnique({ where: { id: invitedById }, select: { name: true } })
+    ]);
+
+    const invite = await prisma.$transaction(async (tx) => {
+      await tx.organizationInvite.deleteMany({
+        where: { organizationId, email, acceptedAt: null }
+      });
+
+      return tx.organizationInvite.create({
+        data: {
+          organizationId,
+          email,
+          role,
+          tokenHash: this.hashToken(token),
+          invitedById,
+          expiresAt: new Date(Date.now() + this.INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000)
+        }
+      });
+    });
+
+    try {
+      await this.emailService.sendOrganizationInviteEmail(email, organization.name, inviter?.name || '', token, this.INVITE_EXPIRES_DAYS);
+    } catch (error) {
+      logger.error('Erro ao enviar email de convite:', error);
+      // O convite continua válido e pode ser reenviado
+    }
+
+    logger.info(`Convite ${invite.id} para ${email} criado na organização ${organizationId}`);
+    return this.mapInviteFromPrisma(invite);
+  }
+
+  async getPendingInvites(organizationId: string): Promise<OrganizationInvite[]> {
+    const invites = await prisma.organizationInvite.findMany({
+      where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return invites.map(invite => this.mapInviteFromPrisma(invite));
+  }
+
+  async revokeInvite(organizationId: string, inviteId: string): Promise<void> {
+    const result = await prisma.organizationInvite.deleteMany({
+      where: { id: inviteId, organizationId, acceptedAt: null }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Convite não encontrado');
+    }
+
+    logger.info(`Convite ${inviteId} revogado na organização ${organizationId}`);
+  }
+
+  /**
+   * Aceita o convite recebido por email; o convite só vale para o email convidado
+   */
+  async acceptInvite(userId: string, token: string): Promise<OrganizationMembership> {
+    const invite = await prisma.organizationInvite.findUnique({
+      where: { tokenHash: this.hashToken(token) }
+    });
+
+    if (!invite || invite.acceptedAt || invite.expiresAt <= new Date()) {
+      throw new Error('Convite inválido ou expirado');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true }
+    });
+
+    if (!user || user.email !== invite.email) {
+      throw new Error('Este convite foi enviado para outro email');
+    }
+
+    const existingMember = await prisma.organizationMember.findUnique({
+      where: { organization_member_unique: { organizationId: invite.organizationId, userId } }
+    });
+
+    if (existingMember) {
+      throw new Error('Usuário já é membro da organização');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Condição em acceptedAt evita aceitar o mesmo convite duas vezes
+      const accepted = await tx.organizationInvite.updateMany({
+        where: { id: invite.id, acceptedAt: null },
+        data: { acceptedAt: new Date() }
+      });
+
+      if (accepted.count === 0) {
+        throw new Error('Convite inválido ou expirado');
+      }
+
+      await tx.organizationMember.create({
+        data: { organizationId: invite.organizationId, userId, role: invite.role }
+      });
+    });
+
+    logger.info(`Usuário ${userId} entrou na organização ${invite.organizationId} como ${invite.role}`);
+
+    const organization = await this.getOrganization(invite.organizationId);
+    return { ...organization, role: invite.role as Role, personal: false };
+  }
+
+  private async findMember(organizationId: string, userId: string) {
+    const member = await prisma.organizationMember.findUnique({
+      where: { organization_member_unique: { organizationId, userId } }
+    });
+
+    if (!member) {
+      throw new Error('Membro não encontrado');
+    }
+
+    return member;
+  }
+
+  // Não permitir que a organização fique sem administradores
+  private async ensureAnotherAdmin(organizationId: string): Promise<void> {
+    const admins = await prisma.organizationMember.count({
+      where: { organizationId, role: 'admin' }
+    });
+
+    if (admins <= 1) {
+      throw new Error('Não é possível remover o último administrador da organização');
+    }
+  }
+
+  private validateName(name: string | undefined): string {
+    const trimmed = name?.trim();
+    if (!trimmed || trimmed.length < 2) {
+      throw new Error('Nome da organização deve ter pelo menos 2 caracteres');
+    }
+    return trimmed;
+  }
+
+  private validateRole(role: Role): void {
+    if (!ROLES.includes(role)) {
+      throw new Error(`Papel inválido. Válidos: ${ROLES.join(', ')}`);
+    }
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private mapOrganizationFromPrisma(organization: PrismaOrganizationType): Organization {
+    return {
+      id: organization.id,
+      name: organization.name,
+      balance: organization.balance.toNumber(),
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt
+    };
+  }
+
+  private mapInviteFromPrisma(invite: PrismaOrganizationInviteType): OrganizationInvite {
+    return {
+      id: invite.id,
+      email: invite.email,
+      role: invite.role as Role,
+      invitedById: invite.invitedById,
+      expiresAt: invite.expiresAt,
+      acceptedAt: invite.acceptedAt || undefined,
+      createdAt: invite.createdAt
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import { IncomingHttpHeaders } from 'http';
+import { Payment as PrismaPaymentType } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { BalanceService } from '../monetization/BalanceService';
+import { PaymentProvider, ProviderWebhookEvent } from './providers/PaymentProvider';
+import { FakePaymentProvider } from './providers/FakePaymentProvider';
+import { createPaymentProviders } from './providers/createPaymentProviders';
+import {
+  CREDIT_PACKAGES,
+  CreatePaymentRequest,
+  CreditPackage,
+  PAYMENT_METHODS,
+  Payment,
+  PaymentMethod,
+  PaymentProviderName,
+  PaymentStatus
+} from '../../types/payments';
+
+export class PaymentService {
+  private balanceService: BalanceService;
+  private providers: Record<PaymentMethod, PaymentProvider | null>;
+
+  constructor() {
+    this.balanceService = new BalanceService();
+    this.providers = createPaymentProviders();
+  }
+
+  /**
+   * Pacotes à venda e métodos de pagamento disponíveis
+   */
+  getPackages(): { packages: CreditPackage[]; methods: PaymentMethod[] } {
+    return {
+      packages: CREDIT_PACKAGES,
+      methods: PAYMENT_METHODS.filter(method => !!this.providers[method])
+    };
+  }
+
+  /**
+   * Cria a cobrança no gateway; os créditos só entram quando o webhook confirmar o pagamento
+   */
+  async createPayment(
+    organizationId: string,
+    user: { userId: string; email: string },
+    data: CreatePaymentRequest
+  ): Promise<Payment> {
+    const creditPackage = CREDIT_PACKAGES.find(p => p.id === data.packageId);
+    if (!creditPackage) {
+      throw new Error('Pacote de créditos não encontrado');
+    }
+
+    if (!PAYMENT_METHODS.includes(data.method)) {
+      throw new Error(`Método de pagamento inválido. Use: ${PAYMENT_METHODS.join(', ')}`);
+    }
+
+    const provider = this.providers[data.method];
+    if (!provider) {
+      throw new Error('Método de pagamento indisponível');
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        organizationId,
+        userId: user.userId,
+        packageId: creditPackage.id,
+        method: data.method,
+        provider: provider.name,
+        amount: new Decimal(creditPackage.price),
+        credits: new Decimal(creditPackage.credits)
+      }
+    });
+
+    try {
+      const created = await provider.createPayment(data.method, {
+        paymentId: payment.id,
+        amount: creditPackage.price,
+        description: `Compra de ${creditPackage.name}`,
+        payerEmail: user.email
+      });
+
+      const updated = await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          providerPaymentId: created.providerPaymentId,
+          pixCode: created.pixCode,
+          pixQrCode: created.pixQrCode,
+          checkoutUrl: created.checkoutUrl,
+          expiresAt: created.expiresAt
+        }
+      });
+
+      logger.info(`Pagamento ${payment.id} criado no gateway ${provider.name} para organização ${organizationId} (${creditPackage.id}, ${data.method})`);
+      return this.mapPaymentFromPrisma(updated);
+    } catch (error) {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: 'failed', failureReason: (error as Error).message }
+      });
+
+      logger.error(`Erro ao criar pagamento ${payment.id} no gateway ${provider.name}:`, error);
+      throw new Error('Falha ao criar cobrança no gateway de pagamento');
+    }
+  }
+
+  async getPayments(
+    organizationId: string,
+    page: number = 1,
+    limit: number = 20,
+    status?: PaymentStatus
+  ): Promise<{ payments: Payment[]; total: number; page: number; limit: number; totalPages: number }> {
+    const where = { organizationId, status };
+
+    const [payments, total] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.payment.count({ where })
+    ]);
+
+    return {
+      payments: payments.map(this.mapPaymentFromPrisma),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async getPaymentById(organizationId: string, paymentId: string): Promise<Payment | null> {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, organizationId }
+    });
+
+    return payment ? this.mapPaymentFromPrisma(payment) : null;
+  }
+
+  /**
+   * Processa a notificação do gateway. Notificações repetidas são esperadas
+   * (os gateways reenviam até receber 2xx) e não creditam de novo.
+   */
+  async handleWebhook(providerName: string, rawBody: Buffer, headers: IncomingHttpHeaders): Promise<Payment | null> {
+    const provider = this.getProvider(providerName);
+    if (!provider) {
+      throw new Error(`Gateway de pagamento desconhecido: ${providerName}`);
+    }
+
+    const event = await provider.parseWebhook(rawBody, headers);
+    if (!event) {
+      return null;
+    }
+
+    return this.applyEvent(provider.name, event);
+  }
+
+  /**
+   * Simula a notificação do gateway fake (apenas fora de produção)
+   */
+  async simulate(organizationId: string, paymentId: string, status: Exclude<PaymentStatus, 'pending'> = 'paid'): Promise<Payment> {
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, organizationId }
+    });
+
+    if (!payment) {
+      throw new Error('Pagamento não encontrado');
+    }
+
+    const provider = this.getProvider(payment.provider);
+    if (!(provider instanceof FakePaymentProvider) || !payment.providerPaymentId) {
+      throw new Error('Apenas pagamentos do gateway fake podem ser simulados');
+    }
+
+    const { rawBody, headers } = provider.buildWebhook(payment.providerPaymentId, status);
+    await this.handleWebhook(provider.name, rawBody, headers);
+
+    const updated = await prisma.payment.findUniqueOrThrow({ where: { id: paymentId } });
+    return this.mapPaymentFromPrisma(updated);
+  }
+
+  private async applyEvent(provider: PaymentProviderName, event: ProviderWebhookEvent): Promise<Payment | null> {
+    const payment = await prisma.payment.findFirst({
+      where: { provider, providerPaymentId: event.providerPaymentId }
+    });
+
+    if (!payment) {
+      logger.warn(`Notificação do gateway ${provider} para pagamento desconhecido: ${event.providerPaymentId}`);
+      return null;
+    }
+
+    if (event.status === 'paid') {
+      await this.confirm(payment);
+    } else if (event.status !== 'pending') {
+      // Falha e expiração só se aplicam a pagamentos ainda pendentes
+      const result = await prisma.payment.updateMany({
+        where: { id: payment.id, status: 'pending' },
+        data: { status: event.status, failureReason: event.failureReason }
+      });
+
+      if (result.count > 0) {
+        logger.info(`Pagamento ${payment.id} ${event.status === 'expired' ? 'expirado' : 'recusado'}`);
+      }
+    }
+
+    const updated = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    return this.mapPaymentFromPrisma(updated);
+  }
+
+  /**
+   * Marca o pagamento como pago e credita o saldo na mesma transação. A troca de status é
+   * condicional, então notificações repetidas ou simultâneas creditam uma única vez.
+   */
+  private async confirm(payment: PrismaPaymentType): Promise<void> {
+    const credited = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.payment.updateMany({
+        where: { id: payment.id, status: { not: 'paid' } },
+        data: { status: 'paid', paidAt: new Date(), failureReason: null }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const { transaction } = await this.balanceService.addBalance(
+        payment.organizationId,
+        payment.credits.toNumber(),
+        'deposit',
+        `Compra de créditos (${payment.packageId}) via ${payment.method === 'pix' ? 'PIX' : 'cartão'}`,
+        payment.id,
+        tx
+      );
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { transactionId: transaction.id }
+      });
+
+      return true;
+    });
+
+    if (credited) {
+      logger.info(`Pagamento ${payment.id} confirmado: ${payment.credits.toNumber()} créditos para organização ${payment.organizationId}`);
+    } else {
+      logger.debug(`Notificação repetida do pagamento ${payment.id} ignorada`);
+    }
+  }
+
+  private getProvider(name: string): PaymentProvider | null {
+    return Object.values(this.providers).find(provider => provider?.name === name) || null;
+  }
+
+  private mapPaymentFromPrisma(payment: PrismaPaymentType): Payment {
+    return {
+      id: payment.id,
+      organizationId: payment.organizationId,
+      userId: payment.userId || undefined,
+      packageId: payment.packageId,
+      method: payment.method as PaymentMethod,
+      provider: payment.provider as PaymentProviderName,
+      providerPaymentId: payment.providerPaymentId || undefined,
+      amount: payment.amount.toNumber(),
+      credits: payment.credits.toNumber(),
+      status: payment.status as PaymentStatus,
+      pixCode: payment.pixCode || undefined,
+      pixQrCode: payment.pixQrCode || undefined,
+      checkoutUrl: payment.checkoutUrl || undefined,
+      failureReason: payment.failureReason || undefined,
+      transactionId: payment.transactionId || undefined,
+      expiresAt: payment.expiresAt || undefined,
+      paidAt: payment.paidAt || undefined,
+      createdAt: payment.createdAt,
+      updatedAt: payment.updatedAt
+    };
+  }
+}
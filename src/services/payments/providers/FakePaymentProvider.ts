@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod, PaymentSignatureError, PaymentStatus } from '../../../types/payments';
+import { PaymentProvider, ProviderPayment, ProviderPaymentInput, ProviderWebhookEvent } from './PaymentProvider';
+import { hmacSha256, parseSignatureHeader, signatureMatches } from './signature';
+
+const SIGNATURE_HEADER = 'x-fake-signature';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const SIMULATED_STATUSES: PaymentStatus[] = ['paid', 'failed', 'expired'];
+
+/**
+ * Gateway de desenvolvimento: não cobra nada e só confirma pagamentos quando
+ * POST /api/payments/:paymentId/simulate envia uma notificação assinada, pelo mesmo
+ * caminho dos webhooks reais
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+
+  constructor(private webhookSecret: string) {}
+
+  async createPayment(method: PaymentMethod, input: ProviderPaymentInput): Promise<ProviderPayment> {
+    const providerPaymentId = `fake_${crypto.randomUUID()}`;
+
+    return {
+      providerPaymentId,
+      pixCode: method === 'pix' ? `FAKEPIX-${providerPaymentId}-${input.amount.toFixed(2)}` : undefined,
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000)
+    };
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<ProviderWebhookEvent | null> {
+    const signature = parseSignatureHeader(headers[SIGNATURE_HEADER]);
+    const timestamp = signature.t?.[0];
+
+    // Mesmas regras dos gateways reais: assinatura válida e notificação recente (sem replay)
+    if (!timestamp
+      || Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS
+      || !signatureMatches(hmacSha256(this.webhookSecret, `${timestamp}.${rawBody.toString()}`), signature.v1)) {
+      throw new PaymentSignatureError();
+    }
+
+    const event = JSON.parse(rawBody.toString());
+    if (typeof event.paymentId !== 'string' || !SIMULATED_STATUSES.includes(event.status)) {
+      return null;
+    }
+
+    return {
+      providerPaymentId: event.paymentId,
+      status: event.status,
+      failureReason: event.status === 'failed' ? 'Falha simulada' : undefined
+    };
+  }
+
+  /**
+   * Monta a notificação assinada que um gateway real enviaria
+   */
+  buildWebhook(providerPaymentId: string, status: PaymentStatus): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const rawBody = Buffer.from(JSON.stringify({ paymentId: providerPaymentId, status }));
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    return {
+      rawBody,
+      headers: {
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${hmacSha256(this.webhookSecret, `${timestamp}.${rawBody.toString()}`)}`
+      }
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod, PaymentSignatureError } from '../../../types/payments';
+import { PaymentProvider, ProviderPayment, ProviderPaymentInput, ProviderWebhookEvent } from './PaymentProvider';
+import { hmacSha256, parseSignatureHeader, signatureMatches } from './signature';
+
+const API_URL = 'https://api.mercadopago.com';
+
+export interface MercadoPagoConfig {
+  accessToken: string;
+  webhookSecret: string;
+  notificationUrl?: string; // sem ela, vale a URL configurada no painel do Mercado Pago
+  pixExpiresMinutes: number;
+}
+
+/**
+ * Cobranças PIX pelo Mercado Pago. A notificação traz apenas o id do pagamento;
+ * o status é sempre consultado na API depois de validar a assinatura.
+ */
+export class MercadoPagoPaymentProvider implements PaymentProvider {
+  readonly name = 'mercadopago' as const;
+
+  constructor(private config: MercadoPagoConfig) {}
+
+  async createPayment(method: PaymentMethod, input: ProviderPaymentInput): Promise<ProviderPayment> {
+    if (method !== 'pix') {
+      throw new Error('Mercado Pago está configurado apenas para PIX');
+    }
+
+    const expiresAt = new Date(Date.now() + this.config.pixExpiresMinutes * 60 * 1000);
+
+    const response = await fetch(`${API_URL}/v1/payments`, {
+      method: 'POST',
+      headers: {
+        'authorization': `Bearer ${this.config.accessToken}`,
+        'content-type': 'application/json',
+        'x-idempotency-key': input.paymentId
+      },
+      body: JSON.stringify({
+        transaction_amount: input.amount,
+        description: input.description,
+        payment_method_id: 'pix',
+        payer: { email: input.payerEmail },
+        external_reference: input.paymentId,
+        notification_url: this.config.notificationUrl,
+        date_of_expiration: expiresAt.toISOString()
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Falha ao criar cobrança PIX no Mercado Pago (${response.status}): ${await response.text()}`);
+    }
+
+    const payment: any = await response.json();
+    const transactionData = payment.point_of_interaction?.transaction_data || {};
+
+    return {
+      providerPaymentId: String(payment.id),
+      pixCode: transactionData.qr_code,
+      pixQrCode: transactionData.qr_code_base64,
+      expiresAt: payment.date_of_expiration ? new Date(payment.date_of_expiration) : expiresAt
+    };
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<ProviderWebhookEvent | null> {
+    const notification = JSON.parse(rawBody.toString());
+    const dataId = notification.data?.id ? String(notification.data.id).toLowerCase() : '';
+    const requestId = headers['x-request-id'];
+    const signature = parseSignatureHeader(headers['x-signature']);
+    const timestamp = signature.ts?.[0];
+
+    // Manifesto assinado pelo Mercado Pago: "id:<data.id>;request-id:<x-request-id>;ts:<ts>;"
+    const manifest = `id:${dataId};request-id:${requestId};ts:${timestamp};`;
+    if (!dataId || !requestId || !timestamp || !signatureMatches(hmacSha256(this.config.webhookSecret, manifest), signature.v1)) {
+      throw new PaymentSignatureError();
+    }
+
+    if (notification.type !== 'payment') {
+      return null;
+    }
+
+    const response = await fetch(`${API_URL}/v1/payments/${encodeURIComponent(dataId)}`, {
+      headers: { 'authorization': `Bearer ${this.config.accessToken}` }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Falha ao consultar pagamento no Mercado Pago (${response.status})`);
+    }
+
+    const payment: any = await response.json();
+    const providerPaymentId = String(payment.id);
+
+    switch (payment.status) {
+      case 'approved':
+        return { providerPaymentId, status: 'paid' };
+      case 'rejected':
+        return { providerPaymentId, status: 'failed', failureReason: payment.status_detail };
+      case 'cancelled':
+        // PIX não pago até o vencimento é cancelado com status_detail "expired"
+        return payment.status_detail === 'expired'
+          ? { providerPaymentId, status: 'expired' }
+          : { providerPaymentId, status: 'failed', failureReason: payment.status_detail };
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod, PaymentProviderName, PaymentStatus } from '../../../types/payments';
+
+export interface ProviderPaymentInput {
+  paymentId: string; // id do pagamento na API, usado como chave de idempotência
+  amount: number;
+  description: string;
+  payerEmail: string;
+}
+
+export interface ProviderPayment {
+  providerPaymentId: string;
+  pixCode?: string;
+  pixQrCode?: string;
+  checkoutUrl?: string;
+  expiresAt?: Date;
+}
+
+export interface ProviderWebhookEvent {
+  providerPaymentId: string;
+  status: PaymentStatus;
+  failureReason?: string;
+}
+
+/**
+ * Gateway de pagamento (PSP de PIX, processador de cartão ou o fake de desenvolvimento)
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  createPayment(method: PaymentMethod, input: ProviderPaymentInput): Promise<ProviderPayment>;
+
+  /**
+   * Verifica a assinatura da notificação e a traduz para o status do pagamento.
+   * Lança PaymentSignatureError se a assinatura for inválida; retorna null para eventos ignorados.
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<ProviderWebhookEvent | null>;
+}
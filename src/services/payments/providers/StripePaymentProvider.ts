@@ -0,0 +1,95 @@
+import { IncomingHttpHeaders } from 'http';
+import { PaymentMethod, PaymentSignatureError } from '../../../types/payments';
+import { PaymentProvider, ProviderPayment, ProviderPaymentInput, ProviderWebhookEvent } from './PaymentProvider';
+import { hmacSha256, parseSignatureHeader, signatureMatches } from './signature';
+
+const API_URL = 'https://api.stripe.com';
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface StripeConfig {
+  secretKey: string;
+  webhookSecret: string;
+  returnUrl: string; // página do frontend para onde o checkout volta
+}
+
+/**
+ * Pagamentos com cartão pelo Stripe Checkout: o usuário paga na página hospedada
+ * pelo Stripe e a confirmação chega pelo webhook
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+
+  constructor(private config: StripeConfig) {}
+
+  async createPayment(method: PaymentMethod, input: ProviderPaymentInput): Promise<ProviderPayment> {
+    if (method !== 'card') {
+      throw new Error('Stripe está configurado apenas para cartão');
+    }
+
+    const returnUrl = `${this.config.returnUrl}?payment=${encodeURIComponent(input.paymentId)}`;
+    const params = new URLSearchParams({
+      'mode': 'payment',
+      'payment_method_types[0]': 'card',
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': 'brl',
+      'line_items[0][price_data][unit_amount]': Math.round(input.amount * 100).toString(),
+      'line_items[0][price_data][product_data][name]': input.description,
+      'customer_email': input.payerEmail,
+      'client_reference_id': input.paymentId,
+      'metadata[paymentId]': input.paymentId,
+      'success_url': `${returnUrl}&status=success`,
+      'cancel_url': `${returnUrl}&status=cancel`
+    });
+
+    const response = await fetch(`${API_URL}/v1/checkout/sessions`, {
+      method: 'POST',
+      headers: {
+        'authorization': `Bearer ${this.config.secretKey}`,
+        'content-type': 'application/x-www-form-urlencoded',
+        'idempotency-key': input.paymentId
+      },
+      body: params.toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Falha ao criar checkout no Stripe (${response.status}): ${await response.text()}`);
+    }
+
+    const session: any = await response.json();
+
+    return {
+      providerPaymentId: session.id,
+      checkoutUrl: session.url,
+      expiresAt: session.expires_at ? new Date(session.expires_at * 1000) : undefined
+    };
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<ProviderWebhookEvent | null> {
+    const signature = parseSignatureHeader(headers['stripe-signature']);
+    const timestamp = Number(signature.t?.[0]);
+
+    // Assinatura: HMAC-SHA256 de "<t>.<corpo>"; notificações antigas são recusadas para evitar replay
+    if (!timestamp
+      || Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS
+      || !signatureMatches(hmacSha256(this.config.webhookSecret, `${timestamp}.${rawBody.toString()}`), signature.v1)) {
+      throw new PaymentSignatureError();
+    }
+
+    const event = JSON.parse(rawBody.toString());
+    const session = event.data?.object;
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Métodos assíncronos concluem o checkout antes do pagamento; a confirmação vem depois
+        return session.payment_status === 'paid' ? { providerPaymentId: session.id, status: 'paid' } : null;
+      case 'checkout.session.async_payment_succeeded':
+        return { providerPaymentId: session.id, status: 'paid' };
+      case 'checkout.session.async_payment_failed':
+        return { providerPaymentId: session.id, status: 'failed', failureReason: 'Pagamento recusado' };
+      case 'checkout.session.expired':
+        return { providerPaymentId: session.id, status: 'expired' };
+      default:
+        return null;
+    }
+  }
+}
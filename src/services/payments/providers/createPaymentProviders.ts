@@ -0,0 +1,77 @@
+import logger from '../../../utils/logger';
+import { PaymentMethod } from '../../../types/payments';
+import { PaymentProvider } from './PaymentProvider';
+import { FakePaymentProvider } from './FakePaymentProvider';
+import { MercadoPagoPaymentProvider } from './MercadoPagoPaymentProvider';
+import { StripePaymentProvider } from './StripePaymentProvider';
+
+const DEFAULT_FAKE_WEBHOOK_SECRET = 'fake-webhook-secret';
+
+/**
+ * Seleciona o gateway de cada método via PAYMENT_PIX_PROVIDER ('mercadopago' ou 'fake')
+ * e PAYMENT_CARD_PROVIDER ('stripe' ou 'fake'). Sem gateway configurado, o método fica indisponível.
+ * O fake confirma pagamentos sem cobrar: exige PAYMENT_FAKE_ENABLED=true, nunca roda em
+ * produção e não sobe com o segredo de exemplo.
+ */
+export function createPaymentProviders(): Record<PaymentMethod, PaymentProvider | null> {
+  const pixDriver = (process.env.PAYMENT_PIX_PROVIDER || '').toLowerCase();
+  const cardDriver = (process.env.PAYMENT_CARD_PROVIDER || '').toLowerCase();
+  const fake = pixDriver === 'fake' || cardDriver === 'fake' ? createFakeProvider() : null;
+
+  let pix: PaymentProvider | null = pixDriver === 'fake' ? fake : null;
+  let card: PaymentProvider | null = cardDriver === 'fake' ? fake : null;
+
+  if (pixDriver === 'mercadopago') {
+    const accessToken = process.env.PAYMENT_MERCADOPAGO_ACCESS_TOKEN;
+    const webhookSecret = process.env.PAYMENT_MERCADOPAGO_WEBHOOK_SECRET;
+
+    if (accessToken && webhookSecret) {
+      const baseUrl = process.env.PAYMENT_WEBHOOK_BASE_URL;
+      pix = new MercadoPagoPaymentProvider({
+        accessToken,
+        webhookSecret,
+        notificationUrl: baseUrl ? `${baseUrl.replace(/\/$/, '')}/api/payments/webhooks/mercadopago` : undefined,
+        pixExpiresMinutes: parseInt(process.env.PAYMENT_PIX_EXPIRES_MINUTES || '30')
+      });
+    } else {
+      logger.warn('PAYMENT_PIX_PROVIDER=mercadopago sem PAYMENT_MERCADOPAGO_ACCESS_TOKEN/PAYMENT_MERCADOPAGO_WEBHOOK_SECRET');
+    }
+  } else if (pixDriver && pixDriver !== 'fake') {
+    logger.warn(`PAYMENT_PIX_PROVIDER inválido (${pixDriver}), PIX indisponível`);
+  }
+
+  if (cardDriver === 'stripe') {
+    const secretKey = process.env.PAYMENT_STRIPE_SECRET_KEY;
+    const webhookSecret = process.env.PAYMENT_STRIPE_WEBHOOK_SECRET;
+
+    if (secretKey && webhookSecret) {
+      card = new StripePaymentProvider({
+        secretKey,
+        webhookSecret,
+        returnUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/billing`
+      });
+    } else {
+      logger.warn('PAYMENT_CARD_PROVIDER=stripe sem PAYMENT_STRIPE_SECRET_KEY/PAYMENT_STRIPE_WEBHOOK_SECRET');
+    }
+  } else if (cardDriver && cardDriver !== 'fake') {
+    logger.warn(`PAYMENT_CARD_PROVIDER inválido (${cardDriver}), cartão indisponível`);
+  }
+
+  return { pix, card };
+}
+
+function createFakeProvider(): FakePaymentProvider | null {
+  if (process.env.PAYMENT_FAKE_ENABLED !== 'true' || process.env.NODE_ENV === 'production') {
+    logger.warn('Gateway fake ignorado: defina PAYMENT_FAKE_ENABLED=true (indisponível em produção)');
+    return null;
+  }
+
+  const webhookSecret = process.env.PAYMENT_FAKE_WEBHOOK_SECRET;
+
+  // Com o segredo público, qualquer um forjaria confirmações em /api/payments/webhooks/fake
+  if (!webhookSecret || webhookSecret === DEFAULT_FAKE_WEBHOOK_SECRET) {
+    throw new Error('PAYMENT_FAKE_WEBHOOK_SECRET precisa ser definido com um valor próprio para usar o gateway fake');
+  }
+
+  return new FakePaymentProvider(webhookSecret);
+}
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+
+/**
+ * Lê cabeçalhos no formato "t=123,v1=abc" (ou "ts=123,v1=abc"); chaves repetidas viram lista
+ */
+export function parseSignatureHeader(header: string | string[] | undefined): Record<string, string[]> {
+  const parts: Record<string, string[]> = {};
+  const value = Array.isArray(header) ? header[0] : header;
+
+  for (const part of (value || '').split(',')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key && rest.length > 0) {
+      (parts[key] = parts[key] || []).push(rest.join('='));
+    }
+  }
+
+  return parts;
+}
+
+export function hmacSha256(secret: string, payload: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Compara assinaturas em tempo constante
+ */
+export function signatureMatches(expected: string, candidates: string[] = []): boolean {
+  const expectedBuffer = Buffer.from(expected);
+
+  return candidates.some(candidate => {
+    const candidateBuffer = Buffer.from(candidate);
+    return candidateBuffer.length === expectedBuffer.length
+      && crypto.timingSafeEqual(candidateBuffer, expectedBuffer);
+  });
+}
@@ -0,0 +1,202 @@
+import {
+  CountryCode,
+  getCountryCallingCode,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  PhoneNumber
+} from 'libphonenumber-js/max';
+import { InvalidPhoneNumberError, ParsedPhoneNumber, PhoneNumberType } from '../../types/phone';
+
+interface CountryRule {
+  // Corrige formatos antigos do número nacional antes da validação
+  normalize?: (nationalNumber: string) => string;
+  // Números nacionais testados no WhatsApp, do formato oficial para o alternativo
+  jidVariants?: (nationalNumber: string) => string[];
+}
+
+/**
+ * Regras de cada país para números que o WhatsApp registrou em formatos diferentes do E.164
+ */
+const COUNTRY_RULES: Record<string, CountryRule> = {
+  // Brasil: celulares ganharam o nono dígito, mas contas antigas continuam com 8 dígitos
+  BR: {
+    normalize: national => national.length === 10 && /[6-9]/.test(national[2])
+      ? `${national.slice(0, 2)}9${national.slice(2)}`
+      : national,
+    jidVariants: national => national.length === 11 && national[2] === '9'
+      ? [national, `${national.slice(0, 2)}${national.slice(3)}`]
+      : [national]
+  },
+  // México: o "1" depois do 52 deixou de existir em 2019; contas antigas ainda usam 521
+  MX: {
+    normalize: national => national.length === 11 && national.startsWith('1') ? national.slice(1) : national,
+    jidVariants: national => national.length === 10 ? [national, `1${national}`] : [national]
+  },
+  // Argentina: celulares levam o 9 depois do 54, mas parte das contas foi registrada sem ele
+  AR: {
+    jidVariants: national => {
+      if (national.length === 11 && national.startsWith('9')) {
+        return [national, national.slice(1)];
+      }
+
+      return national.length === 10 ? [national, `9${national}`] : [national];
+    }
+  }
+};
+
+const NUMBER_TYPES: Record<string, PhoneNumberType> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'fixed_line',
+  FIXED_LINE_OR_MOBILE: 'fixed_line_or_mobile',
+  TOLL_FREE: 'toll_free',
+  VOIP: 'voip'
+};
+
+/**
+ * Interpreta números em qualquer formato (com ou sem DDI, com máscara) usando as faixas
+ * do libphonenumber e normaliza para E.164
+ */
+export class PhoneNumberService {
+  /**
+   * Números com "+" ou "00" são internacionais; sem eles, o número é testado no país padrão
+   * e como internacional, preferindo o que for válido
+   */
+  parse(input: string, defaultCountry?: string): ParsedPhoneNumber {
+    const value = typeof input === 'string' ? input.trim() : '';
+    const digits = value.replace(/\D/g, '');
+
+    if (!digits) {
+      throw new InvalidPhoneNumberError(value, 'Número de telefone é obrigatório');
+    }
+
+    const country = this.resolveCountry(defaultCountry);
+    const candidates: Array<PhoneNumber | undefined> = [];
+
+    if (value.startsWith('+') || value.startsWith('00')) {
+      candidates.push(this.parseInternational(value.startsWith('00') ? digits.slice(2) : digits));
+    } else if (country) {
+      const national = parsePhoneNumberFromString(digits, country);
+      const international = this.parseInternational(digits);
+
+      // Número que já começa com o DDI do país padrão provavelmente foi escrito com DDI
+      if (digits.startsWith(getCountryCallingCode(country))) {
+        candidates.push(international, national);
+      } else {
+        candidates.push(national, international);
+      }
+    } else {
+      candidates.push(this.parseInternational(digits));
+    }
+
+    const parsed = candidates
+      .filter((candidate): candidate is PhoneNumber => !!candidate)
+      .map(candidate => this.applyCountryRule(candidate));
+
+    const phone = parsed.find(candidate => candidate.isValid()) || parsed.find(candidate => candidate.isPossible());
+
+    if (!phone) {
+      throw new InvalidPhoneNumberError(value);
+    }
+
+    return this.mapParsedNumber(phone);
+  }
+
+  /**
+   * Formato gravado nos contatos: E.164 sem o "+"
+   */
+  normalize(input: string, defaultCountry?: string): string {
+    return this.parse(input, defaultCountry).digits;
+  }
+
+  /**
+   * JIDs a testar no WhatsApp para o número, na ordem de preferência. JIDs recebidos
+   * prontos são mantidos; números que não puderam ser interpretados seguem só com os dígitos.
+   */
+  getJidCandidates(input: string, defaultCountry?: string): string[] {
+    if (input.includes('@')) {
+      return [input];
+    }
+
+    let phone: ParsedPhoneNumber;
+
+    try {
+      phone = this.parse(input, defaultCountry);
+    } catch (error) {
+      const digits = input.replace(/\D/g, '');
+      return digits ? [this.toJid(digits)] : [];
+    }
+
+    const rule = phone.country ? COUNTRY_RULES[phone.country] : undefined;
+    const variants = rule?.jidVariants ? rule.jidVariants(phone.national_number) : [phone.national_number];
+    const numbers = [phone.digits];
+
+    for (const variant of variants) {
+      numbers.push(`${phone.country_calling_code}${variant}`);
+    }
+
+    return Array.from(new Set(numbers)).map(number => this.toJid(number));
+  }
+
+  isSupportedCountry(country: string): boolean {
+    return typeof country === 'string' && isSupportedCountry(country.toUpperCase());
+  }
+
+  /**
+   * Valida e padroniza o código do país (ISO 3166-1 alfa-2, maiúsculo)
+   */
+  normalizeCountry(country: string): string {
+    if (!this.isSupportedCountry(country)) {
+      throw new Error(`País inválido: ${country}. Use o código ISO de duas letras (ex.: BR, US, MX)`);
+    }
+
+    return country.toUpperCase();
+  }
+
+  private resolveCountry(country?: string): CountryCode | undefined {
+    return country && this.isSupportedCountry(country) ? country.toUpperCase() as CountryCode : undefined;
+  }
+
+  private parseInternational(digits: string): PhoneNumber | undefined {
+    return parsePhoneNumberFromString(`+${digits}`);
+  }
+
+  /**
+   * Aplica a correção do país a números inválidos, mantendo-a só se o resultado for válido
+   */
+  private applyCountryRule(phone: PhoneNumber): PhoneNumber {
+    const rule = phone.country ? COUNTRY_RULES[phone.country] : undefined;
+
+    if (!rule?.normalize || phone.isValid()) {
+      return phone;
+    }
+
+    const national = rule.normalize(phone.nationalNumber);
+    if (national === phone.nationalNumber) {
+      return phone;
+    }
+
+    const corrected = this.parseInternational(`${phone.countryCallingCode}${national}`);
+    return corrected && corrected.isValid() ? corrected : phone;
+  }
+
+  private toJid(digits: string): string {
+    return `${digits}@s.whatsapp.net`;
+  }
+
+  private mapParsedNumber(phone: PhoneNumber): ParsedPhoneNumber {
+    const valid = phone.isValid();
+    const type = valid ? phone.getType() : undefined;
+
+    return {
+      e164: phone.number,
+      digits: phone.number.slice(1),
+      country: phone.country,
+      country_calling_code: phone.countryCallingCode,
+      national_number: phone.nationalNumber,
+      type: type ? NUMBER_TYPES[type] || 'other' : 'unknown',
+      valid,
+      national_format: phone.formatNational(),
+      international_format: phone.formatInternational()
+    };
+  }
+}
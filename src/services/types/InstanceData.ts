@@ -2,7 +2,8 @@ import { WASocket } from '@whiskeysockets/baileys';
 
 export interface InstanceData {
   instanceId: string;
-  userId: string;
+  organizationId: string;
+  name?: string;
   socket: WASocket;
   status: 'connecting' | 'connected' | 'disconnected' | 'qr_pending' | 'code_pending';
   qr?: string;
@@ -19,6 +20,5 @@ export interface InstanceData {
   // Dados de histórico
   chats?: any[];
   contacts?: any[];
-  messages?: any[];
   lastHistorySync?: Date;
 }
\ No newline at end of file
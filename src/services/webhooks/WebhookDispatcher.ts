@@ -0,0 +1,54 @@
+import eventBus from '../events/EventBus';
+import logger from '../../utils/logger';
+import { WebhookService } from './WebhookService';
+
+class WebhookDispatcher {
+  private webhookService: WebhookService;
+  private retryInterval?: NodeJS.Timeout;
+  private unsubscribe?: () => void;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    // Entregar eventos publicados pelo EventHandlers
+    this.unsubscribe = eventBus.subscribe(event => {
+      this.webhookService.dispatch(event).catch(error => {
+        logger.error(`Erro ao despachar webhooks do evento ${event.event} para ${event.connectionId}:`, error);
+      });
+    });
+
+    // Reprocessar entregas com falha (backoff exponencial)
+    this.retryInterval = setInterval(async () => {
+      try {
+        const processed = await this.webhookService.processPendingDeliveries();
+        if (processed > 0) {
+          logger.info(`${processed} entregas de webhook reprocessadas`);
+        }
+      } catch (error) {
+        logger.error('Erro ao reprocessar entregas de webhook:', error);
+      }
+    }, 10000); // A cada 10 segundos
+
+    logger.info('Dispatcher de webhooks iniciado');
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = undefined;
+    }
+
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval);
+      this.retryInterval = undefined;
+    }
+  }
+}
+
+export default new WebhookDispatcher();
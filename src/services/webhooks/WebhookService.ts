@@ -0,0 +1,417 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import logger from '../../utils/logger';
+import { WhatsAppEvent, WHATSAPP_EVENT_TYPES } from '../../types/events';
+import { Webhook, WebhookDelivery, CreateWebhookRequest, UpdateWebhookRequest } from '../../types/webhooks';
+import { assertPublicUrl, fetchPublicUrl } from './outboundUrl';
+
+export class WebhookService {
+  private readonly MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6');
+  private readonly RETRY_BASE_DELAY = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '10000');
+  private readonly RETRY_MAX_DELAY = 60 * 60 * 1000; // 1 hora
+  private readonly TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+  private readonly STALE_DELIVERY_MS = 5 * 60 * 1000;
+
+  /**
+   * Só aceita destinos públicos: o servidor não pode ser usado para alcançar serviços internos
+   */
+  private async validateUrl(url: string): Promise<string> {
+    try {
+      return (await assertPublicUrl(url)).toString();
+    } catch (error) {
+      throw new Error(`URL do webhook recusada: ${(error as Error).message}`);
+    }
+  }
+
+  private validateEvents(events: string[]): string[] {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new Error('Informe pelo menos um evento');
+    }
+
+    const invalid = events.filter(event => !WHATSAPP_EVENT_TYPES.includes(event as any));
+    if (invalid.length > 0) {
+      throw new Error(`Eventos inválidos: ${invalid.join(', ')}. Válidos: ${WHATSAPP_EVENT_TYPES.join(', ')}`);
+    }
+
+    return Array.from(new Set(events));
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  /**
+   * Assina o corpo da requisição: HMAC-SHA256 de "<timestamp>.<body>"
+   */
+  sign(secret: string, timestamp: string, body: string): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+
+  async createWebhook(organizationId: string, data: CreateWebhookRequest): Promise<Webhook> {
+    const webhook = await prisma.webhook.create({
+      data: {
+        organizationId,
+        connectionId: data.connectionId || null,
+        url: await this.validateUrl(data.url),
+        events: this.validateEvents(data.events),
+        description: data.description?.trim() || null,
+        secret: this.generateSecret()
+      }
+    });
+
+    logger.info(`Webhook criado: ${webhook.id} para organização ${organizationId}`);
+    // O segredo só é exibido na criação e na rotação
+    return this.mapWebhookFromPrisma(webhook, true);
+  }
+
+  /**
+   * connectionIds limita a lista aos webhooks dessas conexões (chaves de API restritas)
+   */
+  async getWebhooks(organizationId: string, connectionIds?: string[]): Promise<Webhook[]> {
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        organizationId,
+        ...(connectionIds?.length ? { connectionId: { in: connectionIds } } : {})
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return webhooks.map(webhook => this.mapWebhookFromPrisma(webhook));
+  }
+
+  async getWebhookById(organizationId: string, webhookId: string): Promise<Webhook | null> {
+    const webhook = await prisma.webhook.findFirst({
+      where: { id: webhookId, organizationId }
+    });
+
+    return webhook ? this.mapWebhookFromPrisma(webhook) : null;
+  }
+
+  async updateWebhook(organizationId: string, webhookId: string, data: UpdateWebhookRequest): Promise<Webhook> {
+    const updateData: Prisma.WebhookUpdateManyMutationInput = {};
+
+    if (data.url !== undefined) {
+      updateData.url = await this.validateUrl(data.url);
+    }
+    if (data.events !== undefined) {
+      updateData.events = this.validateEvents(data.events);
+    }
+    if (data.connectionId !== undefined) {
+      updateData.connectionId = data.connectionId || null;
+    }
+    if (data.description !== undefined) {
+      updateData.description = data.description?.trim() || null;
+    }
+    if (data.active !== undefined) {
+      updateData.active = data.active;
+    }
+
+    const result = await prisma.webhook.updateMany({
+      where: { id: webhookId, organizationId },
+      data: updateData
+    });
+
+    if (result.count === 0) {
+      throw new Error('Webhook não encontrado');
+    }
+
+    const webhook = await prisma.webhook.findUniqueOrThrow({
+      where: { id: webhookId }
+    });
+
+    logger.info(`Webhook atualizado: ${webhookId} para organização ${organizationId}`);
+    return this.mapWebhookFromPrisma(webhook);
+  }
+
+  async rotateSecret(organizationId: string, webhookId: string): Promise<Webhook> {
+    const result = await prisma.webhook.updateMany({
+      where: { id: webhookId, organizationId },
+      data: { secret: this.generateSecret() }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Webhook não encontrado');
+    }
+
+    const webhook = await prisma.webhook.findUniqueOrThrow({
+      where: { id: webhookId }
+    });
+
+    logger.info(`Segredo do webhook ${webhookId} rotacionado`);
+    return this.mapWebhookFromPrisma(webhook, true);
+  }
+
+  async deleteWebhook(organizationId: string, webhookId: string): Promise<void> {
+    const result = await prisma.webhook.deleteMany({
+      where: { id: webhookId, organizationId }
+    });
+
+    if (result.count === 0) {
+      throw new Error('Webhook não encontrado');
+    }
+
+    logger.info(`Webhook removido: ${webhookId} para organização ${organizationId}`);
+  }
+
+  async getDeliveries(
+    organizationId: string,
+    webhookId: string,
+    page: number = 1,
+    limit: number = 20,
+    status?: 'pending' | 'success' | 'failed'
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number; page: number; limit: number; totalPages: number }> {
+    const webhook = await this.getWebhookById(organizationId, webhookId);
+    if (!webhook) {
+      throw new Error('Webhook não encontrado');
+    }
+
+    const where: Prisma.WebhookDeliveryWhereInput = { webhookId };
+    if (status) {
+      where.status = status;
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.webhookDelivery.count({ where })
+    ]);
+
+    return {
+      deliveries: deliveries.map(this.mapDeliveryFromPrisma),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Enfileira o evento para todos os webhooks inscritos e faz a primeira tentativa
+   */
+  async dispatch(event: WhatsAppEvent): Promise<void> {
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        organizationId: event.organizationId,
+        active: true,
+        events: { has: event.event },
+        OR: [
+          { connectionId: null },
+          { connectionId: event.connectionId }
+        ]
+      }
+    });
+
+    for (const webhook of webhooks) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          webhookId: webhook.id,
+          event: event.event,
+          payload: this.buildPayload(event)
+        }
+      });
+
+      await this.attemptDelivery(delivery.id);
+    }
+  }
+
+  /**
+   * Envia um evento de teste para o webhook (uma única tentativa)
+   */
+  async sendTest(organizationId: string, webhookId: string): Promise<WebhookDelivery> {
+    const webhook = await this.getWebhookById(organizationId, webhookId);
+    if (!webhook) {
+      throw new Error('Webhook não encontrado');
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        webhookId,
+        event: 'webhook.test',
+        payload: {
+          event: 'webhook.test',
+          connectionId: webhook.connectionId || null,
+          timestamp: new Date().toISOString(),
+          data: { message: 'Evento de teste enviado pela WhatsApp API' }
+        }
+      }
+    });
+
+    return this.attemptDelivery(delivery.id, false);
+  }
+
+  /**
+   * Reprocessa entregas pendentes cujo horário de nova tentativa já chegou
+   */
+  async processPendingDeliveries(batchSize: number = 50): Promise<number> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - this.STALE_DELIVERY_MS);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        OR: [
+          { nextAttemptAt: { lte: now } },
+          // Entregas que ficaram presas em andamento (ex.: reinício do servidor)
+          { nextAttemptAt: null, updatedAt: { lte: staleBefore } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: batchSize
+    });
+
+    let processed = 0;
+
+    for (const delivery of deliveries) {
+      // Reservar a entrega para evitar envio duplicado
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: 'pending',
+          updatedAt: delivery.updatedAt
+        },
+        data: { nextAttemptAt: null }
+      });
+
+      if (claimed.count === 0) continue;
+
+      await this.attemptDelivery(delivery.id);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  private async attemptDelivery(deliveryId: string, retry: boolean = true): Promise<WebhookDelivery> {
+    const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { webhook: true }
+    });
+
+    const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = this.sign(delivery.webhook.secret, timestamp, body);
+    const attempts = delivery.attempts + 1;
+
+    let statusCode: number | null = null;
+    let durationMs: number | null = null;
+    let errorMessage: string | null = null;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.TIMEOUT);
+
+    const startedAt = Date.now();
+
+    try {
+      // O destino é validado de novo a cada envio: o DNS pode ter mudado desde o cadastro
+      const response = await fetchPublicUrl(delivery.webhook.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'user-agent': 'WhatsApp-API-Webhooks/1.0',
+          'x-webhook-id': delivery.webhookId,
+          'x-webhook-delivery': delivery.id,
+          'x-webhook-event': delivery.event,
+          'x-webhook-timestamp': timestamp,
+          'x-webhook-signature': `sha256=${signature}`
+        },
+        body,
+        signal: controller.signal
+      });
+
+      statusCode = response.status;
+      durationMs = Date.now() - startedAt;
+      // O corpo da resposta é descartado: só status e tempo de resposta importam para a entrega
+      await response.body?.cancel();
+
+      if (!response.ok) {
+        errorMessage = `HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = controller.signal.aborted
+        ? `Tempo limite de ${this.TIMEOUT}ms excedido`
+        : (error as Error).message;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const succeeded = errorMessage === null;
+    const canRetry = retry && !succeeded && attempts < this.MAX_ATTEMPTS;
+
+    const updated = await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        attempts,
+        statusCode,
+        durationMs,
+        error: errorMessage,
+        status: succeeded ? 'success' : canRetry ? 'pending' : 'failed',
+        deliveredAt: succeeded ? new Date() : null,
+        nextAttemptAt: canRetry ? new Date(Date.now() + this.getRetryDelay(attempts)) : null
+      }
+    });
+
+    if (succeeded) {
+      logger.debug(`Webhook ${delivery.webhookId} entregue (${delivery.event}) com status ${statusCode}`);
+    } else {
+      logger.warn(`Falha na entrega ${deliveryId} do webhook ${delivery.webhookId} (tentativa ${attempts}): ${errorMessage}`);
+    }
+
+    return this.mapDeliveryFromPrisma(updated);
+  }
+
+  /**
+   * Backoff exponencial: base * 2^(tentativa - 1), limitado a 1 hora
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(this.RETRY_MAX_DELAY, this.RETRY_BASE_DELAY * Math.pow(2, attempts - 1));
+  }
+
+  private buildPayload(event: WhatsAppEvent): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify({
+      event: event.event,
+      connectionId: event.connectionId,
+      timestamp: event.timestamp,
+      data: event.data
+    }));
+  }
+
+  private mapWebhookFromPrisma(webhook: any, includeSecret: boolean = false): Webhook {
+    return {
+      id: webhook.id,
+      organizationId: webhook.organizationId,
+      connectionId: webhook.connectionId || undefined,
+      url: webhook.url,
+      secret: includeSecret ? webhook.secret : undefined,
+      events: webhook.events,
+      description: webhook.description || undefined,
+      active: webhook.active,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt
+    };
+  }
+
+  private mapDeliveryFromPrisma(delivery: any): WebhookDelivery {
+    return {
+      id: delivery.id,
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      statusCode: delivery.statusCode ?? undefined,
+      durationMs: delivery.durationMs ?? undefined,
+      error: delivery.error || undefined,
+      nextAttemptAt: delivery.nextAttemptAt || undefined,
+      deliveredAt: delivery.deliveredAt || undefined,
+      createdAt: delivery.createdAt
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Faixas que não podem receber chamadas feitas pelo servidor em nome dos usuários:
+ * loopback, rede privada, link-local (inclui o metadata da nuvem, 169.254.169.254) e reservadas
+ */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+];
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+/**
+ * Valida o formato (http/https) e verifica se todos os endereços do host são públicos.
+ * Com WEBHOOK_ALLOW_PRIVATE_URLS=true (desenvolvimento), só o formato é verificado.
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    throw new UnsafeUrlError('URL inválida');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UnsafeUrlError('URL deve usar http ou https');
+  }
+
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') {
+    return parsed;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+
+  try {
+    addresses = net.isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true })).map(entry => entry.address);
+  } catch (error) {
+    throw new UnsafeUrlError(`Não foi possível resolver ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(`${hostname} aponta para um endereço interno`);
+  }
+
+  return parsed;
+}
+
+/**
+ * fetch que valida o destino antes da requisição e a cada redirecionamento
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit): Promise<Response> {
+  let target = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target);
+
+    const response = await fetch(target, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new UnsafeUrlError(`Mais de ${MAX_REDIRECTS} redirecionamentos`);
+    }
+
+    target = new URL(location, target).toString();
+  }
+}
+
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const value = ipv4ToNumber(address);
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+      const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+      return ((value & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0);
+    });
+  }
+
+  const normalized = address.toLowerCase();
+
+  // IPv4 mapeado em IPv6, escrito como ::ffff:127.0.0.1 ou ::ffff:7f00:1 (forma usada pelo URL)
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  return normalized === '::'
+    || normalized === '::1'
+    || /^f[cd][0-9a-f]{2}:/.test(normalized) // fc00::/7, endereços locais únicos
+    || /^fe[89ab][0-9a-f]:/.test(normalized) // fe80::/10, link-local
+    || /^ff[0-9a-f]{2}:/.test(normalized); // multicast
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => ((value << 8) + parseInt(octet, 10)) >>> 0, 0);
+}
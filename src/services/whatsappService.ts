@@ -2,8 +2,18 @@ import { WhatsAppConnection, Contact as ContactType, Group, ValidatedNumber } fr
 import { ConnectionManager } from './connection/ConnectionManager';
 import { MessageService } from './messaging/MessageService';
 import { ContactService } from './contacts/ContactService';
+import { MessageStorageService } from './messaging/MessageStorageService';
+import { MessageQueueService } from './messaging/MessageQueueService';
+import { MediaService } from './media/MediaService';
+import { GroupService } from './groups/GroupService';
 import { BalanceService } from './monetization/BalanceService';
-import { InsufficientBalanceError } from '../types/monetization';
+import { PlanService } from './monetization/PlanService';
+import { BillableAction, Charge, InsufficientBalanceError } from '../types/monetization';
+import { StoredMessage, MessageFilters, SendRichMessageRequest, SentMessageResult } from '../types/messages';
+import { PaginationMetadata } from '../types/contacts';
+import { MessageJob, ReplyJobPayload, SendSettings, UpdateSendSettingsRequest } from '../types/messageQueue';
+import { MediaSettings, MessageMedia, UpdateMediaSettingsRequest } from '../types/media';
+import { GroupInfo, GroupInvite, GroupParticipantAction, GroupParticipantResult, UpdateGroupSettingsRequest } from '../types/groups';
 import logger from '../utils/logger';
 
 class WhatsAppService {
@@ -11,15 +21,25 @@ class WhatsAppService {
   private messageService: MessageService;
   private contactService: ContactService;
   private balanceService: BalanceService;
+  private planService: PlanService;
+  private messageStorage: MessageStorageService;
+  private messageQueue: MessageQueueService;
+  private mediaService: MediaService;
+  private groupService: GroupService;
 
   constructor() {
     this.connectionManager = new ConnectionManager();
     this.balanceService = new BalanceService();
+    this.planService = new PlanService();
+    this.messageStorage = new MessageStorageService();
+    this.messageQueue = new MessageQueueService();
+    this.mediaService = new MediaService();
     
     // Passar a referência das instâncias para os outros serviços
     const instances = (this.connectionManager as any).instances;
     this.contactService = new ContactService(instances);
-    this.messageService = new MessageService(instances, this.contactService);
+    this.groupService = new GroupService(instances);
+    this.messageService = new MessageService(instances, this.contactService, this.messageStorage, this.mediaService);
     
     // Limpeza periódica de instâncias desconectadas
     setInterval(async () => {
@@ -32,25 +52,14 @@ class WhatsAppService {
   }
 
   // Métodos de conexão
-  async createConnection(userId: string, pairingMethod: 'qr' | 'code' = 'qr', phoneNumber?: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
-    // Verificar saldo antes de criar conexão (2 créditos)
-    try {
-      await this.balanceService.deductBalance(
-        userId, 
-        2, 
-        'connection', 
-        'Criação de nova conexão WhatsApp'
-      );
-    } catch (error) {
-      if (error instanceof InsufficientBalanceError) {
-        throw error;
-      }
-      logger.error('Erro ao deduzir saldo para conexão:', error);
-      throw new Error('Erro interno ao processar pagamento');
-    }
+  async createConnection(organizationId: string, pairingMethod: 'qr' | 'code' = 'qr', phoneNumber?: string, name?: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
+    await this.planService.assertConnectionLimit(organizationId);
+
+    // Cobrar a criação da conexão (franquia do plano ou preço vigente)
+    const charge = await this.charge(organizationId, 'connection', 'Criação de nova conexão WhatsApp');
 
     try {
-      const result = await this.connectionManager.createConnection(userId, pairingMethod, phoneNumber);
+      const result = await this.connectionManager.createConnection(organizationId, pairingMethod, phoneNumber, name);
       
       // Registrar ID da conexão na transação (se possível)
       // Nota: Como a transação já foi criada, não podemos atualizar facilmente
@@ -59,40 +68,41 @@ class WhatsAppService {
       return result;
     } catch (error) {
       // Se falhou ao criar conexão, reembolsar os créditos
-      try {
-        await this.balanceService.addBalance(
-          userId,
-          2,
-          'refund',
-          'Reembolso por falha na criação de conexão'
-        );
-        logger.info(`Reembolso de 2 créditos para usuário ${userId} por falha na conexão`);
-      } catch (refundError) {
-        logger.error('Erro ao reembolsar créditos:', refundError);
-      }
-      
+      await this.refund(organizationId, charge, 'Reembolso por falha na criação de conexão');
       throw error;
     }
   }
 
-  async validateConnection(userId: string, connectionId: string, code: string): Promise<boolean> {
-    return this.connectionManager.validateConnection(userId, connectionId, code);
+  async validateConnection(organizationId: string, connectionId: string, code: string): Promise<boolean> {
+    return this.connectionManager.validateConnection(organizationId, connectionId, code);
   }
 
-  async removeConnection(userId: string, connectionId: string): Promise<void> {
-    return this.connectionManager.removeConnection(userId, connectionId);
+  async removeConnection(organizationId: string, connectionId: string): Promise<void> {
+    return this.connectionManager.removeConnection(organizationId, connectionId);
   }
 
-  getAllConnections(userId?: string): WhatsAppConnection[] {
-    return this.connectionManager.getAllConnections(userId);
+  async disconnectConnection(connectionId: string): Promise<void> {
+    return this.connectionManager.disconnectConnection(connectionId);
   }
 
-  getConnection(userId: string, connectionId: string): WhatsAppConnection | undefined {
-    return this.connectionManager.getConnection(userId, connectionId);
+  getAllConnections(organizationId?: string): WhatsAppConnection[] {
+    return this.connectionManager.getAllConnections(organizationId);
   }
 
-  async restartConnection(userId: string, connectionId: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
-    return this.connectionManager.restartConnection(userId, connectionId);
+  getConnection(organizationId: string, connectionId: string): WhatsAppConnection | undefined {
+    return this.connectionManager.getConnection(organizationId, connectionId);
+  }
+
+  async listConnections(organizationId: string): Promise<WhatsAppConnection[]> {
+    return this.connectionManager.listConnections(organizationId);
+  }
+
+  async findConnection(organizationId: string, connectionId: string): Promise<WhatsAppConnection | undefined> {
+    return this.connectionManager.findConnection(organizationId, connectionId);
+  }
+
+  async restartConnection(organizationId: string, connectionId: string): Promise<{ connectionId: string; qrCode?: string; pairingCode?: string }> {
+    return this.connectionManager.restartConnection(organizationId, connectionId);
   }
 
   async restoreInstances(): Promise<void> {
@@ -100,59 +110,219 @@ class WhatsAppService {
   }
 
   // Métodos de mensagem
-  async sendMessage(userId: string, connectionId: string, to: string, message: string): Promise<{ success: boolean; wa_id?: string; message?: string }> {
-    return this.messageService.sendMessage(userId, connectionId, to, message);
+  async sendMessage(organizationId: string, connectionId: string, to: string, message: string): Promise<{ success: boolean; wa_id?: string; message_id?: string; message?: string }> {
+    return this.messageService.sendMessage(organizationId, connectionId, to, message);
   }
 
   async sendFile(
-    userId: string,
+    organizationId: string,
     connectionId: string, 
     to: string, 
     fileBuffer: Buffer, 
     fileName: string, 
     mimetype: string, 
     caption?: string
-  ): Promise<{ success: boolean; wa_id?: string; message?: string }> {
-    return this.messageService.sendFile(userId, connectionId, to, fileBuffer, fileName, mimetype, caption);
+  ): Promise<{ success: boolean; wa_id?: string; message_id?: string; message?: string }> {
+    return this.messageService.sendFile(organizationId, connectionId, to, fileBuffer, fileName, mimetype, caption);
+  }
+
+  async sendRichMessage(organizationId: string, request: SendRichMessageRequest): Promise<SentMessageResult> {
+    return this.messageService.sendRichMessage(organizationId, request);
+  }
+
+  async sendReply(organizationId: string, connectionId: string, remoteJid: string, reply: ReplyJobPayload): Promise<SentMessageResult> {
+    return this.messageService.sendReply(organizationId, connectionId, remoteJid, reply);
+  }
+
+  // Mídias de mensagens
+  async getMessageMedia(organizationId: string, connectionId: string, messageId: string): Promise<MessageMedia | null> {
+    return this.messageService.downloadMedia(organizationId, connectionId, messageId);
+  }
+
+  async getMediaSettings(organizationId: string): Promise<MediaSettings> {
+    return this.mediaService.getSettings(organizationId);
+  }
+
+  async updateMediaSettings(organizationId: string, settings: UpdateMediaSettingsRequest): Promise<MediaSettings> {
+    return this.mediaService.updateSettings(organizationId, settings);
+  }
+
+  // Fila de envio (o MessageQueueWorker chama os métodos de envio acima respeitando o ritmo da conexão)
+  async queueMessage(organizationId: string, connectionId: string, to: string, message: string): Promise<MessageJob> {
+    const charge = await this.charge(organizationId, 'text_message', `Envio de mensagem para ${to}`, connectionId);
+
+    try {
+      return await this.messageQueue.enqueueText(organizationId, connectionId, to, message, charge);
+    } catch (error) {
+      await this.refund(organizationId, charge, 'Reembolso de mensagem não enfileirada');
+      throw error;
+    }
+  }
+
+  async queueFile(
+    organizationId: string,
+    connectionId: string,
+    to: string,
+    fileBuffer: Buffer,
+    fileName: string,
+    mimetype: string,
+    caption?: string
+  ): Promise<MessageJob> {
+    const charge = await this.charge(organizationId, 'media_message', `Envio de arquivo para ${to}`, connectionId);
+
+    try {
+      return await this.messageQueue.enqueueFile(organizationId, connectionId, to, fileBuffer, fileName, mimetype, caption, charge);
+    } catch (error) {
+      await this.refund(organizationId, charge, 'Reembolso de arquivo não enfileirado');
+      throw error;
+    }
+  }
+
+  async queueRichMessage(organizationId: string, request: SendRichMessageRequest): Promise<MessageJob> {
+    const charge = await this.charge(organizationId, 'text_message', `Envio de mensagem (${request.type})`, request.connectionId);
+
+    try {
+      return await this.messageQueue.enqueueRich(organizationId, request, charge);
+    } catch (error) {
+      await this.refund(organizationId, charge, 'Reembolso de mensagem não enfileirada');
+      throw error;
+    }
+  }
+
+  async getMessageJob(organizationId: string, jobId: string): Promise<MessageJob | null> {
+    return this.messageQueue.getJob(organizationId, jobId);
+  }
+
+  async getSendSettings(organizationId: string, connectionId: string): Promise<SendSettings> {
+    return this.messageQueue.getSendSettings(organizationId, connectionId);
+  }
+
+  async updateSendSettings(organizationId: string, connectionId: string, data: UpdateSendSettingsRequest): Promise<SendSettings> {
+    return this.messageQueue.updateSendSettings(organizationId, connectionId, data);
   }
 
   // Métodos de contatos
-  async getContacts(userId: string, connectionId: string): Promise<ContactType[]> {
-    return this.contactService.getContacts(userId, connectionId);
+  async getContacts(organizationId: string, connectionId: string): Promise<ContactType[]> {
+    return this.contactService.getContacts(organizationId, connectionId);
+  }
+
+  async getGroups(organizationId: string, connectionId: string): Promise<Group[]> {
+    return this.contactService.getGroups(organizationId, connectionId);
+  }
+
+  // Gerenciamento de grupos
+  async createGroup(organizationId: string, connectionId: string, subject: string, participants: string[]): Promise<{ group: GroupInfo; participants: GroupParticipantResult[] }> {
+    return this.groupService.createGroup(organizationId, connectionId, subject, participants);
+  }
+
+  async getGroup(organizationId: string, connectionId: string, groupId: string): Promise<GroupInfo> {
+    return this.groupService.getGroup(organizationId, connectionId, groupId);
+  }
+
+  async updateGroupParticipants(organizationId: string, connectionId: string, groupId: string, action: GroupParticipantAction, participants: string[]): Promise<GroupParticipantResult[]> {
+    return this.groupService.updateParticipants(organizationId, connectionId, groupId, action, participants);
+  }
+
+  async updateGroupSubject(organizationId: string, connectionId: string, groupId: string, subject: string): Promise<void> {
+    return this.groupService.updateSubject(organizationId, connectionId, groupId, subject);
+  }
+
+  async updateGroupDescription(organizationId: string, connectionId: string, groupId: string, description: string): Promise<void> {
+    return this.groupService.updateDescription(organizationId, connectionId, groupId, description);
+  }
+
+  async updateGroupPicture(organizationId: string, connectionId: string, groupId: string, image: Buffer): Promise<void> {
+    return this.groupService.updatePicture(organizationId, connectionId, groupId, image);
   }
 
-  async getGroups(userId: string, connectionId: string): Promise<Group[]> {
-    return this.contactService.getGroups(userId, connectionId);
+  async removeGroupPicture(organizationId: string, connectionId: string, groupId: string): Promise<void> {
+    return this.groupService.removePicture(organizationId, connectionId, groupId);
+  }
+
+  async updateGroupSettings(organizationId: string, connectionId: string, groupId: string, settings: UpdateGroupSettingsRequest): Promise<GroupInfo> {
+    return this.groupService.updateSettings(organizationId, connectionId, groupId, settings);
+  }
+
+  async getGroupInviteCode(organizationId: string, connectionId: string, groupId: string): Promise<GroupInvite> {
+    return this.groupService.getInviteCode(organizationId, connectionId, groupId);
+  }
+
+  async revokeGroupInviteCode(organizationId: string, connectionId: string, groupId: string): Promise<GroupInvite> {
+    return this.groupService.revokeInviteCode(organizationId, connectionId, groupId);
+  }
+
+  async getGroupInviteInfo(organizationId: string, connectionId: string, invite: string): Promise<GroupInfo> {
+    return this.groupService.getInviteInfo(organizationId, connectionId, invite);
+  }
+
+  async joinGroup(organizationId: string, connectionId: string, invite: string): Promise<string> {
+    return this.groupService.joinByInvite(organizationId, connectionId, invite);
+  }
+
+  async leaveGroup(organizationId: string, connectionId: string, groupId: string): Promise<void> {
+    return this.groupService.leaveGroup(organizationId, connectionId, groupId);
   }
 
   // Novos métodos para chats e mensagens
-  async getChats(userId: string, connectionId: string): Promise<any[]> {
-    return this.contactService.getChats(userId, connectionId);
+  async getChats(organizationId: string, connectionId: string): Promise<any[]> {
+    return this.contactService.getChats(organizationId, connectionId);
   }
 
-  async getMessages(userId: string, connectionId: string, limit?: number): Promise<any[]> {
-    return this.contactService.getMessages(userId, connectionId, limit);
+  async getMessages(
+    organizationId: string,
+    connectionId: string,
+    page?: number,
+    limit?: number,
+    filters?: MessageFilters
+  ): Promise<{ messages: StoredMessage[]; pagination: PaginationMetadata }> {
+    return this.messageStorage.getMessagesPaginated(organizationId, connectionId, page, limit, filters);
   }
 
-  async validateNumber(userId: string, connectionId: string, number: string): Promise<ValidatedNumber> {
-    // Verificar saldo antes de validar número (0.10 créditos)
+  async validateNumber(organizationId: string, connectionId: string, number: string): Promise<ValidatedNumber> {
+    // Cobrar antes de consultar o WhatsApp
+    const charge = await this.charge(organizationId, 'validation', `Validação do número ${number}`, connectionId);
+
     try {
-      await this.balanceService.deductBalance(
-        userId, 
-        0.10, 
-        'validation', 
-        `Validação do número ${number}`,
-        connectionId
-      );
+      const result = await this.contactService.validateNumber(organizationId, connectionId, number);
+      return { ...result, cost: charge.amount };
+    } catch (error) {
+      await this.refund(organizationId, charge, `Reembolso de validação não realizada do número ${number}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Cobra uma ação da tabela de preços, convertendo falhas inesperadas em erro de pagamento
+   */
+  private async charge(
+    organizationId: string,
+    action: BillableAction,
+    description: string,
+    relatedEntityId?: string
+  ): Promise<Charge> {
+    try {
+      return await this.balanceService.chargeAction(organizationId, action, description, relatedEntityId);
     } catch (error) {
       if (error instanceof InsufficientBalanceError) {
         throw error;
       }
-      logger.error('Erro ao deduzir saldo para validação:', error);
+      logger.error(`Erro ao deduzir saldo para ${action}:`, error);
       throw new Error('Erro interno ao processar pagamento');
     }
+  }
 
-    return this.contactService.validateNumber(userId, connectionId, number);
+  /**
+   * Estorna exatamente o que foi cobrado (créditos e franquia), mesmo que o preço tenha mudado desde então
+   */
+  private async refund(organizationId: string, charge: Charge, description: string): Promise<void> {
+    try {
+      await this.balanceService.refundCharge(organizationId, charge, description);
+      if (charge.amount > 0) {
+        logger.info(`Reembolso de ${charge.amount} créditos para organização ${organizationId}`);
+      }
+    } catch (refundError) {
+      logger.error('Erro ao reembolsar créditos:', refundError);
+    }
   }
 }
 
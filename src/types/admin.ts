@@ -0,0 +1,48 @@
+import { WhatsAppConnection } from './types';
+
+export interface AdminUserOrganization {
+  id: string;
+  name: string;
+  role: string;
+  balance: number;
+}
+
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  suspendedAt?: Date;
+  suspendedReason?: string;
+  createdAt: Date;
+  organizations: AdminUserOrganization[];
+}
+
+export interface AdminUserFilters {
+  search?: string; // nome ou email
+  status?: 'active' | 'suspended';
+}
+
+export interface SuspendUserRequest {
+  reason?: string;
+}
+
+// Instância em memória, de qualquer organização
+export interface AdminConnection extends WhatsAppConnection {
+  organizationName?: string;
+}
+
+export interface PlatformTransactionSummary {
+  totalCredited: number;
+  totalDebited: number;
+  byCategory: Array<{
+    type: 'credit' | 'debit';
+    category: string;
+    total: number;
+    count: number;
+  }>;
+  totalBalance: number; // soma dos saldos de todas as organizações
+  organizations: number;
+  users: number;
+  suspendedUsers: number;
+}
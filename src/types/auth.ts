@@ -8,12 +8,21 @@ export interface User {
   updatedAt: Date;
   resetToken?: string;
   resetTokenExpiry?: Date;
+  suspendedAt?: Date;
+  suspendedReason?: string;
+  defaultCountry: string; // ISO 3166-1 alfa-2 usado em números sem DDI
 }
 
 export interface RegisterRequest {
   name: string;
   email: string;
   password: string;
+  defaultCountry?: string;
+}
+
+export interface UpdateProfileRequest {
+  name?: string;
+  defaultCountry?: string;
 }
 
 export interface LoginRequest {
@@ -35,13 +44,36 @@ export interface UpdatePasswordRequest {
   newPassword: string;
 }
 
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+// Dados do cliente que abriu a sessão
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
 export interface AuthResponse {
   success: boolean;
   data?: {
     user?: Omit<User, 'password'>;
     token?: string;
+    refreshToken?: string;
+    expiresIn?: string;
     balance?: number;
     role?: string;
+    organizationId?: string;
     message?: string;
   };
   message?: string;
@@ -51,6 +83,72 @@ export interface AuthResponse {
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId?: string;
+  // Carregados do banco a cada requisição, não vêm do token
+  organizationId?: string; // organização ativa (header X-Organization-Id ou a pessoal)
+  role?: string; // papel do usuário na organização ativa
+  platformRole?: string;
+  defaultCountry?: string; // país padrão dos números sem DDI
   iat?: number;
   exp?: number;
-}
\ No newline at end of file
+}
+
+export const API_KEY_SCOPES = [
+  'messages:send',
+  'messages:read',
+  'conversations:manage',
+  'contacts:read',
+  'contacts:write',
+  'connections:read',
+  'connections:manage',
+  'groups:read',
+  'groups:manage',
+  'campaigns:manage',
+  'webhooks:manage',
+  'auto-replies:manage',
+  'media:manage',
+  'events:read',
+  'balance:read'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  id: string;
+  organizationId: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  connectionIds: string[];
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  connectionIds?: string[];
+  expiresAt?: string;
+}
+
+export interface UpdateApiKeyRequest {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  connectionIds?: string[];
+}
+
+// Dados da chave usada na requisição atual
+export interface ApiKeyContext {
+  id: string;
+  scopes: ApiKeyScope[];
+  connectionIds: string[];
+}
+
+export interface ApiKeyResponse {
+  success: boolean;
+  data?: ApiKey | ApiKey[] | (ApiKey & { key: string });
+  message?: string;
+  error?: string;
+}
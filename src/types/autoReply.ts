@@ -0,0 +1,73 @@
+export type AutoReplyActionType = 'reply' | 'webhook' | 'tag';
+
+export type AutoReplyMatchMode = 'contains' | 'exact' | 'startsWith';
+
+export interface AutoReplyConditions {
+  keywords?: string[];
+  matchMode?: AutoReplyMatchMode; // padrão 'contains'
+  regex?: string;
+  senders?: string[]; // números ou JIDs
+  chatType?: 'private' | 'group' | 'any'; // padrão 'private'
+  timeStart?: string; // HH:mm
+  timeEnd?: string; // HH:mm
+  timezone?: string; // padrão: fuso da conexão
+  firstContact?: boolean;
+}
+
+export interface ReplyActionConfig {
+  text?: string; // aceita {{name}}, {{phone}} e {{message}}
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video' | 'audio' | 'document';
+  fileName?: string;
+  quote?: boolean;
+}
+
+export interface WebhookActionConfig {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface TagActionConfig {
+  tag: string;
+}
+
+export type AutoReplyActionConfig = ReplyActionConfig | WebhookActionConfig | TagActionConfig;
+
+export interface AutoReplyRule {
+  id: string;
+  organizationId: string;
+  connectionId: string;
+  name: string;
+  active: boolean;
+  priority: number;
+  conditions: AutoReplyConditions;
+  actionType: AutoReplyActionType;
+  actionConfig: AutoReplyActionConfig;
+  cooldownSeconds: number;
+  stopProcessing: boolean;
+  triggerCount: number;
+  lastTriggeredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateAutoReplyRuleRequest {
+  connectionId: string;
+  name: string;
+  active?: boolean;
+  priority?: number;
+  conditions?: AutoReplyConditions;
+  actionType: AutoReplyActionType;
+  actionConfig: AutoReplyActionConfig;
+  cooldownSeconds?: number;
+  stopProcessing?: boolean;
+}
+
+export type UpdateAutoReplyRuleRequest = Partial<Omit<CreateAutoReplyRuleRequest, 'connectionId'>>;
+
+export interface AutoReplyResponse {
+  success: boolean;
+  data?: AutoReplyRule | AutoReplyRule[] | any;
+  message?: string;
+  error?: string;
+}
@@ -0,0 +1,67 @@
+import { ContactFilters } from './contacts';
+
+export type CampaignStatus = 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type CampaignRecipientStatus = 'pending' | 'queued' | 'sent' | 'failed' | 'cancelled';
+
+export interface CampaignStats {
+  pending: number;
+  queued: number;
+  sent: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface Campaign {
+  id: string;
+  organizationId: string;
+  name: string;
+  template: string;
+  filters: ContactFilters;
+  connectionIds: string[];
+  status: CampaignStatus;
+  pauseReason?: string;
+  costPerMessage: number;
+  totalRecipients: number;
+  scheduledAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  stats?: CampaignStats;
+}
+
+export interface CampaignRecipient {
+  id: string;
+  campaignId: string;
+  contactId?: string;
+  phoneNumber: string;
+  message: string;
+  status: CampaignRecipientStatus;
+  connectionId?: string;
+  jobId?: string;
+  waMessageId?: string;
+  error?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateCampaignRequest {
+  name: string;
+  template: string;
+  filters?: ContactFilters;
+  connectionIds: string[];
+  scheduledAt?: string;
+}
+
+export interface CampaignResponse {
+  success: boolean;
+  data?: Campaign | Campaign[] | CampaignRecipient[] | any;
+  total?: number;
+  page?: number;
+  limit?: number;
+  totalPages?: number;
+  message?: string;
+  error?: string;
+}
@@ -1,7 +1,8 @@
 export interface Contact {
   id: string;
   user_id: string;
-  phone_number: string;
+  phone_number: string; // E.164 sem o "+"
+  country?: string | null; // ISO 3166-1 alfa-2
   name?: string | null;
   whatsapp_exists?: boolean | null;
   whatsapp_jid?: string | null;
@@ -15,6 +16,7 @@ export interface Contact {
   whatsapp_address?: string | null;
   whatsapp_category?: string | null;
   metadata?: any;
+  tags?: string[];
   last_whatsapp_check?: Date | null;
   created_at: Date;
   updated_at: Date;
@@ -23,6 +25,7 @@ export interface Contact {
 export interface ContactFilters {
   search?: string;
   phoneNumber?: string;
+  country?: string; // ISO 3166-1 alfa-2
   hasWhatsApp?: boolean | null;
   hasPicture?: boolean | null;
   notValidated?: boolean | null;
@@ -30,6 +33,12 @@ export interface ContactFilters {
   createdAtEnd?: string;
   sortBy?: 'createdAt' | 'updatedAt' | 'phoneNumber' | 'name' | 'lastWhatsappCheck';
   sortOrder?: 'asc' | 'desc';
+  tags?: string[]; // nomes das tags
+  tagMode?: 'all' | 'any'; // 'all' (padrão): o contato precisa ter todas as tags
+  excludeTags?: string[];
+  listId?: string;
+  segmentId?: string; // combinado (E) com os demais filtros
+  metadata?: Record<string, string | number | boolean>; // igualdade em chaves de metadata
 }
 
 export interface PaginationMetadata {
@@ -90,9 +99,211 @@ export interface ContactResponse extends PaginatedApiResponse<Contact | Contact[
   error?: string;
 }
 
+export const CONTACT_IMPORT_FORMATS = ['txt', 'csv', 'xlsx', 'vcf'] as const;
+
+export type ContactImportFormat = typeof CONTACT_IMPORT_FORMATS[number];
+
+/**
+ * Mapeamento coluna → campo: os valores são os cabeçalhos da planilha
+ */
+export interface ContactImportMapping {
+  phone_number: string;
+  name?: string;
+  metadata?: Record<string, string>; // chave em metadata → cabeçalho
+}
+
+export interface ContactImportOptions {
+  format: ContactImportFormat;
+  delimiter?: string; // CSV; detectado pelo cabeçalho quando omitido
+  mapping?: ContactImportMapping;
+  dryRun?: boolean;
+  upsert?: boolean; // atualiza nome e metadata de contatos existentes
+}
+
+/**
+ * Linha já extraída do arquivo, com o número da linha de origem
+ */
+export interface ContactImportRow {
+  line: number;
+  phone_number: string;
+  name?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ImportRowError {
+  line: number;
+  value?: string;
+  error: string;
+}
+
+export type ImportRowAction = 'create' | 'update' | 'skip';
+
+export interface ImportPreviewRow {
+  line: number;
+  phone_number: string;
+  country?: string;
+  name?: string;
+  metadata?: Record<string, string>;
+  action: ImportRowAction;
+}
+
 export interface ImportResult {
+  total_rows: number;
   imported: number;
+  updated: number;
   skipped: number;
-  errors: string[];
+  errors: ImportRowError[];
+  dry_run: boolean;
+  preview?: ImportPreviewRow[];
   contacts?: Contact[];
-}
\ No newline at end of file
+}
+
+export class ContactImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactImportError';
+  }
+}
+
+export interface ContactTag {
+  id: string;
+  name: string;
+  color?: string;
+  contact_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ContactList {
+  id: string;
+  name: string;
+  description?: string;
+  contact_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Segmento dinâmico: os filtros são avaliados a cada uso, então novos contatos entram sozinhos
+ */
+export interface ContactSegment {
+  id: string;
+  name: string;
+  description?: string;
+  filters: ContactFilters;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ContactTagRequest {
+  name?: string;
+  color?: string | null;
+}
+
+export interface ContactListRequest {
+  name?: string;
+  description?: string | null;
+}
+
+export interface ContactSegmentRequest {
+  name?: string;
+  description?: string | null;
+  filters?: ContactFilters;
+}
+
+/**
+ * Seleção de contatos das operações em lote: ids explícitos ou os mesmos filtros da listagem
+ */
+export interface ContactSelection {
+  contact_ids?: string[];
+  filters?: ContactFilters;
+}
+
+export interface BulkTagRequest extends ContactSelection {
+  tags: string[];
+}
+
+export interface BulkOperationResult {
+  matched: number;
+  affected: number;
+}
+
+export const CONTACT_EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const;
+
+export type ContactExportFormat = typeof CONTACT_EXPORT_FORMATS[number];
+
+export const CONTACT_EXPORT_COLUMNS = [
+  'id',
+  'phone_number',
+  'country',
+  'name',
+  'whatsapp_exists',
+  'whatsapp_jid',
+  'whatsapp_status',
+  'whatsapp_picture',
+  'whatsapp_business',
+  'whatsapp_verified_name',
+  'whatsapp_business_hours',
+  'whatsapp_website',
+  'whatsapp_email',
+  'whatsapp_address',
+  'whatsapp_category',
+  'metadata',
+  'tags',
+  'last_whatsapp_check',
+  'created_at',
+  'updated_at'
+] as const;
+
+export type ContactExportColumn = typeof CONTACT_EXPORT_COLUMNS[number];
+
+/**
+ * Colunas padrão; metadata.* expande uma coluna por chave de metadata (metadata.cidade, ...)
+ */
+export const DEFAULT_CONTACT_EXPORT_COLUMNS = [
+  'phone_number',
+  'country',
+  'name',
+  'whatsapp_exists',
+  'whatsapp_business',
+  'whatsapp_verified_name',
+  'tags',
+  'created_at',
+  'metadata.*'
+];
+
+export class ContactExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactExportError';
+  }
+}
+export type ContactValidationJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface ValidateBatchRequest {
+  connection_id: string;
+  filters?: ContactFilters;
+}
+
+export interface ContactValidationJob {
+  id: string;
+  user_id: string;
+  connection_id: string;
+  filters: ContactFilters;
+  status: ContactValidationJobStatus;
+  total: number;
+  processed: number;
+  progress: number;
+  summary: {
+    exists: number;
+    not_exists: number;
+    business: number;
+    failed: number;
+  };
+  cost: number;
+  error?: string | null;
+  started_at?: Date | null;
+  completed_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
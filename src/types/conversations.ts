@@ -0,0 +1,75 @@
+import { PaginationMetadata } from './contacts';
+
+export const CONVERSATION_STATUSES = ['open', 'pending', 'closed'] as const;
+
+export type ConversationStatus = typeof CONVERSATION_STATUSES[number];
+
+export interface ConversationMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface Conversation {
+  id: string;
+  organizationId: string;
+  connectionId: string;
+  remoteJid: string;
+  isGroup: boolean;
+  name?: string;
+  status: ConversationStatus;
+  assignedTo?: ConversationMember;
+  unreadCount: number;
+  tags: string[];
+  lastMessageAt?: Date;
+  lastMessagePreview?: string;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationNote {
+  id: string;
+  conversationId: string;
+  author?: Pick<ConversationMember, 'id' | 'name'>;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationFilters {
+  status?: ConversationStatus;
+  assignedTo?: string; // id do membro, 'me' ou 'unassigned'
+  connectionId?: string;
+  connectionIds?: string[]; // conexões permitidas à chave de API
+  tag?: string;
+  search?: string; // nome ou número
+  unread?: boolean;
+}
+
+export interface UpdateConversationRequest {
+  status?: ConversationStatus;
+  assignedToId?: string | null; // null remove a atribuição
+  tags?: string[];
+}
+
+export interface ReplyConversationRequest {
+  message: string;
+  quotedMessageId?: string;
+}
+
+export interface CreateConversationNoteRequest {
+  content: string;
+}
+
+export interface ConversationListResponse {
+  conversations: Conversation[];
+  pagination: PaginationMetadata;
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor() {
+    super('Conversa não encontrada');
+    this.name = 'ConversationNotFoundError';
+  }
+}
@@ -0,0 +1,36 @@
+export type WhatsAppEventType =
+  | 'message.received'
+  | 'message.sent'
+  | 'message.status'
+  | 'message.receipt'
+  | 'message.reaction'
+  | 'call'
+  | 'group.participants'
+  | 'group.update'
+  | 'connection.status'
+  | 'connection.qr'
+  | 'connection.pairing_code'
+  | 'presence.update';
+
+export const WHATSAPP_EVENT_TYPES: WhatsAppEventType[] = [
+  'message.received',
+  'message.sent',
+  'message.status',
+  'message.receipt',
+  'message.reaction',
+  'call',
+  'group.participants',
+  'group.update',
+  'connection.status',
+  'connection.qr',
+  'connection.pairing_code',
+  'presence.update'
+];
+
+export interface WhatsAppEvent<T = any> {
+  event: WhatsAppEventType;
+  organizationId: string;
+  connectionId: string;
+  timestamp: string;
+  data: T;
+}
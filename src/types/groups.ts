@@ -0,0 +1,43 @@
+export type GroupParticipantAction = 'add' | 'remove' | 'promote' | 'demote';
+
+export interface GroupParticipantResult {
+  jid: string;
+  status: string; // código retornado pelo WhatsApp ('200', '403', '409'...)
+  success: boolean;
+  error?: string;
+}
+
+export interface GroupInfo {
+  id: string;
+  subject: string;
+  description?: string;
+  owner?: string;
+  creation?: number;
+  announce: boolean; // apenas admins enviam mensagens
+  restrict: boolean; // apenas admins editam dados do grupo
+  size: number;
+  participants: {
+    jid: string;
+    admin: 'admin' | 'superadmin' | null;
+  }[];
+}
+
+export interface CreateGroupRequest {
+  subject: string;
+  participants: string[];
+}
+
+export interface UpdateGroupParticipantsRequest {
+  action: GroupParticipantAction;
+  participants: string[];
+}
+
+export interface UpdateGroupSettingsRequest {
+  announcement?: boolean;
+  locked?: boolean;
+}
+
+export interface GroupInvite {
+  code: string;
+  link: string;
+}
@@ -0,0 +1,23 @@
+export type MediaKind = 'image' | 'video' | 'audio' | 'document' | 'sticker';
+
+export interface MediaSettings {
+  autoDownload: boolean;
+  maxSizeMb: number;
+  allowedTypes: MediaKind[]; // vazio = todos os tipos
+}
+
+export type UpdateMediaSettingsRequest = Partial<MediaSettings>;
+
+export interface MessageMedia {
+  buffer: Buffer;
+  mimetype: string;
+  fileName: string;
+  size: number;
+}
+
+export class MediaLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaLimitError';
+  }
+}
@@ -0,0 +1,64 @@
+import { SendRichMessageRequest } from './messages';
+
+export type MessageJobType = 'text' | 'file' | 'rich' | 'reply';
+
+export type MessageJobStatus = 'queued' | 'processing' | 'sent' | 'failed' | 'cancelled';
+
+export interface TextJobPayload {
+  message: string;
+}
+
+export interface FileJobPayload {
+  fileName: string;
+  mimetype: string;
+  caption?: string;
+  filePath: string;
+}
+
+// Mensagens interativas; o destinatário fica em `to` (vazio em reações, que usam o chat da mensagem original)
+export type RichJobPayload = Omit<SendRichMessageRequest, 'connectionId' | 'to'>;
+
+// Resposta automática com o texto já renderizado; a mídia é baixada da URL no momento do envio
+export interface ReplyJobPayload {
+  text?: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video' | 'audio' | 'document';
+  fileName?: string;
+  quotedMessageId?: string;
+}
+
+export interface MessageJob {
+  id: string;
+  connectionId: string;
+  type: MessageJobType;
+  to: string;
+  status: MessageJobStatus;
+  attempts: number;
+  error?: string;
+  waJid?: string;
+  waMessageId?: string;
+  cost: number; // créditos cobrados; estornados se o envio falhar ou for cancelado
+  scheduledAt: Date;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SendSettings {
+  messagesPerMinute: number;
+  jitterMinMs: number;
+  jitterMaxMs: number;
+  dailyLimit: number | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+}
+
+export type UpdateSendSettingsRequest = Partial<SendSettings>;
+
+export class InvalidRecipientError extends Error {
+  constructor(to: string) {
+    super(`Número ${to} não está no WhatsApp ou é inválido`);
+    this.name = 'InvalidRecipientError';
+  }
+}
@@ -0,0 +1,97 @@
+export type MessageType = 'text' | 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'location' | 'contact' | 'unknown';
+
+export type MessageStatus = 'error' | 'pending' | 'server_ack' | 'delivered' | 'read' | 'played';
+
+export interface StoredMessage {
+  id: string;
+  connectionId: string;
+  remoteJid: string;
+  messageId: string;
+  fromMe: boolean;
+  from?: string;
+  participant?: string;
+  isGroup: boolean;
+  type: MessageType;
+  content?: string;
+  caption?: string;
+  mediaUrl?: string;
+  mediaStored?: boolean; // mídia já baixada para o armazenamento
+  quotedMessage?: any;
+  metadata?: any;
+  status?: MessageStatus;
+  timestamp: Date;
+  editedAt?: Date;
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MessageFilters {
+  chatId?: string;
+  type?: MessageType;
+  direction?: 'incoming' | 'outgoing';
+  startDate?: string;
+  endDate?: string;
+  includeDeleted?: boolean;
+}
+
+export type OutgoingMessageType = 'text' | 'location' | 'contact' | 'poll' | 'reaction';
+
+export interface OutgoingLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+}
+
+export interface OutgoingContactCard {
+  name: string;
+  phoneNumber: string;
+  organization?: string;
+  email?: string;
+}
+
+export interface OutgoingPoll {
+  name: string;
+  options: string[];
+  selectableCount?: number; // 0 = várias opções
+}
+
+export interface OutgoingLinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  thumbnailUrl?: string;
+}
+
+export interface SendRichMessageRequest {
+  connectionId: string;
+  to?: string; // número ou JID de grupo; opcional em reações
+  type: OutgoingMessageType;
+  text?: string;
+  mentions?: string[];
+  quotedMessageId?: string;
+  linkPreview?: OutgoingLinkPreview | false;
+  location?: OutgoingLocation;
+  contacts?: OutgoingContactCard[];
+  poll?: OutgoingPoll;
+  reaction?: {
+    messageId: string;
+    emoji: string; // vazio remove a reação
+  };
+}
+
+export interface SentMessageKey {
+  remoteJid: string;
+  fromMe: boolean;
+  id: string;
+  participant?: string;
+}
+
+export interface SentMessageResult {
+  success: boolean;
+  wa_id: string;
+  message_id?: string;
+  key?: SentMessageKey;
+  message?: string;
+}
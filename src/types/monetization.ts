@@ -1,11 +1,76 @@
+import { Plan, PlanPeriodUsage } from './plans';
+
+export type DebitCategory = 'connection' | 'validation' | 'message' | 'enrichment' | 'subscription';
+
+export type TransactionCategory = DebitCategory | 'deposit' | 'refund';
+
+// Ações cobradas do saldo, com preço definido na tabela de preços
+export const BILLABLE_ACTIONS = [
+  'connection',
+  'validation',
+  'text_message',
+  'media_message',
+  'campaign_recipient',
+  'enrichment'
+] as const;
+
+export type BillableAction = typeof BILLABLE_ACTIONS[number];
+
+// Categoria da transação gerada por cada ação
+export const ACTION_CATEGORIES: Record<BillableAction, DebitCategory> = {
+  connection: 'connection',
+  validation: 'validation',
+  text_message: 'message',
+  media_message: 'message',
+  campaign_recipient: 'message',
+  enrichment: 'enrichment'
+};
+
+export interface Price {
+  id: string;
+  action: BillableAction;
+  organizationId?: string; // preço próprio da organização
+  planId?: string; // preço dos assinantes do plano; sem organização nem plano = padrão
+  amount: number;
+  version: number;
+  createdById?: string;
+  validFrom: Date;
+  validUntil?: Date; // ausente = versão vigente
+  createdAt: Date;
+}
+
+// Preço aplicado a uma organização: o próprio, o do plano ou o padrão, nessa ordem
+export interface EffectivePrice {
+  action: BillableAction;
+  amount: number;
+  priceId: string;
+  source: 'organization' | 'plan' | 'default';
+  version: number;
+}
+
+export interface UpdatePriceRequest {
+  amount: number;
+  organizationId?: string; // informado = preço exclusivo da organização
+  planId?: string; // informado = preço dos assinantes do plano
+}
+
+// Resultado da cobrança de uma ação, usado para estornar exatamente o que foi cobrado
+export interface Charge {
+  action: BillableAction;
+  amount: number; // créditos debitados; 0 quando gratuito ou coberto pela franquia
+  transaction?: Transaction; // débito, quando houve
+  planPeriodId?: string; // período do plano em que o uso foi contado
+}
+
 export interface Transaction {
   id: string;
-  userId: string;
+  organizationId: string;
   amount: number;
   type: 'credit' | 'debit';
-  category: 'connection' | 'validation' | 'deposit' | 'refund';
+  category: TransactionCategory;
   description?: string;
   relatedEntityId?: string;
+  priceId?: string;
   balanceBefore: number;
   balanceAfter: number;
   createdAt: Date;
@@ -26,7 +91,11 @@ export interface BalanceResponse {
       connectionsCreated: number;
       numbersValidated: number;
       currentBalance: number;
+      plan: PlanPeriodUsage | null;
     };
+    prices?: EffectivePrice[];
+    plans?: Plan[];
+    plan?: PlanPeriodUsage | null;
     message?: string;
   };
   message?: string;
@@ -41,7 +110,7 @@ export interface AddBalanceRequest {
 
 export interface TransactionFilters {
   type?: 'credit' | 'debit';
-  category?: 'connection' | 'validation' | 'deposit' | 'refund';
+  category?: TransactionCategory;
   startDate?: string;
   endDate?: string;
 }
@@ -0,0 +1,55 @@
+import { Role } from './permissions';
+
+export interface Organization {
+  id: string;
+  name: string;
+  balance: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Organização vista por um membro, com o papel dele
+export interface OrganizationMembership extends Organization {
+  role: Role;
+  personal: boolean;
+}
+
+export interface OrganizationMember {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: Role;
+  createdAt: Date;
+}
+
+export interface OrganizationInvite {
+  id: string;
+  email: string;
+  role: Role;
+  invitedById: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreateOrganizationRequest {
+  name: string;
+}
+
+export interface UpdateOrganizationRequest {
+  name?: string;
+}
+
+export interface CreateInviteRequest {
+  email: string;
+  role?: Role;
+}
+
+export interface AcceptInviteRequest {
+  token: string;
+}
+
+export interface UpdateMemberRoleRequest {
+  role: Role;
+}
@@ -0,0 +1,59 @@
+export const PAYMENT_METHODS = ['pix', 'card'] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export type PaymentProviderName = 'fake' | 'mercadopago' | 'stripe';
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'expired';
+
+export interface CreditPackage {
+  id: string;
+  name: string;
+  price: number; // valor cobrado, em reais
+  credits: number; // créditos adicionados ao saldo
+}
+
+// Pacotes de créditos à venda
+export const CREDIT_PACKAGES: CreditPackage[] = [
+  { id: 'credits-50', name: '50 créditos', price: 50, credits: 50 },
+  { id: 'credits-200', name: '200 créditos + 10 de bônus', price: 200, credits: 210 },
+  { id: 'credits-500', name: '500 créditos + 50 de bônus', price: 500, credits: 550 }
+];
+
+export interface Payment {
+  id: string;
+  organizationId: string;
+  userId?: string;
+  packageId: string;
+  method: PaymentMethod;
+  provider: PaymentProviderName;
+  providerPaymentId?: string;
+  amount: number;
+  credits: number;
+  status: PaymentStatus;
+  pixCode?: string;
+  pixQrCode?: string;
+  checkoutUrl?: string;
+  failureReason?: string;
+  transactionId?: string;
+  expiresAt?: Date;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePaymentRequest {
+  packageId: string;
+  method: PaymentMethod;
+}
+
+export interface SimulatePaymentRequest {
+  status?: Exclude<PaymentStatus, 'pending'>;
+}
+
+export class PaymentSignatureError extends Error {
+  constructor(message: string = 'Assinatura do webhook inválida') {
+    super(message);
+    this.name = 'PaymentSignatureError';
+  }
+}
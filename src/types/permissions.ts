@@ -0,0 +1,82 @@
+export const PERMISSIONS = [
+  'messages:send',
+  'messages:read',
+  'conversations:manage', // status, responsável, etiquetas e notas da caixa de entrada
+  'contacts:read',
+  'contacts:write',
+  'connections:read',
+  'connections:manage',
+  'groups:read',
+  'groups:manage',
+  'campaigns:manage',
+  'webhooks:manage',
+  'auto-replies:manage',
+  'media:manage',
+  'events:read',
+  'balance:read',
+  'plans:manage', // assinatura de plano da organização
+  'payments:create', // compra de créditos pela organização
+  'members:manage',
+  'balance:manage', // créditos de qualquer organização
+  'users:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Permissões da plataforma: dependem apenas do papel do usuário, não da organização
+export const PLATFORM_PERMISSIONS: Permission[] = ['balance:manage', 'users:manage'];
+
+// Papel do usuário na plataforma; 'admin' também é admin em qualquer organização
+export const PLATFORM_ROLES = ['admin', 'user'] as const;
+
+export type PlatformRole = typeof PLATFORM_ROLES[number];
+
+// Papel do membro dentro de uma organização
+export const ROLES = ['admin', 'operator', 'billing', 'read-only'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: PERMISSIONS.filter(permission => !PLATFORM_PERMISSIONS.includes(permission)),
+  operator: [
+    'messages:send',
+    'messages:read',
+    'conversations:manage',
+    'contacts:read',
+    'contacts:write',
+    'connections:read',
+    'connections:manage',
+    'groups:read',
+    'groups:manage',
+    'campaigns:manage',
+    'auto-replies:manage',
+    'media:manage',
+    'events:read'
+  ],
+  billing: [
+    'balance:read',
+    'plans:manage',
+    'payments:create',
+    'connections:read'
+  ],
+  'read-only': [
+    'messages:read',
+    'contacts:read',
+    'connections:read',
+    'groups:read',
+    'events:read',
+    'balance:read'
+  ]
+};
+
+export const hasPermission = (role: string | undefined, permission: Permission, platformRole?: string): boolean => {
+  if (PLATFORM_PERMISSIONS.includes(permission)) {
+    return platformRole === 'admin';
+  }
+
+  return !!role && (ROLE_PERMISSIONS[role as Role] || []).includes(permission);
+};
+
+export interface UpdateUserRoleRequest {
+  role: PlatformRole;
+}
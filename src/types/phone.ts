@@ -0,0 +1,30 @@
+// País assumido quando o usuário não escolheu outro
+export const DEFAULT_PHONE_COUNTRY = 'BR';
+
+export type PhoneNumberType =
+  | 'mobile'
+  | 'fixed_line'
+  | 'fixed_line_or_mobile'
+  | 'toll_free'
+  | 'voip'
+  | 'other'
+  | 'unknown';
+
+export interface ParsedPhoneNumber {
+  e164: string; // +5511987654321
+  digits: string; // 5511987654321, formato gravado nos contatos
+  country?: string; // ISO 3166-1 alfa-2; ausente em códigos compartilhados sem faixa conhecida
+  country_calling_code: string;
+  national_number: string;
+  type: PhoneNumberType;
+  valid: boolean; // pertence a uma faixa em uso no país (não apenas tem o tamanho certo)
+  national_format: string;
+  international_format: string;
+}
+
+export class InvalidPhoneNumberError extends Error {
+  constructor(value: string, reason?: string) {
+    super(reason || `Número de telefone inválido: ${value}`);
+    this.name = 'InvalidPhoneNumberError';
+  }
+}
@@ -0,0 +1,72 @@
+import { BillableAction } from './monetization';
+
+// Recursos com franquia mensal nos planos
+export const QUOTA_RESOURCES = ['connections', 'validations', 'messages'] as const;
+
+export type QuotaResource = typeof QUOTA_RESOURCES[number];
+
+// Franquia consumida por cada ação; as demais são sempre cobradas em créditos
+export const ACTION_QUOTAS: Partial<Record<BillableAction, QuotaResource>> = {
+  connection: 'connections',
+  validation: 'validations',
+  text_message: 'messages',
+  media_message: 'messages',
+  campaign_recipient: 'messages'
+};
+
+export interface Plan {
+  id: string;
+  name: string;
+  description?: string;
+  monthlyPrice: number;
+  connectionsQuota: number;
+  validationsQuota: number;
+  messagesQuota: number;
+  maxConnections?: number; // ausente = sem limite
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QuotaUsage {
+  quota: number;
+  used: number;
+  remaining: number;
+  overage: number; // uso além da franquia, cobrado em créditos
+}
+
+// Período de cobrança vigente da organização
+export interface PlanPeriodUsage {
+  periodId: string;
+  plan: Pick<Plan, 'id' | 'name' | 'maxConnections'>;
+  startsAt: Date;
+  endsAt: Date;
+  connections: QuotaUsage;
+  validations: QuotaUsage;
+  messages: QuotaUsage;
+}
+
+export interface CreatePlanRequest {
+  name: string;
+  description?: string;
+  monthlyPrice?: number;
+  connectionsQuota?: number;
+  validationsQuota?: number;
+  messagesQuota?: number;
+  maxConnections?: number | null;
+}
+
+export interface UpdatePlanRequest extends Partial<CreatePlanRequest> {
+  active?: boolean;
+}
+
+export interface SubscribePlanRequest {
+  planId: string;
+}
+
+export class PlanLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanLimitError';
+  }
+}
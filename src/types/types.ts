@@ -1,6 +1,7 @@
 export interface WhatsAppConnection {
   id: string;
-  userId: string;
+  organizationId: string;
+  name?: string;
   qr?: string;
   status: 'connecting' | 'connected' | 'disconnected' | 'qr_pending' | 'code_pending';
   phoneNumber?: string;
@@ -8,6 +9,13 @@ export interface WhatsAppConnection {
   createdAt: Date;
   lastActivity?: Date;
   pairingCode?: string;
+  pairingMethod?: 'qr' | 'code';
+  online?: boolean;
+  shouldBeConnected?: boolean;
+  lastDisconnectReason?: number;
+  lastDisconnectAt?: Date;
+  lastConnectedAt?: Date;
+  lastSeenAt?: Date;
 }
 
 export interface SendMessageRequest {
@@ -28,6 +36,7 @@ export interface ValidateNumberRequest {
 }
 
 export interface ConnectionRequest {
+  name?: string;
   pairingMethod?: 'qr' | 'code';
   phoneNumber?: string;
 }
@@ -73,6 +82,7 @@ export interface ValidatedNumber {
   category?: string;
   isOnline?: boolean;
   lastSeen?: number;
+  cost?: number; // créditos cobrados pela validação (0 se coberta pela franquia do plano)
 }
 
 export interface ApiResponse<T = any> {
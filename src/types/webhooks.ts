@@ -0,0 +1,55 @@
+import { WhatsAppEventType } from './events';
+
+export interface Webhook {
+  id: string;
+  organizationId: string;
+  connectionId?: string;
+  url: string;
+  secret?: string;
+  events: WhatsAppEventType[];
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: any;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  statusCode?: number;
+  durationMs?: number;
+  error?: string;
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WhatsAppEventType[];
+  connectionId?: string;
+  description?: string;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: WhatsAppEventType[];
+  connectionId?: string | null;
+  description?: string;
+  active?: boolean;
+}
+
+export interface WebhookResponse {
+  success: boolean;
+  data?: Webhook | Webhook[] | WebhookDelivery | WebhookDelivery[] | any;
+  total?: number;
+  page?: number;
+  limit?: number;
+  totalPages?: number;
+  message?: string;
+  error?: string;
+}